@@ -0,0 +1,5 @@
+import RefinanceAnalysisPage from "@/components/refinance/refinance-page"
+
+export default function RefinancePage() {
+  return <RefinanceAnalysisPage />
+}
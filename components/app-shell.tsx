@@ -13,9 +13,10 @@ interface NavItem {
 const NAV: NavItem[] = [
   { label: 'Mortgage & Move',    href: '/' },
   { label: 'Compare',            href: '/compare' },
+  { label: 'Refinance',          href: '/refinance' },
   { label: 'Decision Rehearsal', href: '/decision-rehearsal' },
   { label: 'Home Sale',          href: '/home-sale',      soon: true },
-  { label: 'Ongoing Budget',     href: '/ongoing-budget', soon: true },
+  { label: 'Ongoing Budget',     href: '/ongoing-budget' },
 ]
 
 export default function AppShell({ children }: { children: React.ReactNode }) {
@@ -8,13 +8,14 @@ import {
   bandKeyFromScore,
   compute,
   type ModeKey,
+  type ModeMemory,
+  type RehearsalSession,
   type SliderState,
   type ToggleState,
 } from '@/lib/decision-rehearsal-engine'
-
-// ─── Types ────────────────────────────────────────────────────────────────────
-
-type ModeMemory = Partial<Record<ModeKey, { sliders: SliderState; toggles: ToggleState }>>
+import { STORAGE_KEYS } from '@/lib/storage'
+import { useAutosave } from '@/hooks/use-autosave'
+import SaveIndicator from '@/components/save-indicator'
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -110,6 +111,22 @@ export default function DrPage() {
     offer:    { sliders: defaultSliders('offer'),    toggles: defaultToggles('offer') },
   })
 
+  // ── Persistence ────────────────────────────────────────────────────────────
+  const session = useMemo<RehearsalSession>(
+    () => ({ mode, modes: { ...modeMemory.current, [mode]: { sliders, toggles } } }),
+    [mode, sliders, toggles],
+  )
+
+  const restoreSession = useCallback((stored: RehearsalSession) => {
+    modeMemory.current = { ...modeMemory.current, ...stored.modes }
+    const mem = stored.modes[stored.mode]
+    setModeState(stored.mode)
+    setSliders(mem?.sliders ?? defaultSliders(stored.mode))
+    setToggles(mem?.toggles ?? defaultToggles(stored.mode))
+  }, [])
+
+  const saveStatus = useAutosave(STORAGE_KEYS.rehearsalSession, session, { onHydrate: restoreSession })
+
   // ── Scoring ────────────────────────────────────────────────────────────────
   const result = useMemo(() => compute(mode, sliders, toggles), [mode, sliders, toggles])
 
@@ -211,6 +228,7 @@ export default function DrPage() {
         <div className="headerRow">
           <h1>Navigating a Change — Decision Rehearsal</h1>
           <div className="headerActions">
+            <SaveIndicator status={saveStatus} />
             <button
               id="dr-menu-btn"
               className="iconbtn secondary"
@@ -0,0 +1,310 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, CheckCircle2, Undo2 } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import {
+  EXTERNAL_ACCOUNT,
+  balanceHistory,
+  journalBalance,
+  reconcileBucket,
+  requiresLedger,
+  reverseJournalEntry,
+} from "@/lib/liquidity-engine"
+import type { Bucket, JournalEntry, JournalKind, LedgerEntry } from "@/lib/liquidity-engine"
+import type { BucketJournal as BucketJournalData, StatementBalance } from "@/lib/budget-data"
+
+interface BucketJournalProps {
+  buckets: Bucket[]
+  journal: BucketJournalData
+  // Throws when the journal refuses an entry; ledger entries cover money leaving ledger buckets
+  onRecord: (additions: JournalEntry[], ledgerAdditions?: LedgerEntry[]) => void
+  onStatementChange: (bucketId: string, statement: StatementBalance) => void
+}
+
+type ManualKind = Extract<JournalKind, "deposit" | "withdrawal" | "transfer">
+
+const MANUAL_KINDS: { id: ManualKind; label: string }[] = [
+  { id: "deposit", label: "Deposit into" },
+  { id: "withdrawal", label: "Withdraw from" },
+  { id: "transfer", label: "Transfer from" },
+]
+
+const KIND_LABELS: Record<JournalKind, string> = {
+  opening: "Opening",
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  transfer: "Transfer",
+  clearing: "Card paid",
+  reversal: "Reversal",
+}
+
+const HISTORY_SHOWN = 15
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function BucketJournal({ buckets, journal, onRecord, onStatementChange }: BucketJournalProps) {
+  const [bucketId, setBucketId] = useState(buckets[0]?.id ?? "")
+  const [draft, setDraft] = useState({ kind: "deposit" as ManualKind, amount: "", date: today(), reason: "", toId: "" })
+  const [error, setError] = useState<string | null>(null)
+  const [showAll, setShowAll] = useState(false)
+
+  const bucket = buckets.find((b) => b.id === bucketId) ?? buckets[0]
+  if (!bucket) return null
+
+  const history = balanceHistory(journal.entries, bucket.id).reverse()
+  const reversed = new Set(journal.entries.flatMap((e) => (e.reverses ? [e.reverses] : [])))
+  const statement = journal.statements[bucket.id]
+  const reconciliation = statement ? reconcileBucket(journal.entries, bucket.id, statement.balance, statement.asOf) : null
+  const bucketName = (id: string) => (id === EXTERNAL_ACCOUNT ? "outside" : buckets.find((b) => b.id === id)?.name ?? "deleted bucket")
+
+  // Money leaving a ledger bucket is logged in the reserve ledger, with the reason as its note
+  const needsLedger = draft.kind !== "deposit" && requiresLedger(bucket)
+
+  const attempt = (additions: () => [JournalEntry[], LedgerEntry[]]) => {
+    try {
+      onRecord(...additions())
+      setError(null)
+      return true
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      return false
+    }
+  }
+
+  const ledgerEntryFor = (bucketId: string, amount: number, date: string, note: string): LedgerEntry => ({
+    id: `ledger-${Date.now()}`,
+    bucketId,
+    date,
+    amount,
+    note,
+  })
+
+  const addEntry = () => {
+    const amount = Math.round(Number(draft.amount) * 100) / 100
+    if (!(amount > 0) || !draft.reason.trim() || (draft.kind === "transfer" && !draft.toId)) return
+    const [fromId, toId] =
+      draft.kind === "deposit"
+        ? [EXTERNAL_ACCOUNT, bucket.id]
+        : draft.kind === "withdrawal"
+          ? [bucket.id, EXTERNAL_ACCOUNT]
+          : [bucket.id, draft.toId]
+    const date = draft.date || today()
+    const reason = draft.reason.trim()
+    const ledgerEntry = needsLedger ? ledgerEntryFor(bucket.id, amount, date, reason) : undefined
+    const recorded = attempt(() => [
+      [
+        {
+          id: `journal-${Date.now()}`,
+          kind: draft.kind,
+          fromId,
+          toId,
+          amount,
+          date,
+          reason,
+          ...(ledgerEntry ? { ledgerEntryId: ledgerEntry.id } : {}),
+        },
+      ],
+      ledgerEntry ? [ledgerEntry] : [],
+    ])
+    if (recorded) setDraft({ ...draft, amount: "", reason: "" })
+  }
+
+  // Undoing money that came into a ledger bucket takes it back out, so that is logged too
+  const reverse = (entryId: string) => {
+    const original = journal.entries.find((e) => e.id === entryId)
+    const into = buckets.find((b) => b.id === original?.toId)
+    const date = today()
+    const ledgerEntry =
+      original && into && requiresLedger(into)
+        ? ledgerEntryFor(into.id, original.amount, date, `Reversal of ${original.reason}`)
+        : undefined
+    attempt(() => [
+      [reverseJournalEntry(journal.entries, entryId, { id: `journal-${Date.now()}`, date, ledgerEntryId: ledgerEntry?.id })],
+      ledgerEntry ? [ledgerEntry] : [],
+    ])
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">Bucket journal</CardTitle>
+          <Select value={bucket.id} onValueChange={setBucketId}>
+            <SelectTrigger className="h-8 w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {buckets.map((b) => (
+                <SelectItem key={b.id} value={b.id}>
+                  {b.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Balances are the sum of these entries. Nothing is edited or deleted — reverse an entry to undo it.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid gap-2 sm:grid-cols-2">
+          <div className="rounded-lg bg-muted/50 p-2.5">
+            <p className="text-xs text-muted-foreground">Journal balance</p>
+            <p className="text-lg font-semibold">{formatCurrency(journalBalance(journal.entries, bucket.id))}</p>
+            <p className="text-xs text-muted-foreground">
+              from {history.length} {history.length === 1 ? "entry" : "entries"}
+            </p>
+          </div>
+          <div className="space-y-1.5 rounded-lg bg-muted/50 p-2.5">
+            <p className="text-xs text-muted-foreground">Statement balance</p>
+            <div className="flex gap-1.5">
+              <Input
+                type="number"
+                value={statement?.balance ?? ""}
+                onChange={(e) => onStatementChange(bucket.id, { balance: Number(e.target.value) || 0, asOf: statement?.asOf ?? today() })}
+                placeholder="From your bank"
+                className="h-7"
+                aria-label="Statement balance"
+              />
+              <Input
+                type="date"
+                value={statement?.asOf ?? today()}
+                onChange={(e) => onStatementChange(bucket.id, { balance: statement?.balance ?? 0, asOf: e.target.value || today() })}
+                className="h-7 w-36"
+                aria-label="Statement date"
+              />
+            </div>
+            {reconciliation &&
+              (reconciliation.reconciled ? (
+                <p className="flex items-center gap-1 text-xs text-green-700">
+                  <CheckCircle2 size={12} />
+                  Reconciled as of {reconciliation.asOf}
+                </p>
+              ) : (
+                <p className="flex items-center gap-1 text-xs text-red-700">
+                  <AlertTriangle size={12} />
+                  Off by {formatCurrency(reconciliation.difference)} — journal shows {formatCurrency(reconciliation.derived)}
+                </p>
+              ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={draft.kind} onValueChange={(kind) => setDraft({ ...draft, kind: kind as ManualKind })}>
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MANUAL_KINDS.map((k) => (
+                <SelectItem key={k.id} value={k.id}>
+                  {k.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {draft.kind === "transfer" && (
+            <Select value={draft.toId} onValueChange={(toId) => setDraft({ ...draft, toId })}>
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue placeholder="To…" />
+              </SelectTrigger>
+              <SelectContent>
+                {buckets
+                  .filter((b) => b.id !== bucket.id)
+                  .map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Input
+            type="number"
+            min={0}
+            value={draft.amount}
+            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+            placeholder="Amount"
+            className="h-8 w-24"
+          />
+          <Input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className="h-8 w-36" />
+          <Input
+            value={draft.reason}
+            onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+            onKeyDown={(e) => e.key === "Enter" && addEntry()}
+            placeholder={needsLedger ? "Ledger note (required)" : "Reason"}
+            title={needsLedger ? `Logged in the reserve ledger — ${bucket.name} needs a note for money leaving it` : undefined}
+            className="h-8 min-w-32 flex-1"
+          />
+          <Button size="sm" variant="outline" onClick={addEntry}>
+            Record
+          </Button>
+        </div>
+
+        {error && (
+          <p className="flex items-start gap-2 rounded bg-red-50 px-2 py-1.5 text-xs text-red-700">
+            <AlertTriangle size={13} className="mt-0.5 shrink-0" />
+            {error}
+          </p>
+        )}
+
+        <table className="w-full text-xs">
+          <tbody>
+            {(showAll ? history : history.slice(0, HISTORY_SHOWN)).map(({ entry, change, balance }) => (
+              <tr key={entry.id} className={`group border-b border-border/50 last:border-0 ${reversed.has(entry.id) ? "opacity-50" : ""}`}>
+                <td className="py-1 pr-2 text-muted-foreground">{entry.date}</td>
+                <td className="py-1 pr-2">
+                  <Badge variant="secondary" className="mr-1.5 font-normal">
+                    {KIND_LABELS[entry.kind]}
+                  </Badge>
+                  {entry.reason}
+                  <span className="block text-muted-foreground">
+                    {bucketName(entry.fromId)} → {bucketName(entry.toId)}
+                  </span>
+                </td>
+                <td className={`py-1 pr-2 text-right font-mono ${change >= 0 ? "text-green-700" : "text-red-700"}`}>
+                  {change >= 0 ? "+" : "−"}
+                  {formatCurrency(Math.abs(change))}
+                </td>
+                <td className="py-1 pr-2 text-right font-mono">{formatCurrency(balance)}</td>
+                <td className="w-6 py-1 text-right">
+                  {entry.kind !== "reversal" && !reversed.has(entry.id) && (
+                    <button
+                      type="button"
+                      onClick={() => reverse(entry.id)}
+                      className="rounded p-1 text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100"
+                      title="Reverse this entry"
+                    >
+                      <Undo2 size={12} />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {history.length > HISTORY_SHOWN && (
+          <button
+            type="button"
+            onClick={() => setShowAll(!showAll)}
+            className="text-xs font-medium text-muted-foreground hover:text-foreground"
+          >
+            {showAll ? "Show recent" : `Show all ${history.length}`}
+          </button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
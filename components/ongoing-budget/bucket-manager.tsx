@@ -0,0 +1,284 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ChevronDown, ChevronRight, Plus, Trash2 } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import { isDormant, requiresLedger, requiresTransfer } from "@/lib/liquidity-engine"
+import type { Bucket, BucketConstraint, BucketType, TargetRule } from "@/lib/liquidity-engine"
+
+interface BucketManagerProps {
+  buckets: Bucket[]
+  onChange: (buckets: Bucket[]) => void
+  usedBucketIds: Set<string> // referenced by outstanding charges; can't be deleted
+  // Balances come from the journal, so an edited balance is recorded as an adjustment.
+  // Lowering a ledger bucket needs a ledger note; throws when the journal refuses.
+  onAdjustBalance: (bucketId: string, balance: number, ledgerNote?: string) => void
+}
+
+const BUCKET_TYPES: { id: BucketType; label: string; hint: string }[] = [
+  { id: "operating", label: "Operating", hint: "Day-to-day checking — hard liquidity" },
+  { id: "smoothing", label: "Smoothing", hint: "Peak-funded envelopes for variable bills" },
+  { id: "ledger_reserve", label: "Annual reserve", hint: "Held for annual obligations; withdrawals are logged" },
+  { id: "capital", label: "Capital", hint: "Longer-term savings, outside the LEI" },
+  { id: "clearing", label: "Clearing", hint: "Pays down card charges once they're funded" },
+]
+
+const TARGET_RULES: { id: TargetRule; label: string }[] = [
+  { id: "peak", label: "Peak month" },
+  { id: "fixed", label: "Fixed" },
+  { id: "goal", label: "Goal" },
+  { id: "none", label: "None" },
+]
+
+const CONSTRAINTS: { id: BucketConstraint; label: string }[] = [
+  { id: "none", label: "No constraint" },
+  { id: "ledger_required", label: "Ledger required" },
+  { id: "transfer_required", label: "Transfer required" },
+]
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function newBucket(): Bucket {
+  return {
+    id: `bucket-${Date.now()}`,
+    name: "New bucket",
+    type: "smoothing",
+    status: "active",
+    balance: 0,
+    targetRule: "none",
+    constraints: "none",
+  }
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function BucketManager({ buckets, onChange, usedBucketIds, onAdjustBalance }: BucketManagerProps) {
+  const [showDormant, setShowDormant] = useState(false)
+  // Balance text while it's being typed; recorded once on blur / Enter
+  const [balanceDrafts, setBalanceDrafts] = useState<Record<string, string>>({})
+  // A lowered ledger balance waits here for its ledger note
+  const [withdrawal, setWithdrawal] = useState<{ bucketId: string; balance: number; note: string } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const active = buckets.filter((b) => !isDormant(b))
+  const dormant = buckets.filter(isDormant)
+
+  const update = (id: string, patch: Partial<Bucket>) => {
+    onChange(buckets.map((b) => (b.id === id ? { ...b, ...patch } : b)))
+  }
+
+  const adjust = (bucketId: string, balance: number, ledgerNote?: string) => {
+    try {
+      onAdjustBalance(bucketId, balance, ledgerNote)
+      setError(null)
+      return true
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      return false
+    }
+  }
+
+  const commitBalance = (bucket: Bucket) => {
+    const draft = balanceDrafts[bucket.id]
+    if (draft === undefined) return
+    setBalanceDrafts(({ [bucket.id]: _done, ...rest }) => rest)
+    const balance = Number(draft) || 0
+    if (balance === bucket.balance) return
+    if (balance < bucket.balance && requiresLedger(bucket)) {
+      setWithdrawal({ bucketId: bucket.id, balance, note: "" })
+      return
+    }
+    adjust(bucket.id, balance)
+  }
+
+  const confirmWithdrawal = () => {
+    if (!withdrawal || !withdrawal.note.trim()) return
+    if (adjust(withdrawal.bucketId, withdrawal.balance, withdrawal.note)) setWithdrawal(null)
+  }
+
+  const remove = (id: string) => {
+    onChange(buckets.filter((b) => b.id !== id))
+  }
+
+  const renderRow = (bucket: Bucket) => {
+    const zzNamed = bucket.name.startsWith("zz")
+    const inUse = usedBucketIds.has(bucket.id)
+    const transferOnly = requiresTransfer(bucket)
+    const pending = withdrawal?.bucketId === bucket.id ? withdrawal : null
+    return (
+      <div key={bucket.id} className="space-y-1.5">
+        <div className="grid grid-cols-12 items-center gap-2 rounded-lg border border-border p-2 text-sm">
+          <Input
+            value={bucket.name}
+            onChange={(e) => update(bucket.id, { name: e.target.value })}
+            className="col-span-3 h-8"
+            aria-label="Bucket name"
+          />
+          <Select value={bucket.type} onValueChange={(value) => update(bucket.id, { type: value as BucketType })}>
+            <SelectTrigger className="col-span-2 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BUCKET_TYPES.map((t) => (
+                <SelectItem key={t.id} value={t.id} title={t.hint}>
+                  {t.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            value={balanceDrafts[bucket.id] ?? bucket.balance}
+            onChange={(e) => setBalanceDrafts({ ...balanceDrafts, [bucket.id]: e.target.value })}
+            onBlur={() => commitBalance(bucket)}
+            onKeyDown={(e) => e.key === "Enter" && commitBalance(bucket)}
+            readOnly={transferOnly}
+            className="col-span-2 h-8"
+            aria-label="Balance"
+            title={
+              transferOnly
+                ? "Transfer-required — move money in or out with a transfer in the bucket journal"
+                : "Changes are recorded in the bucket journal"
+            }
+          />
+          <Select value={bucket.targetRule} onValueChange={(value) => update(bucket.id, { targetRule: value as TargetRule })}>
+            <SelectTrigger className="col-span-2 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TARGET_RULES.map((r) => (
+                <SelectItem key={r.id} value={r.id}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={bucket.constraints}
+            onValueChange={(value) => update(bucket.id, { constraints: value as BucketConstraint })}
+          >
+            <SelectTrigger className="col-span-2 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONSTRAINTS.map((c) => (
+                <SelectItem key={c.id} value={c.id}>
+                  {c.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="col-span-1 flex items-center justify-end gap-1">
+            <Switch
+              checked={!isDormant(bucket)}
+              disabled={zzNamed}
+              onCheckedChange={(checked) => update(bucket.id, { status: checked ? "active" : "dormant" })}
+              title={zzNamed ? "zz-named buckets are always dormant — rename to reactivate" : "Active"}
+              aria-label="Active"
+            />
+            <button
+              type="button"
+              onClick={() => remove(bucket.id)}
+              disabled={inUse}
+              className="rounded p-1 text-red-500 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-30"
+              title={inUse ? "Charges are still matched to this bucket" : "Delete bucket"}
+            >
+              <Trash2 size={13} />
+            </button>
+          </div>
+        </div>
+        {pending && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg bg-amber-50 p-2 text-xs">
+            <span className="text-amber-800">
+              Takes {formatCurrency(bucket.balance - pending.balance)} out of {bucket.name} — logged in the reserve ledger
+            </span>
+            <Input
+              value={pending.note}
+              onChange={(e) => setWithdrawal({ ...pending, note: e.target.value })}
+              onKeyDown={(e) => e.key === "Enter" && confirmWithdrawal()}
+              placeholder="Ledger note (required)"
+              className="h-7 min-w-40 flex-1"
+              autoFocus
+            />
+            <Button size="sm" className="h-7" onClick={confirmWithdrawal} disabled={!pending.note.trim()}>
+              Record
+            </Button>
+            <Button size="sm" variant="ghost" className="h-7" onClick={() => setWithdrawal(null)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  const totalsByType = BUCKET_TYPES.map((t) => ({
+    ...t,
+    total: active.filter((b) => b.type === t.id).reduce((sum, b) => sum + b.balance, 0),
+  })).filter((t) => t.total !== 0)
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Buckets</CardTitle>
+          <Button size="sm" variant="outline" onClick={() => onChange([...buckets, newBucket()])} className="flex items-center gap-1.5">
+            <Plus size={14} />
+            Add bucket
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2 pt-1">
+          {totalsByType.map((t) => (
+            <Badge key={t.id} variant="secondary" className="font-normal" title={t.hint}>
+              {t.label}: {formatCurrency(t.total)}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="grid grid-cols-12 gap-2 px-2 text-xs text-muted-foreground">
+          <span className="col-span-3">Name</span>
+          <span className="col-span-2">Type</span>
+          <span className="col-span-2">Balance</span>
+          <span className="col-span-2">Target</span>
+          <span className="col-span-2">Constraint</span>
+          <span className="col-span-1 text-right">Active</span>
+        </div>
+        {active.map(renderRow)}
+        {error && (
+          <p className="flex items-start gap-2 rounded bg-red-50 px-2 py-1.5 text-xs text-red-700">
+            <AlertTriangle size={13} className="mt-0.5 shrink-0" />
+            {error}
+          </p>
+        )}
+
+        {dormant.length > 0 && (
+          <div className="pt-2">
+            <button
+              type="button"
+              onClick={() => setShowDormant(!showDormant)}
+              className="flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground"
+            >
+              {showDormant ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              Dormant ({dormant.length}) · {formatCurrency(dormant.reduce((sum, b) => sum + b.balance, 0))} not counted
+            </button>
+            {showDormant && (
+              <div className="mt-2 space-y-2 opacity-70">
+                <p className="text-xs text-muted-foreground">
+                  Dormant buckets — switched off, or named with a <span className="font-mono">zz</span> prefix — are left out of every
+                  total and the LEI.
+                </p>
+                {dormant.map(renderRow)}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
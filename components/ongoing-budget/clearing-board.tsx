@@ -0,0 +1,277 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, Plus, Sparkles, Trash2 } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import { CHARGE_TRANSITIONS, activeBuckets, clearingState, transitionCharge } from "@/lib/liquidity-engine"
+import type { Bucket, Charge, ChargeStatus } from "@/lib/liquidity-engine"
+import { autoMatchCharges, learnFromMatch, suggestMatches } from "@/lib/charge-rules"
+import type { MatchRuleSet } from "@/lib/charge-rules"
+import StatementImport from "./statement-import"
+
+interface ClearingBoardProps {
+  charges: Charge[]
+  onChange: (charges: Charge[]) => void
+  buckets: Bucket[]
+  rules: MatchRuleSet
+  onRulesChange: (rules: MatchRuleSet) => void
+  // Journal the money a step moves; both throw when the journal refuses it, and the charge then stays put
+  onFunded: (charge: Charge) => void // its bucket → the clearing bucket
+  onCleared: (charge: Charge) => void // the clearing bucket → paying off the card
+}
+
+const COLUMNS: { status: ChargeStatus; label: string; hint: string }[] = [
+  { status: "unmatched", label: "Unmatched", hint: "New charges — pick the bucket that pays for each" },
+  { status: "matched_unfunded", label: "Matched", hint: "Bucket chosen; marking it funded moves the money to clearing" },
+  { status: "funded", label: "Funded", hint: "Money is in clearing; marking it cleared pays the card from there" },
+  { status: "cleared", label: "Cleared", hint: "Paid off" },
+]
+
+// Button label for moving a charge into each status
+const ACTION_LABELS: Record<ChargeStatus, string> = {
+  unmatched: "Unmatch",
+  matched_unfunded: "Match",
+  funded: "Mark funded",
+  cleared: "Mark cleared",
+  ignored: "Ignore",
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+}
+
+// Pre-select the bucket whose name matches the charge's category hint
+function suggestedBucket(charge: Charge, buckets: Bucket[]): string | undefined {
+  const hint = charge.categoryHint?.toLowerCase()
+  return hint ? buckets.find((b) => b.name.toLowerCase() === hint)?.id : undefined
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function ClearingBoard({
+  charges,
+  onChange,
+  buckets,
+  rules,
+  onRulesChange,
+  onFunded,
+  onCleared,
+}: ClearingBoardProps) {
+  const [draft, setDraft] = useState({ merchant: "", amount: "", date: today() })
+  const [matchTo, setMatchTo] = useState<Record<string, string>>({})
+  const [showIgnored, setShowIgnored] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fundingBuckets = activeBuckets(buckets).filter((b) => b.type !== "clearing")
+  const clearingBucket = activeBuckets(buckets, "clearing")[0]
+  const state = clearingBucket ? clearingState(charges, clearingBucket) : null
+  const bucketName = (id?: string) => buckets.find((b) => b.id === id)?.name ?? "Unknown bucket"
+  const ignored = charges.filter((c) => c.status === "ignored")
+  const suggestions = suggestMatches(charges, rules, buckets)
+  const selectedBucket = (charge: Charge) =>
+    matchTo[charge.id] ?? suggestions[charge.id]?.bucketId ?? suggestedBucket(charge, fundingBuckets)
+
+  // New charges go through the rules first; in suggest mode this changes nothing
+  const addCharges = (next: Charge[]) => onChange(autoMatchCharges(next, rules, buckets).charges)
+
+  // The status only changes once its money movement is journaled
+  const move = (charge: Charge, to: ChargeStatus) => {
+    const bucketId = to === "matched_unfunded" ? selectedBucket(charge) : undefined
+    try {
+      const next = charges.map((c) => (c.id === charge.id ? transitionCharge(c, to, bucketId) : c))
+      if (to === "funded") onFunded(charge)
+      if (to === "cleared") onCleared(charge)
+      onChange(next)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      return
+    }
+    if (to === "matched_unfunded" && bucketId) onRulesChange(learnFromMatch(rules, charge, bucketId))
+  }
+
+  // Accepting suggestions in bulk doesn't count as confirming the rules
+  const matchSuggested = () => {
+    onChange(charges.map((c) => (suggestions[c.id] ? transitionCharge(c, "matched_unfunded", suggestions[c.id].bucketId) : c)))
+  }
+
+  const addCharge = () => {
+    const amount = Number(draft.amount)
+    if (!draft.merchant.trim() || !(amount > 0)) return
+    addCharges([
+      ...charges,
+      { id: `charge-${Date.now()}`, merchant: draft.merchant.trim(), amount, date: draft.date || today(), status: "unmatched" },
+    ])
+    setDraft({ merchant: "", amount: "", date: draft.date })
+  }
+
+  const renderCard = (charge: Charge) => {
+    const selected = selectedBucket(charge)
+    const suggestion = !matchTo[charge.id] ? suggestions[charge.id] : undefined
+    return (
+      <div key={charge.id} className="group space-y-1.5 rounded-lg border border-border bg-card p-2 text-sm">
+        <div className="flex items-baseline justify-between gap-2">
+          <span className="truncate font-medium" title={charge.memo}>
+            {charge.merchant}
+          </span>
+          <span className="font-semibold">{formatCurrency(charge.amount)}</span>
+        </div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{charge.date}</span>
+          {charge.bucketId ? <span>{bucketName(charge.bucketId)}</span> : charge.categoryHint && <span>{charge.categoryHint}?</span>}
+        </div>
+        {suggestion && (
+          <p className="flex items-center gap-1 text-xs text-primary" title="Suggested by a matching rule">
+            <Sparkles size={11} />
+            {Math.round(suggestion.confidence * 100)}% rule match
+          </p>
+        )}
+        {charge.status === "unmatched" && (
+          <Select value={selected ?? ""} onValueChange={(value) => setMatchTo({ ...matchTo, [charge.id]: value })}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue placeholder="Pay from…" />
+            </SelectTrigger>
+            <SelectContent>
+              {fundingBuckets.map((b) => (
+                <SelectItem key={b.id} value={b.id}>
+                  {b.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-center gap-1">
+          {CHARGE_TRANSITIONS[charge.status].map((to) => (
+            <Button
+              key={to}
+              size="sm"
+              variant={to === "ignored" ? "ghost" : "outline"}
+              className="h-6 px-2 text-xs"
+              disabled={to === "matched_unfunded" && !selected}
+              onClick={() => move(charge, to)}
+            >
+              {ACTION_LABELS[to]}
+            </Button>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange(charges.filter((c) => c.id !== charge.id))}
+            className="ml-auto rounded p-1 text-red-500 opacity-0 hover:bg-red-50 group-hover:opacity-100"
+            title="Delete charge"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Card clearing</CardTitle>
+          <StatementImport charges={charges} onImport={addCharges} />
+        </div>
+        {state ? (
+          <div className="grid grid-cols-2 gap-2 pt-1 text-sm sm:grid-cols-4">
+            <div>
+              <p className="text-xs text-muted-foreground">Outstanding</p>
+              <p className="font-semibold">{formatCurrency(state.outstandingTotal)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Funded</p>
+              <p className="font-semibold">{formatCurrency(state.fundedTotal)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Unfunded float</p>
+              <p className={`font-semibold ${state.clearingFloat > 0 ? "text-red-700" : "text-green-700"}`}>
+                {formatCurrency(state.clearingFloat)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Integrity</p>
+              <p className="font-semibold">{Math.round(state.clearingIntegrity * 100)}%</p>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-amber-700">Add an active clearing bucket to track funding against card charges.</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={draft.merchant}
+            onChange={(e) => setDraft({ ...draft, merchant: e.target.value })}
+            placeholder="Merchant"
+            className="h-8 w-40"
+          />
+          <Input
+            type="number"
+            min={0}
+            value={draft.amount}
+            onChange={(e) => setDraft({ ...draft, amount: e.target.value })}
+            onKeyDown={(e) => e.key === "Enter" && addCharge()}
+            placeholder="Amount"
+            className="h-8 w-28"
+          />
+          <Input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} className="h-8 w-40" />
+          <Button size="sm" variant="outline" onClick={addCharge} className="flex items-center gap-1.5">
+            <Plus size={14} />
+            Add charge
+          </Button>
+        </div>
+
+        {error && (
+          <p className="flex items-start gap-2 rounded bg-red-50 px-2 py-1.5 text-xs text-red-700">
+            <AlertTriangle size={13} className="mt-0.5 shrink-0" />
+            {error}
+          </p>
+        )}
+
+        <div className="grid gap-3 md:grid-cols-4">
+          {COLUMNS.map((column) => {
+            const inColumn = charges.filter((c) => c.status === column.status)
+            return (
+              <div key={column.status} className="space-y-2 rounded-lg bg-muted/40 p-2">
+                <div title={column.hint}>
+                  <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    {column.label} ({inColumn.length})
+                  </p>
+                  <p className="text-xs text-muted-foreground">{formatCurrency(inColumn.reduce((sum, c) => sum + c.amount, 0))}</p>
+                </div>
+                {column.status === "unmatched" && Object.keys(suggestions).length > 0 && (
+                  <Button size="sm" variant="ghost" onClick={matchSuggested} className="h-6 w-full px-2 text-xs">
+                    <Sparkles size={12} className="mr-1" />
+                    Match suggested ({Object.keys(suggestions).length})
+                  </Button>
+                )}
+                {inColumn.map(renderCard)}
+              </div>
+            )
+          })}
+        </div>
+
+        {ignored.length > 0 && (
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowIgnored(!showIgnored)}
+              className="text-xs font-medium text-muted-foreground hover:text-foreground"
+            >
+              {showIgnored ? "Hide" : "Show"} ignored ({ignored.length})
+            </button>
+            {showIgnored && <div className="mt-2 grid gap-2 opacity-60 md:grid-cols-4">{ignored.map(renderCard)}</div>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
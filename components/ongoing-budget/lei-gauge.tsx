@@ -0,0 +1,195 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Plus, Trash2 } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import type { LEIBreakdown, LEIResult } from "@/lib/liquidity-engine"
+import type { BudgetSettings } from "@/lib/budget-data"
+
+interface LeiGaugeProps {
+  result: LEIResult
+  settings: BudgetSettings
+  onSettingsChange: (settings: BudgetSettings) => void
+}
+
+type BreakdownFormat = "money" | "ratio" | "share"
+
+// Every LEIBreakdown field, in the order the formula builds them
+const BREAKDOWN_ROWS = [
+  { field: "lHard", label: "Hard liquidity", hint: "Active operating balances", format: "money" },
+  { field: "lSoft", label: "Soft liquidity", hint: "Active smoothing balances", format: "money" },
+  { field: "lCommitted", label: "Committed reserve", hint: "Reserve covering unpaid obligations", format: "money" },
+  { field: "aExcess", label: "Reserve excess", hint: "Reserve above obligations + buffer", format: "money" },
+  { field: "lRealloc", label: "Reallocable", hint: "Soft liquidity + reserve excess", format: "money" },
+  { field: "constraints", label: "Constraints", hint: "Unpaid obligations + unfunded card float", format: "money" },
+  { field: "elasticity", label: "Elasticity", hint: "Reallocable ÷ constraints", format: "ratio" },
+  { field: "eNorm", label: "Elasticity (normalized)", hint: "E ÷ (E + 1); weighted 60%", format: "share" },
+  { field: "volShield", label: "Volatility shield", hint: "Share of peak spend absorbed by peak funding; weighted 20%", format: "share" },
+  { field: "clearInt", label: "Clearing integrity", hint: "Funded share of card exposure; weighted 20%", format: "share" },
+] as const satisfies readonly { field: keyof LEIBreakdown; label: string; hint: string; format: BreakdownFormat }[]
+
+const GAUGE_BANDS = [
+  { upTo: 40, label: "Rigid", color: "#dc2626" },
+  { upTo: 70, label: "Elastic", color: "#d97706" },
+  { upTo: 100, label: "Flexible", color: "#16a34a" },
+]
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function formatBreakdown(value: number, format: BreakdownFormat): string {
+  if (format === "money") return formatCurrency(value)
+  if (format === "share") return `${Math.round(value * 100)}%`
+  return value.toFixed(2)
+}
+
+// Point on the gauge arc for a 0–100 score (180° sweep, left to right)
+function arcPoint(score: number, radius: number): [number, number] {
+  const angle = Math.PI * (1 - score / 100)
+  return [60 + radius * Math.cos(angle), 60 - radius * Math.sin(angle)]
+}
+
+function arcPath(from: number, to: number, radius: number): string {
+  const [x1, y1] = arcPoint(from, radius)
+  const [x2, y2] = arcPoint(to, radius)
+  return `M ${x1} ${y1} A ${radius} ${radius} 0 0 1 ${x2} ${y2}`
+}
+
+function parseMonths(text: string): number[] | null {
+  const months = text.split(/[,\s]+/).filter(Boolean).map(Number)
+  return months.length === 12 && months.every((m) => Number.isFinite(m) && m >= 0) ? months : null
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function LeiGauge({ result, settings, onSettingsChange }: LeiGaugeProps) {
+  const { lei, breakdown } = result
+  const band = GAUGE_BANDS.find((b) => lei <= b.upTo) ?? GAUGE_BANDS[GAUGE_BANDS.length - 1]
+  // Raw text per category while it's being edited; committed once it parses to 12 months
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [newCategory, setNewCategory] = useState("")
+
+  const setMonths = (category: string, text: string) => {
+    setDrafts({ ...drafts, [category]: text })
+    const months = parseMonths(text)
+    if (months) onSettingsChange({ ...settings, vars12mo: { ...settings.vars12mo, [category]: months } })
+  }
+
+  const removeCategory = (category: string) => {
+    const { [category]: _removed, ...rest } = settings.vars12mo
+    onSettingsChange({ ...settings, vars12mo: rest })
+  }
+
+  const addCategory = () => {
+    const name = newCategory.trim()
+    if (!name || name in settings.vars12mo) return
+    onSettingsChange({ ...settings, vars12mo: { ...settings.vars12mo, [name]: Array(12).fill(0) } })
+    setNewCategory("")
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Liquidity Elasticity Index</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col items-center">
+          <svg viewBox="0 0 120 70" className="w-56" role="img" aria-label={`LEI ${Math.round(lei)} of 100, ${band.label}`}>
+            {GAUGE_BANDS.map((b, i) => (
+              <path
+                key={b.label}
+                d={arcPath(i === 0 ? 0 : GAUGE_BANDS[i - 1].upTo, b.upTo, 50)}
+                stroke={b.color}
+                strokeOpacity={0.2}
+                strokeWidth={10}
+                fill="none"
+              />
+            ))}
+            {lei > 0 && <path d={arcPath(0, lei, 50)} stroke={band.color} strokeWidth={10} fill="none" strokeLinecap="round" />}
+            <text x={60} y={56} textAnchor="middle" className="fill-foreground text-[18px] font-bold">
+              {Math.round(lei)}
+            </text>
+            <text x={60} y={67} textAnchor="middle" className="fill-muted-foreground text-[7px]">
+              {band.label}
+            </text>
+          </svg>
+          <p className="text-xs text-muted-foreground">
+            60% elasticity · 20% volatility shield · 20% clearing integrity
+          </p>
+        </div>
+
+        <table className="w-full text-sm">
+          <tbody>
+            {BREAKDOWN_ROWS.map((row) => (
+              <tr key={row.field} className="border-b border-border/50 last:border-0" title={row.hint}>
+                <td className="py-1">
+                  {row.label}
+                  <span className="block text-xs text-muted-foreground">{row.hint}</span>
+                </td>
+                <td className="py-1 text-right font-mono">{formatBreakdown(breakdown[row.field], row.format)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="space-y-2 rounded-lg bg-muted/50 p-3">
+          <label className="flex items-center justify-between gap-2 text-sm">
+            <span>
+              Reserve buffer
+              <span className="block text-xs text-muted-foreground">Kept above obligations before any excess counts</span>
+            </span>
+            <Input
+              type="number"
+              min={0}
+              value={settings.buffer}
+              onChange={(e) => onSettingsChange({ ...settings, buffer: Math.max(0, Number(e.target.value) || 0) })}
+              className="h-8 w-28"
+            />
+          </label>
+
+          <p className="pt-1 text-sm">
+            Variable spend, last 12 months
+            <span className="block text-xs text-muted-foreground">Feeds the volatility shield; 12 comma-separated amounts</span>
+          </p>
+          {Object.entries(settings.vars12mo).map(([category, months]) => {
+            const text = drafts[category] ?? months.join(", ")
+            return (
+              <div key={category} className="flex items-center gap-2">
+                <span className="w-24 truncate text-xs font-medium">{category}</span>
+                <Input
+                  value={text}
+                  onChange={(e) => setMonths(category, e.target.value)}
+                  onBlur={() => setDrafts(({ [category]: _done, ...rest }) => rest)}
+                  className={`h-7 font-mono text-xs ${parseMonths(text) ? "" : "border-red-400"}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeCategory(category)}
+                  className="rounded p-1 text-red-500 hover:bg-red-50"
+                  title="Remove category"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            )
+          })}
+          <div className="flex items-center gap-2">
+            <Input
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && addCategory()}
+              placeholder="New category"
+              className="h-7 w-40 text-xs"
+            />
+            <Button size="sm" variant="ghost" onClick={addCategory} className="h-7 px-2 text-xs">
+              <Plus size={12} className="mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
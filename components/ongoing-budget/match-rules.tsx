@@ -0,0 +1,221 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react"
+import { activeBuckets } from "@/lib/liquidity-engine"
+import type { Bucket } from "@/lib/liquidity-engine"
+import { compilePattern } from "@/lib/charge-rules"
+import type { MatchMode, MatchRule, MatchRuleSet } from "@/lib/charge-rules"
+
+interface MatchRulesProps {
+  ruleSet: MatchRuleSet
+  onChange: (ruleSet: MatchRuleSet) => void
+  buckets: Bucket[]
+}
+
+const MODES: { id: MatchMode; label: string; hint: string }[] = [
+  { id: "suggest", label: "Suggest", hint: "Pre-fill the bucket on unmatched charges; you confirm each one" },
+  { id: "auto", label: "Auto-apply", hint: "Match new and imported charges straight away when a rule is confident enough" },
+]
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function optionalAmount(text: string): number | undefined {
+  return text.trim() === "" ? undefined : Math.max(0, Number(text) || 0)
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function MatchRules({ ruleSet, onChange, buckets }: MatchRulesProps) {
+  const { rules } = ruleSet
+  const fundingBuckets = activeBuckets(buckets).filter((b) => b.type !== "clearing")
+
+  const setRules = (next: MatchRule[]) => onChange({ ...ruleSet, rules: next })
+
+  const update = (id: string, patch: Partial<MatchRule>) => {
+    setRules(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)))
+  }
+
+  const move = (index: number, by: -1 | 1) => {
+    const next = [...rules]
+    ;[next[index], next[index + by]] = [next[index + by], next[index]]
+    setRules(next)
+  }
+
+  const add = () => {
+    const bucketId = fundingBuckets[0]?.id
+    if (!bucketId) return
+    setRules([
+      ...rules,
+      { id: `rule-${Date.now()}`, bucketId, merchantPattern: "", confidence: 0.8, enabled: true, learned: false, hits: 0 },
+    ])
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">Matching rules</CardTitle>
+          <div className="flex items-center gap-2 text-sm">
+            {MODES.map(({ id, label, hint }) => (
+              <button
+                key={id}
+                type="button"
+                title={hint}
+                onClick={() => onChange({ ...ruleSet, mode: id })}
+                className={`rounded-md border px-3 py-1 ${
+                  ruleSet.mode === id ? "border-primary bg-primary/10 font-medium text-primary" : "border-border text-muted-foreground"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            {ruleSet.mode === "auto" && (
+              <label className="flex items-center gap-1 text-xs text-muted-foreground" title="Only rules at least this confident auto-apply">
+                at ≥
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Math.round(ruleSet.autoThreshold * 100)}
+                  onChange={(e) => onChange({ ...ruleSet, autoThreshold: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+                  className="h-7 w-16 text-xs"
+                />
+                %
+              </label>
+            )}
+            <Button size="sm" variant="outline" onClick={add} disabled={fundingBuckets.length === 0} className="flex items-center gap-1.5">
+              <Plus size={14} />
+              Add rule
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          First matching rule wins. Matching a charge by hand confirms the rule that suggested it, or learns a new one for that
+          merchant.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="grid grid-cols-12 gap-2 px-2 text-xs text-muted-foreground">
+          <span className="col-span-1" />
+          <span className="col-span-3">Merchant pattern</span>
+          <span className="col-span-2">Category hint</span>
+          <span className="col-span-2">Amount range</span>
+          <span className="col-span-2">Pay from</span>
+          <span className="col-span-1">Confidence</span>
+          <span className="col-span-1 text-right">On</span>
+        </div>
+        {rules.length === 0 && <p className="px-2 text-sm text-muted-foreground">No rules yet — match a charge to learn one.</p>}
+        {rules.map((rule, index) => {
+          const patternValid = !rule.merchantPattern || compilePattern(rule.merchantPattern) !== null
+          return (
+            <div
+              key={rule.id}
+              className={`group grid grid-cols-12 items-center gap-2 rounded-lg border border-border p-2 text-sm ${rule.enabled ? "" : "opacity-60"}`}
+            >
+              <div className="col-span-1 flex flex-col items-center">
+                <button
+                  type="button"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  className="rounded text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Higher priority"
+                >
+                  <ChevronUp size={14} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, 1)}
+                  disabled={index === rules.length - 1}
+                  className="rounded text-muted-foreground hover:text-foreground disabled:opacity-30"
+                  title="Lower priority"
+                >
+                  <ChevronDown size={14} />
+                </button>
+              </div>
+              <div className="col-span-3 space-y-1">
+                <Input
+                  value={rule.merchantPattern ?? ""}
+                  onChange={(e) => update(rule.id, { merchantPattern: e.target.value || undefined })}
+                  placeholder="any merchant"
+                  className={`h-8 font-mono text-xs ${patternValid ? "" : "border-red-400"}`}
+                  aria-label="Merchant pattern"
+                  title={patternValid ? "Regular expression, case-insensitive" : "Not a valid regular expression — rule is skipped"}
+                />
+                {rule.learned && (
+                  <Badge variant="secondary" className="font-normal">
+                    Learned · {rule.hits} {rule.hits === 1 ? "match" : "matches"}
+                  </Badge>
+                )}
+              </div>
+              <Input
+                value={rule.categoryHint ?? ""}
+                onChange={(e) => update(rule.id, { categoryHint: e.target.value || undefined })}
+                placeholder="any"
+                className="col-span-2 h-8"
+                aria-label="Category hint"
+              />
+              <div className="col-span-2 flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  value={rule.minAmount ?? ""}
+                  onChange={(e) => update(rule.id, { minAmount: optionalAmount(e.target.value) })}
+                  placeholder="min"
+                  className="h-8 px-2"
+                  aria-label="Minimum amount"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={rule.maxAmount ?? ""}
+                  onChange={(e) => update(rule.id, { maxAmount: optionalAmount(e.target.value) })}
+                  placeholder="max"
+                  className="h-8 px-2"
+                  aria-label="Maximum amount"
+                />
+              </div>
+              <Select value={rule.bucketId} onValueChange={(bucketId) => update(rule.id, { bucketId })}>
+                <SelectTrigger className="col-span-2 h-8">
+                  <SelectValue placeholder="Missing bucket" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fundingBuckets.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(rule.confidence * 100)}
+                onChange={(e) => update(rule.id, { confidence: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+                className="col-span-1 h-8 px-2"
+                aria-label="Confidence %"
+              />
+              <div className="col-span-1 flex items-center justify-end gap-1">
+                <Switch checked={rule.enabled} onCheckedChange={(enabled) => update(rule.id, { enabled })} aria-label="Enabled" />
+                <button
+                  type="button"
+                  onClick={() => setRules(rules.filter((r) => r.id !== rule.id))}
+                  className="rounded p-1 text-red-500 opacity-0 hover:bg-red-50 group-hover:opacity-100"
+                  title="Delete rule"
+                >
+                  <Trash2 size={13} />
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,165 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import { annualExcess, monthsUntilDue, requiredAnnualReserve } from "@/lib/liquidity-engine"
+import type { Obligation, ObligationFrequency } from "@/lib/liquidity-engine"
+
+interface ObligationListProps {
+  obligations: Obligation[]
+  onChange: (obligations: Obligation[]) => void
+  reserveBalance: number // active ledger_reserve balances
+  buffer: number
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+const FREQUENCIES: { id: ObligationFrequency; label: string }[] = [
+  { id: "annual", label: "Yearly" },
+  { id: "semiannual", label: "Every 6 mo" },
+  { id: "quarterly", label: "Quarterly" },
+]
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function dueLabel(months: number): string {
+  if (months === 0) return "Due this month"
+  if (months === 1) return "Due next month"
+  return `Due in ${months} months`
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function ObligationList({ obligations, onChange, reserveBalance, buffer }: ObligationListProps) {
+  const currentMonth = new Date().getMonth() + 1
+  const sorted = [...obligations].sort(
+    (a, b) => Number(a.paid) - Number(b.paid) || monthsUntilDue(a, currentMonth) - monthsUntilDue(b, currentMonth),
+  )
+  const required = requiredAnnualReserve(obligations)
+  const shortfall = Math.max(0, required - reserveBalance)
+  const excess = annualExcess(reserveBalance, required, buffer)
+
+  const update = (id: string, patch: Partial<Obligation>) => {
+    onChange(obligations.map((o) => (o.id === id ? { ...o, ...patch } : o)))
+  }
+
+  const add = () => {
+    onChange([...obligations, { id: `obligation-${Date.now()}`, name: "New obligation", expectedCost: 0, dueMonth: currentMonth, paid: false }])
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Annual obligations</CardTitle>
+          <Button size="sm" variant="outline" onClick={add} className="flex items-center gap-1.5">
+            <Plus size={14} />
+            Add
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sorted.map((obligation) => {
+          const months = monthsUntilDue(obligation, currentMonth)
+          return (
+            <div
+              key={obligation.id}
+              className={`grid grid-cols-12 items-center gap-2 rounded-lg border border-border p-2 text-sm ${obligation.paid ? "opacity-60" : ""}`}
+            >
+              <Input
+                value={obligation.name}
+                onChange={(e) => update(obligation.id, { name: e.target.value })}
+                className="col-span-3 h-8"
+                aria-label="Obligation"
+              />
+              <Input
+                type="number"
+                min={0}
+                value={obligation.expectedCost}
+                onChange={(e) => update(obligation.id, { expectedCost: Math.max(0, Number(e.target.value) || 0) })}
+                className="col-span-2 h-8"
+                aria-label="Expected cost"
+              />
+              <Select
+                value={String(obligation.dueMonth)}
+                onValueChange={(value) => update(obligation.id, { dueMonth: Number(value) })}
+              >
+                <SelectTrigger className="col-span-1 h-8 px-2" title="First due month">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MONTHS.map((label, i) => (
+                    <SelectItem key={label} value={String(i + 1)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={obligation.frequency ?? "annual"}
+                onValueChange={(value) => update(obligation.id, { frequency: value as ObligationFrequency })}
+              >
+                <SelectTrigger className="col-span-2 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FREQUENCIES.map((f) => (
+                    <SelectItem key={f.id} value={f.id}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="col-span-2 text-xs text-muted-foreground">
+                {obligation.paid ? (
+                  <Badge variant="secondary" className="font-normal">Paid</Badge>
+                ) : (
+                  <span className={months <= 1 ? "font-medium text-amber-700" : ""}>{dueLabel(months)}</span>
+                )}
+              </span>
+              <div className="col-span-2 flex items-center justify-end gap-1">
+                <Switch
+                  checked={obligation.paid}
+                  onCheckedChange={(paid) => update(obligation.id, { paid })}
+                  aria-label="Paid"
+                  title="Paid this year"
+                />
+                <button
+                  type="button"
+                  onClick={() => onChange(obligations.filter((o) => o.id !== obligation.id))}
+                  className="rounded p-1 text-red-500 hover:bg-red-50"
+                  title="Delete obligation"
+                >
+                  <Trash2 size={13} />
+                </button>
+              </div>
+            </div>
+          )
+        })}
+
+        <div className="grid grid-cols-3 gap-2 pt-2 text-sm">
+          <div className="rounded-lg bg-muted/50 p-2.5">
+            <p className="text-xs text-muted-foreground">Required reserve (unpaid)</p>
+            <p className="font-semibold">{formatCurrency(required)}</p>
+          </div>
+          <div className="rounded-lg bg-muted/50 p-2.5">
+            <p className="text-xs text-muted-foreground">Reserve balance</p>
+            <p className="font-semibold">{formatCurrency(reserveBalance)}</p>
+          </div>
+          <div className={`rounded-lg p-2.5 ${shortfall > 0 ? "bg-red-50" : "bg-green-50"}`}>
+            <p className="text-xs text-muted-foreground">{shortfall > 0 ? "Shortfall" : `Excess over ${formatCurrency(buffer)} buffer`}</p>
+            <p className={`font-semibold ${shortfall > 0 ? "text-red-700" : "text-green-700"}`}>
+              {formatCurrency(shortfall > 0 ? shortfall : excess)}
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
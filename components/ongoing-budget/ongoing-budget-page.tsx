@@ -0,0 +1,310 @@
+"use client"
+
+import { useEffect, useMemo } from "react"
+import { z } from "zod"
+import {
+  EXTERNAL_ACCOUNT,
+  activeBuckets,
+  annualReserveBalance,
+  appendJournalEntries,
+  journalCatchUp,
+  liquidityElasticityIndex,
+  outstandingCharges,
+  requiresLedger,
+  runJournalEntries,
+  withJournalBalances,
+} from "@/lib/liquidity-engine"
+import type { Bucket, Charge, ExecutionState, JournalEntry, LedgerEntry, Obligation } from "@/lib/liquidity-engine"
+import {
+  budgetSettingsSchema,
+  bucketJournalSchema,
+  bucketSchema,
+  chargeSchema,
+  defaultBucketJournal,
+  defaultBudgetSettings,
+  defaultBuckets,
+  defaultCharges,
+  defaultMatchRules,
+  defaultObligations,
+  defaultPressureValve,
+  defaultRedistributionJournal,
+  matchRuleSetSchema,
+  obligationSchema,
+  pressureValveSchema,
+  redistributionJournalSchema,
+} from "@/lib/budget-data"
+import type {
+  BucketJournal as BucketJournalData,
+  BudgetSettings,
+  PressureValveSettings,
+  RedistributionJournal,
+  StatementBalance,
+} from "@/lib/budget-data"
+import type { MatchRuleSet } from "@/lib/charge-rules"
+import { parseOrThrow } from "@/lib/profile-schema"
+import { STORAGE_KEYS } from "@/lib/storage"
+import { combineAutosaveStatus, usePersistentState } from "@/hooks/use-autosave"
+import SaveIndicator from "@/components/save-indicator"
+import BucketManager from "./bucket-manager"
+import BucketJournal from "./bucket-journal"
+import ObligationList from "./obligation-list"
+import ClearingBoard from "./clearing-board"
+import LeiGauge from "./lei-gauge"
+import MatchRules from "./match-rules"
+import PressureValve from "./pressure-valve"
+import SinkingFund from "./sinking-fund"
+
+// Stored copies are validated on load; a bad one is dropped in favour of the defaults
+const bucketsSchema = z.array(bucketSchema)
+const obligationsSchema = z.array(obligationSchema)
+const chargesSchema = z.array(chargeSchema)
+
+// Local calendar date; toISOString() would give tomorrow's in the evening west of UTC
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+}
+
+export default function OngoingBudgetPage() {
+  const [storedBuckets, setBuckets, bucketsStatus] = usePersistentState<Bucket[]>(STORAGE_KEYS.liquidityBuckets, defaultBuckets, {
+    revive: (stored) => parseOrThrow(bucketsSchema, stored),
+  })
+  const [obligations, setObligations, obligationsStatus] = usePersistentState<Obligation[]>(
+    STORAGE_KEYS.liquidityObligations,
+    defaultObligations,
+    { revive: (stored) => parseOrThrow(obligationsSchema, stored) },
+  )
+  const [charges, setCharges, chargesStatus] = usePersistentState<Charge[]>(STORAGE_KEYS.liquidityCharges, defaultCharges, {
+    revive: (stored) => parseOrThrow(chargesSchema, stored),
+  })
+  const [settings, setSettings, settingsStatus] = usePersistentState<BudgetSettings>(
+    STORAGE_KEYS.budgetSettings,
+    defaultBudgetSettings,
+    { revive: (stored) => parseOrThrow(budgetSettingsSchema, stored) },
+  )
+  const [matchRules, setMatchRules, matchRulesStatus] = usePersistentState<MatchRuleSet>(
+    STORAGE_KEYS.chargeMatchRules,
+    defaultMatchRules,
+    { revive: (stored) => parseOrThrow(matchRuleSetSchema, stored) },
+  )
+  const [pressureValve, setPressureValve, pressureValveStatus] = usePersistentState<PressureValveSettings>(
+    STORAGE_KEYS.pressureValve,
+    defaultPressureValve,
+    { revive: (stored) => parseOrThrow(pressureValveSchema, stored) },
+  )
+  const [valveJournal, setValveJournal, valveJournalStatus] = usePersistentState<RedistributionJournal>(
+    STORAGE_KEYS.redistributionJournal,
+    defaultRedistributionJournal,
+    { revive: (stored) => parseOrThrow(redistributionJournalSchema, stored) },
+  )
+  const [bucketJournal, setBucketJournal, bucketJournalStatus] = usePersistentState<BucketJournalData>(
+    STORAGE_KEYS.bucketJournal,
+    defaultBucketJournal,
+    { revive: (stored) => parseOrThrow(bucketJournalSchema, stored) },
+  )
+  const saveStatus = combineAutosaveStatus(
+    bucketsStatus,
+    obligationsStatus,
+    chargesStatus,
+    settingsStatus,
+    matchRulesStatus,
+    pressureValveStatus,
+    valveJournalStatus,
+    bucketJournalStatus,
+  )
+
+  // Buckets the journal has never seen — first visit, a bucket added before any entry — get an opening entry once
+  const journalReady = bucketsStatus.hydrated && bucketJournalStatus.hydrated
+  useEffect(() => {
+    if (!journalReady) return
+    const openings = journalCatchUp(storedBuckets, bucketJournal.entries, { date: today(), idPrefix: `journal-open-${Date.now()}` })
+    if (openings.length > 0) setBucketJournal({ ...bucketJournal, entries: [...bucketJournal.entries, ...openings] })
+  }, [journalReady, storedBuckets, bucketJournal, setBucketJournal])
+
+  // Balances always come from the journal; the stored copy is only a cache that may lag
+  // behind it (the two keys save separately)
+  const buckets = useMemo(
+    () => (journalReady ? withJournalBalances(storedBuckets, bucketJournal.entries) : storedBuckets),
+    [journalReady, storedBuckets, bucketJournal.entries],
+  )
+
+  // Every balance change goes through here: journal first, buckets derived from it.
+  // Money leaving a ledger bucket brings its new ledger entries along.
+  const record = (additions: JournalEntry[], ledgerAdditions: LedgerEntry[] = []) => {
+    const ledger = [...valveJournal.ledger, ...ledgerAdditions]
+    const entries = appendJournalEntries(bucketJournal.entries, additions, { buckets, ledger })
+    setBucketJournal({ ...bucketJournal, entries })
+    setBuckets(withJournalBalances(buckets, entries))
+    if (ledgerAdditions.length > 0) setValveJournal({ ...valveJournal, ledger })
+  }
+
+  // Throws when the journal refuses the change, e.g. a ledger bucket lowered without a note
+  const handleAdjustBalance = (bucketId: string, balance: number, ledgerNote?: string) => {
+    const bucket = buckets.find((b) => b.id === bucketId)
+    const change = Math.round((balance - (bucket?.balance ?? 0)) * 100) / 100
+    if (!bucket || change === 0) return
+    const id = `journal-${Date.now()}`
+    const date = today()
+    const ledgerEntry: LedgerEntry | undefined =
+      change < 0 && requiresLedger(bucket) && ledgerNote?.trim()
+        ? { id: `ledger-${Date.now()}`, bucketId, date, amount: -change, note: ledgerNote.trim() }
+        : undefined
+    record(
+      [
+        {
+          id,
+          kind: change > 0 ? "deposit" : "withdrawal",
+          fromId: change > 0 ? EXTERNAL_ACCOUNT : bucketId,
+          toId: change > 0 ? bucketId : EXTERNAL_ACCOUNT,
+          amount: Math.abs(change),
+          date,
+          reason: ledgerEntry?.note ?? "Balance edited",
+          ...(ledgerEntry ? { ledgerEntryId: ledgerEntry.id } : {}),
+        },
+      ],
+      ledgerEntry ? [ledgerEntry] : [],
+    )
+  }
+
+  // A charge moving money out of a ledger bucket is its own ledger note
+  const chargeLedgerEntry = (bucket: Bucket, charge: Charge, note: string): LedgerEntry | undefined =>
+    requiresLedger(bucket)
+      ? { id: `ledger-${Date.now()}-${charge.id}`, bucketId: bucket.id, date: today(), amount: charge.amount, note }
+      : undefined
+
+  const clearingBucket = () => {
+    const clearing = activeBuckets(buckets, "clearing")[0]
+    if (!clearing) throw new Error("Add an active clearing bucket to move card charges through it")
+    return clearing
+  }
+
+  // Funding moves the charge's amount from its bucket into clearing
+  const handleChargeFunded = (charge: Charge) => {
+    const clearing = clearingBucket()
+    const source = buckets.find((b) => b.id === charge.bucketId)
+    if (!source) throw new Error(`${charge.merchant} isn't matched to a bucket that still exists`)
+    const reason = `Fund ${charge.merchant}`
+    const ledgerEntry = chargeLedgerEntry(source, charge, reason)
+    record(
+      [
+        {
+          id: `journal-${Date.now()}-${charge.id}-fund`,
+          kind: "transfer",
+          fromId: source.id,
+          toId: clearing.id,
+          amount: charge.amount,
+          date: today(),
+          reason,
+          chargeId: charge.id,
+          ...(ledgerEntry ? { ledgerEntryId: ledgerEntry.id } : {}),
+        },
+      ],
+      ledgerEntry ? [ledgerEntry] : [],
+    )
+  }
+
+  const handleChargeCleared = (charge: Charge) => {
+    const clearing = clearingBucket()
+    const reason = `Paid ${charge.merchant}`
+    const ledgerEntry = chargeLedgerEntry(clearing, charge, reason)
+    record(
+      [
+        {
+          id: `journal-${Date.now()}-${charge.id}`,
+          kind: "clearing",
+          fromId: clearing.id,
+          toId: EXTERNAL_ACCOUNT,
+          amount: charge.amount,
+          date: today(),
+          reason,
+          chargeId: charge.id,
+          ...(ledgerEntry ? { ledgerEntryId: ledgerEntry.id } : {}),
+        },
+      ],
+      ledgerEntry ? [ledgerEntry] : [],
+    )
+  }
+
+  // The executor's own balances match the journal's; only its new runs and ledger entries need journaling
+  const handleExecute = ({ ledger, runs }: ExecutionState) => {
+    const knownRuns = new Set(valveJournal.runs.map((r) => r.id))
+    const knownLedger = new Set(valveJournal.ledger.map((e) => e.id))
+    record(
+      runs.filter((r) => !knownRuns.has(r.id)).flatMap(runJournalEntries),
+      ledger.filter((e) => !knownLedger.has(e.id)),
+    )
+    setValveJournal({ ledger, runs })
+  }
+
+  const handleStatementChange = (bucketId: string, statement: StatementBalance) => {
+    setBucketJournal({ ...bucketJournal, statements: { ...bucketJournal.statements, [bucketId]: statement } })
+  }
+
+  const lei = useMemo(
+    () => liquidityElasticityIndex({ buckets, obligations, charges, ...settings }),
+    [buckets, obligations, charges, settings],
+  )
+  const usedBucketIds = useMemo(
+    () => new Set(outstandingCharges(charges).flatMap((c) => (c.bucketId ? [c.bucketId] : []))),
+    [charges],
+  )
+
+  return (
+    <div className="mx-auto max-w-7xl space-y-6 p-4">
+      <div className="flex items-center justify-between rounded-xl border bg-card p-6 shadow-sm">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Ongoing Budget</h1>
+          <p className="text-muted-foreground">Envelopes, annual obligations and card clearing — and how much room they leave you.</p>
+        </div>
+        <SaveIndicator status={saveStatus} />
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+        <div className="space-y-6">
+          <BucketManager
+            buckets={buckets}
+            onChange={setBuckets}
+            usedBucketIds={usedBucketIds}
+            onAdjustBalance={handleAdjustBalance}
+          />
+          <ObligationList
+            obligations={obligations}
+            onChange={setObligations}
+            reserveBalance={annualReserveBalance(buckets)}
+            buffer={settings.buffer}
+          />
+          <SinkingFund obligations={obligations} reserveBalance={annualReserveBalance(buckets)} />
+        </div>
+        <div className="space-y-6">
+          <LeiGauge result={lei} settings={settings} onSettingsChange={setSettings} />
+          <PressureValve
+            buckets={buckets}
+            obligations={obligations}
+            buffer={settings.buffer}
+            settings={pressureValve}
+            onSettingsChange={setPressureValve}
+            journal={valveJournal}
+            onExecute={handleExecute}
+          />
+        </div>
+      </div>
+
+      <ClearingBoard
+        charges={charges}
+        onChange={setCharges}
+        buckets={buckets}
+        rules={matchRules}
+        onRulesChange={setMatchRules}
+        onFunded={handleChargeFunded}
+        onCleared={handleChargeCleared}
+      />
+      <MatchRules ruleSet={matchRules} onChange={setMatchRules} buckets={buckets} />
+      <BucketJournal
+        buckets={buckets}
+        journal={bucketJournal}
+        onRecord={record}
+        onStatementChange={handleStatementChange}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ArrowRight, Plus, Trash2, Undo2 } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import {
+  activeBuckets,
+  annualExcess,
+  annualReserveBalance,
+  executeRedistribution,
+  pressureValveEligible,
+  redistributionPlan,
+  requiredAnnualReserve,
+  requiresLedger,
+  requiresTransfer,
+  reverseRedistribution,
+} from "@/lib/liquidity-engine"
+import type { Bucket, ExecutionState, Obligation } from "@/lib/liquidity-engine"
+import type { PressureValveSettings, RedistributionJournal } from "@/lib/budget-data"
+
+interface PressureValveProps {
+  buckets: Bucket[]
+  obligations: Obligation[]
+  buffer: number
+  settings: PressureValveSettings
+  onSettingsChange: (settings: PressureValveSettings) => void
+  journal: RedistributionJournal
+  // Buckets and journal come back together so a run lands as one change
+  onExecute: (state: ExecutionState) => void
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function PressureValve({
+  buckets,
+  obligations,
+  buffer,
+  settings,
+  onSettingsChange,
+  journal,
+  onExecute,
+}: PressureValveProps) {
+  const [note, setNote] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  // The fullest reserve bucket pays; excess is measured across all of them.
+  // Transfer-only buckets never take part in a run.
+  const source = activeBuckets(buckets, "ledger_reserve")
+    .filter((b) => !requiresTransfer(b))
+    .sort((a, b) => b.balance - a.balance)[0]
+  const excess = annualExcess(annualReserveBalance(buckets), requiredAnnualReserve(obligations), buffer)
+  const eligible = pressureValveEligible(excess, settings.threshold)
+  const targets = activeBuckets(buckets).filter(
+    (b) => b.id !== source?.id && b.type !== "ledger_reserve" && !requiresTransfer(b),
+  )
+  const plan = source ? redistributionPlan(Math.min(excess, source.balance), settings.rules) : []
+  const total = plan.reduce((sum, a) => sum + a.amount, 0)
+  const needsLedger = !!source && requiresLedger(source)
+  const bucketName = (id: string) => buckets.find((b) => b.id === id)?.name ?? "Deleted bucket"
+
+  const setRules = (rules: PressureValveSettings["rules"]) => onSettingsChange({ ...settings, rules })
+
+  // Executor errors are the guarantees doing their job — show them, change nothing
+  const attempt = (run: () => ExecutionState) => {
+    try {
+      onExecute(run())
+      setError(null)
+      return true
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e))
+      return false
+    }
+  }
+
+  const handleRun = () => {
+    if (!source) return
+    const id = `run-${Date.now()}`
+    const date = today()
+    const ledgerEntry = needsLedger
+      ? { id: `ledger-${Date.now()}`, bucketId: source.id, date, amount: Math.round(total * 100) / 100, note: note.trim() }
+      : undefined
+    const ran = attempt(() =>
+      executeRedistribution({ buckets, ...journal }, { id, date, sourceId: source.id, plan, ledgerEntry, note: note.trim() }),
+    )
+    if (ran) setNote("")
+  }
+
+  const handleReverse = (runId: string) => {
+    attempt(() => reverseRedistribution({ buckets, ...journal }, runId, { id: `run-${Date.now()}`, date: today() }))
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Pressure valve</CardTitle>
+          <Badge variant={eligible ? "default" : "secondary"} className="font-normal">
+            {eligible ? "Ready to redistribute" : "Below threshold"}
+          </Badge>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Reserve excess above obligations and the {formatCurrency(buffer)} buffer, split across targets by weight.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="rounded-lg bg-muted/50 p-2.5">
+            <p className="text-xs text-muted-foreground">Reserve excess</p>
+            <p className="font-semibold">{formatCurrency(excess)}</p>
+          </div>
+          <label className="rounded-lg bg-muted/50 p-2.5">
+            <span className="text-xs text-muted-foreground">Run when excess exceeds</span>
+            <Input
+              type="number"
+              min={0}
+              value={settings.threshold}
+              onChange={(e) => onSettingsChange({ ...settings, threshold: Math.max(0, Number(e.target.value) || 0) })}
+              className="mt-1 h-7"
+            />
+          </label>
+        </div>
+
+        <div className="space-y-1.5">
+          <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Targets</p>
+          {settings.rules.map((rule, i) => {
+            const allocation = plan.find((a) => a.targetId === rule.targetId)
+            return (
+              <div key={i} className="flex items-center gap-2">
+                <Select
+                  value={rule.targetId}
+                  onValueChange={(targetId) => setRules(settings.rules.map((r, j) => (j === i ? { ...r, targetId } : r)))}
+                >
+                  <SelectTrigger className="h-8 flex-1">
+                    <SelectValue placeholder="Missing bucket" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targets.map((b) => (
+                      <SelectItem key={b.id} value={b.id}>
+                        {b.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  value={rule.weight}
+                  onChange={(e) =>
+                    setRules(settings.rules.map((r, j) => (j === i ? { ...r, weight: Math.max(0, Number(e.target.value) || 0) } : r)))
+                  }
+                  className="h-8 w-16"
+                  aria-label="Weight"
+                />
+                <span className="w-20 text-right text-xs text-muted-foreground">
+                  {allocation ? `${formatCurrency(allocation.amount)} · ${Math.round(allocation.pct * 100)}%` : "—"}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setRules(settings.rules.filter((_, j) => j !== i))}
+                  className="rounded p-1 text-red-500 hover:bg-red-50"
+                  title="Remove target"
+                >
+                  <Trash2 size={13} />
+                </button>
+              </div>
+            )
+          })}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => targets[0] && setRules([...settings.rules, { targetId: targets[0].id, weight: 1 }])}
+            disabled={targets.length === 0}
+            className="h-7 px-2 text-xs"
+          >
+            <Plus size={12} className="mr-1" />
+            Add target
+          </Button>
+        </div>
+
+        {source ? (
+          <div className="space-y-2 rounded-lg border border-border p-2.5">
+            <p className="text-xs text-muted-foreground">
+              Withdraws {formatCurrency(total)} from {source.name}
+              {needsLedger && " — logged in the reserve ledger"}
+            </p>
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={needsLedger ? "Ledger note (required)" : "Note"}
+              className="h-8"
+            />
+            <Button
+              size="sm"
+              onClick={handleRun}
+              disabled={!eligible || plan.length === 0 || (needsLedger && !note.trim())}
+              className="w-full"
+            >
+              Run redistribution
+            </Button>
+          </div>
+        ) : (
+          <p className="text-amber-700">Add an active annual reserve bucket to use the pressure valve.</p>
+        )}
+
+        {error && (
+          <p className="flex items-start gap-2 rounded bg-red-50 px-2 py-1.5 text-xs text-red-700">
+            <AlertTriangle size={13} className="mt-0.5 shrink-0" />
+            {error}
+          </p>
+        )}
+
+        {journal.runs.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Journal</p>
+            {[...journal.runs].reverse().map((run) => (
+              <div key={run.id} className={`rounded-lg bg-muted/40 p-2 text-xs ${run.reversedBy ? "opacity-60" : ""}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">
+                    {run.date} · {run.note || "Redistribution"}
+                  </span>
+                  {run.reversedBy ? (
+                    <Badge variant="secondary" className="font-normal">Reversed</Badge>
+                  ) : (
+                    !run.reverses && (
+                      <button
+                        type="button"
+                        onClick={() => handleReverse(run.id)}
+                        className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+                        title="Move the money back"
+                      >
+                        <Undo2 size={12} />
+                        Reverse
+                      </button>
+                    )
+                  )}
+                </div>
+                {run.transfers.map((t) => (
+                  <p key={t.id} className="flex items-center gap-1 text-muted-foreground">
+                    {bucketName(t.fromId)}
+                    <ArrowRight size={10} />
+                    {bucketName(t.toId)}
+                    <span className="ml-auto font-mono">{formatCurrency(t.amount)}</span>
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
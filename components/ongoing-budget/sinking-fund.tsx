@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { AlertTriangle } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import { sinkingFundSchedule } from "@/lib/liquidity-engine"
+import type { Obligation } from "@/lib/liquidity-engine"
+
+interface SinkingFundProps {
+  obligations: Obligation[]
+  reserveBalance: number // active ledger_reserve balances
+}
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+
+// ─── Helpers ────────────────────────────────────────────────
+
+// Local calendar month, the same one ObligationList counts from
+function currentMonth(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`
+}
+
+function monthLabel(month: string): string {
+  return `${MONTH_LABELS[Number(month.slice(5, 7)) - 1]} ${month.slice(2, 4)}`
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function SinkingFund({ obligations, reserveBalance }: SinkingFundProps) {
+  // Blank = assume the plan is followed
+  const [actual, setActual] = useState("")
+  const actualContribution = actual.trim() === "" ? undefined : Math.max(0, Number(actual) || 0)
+
+  const schedule = sinkingFundSchedule({ obligations, startMonth: currentMonth(), openingBalance: reserveBalance, actualContribution })
+  const thisMonth = schedule.months[0]
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Sinking fund plan</CardTitle>
+          {schedule.shortMonths.length > 0 ? (
+            <Badge variant="destructive" className="font-normal">
+              Short in {schedule.shortMonths.length} {schedule.shortMonths.length === 1 ? "month" : "months"}
+            </Badge>
+          ) : (
+            <Badge variant="secondary" className="font-normal">Every obligation funded</Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          What to move into the annual reserve each month so each obligation is fully saved by its due month.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="rounded-lg bg-muted/50 p-2.5">
+            <p className="text-xs text-muted-foreground">Move this month</p>
+            <p className="font-semibold">{formatCurrency(thisMonth.contribution)}</p>
+          </div>
+          <div className="rounded-lg bg-muted/50 p-2.5">
+            <p className="text-xs text-muted-foreground">12-month average</p>
+            <p className="font-semibold">{formatCurrency(schedule.averageContribution)}</p>
+          </div>
+          <label className="rounded-lg bg-muted/50 p-2.5">
+            <span className="text-xs text-muted-foreground">You actually move</span>
+            <Input
+              type="number"
+              min={0}
+              value={actual}
+              onChange={(e) => setActual(e.target.value)}
+              placeholder="Follow plan"
+              className="mt-1 h-7"
+            />
+          </label>
+        </div>
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="py-1 font-normal">Month</th>
+              <th className="py-1 text-right font-normal">Plan to move</th>
+              <th className="py-1 pl-3 font-normal">Due</th>
+              <th className="py-1 text-right font-normal">{actualContribution === undefined ? "Reserve" : "Projected reserve"}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.months.map((m) => (
+              <tr key={m.month} className={`border-t border-border/50 ${m.shortfall > 0 ? "bg-red-50" : ""}`}>
+                <td className="py-1">{monthLabel(m.month)}</td>
+                <td className="py-1 text-right font-mono">{formatCurrency(m.contribution)}</td>
+                <td className="py-1 pl-3">
+                  {m.due.map((d) => `${d.name} ${formatCurrency(d.amount)}`).join(", ")}
+                  {m.shortfall > 0 && (
+                    <span className="flex items-center gap-1 text-red-700">
+                      <AlertTriangle size={11} />
+                      Short {formatCurrency(m.shortfall)}
+                    </span>
+                  )}
+                </td>
+                <td className={`py-1 text-right font-mono ${m.projectedBalance < 0 ? "text-red-700" : ""}`}>
+                  {formatCurrency(m.projectedBalance)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  )
+}
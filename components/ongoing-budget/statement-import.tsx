@@ -0,0 +1,267 @@
+"use client"
+
+import { useRef, useState } from "react"
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, Upload } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import {
+  detectStatementFormat,
+  guessCsvMapping,
+  mergeImportedCharges,
+  parseCsv,
+  parseCsvStatement,
+  parseOfxStatement,
+  statementCharges,
+} from "@/lib/statement-import"
+import type { CsvMapping, DateOrder, DecimalSeparator, StatementParseResult } from "@/lib/statement-import"
+import type { Charge } from "@/lib/liquidity-engine"
+
+interface StatementImportProps {
+  charges: Charge[]
+  onImport: (charges: Charge[]) => void
+}
+
+type ImportState =
+  | { status: "closed" }
+  | { status: "csv"; fileName: string; rows: string[][]; mapping: CsvMapping }
+  | { status: "ofx"; fileName: string; result: StatementParseResult }
+
+type ColumnField = "date" | "description" | "amount" | "debit" | "credit" | "memo" | "category"
+
+// Mapping fields a column can be assigned to; date and description are always required
+const CSV_FIELDS: { field: ColumnField; label: string; optional: boolean }[] = [
+  { field: "date", label: "Date", optional: false },
+  { field: "description", label: "Description", optional: false },
+  { field: "amount", label: "Amount", optional: true },
+  { field: "debit", label: "Money out", optional: true },
+  { field: "credit", label: "Money in", optional: true },
+  { field: "memo", label: "Memo", optional: true },
+  { field: "category", label: "Category", optional: true },
+]
+
+const DATE_ORDERS: { id: DateOrder; label: string }[] = [
+  { id: "mdy", label: "MM/DD/YYYY" },
+  { id: "dmy", label: "DD/MM/YYYY" },
+  { id: "ymd", label: "YYYY-MM-DD" },
+]
+
+const DECIMAL_SEPARATORS: { id: DecimalSeparator; label: string }[] = [
+  { id: ".", label: "1,234.56" },
+  { id: ",", label: "1.234,56" },
+]
+
+const PREVIEW_ROWS = 8
+const ISSUES_SHOWN = 5
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function StatementImport({ charges, onImport }: StatementImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [importState, setImportState] = useState<ImportState>({ status: "closed" })
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = "" // allow re-picking the same file
+    if (!file) return
+    const text = await file.text()
+    if (detectStatementFormat(file.name, text) === "ofx") {
+      setImportState({ status: "ofx", fileName: file.name, result: parseOfxStatement(text) })
+      return
+    }
+    const rows = parseCsv(text)
+    setImportState({ status: "csv", fileName: file.name, rows, mapping: guessCsvMapping(rows) })
+  }
+
+  const csv = importState.status === "csv" ? importState : null
+  const result =
+    importState.status === "ofx" ? importState.result : csv ? parseCsvStatement(csv.rows, csv.mapping) : null
+  const incoming = result ? statementCharges(result.transactions) : []
+  const preview = mergeImportedCharges(charges, incoming)
+  const credits = result ? result.transactions.length - incoming.length : 0
+
+  const setMapping = (patch: Partial<CsvMapping>) => {
+    if (csv) setImportState({ ...csv, mapping: { ...csv.mapping, ...patch } })
+  }
+
+  const setColumn = (field: ColumnField, value: string) => {
+    const column = value === "none" ? null : Number(value)
+    // A single amount column and split money-out / money-in columns are alternatives
+    if (field === "amount" && column !== null) setMapping({ amount: column, debit: null, credit: null })
+    else if ((field === "debit" || field === "credit") && column !== null) setMapping({ [field]: column, amount: null })
+    else setMapping({ [field]: column })
+  }
+
+  const handleApply = () => {
+    onImport(preview.charges)
+    setImportState({ status: "closed" })
+  }
+
+  const headers = csv ? (csv.mapping.hasHeader ? csv.rows[0] : (csv.rows[0] ?? []).map((_, i) => `Column ${i + 1}`)) : []
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5">
+        <Upload size={14} />
+        Import statement
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.ofx,.qfx,text/csv,application/x-ofx"
+        className="hidden"
+        onChange={handleFile}
+      />
+
+      <Dialog open={importState.status !== "closed"} onOpenChange={(open) => !open && setImportState({ status: "closed" })}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {importState.status !== "closed" && result && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Import {importState.fileName}</DialogTitle>
+                <DialogDescription>
+                  {importState.status === "csv"
+                    ? "Check which column holds what — the preview updates as you go."
+                    : "Bank download (OFX/QFX). Transactions already on the board are skipped."}
+                </DialogDescription>
+              </DialogHeader>
+
+              {csv && (
+                <div className="space-y-3 rounded-lg bg-muted/50 p-3 text-sm">
+                  <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                    {CSV_FIELDS.map(({ field, label, optional }) => {
+                      const column = csv.mapping[field]
+                      return (
+                        <label key={field} className="space-y-1">
+                          <span className="text-xs text-muted-foreground">{label}</span>
+                          <Select value={column === null ? "none" : String(column)} onValueChange={(value) => setColumn(field, value)}>
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {optional && <SelectItem value="none">Not in file</SelectItem>}
+                              {headers.map((header, i) => (
+                                <SelectItem key={i} value={String(i)}>
+                                  {header.trim() || `Column ${i + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </label>
+                      )
+                    })}
+                    <label className="space-y-1">
+                      <span className="text-xs text-muted-foreground">Date format</span>
+                      <Select value={csv.mapping.dateOrder} onValueChange={(value) => setMapping({ dateOrder: value as DateOrder })}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DATE_ORDERS.map((o) => (
+                            <SelectItem key={o.id} value={o.id}>
+                              {o.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-xs text-muted-foreground">Amount format</span>
+                      <Select
+                        value={csv.mapping.decimalSeparator}
+                        onValueChange={(value) => setMapping({ decimalSeparator: value as DecimalSeparator })}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DECIMAL_SEPARATORS.map((o) => (
+                            <SelectItem key={o.id} value={o.id}>
+                              {o.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </label>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4 text-xs">
+                    <label className="flex items-center gap-2">
+                      <Switch checked={csv.mapping.hasHeader} onCheckedChange={(hasHeader) => setMapping({ hasHeader })} />
+                      First row is a header
+                    </label>
+                    {csv.mapping.amount !== null && (
+                      <label className="flex items-center gap-2">
+                        <Switch
+                          checked={csv.mapping.chargesNegative}
+                          onCheckedChange={(chargesNegative) => setMapping({ chargesNegative })}
+                        />
+                        Charges are negative amounts
+                      </label>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                <span className="font-medium text-green-700">{preview.added.length} new charges</span>
+                {preview.duplicates > 0 && <span className="text-muted-foreground">{preview.duplicates} already imported</span>}
+                {credits > 0 && <span className="text-muted-foreground">{credits} payments and refunds skipped</span>}
+                {result.issues.length > 0 && <span className="text-amber-700">{result.issues.length} rows unreadable</span>}
+              </div>
+
+              {preview.added.length > 0 && (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {preview.added.slice(0, PREVIEW_ROWS).map((charge) => (
+                      <tr key={charge.id} className="border-b border-border/50 last:border-0">
+                        <td className="py-1 pr-2 text-xs text-muted-foreground">{charge.date}</td>
+                        <td className="py-1 pr-2">
+                          {charge.merchant}
+                          {charge.memo && charge.memo !== charge.merchant && (
+                            <span className="block truncate font-mono text-xs text-muted-foreground">{charge.memo}</span>
+                          )}
+                        </td>
+                        <td className="py-1 pr-2 text-xs text-muted-foreground">{charge.categoryHint}</td>
+                        <td className="py-1 text-right font-semibold">{formatCurrency(charge.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {preview.added.length > PREVIEW_ROWS && (
+                <p className="text-xs text-muted-foreground">+{preview.added.length - PREVIEW_ROWS} more</p>
+              )}
+
+              {result.issues.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {result.issues.slice(0, ISSUES_SHOWN).map((issue, i) => (
+                    <li key={i} className="flex items-center gap-2 rounded bg-amber-50 px-2 py-1 text-amber-800">
+                      <AlertTriangle size={13} />
+                      {issue.row > 0 && <span className="font-mono text-xs">Row {issue.row}: </span>}
+                      {issue.message}
+                    </li>
+                  ))}
+                  {result.issues.length > ISSUES_SHOWN && (
+                    <li className="text-xs text-muted-foreground">+{result.issues.length - ISSUES_SHOWN} more</li>
+                  )}
+                </ul>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setImportState({ status: "closed" })}>
+                  Cancel
+                </Button>
+                <Button onClick={handleApply} disabled={preview.added.length === 0}>
+                  Add {preview.added.length} {preview.added.length === 1 ? "charge" : "charges"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
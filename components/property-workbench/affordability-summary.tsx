@@ -13,8 +13,18 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { TrendingUp, TrendingDown, Home, DollarSign, AlertTriangle, CheckCircle, Settings, ChevronDown, ChevronUp, Plus, Pencil, Trash2, Calendar, Info, MapPin } from 'lucide-react'
-import { formatCurrency, calculateMaxAffordability, estimateInterestRate, CREDIT_TIERS, UPFRONT_COSTS } from "@/lib/affordability-calculations"
-import type { Scenario } from "@/lib/property-types"
+import { formatCurrency, calculateMaxAffordability, estimateInterestRate, CREDIT_TIERS, UPFRONT_COSTS, withholdingTaxProfile } from "@/lib/affordability-calculations"
+import { calculateTakeHomeFromIncomeItems } from "@/lib/real-estate-calculations"
+import type { FinancialItem, Scenario } from "@/lib/property-types"
+import { LOAN_PROGRAM_LIST, getLoanProgram } from "@/lib/loan-programs"
+import type { LoanProgramId } from "@/lib/loan-programs"
+import { TEMPORARY_BUYDOWN_LIST } from "@/lib/rate-buydowns"
+import { APR_DEFAULTS } from "@/lib/apr-calculator"
+import { RENT_VS_BUY_DEFAULTS, rentVsBuyFromScenario, rentVsBuyTaxAssumptions } from "@/lib/rent-vs-buy"
+import type { TemporaryBuydownType } from "@/lib/rate-buydowns"
+import { FILING_STATUSES, STATE_CODES, STATE_INCOME_TAX, isStateCode } from "@/lib/tax-data"
+import type { FilingStatus } from "@/lib/tax-data"
+import CalculationTracePanel from "./calculation-trace-panel"
 
 interface ZipData {
   city: string
@@ -44,36 +54,17 @@ const ZIP_TAX_RATES: Record<string, ZipData> = {
 interface AffordabilitySummaryProps {
 scenario: Scenario
 onScenarioUpdate: (scenario: Scenario) => void
+financialItems: FinancialItem[]
+onFinancialItemsChange: (items: FinancialItem[]) => void
 onLocationChange?: (location: (ZipData & { zipCode: string }) | null) => void
 className?: string
 }
 
-interface FinancialItem {
-id: string
-label: string
-amount: number
-type: "income" | "expense" | "debt" | "downpayment"
-frequency: "monthly" | "annual" | "one-time"
-timing: "current" | "future"
-active: boolean
-editable: boolean
-// Debt-specific field
-balance?: number  // outstanding principal balance (for debts)
-// Expense-specific dimension field (replaces timing for expenses)
-expenseTiming?: "stable" | "changing" | "new"  // stable=same after move, changing=different amount, new=doesn't exist yet
-futureAmount?: number  // post-move amount for "changing" expenses
-// Income-specific withholding fields
-incomeEntry?: "gross" | "net"
-withholdingTaxPct?: number
-withholding401kPct?: number
-withholdingHealthcarePct?: number
-withholdingHSAPct?: number
-withholdingOtherPct?: number
-}
-
 export default function AffordabilitySummary({
 scenario,
 onScenarioUpdate,
+financialItems,
+onFinancialItemsChange,
 onLocationChange,
 className = "",
 }: AffordabilitySummaryProps) {
@@ -86,6 +77,8 @@ const [isScenarioBuilderOpen, setIsScenarioBuilderOpen] = useState(true)
 const [isSustainabilityOpen, setIsSustainabilityOpen] = useState(false)
 const [isLivabilityOpen, setIsLivabilityOpen] = useState(false)
 const [isLocationOpen, setIsLocationOpen] = useState(false)
+const [isRentVsBuyOpen, setIsRentVsBuyOpen] = useState(false)
+const [rentVsBuyHorizon, setRentVsBuyHorizon] = useState(10)
 
 // Location panel state
 const [locationMode, setLocationMode] = useState<"zip" | "home">("zip")
@@ -104,275 +97,7 @@ const [customTaxRateInput, setCustomTaxRateInput] = useState("")
 // Expense ideas modal state
 const [isExpenseIdeasOpen, setIsExpenseIdeasOpen] = useState(false)
 
-// Financial settings state
-const [financialItems, setFinancialItems] = useState<FinancialItem[]>([
-  // Income items — Springfield dual-income household with side gigs
-  {
-    id: "gig-income",
-    label: "Drive Uber",
-    amount: 600,
-    type: "income",
-    frequency: "monthly",
-    timing: "current",
-    active: true,
-    editable: true,
-    incomeEntry: "net" as const,
-    withholdingTaxPct: 0,
-    withholding401kPct: 0,
-    withholdingHealthcarePct: 0,
-    withholdingHSAPct: 0,
-    withholdingOtherPct: 0,
-  },
-  {
-    id: "rental-income",
-    label: "Rental Unit",
-    amount: 950,
-    type: "income",
-    frequency: "monthly",
-    timing: "current",
-    active: true,
-    editable: true,
-    incomeEntry: "net" as const,
-    withholdingTaxPct: 0,
-    withholding401kPct: 0,
-    withholdingHealthcarePct: 0,
-    withholdingHSAPct: 0,
-    withholdingOtherPct: 0,
-  },
-  {
-    id: "pat-income",
-    label: "Pat",
-    amount: 35000,
-    type: "income",
-    frequency: "annual",
-    timing: "current",
-    active: false,
-    editable: true,
-    incomeEntry: "gross" as const,
-    withholdingTaxPct: 22,
-    withholding401kPct: 4,
-    withholdingHealthcarePct: 3,
-    withholdingHSAPct: 0,
-    withholdingOtherPct: 0,
-  },
-  {
-    id: "jamie-income",
-    label: "Jamie",
-    amount: 50000,
-    type: "income",
-    frequency: "annual",
-    timing: "current",
-    active: true,
-    editable: true,
-    incomeEntry: "gross" as const,
-    withholdingTaxPct: 22,
-    withholding401kPct: 5,
-    withholdingHealthcarePct: 4,
-    withholdingHSAPct: 0,
-    withholdingOtherPct: 0,
-  },
-  // Stable expenses — same before and after the move
-  {
-    id: "groceries",
-    label: "Groceries",
-    amount: 600,
-    type: "expense",
-    frequency: "monthly",
-    timing: "current",
-    expenseTiming: "stable",
-    active: true,
-    editable: true,
-  },
-  {
-    id: "entertainment",
-    label: "Entertainment",
-    amount: 400,
-    type: "expense",
-    frequency: "monthly",
-    timing: "current",
-    expenseTiming: "stable",
-    active: true,
-    editable: true,
-  },
-  {
-    id: "amazon-prime",
-    label: "Amazon Prime",
-    amount: 160,
-    type: "expense",
-    frequency: "annual",
-    timing: "current",
-    expenseTiming: "stable",
-    active: false,
-    editable: true,
-  },
-  {
-    id: "pet-care",
-    label: "Pet Care",
-    amount: 600,
-    type: "expense",
-    frequency: "annual",
-    timing: "current",
-    expenseTiming: "stable",
-    active: false,
-    editable: true,
-  },
-  {
-    id: "clothes",
-    label: "Clothes",
-    amount: 1000,
-    type: "expense",
-    frequency: "annual",
-    timing: "current",
-    expenseTiming: "stable",
-    active: false,
-    editable: true,
-  },
-  {
-    id: "vacation",
-    label: "Annual Vacation",
-    amount: 2400,
-    type: "expense",
-    frequency: "annual",
-    timing: "current",
-    expenseTiming: "stable",
-    active: false,
-    editable: true,
-  },
-  // Changing expenses — exist now but will be different after the move
-  {
-    id: "utilities",
-    label: "Utilities",
-    amount: 200,
-    futureAmount: 300,
-    type: "expense",
-    frequency: "monthly",
-    timing: "current",
-    expenseTiming: "changing",
-    active: true,
-    editable: true,
-  },
-  {
-    id: "car-registration",
-    label: "Car Registration",
-    amount: 300,
-    type: "expense",
-    frequency: "annual",
-    timing: "current",
-    expenseTiming: "stable",
-    active: false,
-    editable: true,
-  },
-  // New expenses — don't exist yet, start after the move
-  {
-    id: "daycare",
-    label: "Future Daycare",
-    amount: scenario.financialInputs.futureExpensesMonthly || 1200,
-    type: "expense",
-    frequency: "monthly",
-    timing: "future",
-    expenseTiming: "new",
-    active: !!scenario.financialInputs.futureExpensesMonthly,
-    editable: true,
-  },
-  {
-    id: "hoa-fees",
-    label: "HOA Fees",
-    amount: 500,
-    type: "expense",
-    frequency: "annual",
-    timing: "future",
-    expenseTiming: "new",
-    active: false,
-    editable: true,
-  },
-  {
-    id: "lawn-care",
-    label: "Lawn Care",
-    amount: 800,
-    type: "expense",
-    frequency: "annual",
-    timing: "future",
-    expenseTiming: "new",
-    active: false,
-    editable: true,
-  },
-  {
-    id: "mass-transit",
-    label: "Mass Transit",
-    amount: 130,
-    type: "expense",
-    frequency: "monthly",
-    timing: "future",
-    expenseTiming: "new",
-    active: false,
-    editable: true,
-  },
-  {
-    id: "future-annual",
-    label: "Future Annual Expense",
-    amount: 1500,
-    type: "expense",
-    frequency: "annual",
-    timing: "future",
-    expenseTiming: "new",
-    active: false,
-    editable: true,
-  },
-  // Debt items — typical Springfield household
-  {
-    id: "credit-card",
-    label: "Credit Card Payment",
-    amount: 175,
-    balance: 6200,
-    type: "debt",
-    frequency: "monthly",
-    timing: "current",
-    active: true,
-    editable: true,
-  },
-  {
-    id: "auto-loan",
-    label: "Auto Loan",
-    amount: 285,
-    balance: 12800,
-    type: "debt",
-    frequency: "monthly",
-    timing: "current",
-    active: true,
-    editable: true,
-  },
-  // Down payment sources
-  {
-    id: "savings",
-    label: "Savings Account",
-    amount: 18000,
-    type: "downpayment",
-    frequency: "one-time",
-    timing: "current",
-    active: true,
-    editable: true,
-  },
-  {
-    id: "gift",
-    label: "Family Gift",
-    amount: 20000,
-    type: "downpayment",
-    frequency: "one-time",
-    timing: "current",
-    active: true,
-    editable: true,
-  },
-  {
-    id: "stocks",
-    label: "Sell Investments",
-    amount: 7000,
-    type: "downpayment",
-    frequency: "one-time",
-    timing: "current",
-    active: false,
-    editable: true,
-  },
-])
+const setFinancialItems = onFinancialItemsChange
 
 const expenseIdeas = {
   "New Baby / First Child": {
@@ -529,10 +254,12 @@ useEffect(() => {
   onLocationChange?.(zipInfo ? { zipCode, ...zipInfo } : null)
 }, [zipCode]) // eslint-disable-line react-hooks/exhaustive-deps
 
-// Sync financial items → scenario on mount so fixedDebts/income match item state
+// Sync financial items → scenario on mount, and whenever the list is replaced from
+// outside (restore, undo, import), so fixedDebts/income match item state
+const syncedItemsRef = useRef<FinancialItem[] | null>(null)
 useEffect(() => {
-  updateScenarioFromItems(financialItems)
-}, []) // eslint-disable-line react-hooks/exhaustive-deps
+  if (financialItems !== syncedItemsRef.current) updateScenarioFromItems(financialItems)
+}, [financialItems]) // eslint-disable-line react-hooks/exhaustive-deps
 
 const affordability = calculateMaxAffordability(scenario, housingPercentage, downPaymentPercentage, activePropertyTaxRate)
 
@@ -547,6 +274,14 @@ const activeDebtTotal = debtItems
   .filter((item) => item.active)
   .reduce((sum, item) => sum + (item.frequency === "annual" ? item.amount / 12 : item.amount), 0)
 const scenarioNoDebts = { ...scenario, financialInputs: { ...scenario.financialInputs, fixedDebts: 0 } }
+// Rent vs buy at the purchase roof, seeded from current rent
+const currentRent = scenario.financialInputs.currentMonthlyRent ?? 0
+const rentVsBuy =
+  currentRent > 0 && affordability.maxPurchasePrice > 0
+    ? rentVsBuyFromScenario(scenario, affordability.maxPurchasePrice, affordability.downPaymentPercentage, activePropertyTaxRate)
+    : null
+const rentVsBuyAtHorizon = rentVsBuy?.years[rentVsBuyHorizon - 1]
+
 const affordabilityNoDebts = calculateMaxAffordability(scenarioNoDebts, housingPercentage, downPaymentPercentage, activePropertyTaxRate)
 const debtPriceDelta = Math.round((affordabilityNoDebts.maxPurchasePrice - affordability.maxPurchasePrice) / 1000) * 1000
 
@@ -599,6 +334,8 @@ const handleDownPaymentPercentageChange = (newPercentage: number) => {
     scenario.financialInputs.loanTerm ?? 30,
     newPercentage,
     scenario.financialInputs.marketReferenceRate ?? 6.85,
+    scenario.financialInputs.loanType,
+    scenario.financialInputs.discountPoints,
   )
   onScenarioUpdate({
     ...scenario,
@@ -616,6 +353,8 @@ const handleCreditScoreChange = (score: number) => {
     scenario.financialInputs.loanTerm ?? 30,
     downPaymentPercentage,
     scenario.financialInputs.marketReferenceRate ?? 6.85,
+    scenario.financialInputs.loanType,
+    scenario.financialInputs.discountPoints,
   )
   onScenarioUpdate({
     ...scenario,
@@ -633,6 +372,8 @@ const handleMarketRateChange = (marketRate: number) => {
     scenario.financialInputs.loanTerm ?? 30,
     downPaymentPercentage,
     marketRate,
+    scenario.financialInputs.loanType,
+    scenario.financialInputs.discountPoints,
   )
   onScenarioUpdate({
     ...scenario,
@@ -842,8 +583,10 @@ const updateQuickAddItem = (key: string, field: "label" | "amount", value: strin
   }))
 }
 
-const updateScenarioFromItems = (items: FinancialItem[]) => {
+const updateScenarioFromItems = (items: FinancialItem[], inputOverrides: Partial<Scenario["financialInputs"]> = {}) => {
+  syncedItemsRef.current = items
   const activeItems = items.filter((item) => item.active)
+  const nextInputs = { ...scenario.financialInputs, ...inputOverrides }
 
   const annualIncome = activeItems
     .filter((item) => item.type === "income")
@@ -852,20 +595,7 @@ const updateScenarioFromItems = (items: FinancialItem[]) => {
     }, 0)
 
   // Compute per-item take-home, respecting each income item's gross/net setting
-  let annualTakeHomeIncome = 0
-  for (const item of activeItems.filter((i) => i.type === "income")) {
-    const annualGross = item.frequency === "annual" ? item.amount : item.amount * 12
-    if (item.incomeEntry === "net") {
-      annualTakeHomeIncome += annualGross
-    } else {
-      const taxPct = item.withholdingTaxPct ?? 25
-      const ret401Pct = item.withholding401kPct ?? 5
-      const hcPct = item.withholdingHealthcarePct ?? 5
-      const hsaPct = item.withholdingHSAPct ?? 0
-      const otherPct = item.withholdingOtherPct ?? 0
-      annualTakeHomeIncome += annualGross * (1 - (taxPct + ret401Pct + hcPct + hsaPct + otherPct) / 100)
-    }
-  }
+  const annualTakeHomeIncome = calculateTakeHomeFromIncomeItems(activeItems.filter((i) => i.type === "income"), withholdingTaxProfile(nextInputs)).annualTakeHome
 
   // Pre-move baseline: stable + changing expenses (using current amount)
   const monthlyExpenses = activeItems
@@ -913,7 +643,7 @@ const updateScenarioFromItems = (items: FinancialItem[]) => {
   onScenarioUpdate({
     ...scenario,
     financialInputs: {
-      ...scenario.financialInputs,
+      ...nextInputs,
       annualIncome,
       annualTakeHomeIncome: Math.round(annualTakeHomeIncome),
       monthlyExpenses,
@@ -1070,13 +800,7 @@ const renderItemGroup = (
           const totalGrossMonthly = activeIncomeItems.reduce((sum, item) => {
             return sum + (item.frequency === "annual" ? item.amount / 12 : item.amount)
           }, 0)
-          const totalNetMonthly = activeIncomeItems.reduce((sum, item) => {
-            const monthly = item.frequency === "annual" ? item.amount / 12 : item.amount
-            if (item.incomeEntry === "net") return sum + monthly
-            const totalPct = (item.withholdingTaxPct ?? 25) + (item.withholding401kPct ?? 5) +
-              (item.withholdingHealthcarePct ?? 5) + (item.withholdingHSAPct ?? 0) + (item.withholdingOtherPct ?? 0)
-            return sum + monthly * (1 - totalPct / 100)
-          }, 0)
+          const totalNetMonthly = calculateTakeHomeFromIncomeItems(activeIncomeItems, withholdingTaxProfile(scenario.financialInputs)).annualTakeHome / 12
           const totalWithholdingsMonthly = totalGrossMonthly - totalNetMonthly
           const effectiveWithholdingPct = totalGrossMonthly > 0
             ? Math.round((totalWithholdingsMonthly / totalGrossMonthly) * 100) : 0
@@ -1095,6 +819,80 @@ const renderItemGroup = (
                   <span>-{formatCurrency(totalWithholdingsMonthly)}/mo</span>
                 </div>
               )}
+              {/* Tax method — flat % per item, or brackets for filing status / household / state */}
+              <div className="flex flex-wrap items-center gap-2 py-1 text-xs">
+                <span className="text-muted-foreground/70">Taxes</span>
+                {([
+                  { id: "flat", label: "Flat % per item" },
+                  { id: "estimated", label: "Estimate from brackets" },
+                ] as const).map(({ id, label }) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() =>
+                      updateScenarioFromItems(financialItems, {
+                        withholdingMode: id,
+                        taxState:
+                          scenario.financialInputs.taxState ?? (isStateCode(zipInfo?.state) ? zipInfo.state : undefined),
+                      })
+                    }
+                    className={`px-2 py-0.5 rounded-full border transition-all ${
+                      (scenario.financialInputs.withholdingMode ?? "flat") === id
+                        ? "border-primary bg-primary/5 text-primary font-medium"
+                        : "border-border text-muted-foreground hover:border-primary/40"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {scenario.financialInputs.withholdingMode === "estimated" && (
+                <div className="flex flex-wrap items-center gap-2 pb-1 text-xs">
+                  <Select
+                    value={scenario.financialInputs.filingStatus ?? "married-joint"}
+                    onValueChange={(value) => updateScenarioFromItems(financialItems, { filingStatus: value as FilingStatus })}
+                  >
+                    <SelectTrigger className="h-7 w-48 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FILING_STATUSES.map((status) => (
+                        <SelectItem key={status.id} value={status.id}>{status.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <label className="flex items-center gap-1 text-muted-foreground">
+                    Household
+                    <Input
+                      type="number"
+                      min={1}
+                      max={12}
+                      value={scenario.financialInputs.householdSize ?? 2}
+                      onChange={(e) => {
+                        const v = parseInt(e.target.value)
+                        if (!isNaN(v) && v >= 1) updateScenarioFromItems(financialItems, { householdSize: v })
+                      }}
+                      className="h-7 w-14 text-xs"
+                    />
+                  </label>
+                  <Select
+                    value={scenario.financialInputs.taxState ?? "none"}
+                    onValueChange={(value) =>
+                      updateScenarioFromItems(financialItems, { taxState: isStateCode(value) ? value : undefined })
+                    }
+                  >
+                    <SelectTrigger className="h-7 w-40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No state tax</SelectItem>
+                      {STATE_CODES.map((code) => (
+                        <SelectItem key={code} value={code}>{STATE_INCOME_TAX[code].name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="flex justify-between font-semibold text-green-700 pt-1 border-t border-border">
                 <span>= Net Take-Home</span>
                 <span>{formatCurrency(totalNetMonthly)}/mo</span>
@@ -1157,12 +955,14 @@ const renderMortgageDetailsGroup = () => {
   const currentLoanTerm = scenario.financialInputs.loanTerm ?? 30
   const currentCreditScore = scenario.financialInputs.creditScore ?? 699
   const currentMarketRate = scenario.financialInputs.marketReferenceRate ?? 6.85
+  const currentProgram = getLoanProgram(scenario.financialInputs.loanProgram)
 
   // Credit score tiers — imported from lib/affordability-calculations
   const activeTier = CREDIT_TIERS.slice().reverse().find((t) => currentCreditScore >= t.score) ?? CREDIT_TIERS[3]
 
   // Estimated rate for current profile
-  const estimatedRate = estimateInterestRate(currentCreditScore, currentLoanTerm, downPaymentPercentage, currentMarketRate)
+  const currentPoints = scenario.financialInputs.discountPoints ?? 0
+  const estimatedRate = estimateInterestRate(currentCreditScore, currentLoanTerm, downPaymentPercentage, currentMarketRate, scenario.financialInputs.loanType, currentPoints)
   const rateMatchesEstimate = Math.abs(currentInterestRate - estimatedRate) < 0.01
 
   // Nudge rate buttons (±0.25%)
@@ -1171,7 +971,7 @@ const renderMortgageDetailsGroup = () => {
 
   const handleMortgageToggle = (item: { type: string; value: number }) => {
     if (item.type === "term") {
-      const newRate = estimateInterestRate(currentCreditScore, item.value, downPaymentPercentage, currentMarketRate)
+      const newRate = estimateInterestRate(currentCreditScore, item.value, downPaymentPercentage, currentMarketRate, scenario.financialInputs.loanType, currentPoints)
       onScenarioUpdate({
         ...scenario,
         financialInputs: { ...scenario.financialInputs, loanTerm: item.value, interestRate: newRate },
@@ -1184,6 +984,36 @@ const renderMortgageDetailsGroup = () => {
     }
   }
 
+  const handleLoanProgramChange = (programId: LoanProgramId) => {
+    onScenarioUpdate({
+      ...scenario,
+      financialInputs: { ...scenario.financialInputs, loanProgram: programId },
+    })
+  }
+
+  // Points move the note rate; re-estimate so the rate reflects what was bought
+  const handleDiscountPointsChange = (points: number) => {
+    const newRate = estimateInterestRate(currentCreditScore, currentLoanTerm, downPaymentPercentage, currentMarketRate, scenario.financialInputs.loanType, points)
+    onScenarioUpdate({
+      ...scenario,
+      financialInputs: { ...scenario.financialInputs, discountPoints: points, interestRate: newRate },
+    })
+  }
+
+  const handleBuydownChange = (buydown: TemporaryBuydownType) => {
+    onScenarioUpdate({
+      ...scenario,
+      financialInputs: { ...scenario.financialInputs, temporaryBuydown: buydown },
+    })
+  }
+
+  const buydown = affordability.buydown
+  const currentBuydown = scenario.financialInputs.temporaryBuydown ?? "none"
+
+  // Low-down-payment programs get their minimum as an extra option
+  const downPaymentOptions =
+    currentProgram.minDownPaymentPercent < 10 ? [currentProgram.minDownPaymentPercent, 10, 15, 20, 25] : [10, 15, 20, 25]
+
   // Debt items — debtItems, activeDebtTotal, debtPriceDelta hoisted to component scope
 
   // Radio circle indicator (replaces Switch readOnly)
@@ -1200,7 +1030,7 @@ const renderMortgageDetailsGroup = () => {
       <div className="flex items-center justify-between">
         <h3 className="font-semibold text-foreground">Mortgage Details</h3>
         <Badge variant="outline" className="text-primary bg-primary/8">
-          {displayLoanTerm}yr • {downPaymentPercentage}% down • {displayInterestRate}%
+          {currentProgram.label} • {displayLoanTerm}yr • {affordability.downPaymentPercentage}% down • {displayInterestRate}%
         </Badge>
       </div>
 
@@ -1233,12 +1063,41 @@ const renderMortgageDetailsGroup = () => {
           </div>
         </div>
 
+        {/* 1b. Loan Program */}
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Loan Program</p>
+          <div className="flex flex-wrap gap-2">
+            {LOAN_PROGRAM_LIST.map((program) => {
+              const isActive = currentProgram.id === program.id
+              return (
+                <div
+                  key={program.id}
+                  className={`flex items-center gap-2 p-2 rounded-lg border transition-all cursor-pointer ${
+                    isActive ? "bg-primary/8 border-primary/25" : "bg-muted border-border/60 hover:bg-gray-100"
+                  }`}
+                  onClick={() => handleLoanProgramChange(program.id)}
+                >
+                  <RadioCircle active={isActive} />
+                  <span className={`text-sm font-medium ${isActive ? "text-primary" : "text-muted-foreground"}`}>
+                    {program.label}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Min {currentProgram.minDownPaymentPercent}% down • DTI {currentProgram.frontEndDTIPercent !== undefined ? `${currentProgram.frontEndDTIPercent}/` : ""}{currentProgram.backEndDTIPercent}%
+            {currentProgram.loanLimit !== undefined && <> • limit {formatCurrency(currentProgram.loanLimit)}</>}
+            {currentProgram.upfrontFeeLabel && <> • {currentProgram.upfrontFeeLabel} financed</>}
+          </p>
+        </div>
+
         {/* 2. Down Payment % */}
         <div className="space-y-2">
           <p className="text-xs font-medium text-muted-foreground">Down Payment %</p>
           <div className="flex flex-wrap gap-2">
-            {[10, 15, 20, 25].map((percentage) => {
-              const isActive = downPaymentPercentage === percentage
+            {downPaymentOptions.map((percentage) => {
+              const isActive = affordability.downPaymentPercentage === percentage
               return (
                 <div
                   key={`dp-${percentage}`}
@@ -1343,7 +1202,7 @@ const renderMortgageDetailsGroup = () => {
                 const v = parseFloat(e.target.value)
                 if (!isNaN(v) && v >= 1 && v <= 15) handleMortgageToggle({ type: "rate", value: v })
               }}
-              aria-label="Interest rate percent APR"
+              aria-label="Note interest rate percent"
               className="w-20 text-center text-sm font-semibold border border-gray-300 rounded px-2 py-1"
             />
             <button
@@ -1358,7 +1217,7 @@ const renderMortgageDetailsGroup = () => {
             >
               +
             </button>
-            <span className="text-xs text-muted-foreground ml-1">% APR</span>
+            <span className="text-xs text-muted-foreground ml-1">% note rate</span>
           </div>
 
           {/* Reset to estimated link — shown only when manually nudged */}
@@ -1372,6 +1231,140 @@ const renderMortgageDetailsGroup = () => {
           )}
         </div>
 
+        {/* 4b. Discount Points & Temporary Buydown */}
+        <div className="space-y-2 pt-1 border-t border-border/60">
+          <p className="text-xs font-medium text-muted-foreground">Discount Points</p>
+          <div className="flex flex-wrap gap-2">
+            {[0, 0.5, 1, 2].map((points) => {
+              const isActive = currentPoints === points
+              return (
+                <div
+                  key={`points-${points}`}
+                  className={`flex items-center gap-2 p-2 rounded-lg border transition-all cursor-pointer ${
+                    isActive ? "bg-primary/8 border-primary/25" : "bg-muted border-border/60 hover:bg-gray-100"
+                  }`}
+                  onClick={() => handleDiscountPointsChange(points)}
+                >
+                  <RadioCircle active={isActive} />
+                  <span className={`text-sm font-medium ${isActive ? "text-primary" : "text-muted-foreground"}`}>
+                    {points === 0 ? "None" : `${points} pt`}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+
+          <p className="text-xs font-medium text-muted-foreground">Temporary Buydown</p>
+          <div className="flex flex-wrap gap-2">
+            {TEMPORARY_BUYDOWN_LIST.map((item) => {
+              const isActive = currentBuydown === item.id
+              return (
+                <div
+                  key={item.id}
+                  className={`flex items-center gap-2 p-2 rounded-lg border transition-all cursor-pointer ${
+                    isActive ? "bg-primary/8 border-primary/25" : "bg-muted border-border/60 hover:bg-gray-100"
+                  }`}
+                  onClick={() => handleBuydownChange(item.id)}
+                >
+                  <RadioCircle active={isActive} />
+                  <span className={`text-sm font-medium ${isActive ? "text-primary" : "text-muted-foreground"}`}>
+                    {item.label}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+
+          {(currentPoints > 0 || currentBuydown !== "none") && (
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <span>Seller credit:</span>
+              <input
+                type="number"
+                step="500"
+                min="0"
+                value={scenario.financialInputs.sellerCredit ?? 0}
+                onChange={(e) => {
+                  const v = parseFloat(e.target.value)
+                  if (!isNaN(v) && v >= 0) {
+                    onScenarioUpdate({
+                      ...scenario,
+                      financialInputs: { ...scenario.financialInputs, sellerCredit: v },
+                    })
+                  }
+                }}
+                className="w-20 text-xs border border-gray-300 rounded px-1 py-0.5 text-center"
+              />
+            </div>
+          )}
+
+          {buydown.pointsCost > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Points cost {formatCurrency(buydown.pointsCost)} to save {formatCurrency(buydown.monthlySavingsFromPoints)}/mo
+              {buydown.pointsBreakEvenMonth !== null
+                ? <> — breaks even at month {buydown.pointsBreakEvenMonth} (~{(buydown.pointsBreakEvenMonth / 12).toFixed(1)} yrs)</>
+                : <> — never breaks even within the term</>}
+            </p>
+          )}
+          {buydown.buydownYears.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              P&I by year:{" "}
+              {buydown.buydownYears.map((y) => `Yr ${y.year} ${formatCurrency(y.principalAndInterest)} (${y.ratePercent.toFixed(2)}%)`).join(" • ")}
+              {" "}• then {formatCurrency(affordability.monthlyPrincipalInterest)}. Buydown fund {formatCurrency(buydown.temporaryBuydownCost)}; you qualify at the note rate.
+            </p>
+          )}
+          {buydown.pointsCost + buydown.temporaryBuydownCost > 0 && (
+            <p className="text-xs font-medium text-foreground">
+              Cash to close: +{formatCurrency(buydown.cashToCloseImpact)}
+              {buydown.sellerCreditApplied > 0 && <> (after {formatCurrency(buydown.sellerCreditApplied)} seller credit)</>}
+            </p>
+          )}
+        </div>
+
+        {/* 4c. Cost of Credit — Loan Estimate style APR summary */}
+        {affordability.loanAmount > 0 && (
+          <div className="space-y-1.5 pt-1 border-t border-border/60">
+            <div className="flex items-center justify-between">
+              <p className="text-xs font-medium text-muted-foreground">Cost of Credit</p>
+              <span className="text-sm font-semibold text-primary">{affordability.apr.aprPercent.toFixed(3)}% APR</span>
+            </div>
+            <div className="flex items-center gap-1 text-xs text-muted-foreground">
+              <span>Lender fees:</span>
+              <input
+                type="number"
+                step="100"
+                min="0"
+                value={scenario.financialInputs.lenderFees ?? APR_DEFAULTS.lenderFees}
+                onChange={(e) => {
+                  const v = parseFloat(e.target.value)
+                  if (!isNaN(v) && v >= 0) {
+                    onScenarioUpdate({
+                      ...scenario,
+                      financialInputs: { ...scenario.financialInputs, lenderFees: v },
+                    })
+                  }
+                }}
+                className="w-20 text-xs border border-gray-300 rounded px-1 py-0.5 text-center"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs">
+              <span className="text-muted-foreground">Amount Financed</span>
+              <span className="text-right font-medium">{formatCurrency(affordability.apr.amountFinanced)}</span>
+              <span className="text-muted-foreground">Finance Charge</span>
+              <span className="text-right font-medium">{formatCurrency(affordability.apr.financeCharge)}</span>
+              <span className="text-muted-foreground">Total of Payments</span>
+              <span className="text-right font-medium">{formatCurrency(affordability.apr.totalOfPayments)}</span>
+              <span className="text-muted-foreground">Total Interest %</span>
+              <span className="text-right font-medium">{affordability.apr.totalInterestPercent.toFixed(2)}%</span>
+            </div>
+            <p className="text-[10px] text-muted-foreground/70">
+              Prepaid finance charges {formatCurrency(affordability.apr.prepaidFinanceCharges)}: lender fees
+              {affordability.apr.charges.points > 0 && <>, points</>}
+              {affordability.apr.charges.upfrontMI > 0 && <>, financed upfront MI</>}
+              , {APR_DEFAULTS.prepaidInterestDays} days prepaid interest.
+            </p>
+          </div>
+        )}
+
         {/* 5. Debt Obligations — affects DTI qualification */}
         <div className="space-y-2 pt-2 border-t border-border/60">
           <div className="flex items-center justify-between">
@@ -1655,7 +1648,8 @@ return (
                       const estimatedClosingCosts = Math.round(purchasePrice * UPFRONT_COSTS.closingCostRate)
                       const preCloseCosts = UPFRONT_COSTS.preCloseCosts
                       const movingSetup = UPFRONT_COSTS.movingSetup
-                      const totalNeeded = dpNeeded + estimatedClosingCosts + preCloseCosts + movingSetup
+                      const pointsAndBuydown = Math.round(affordability.buydown.cashToCloseImpact)
+                      const totalNeeded = dpNeeded + estimatedClosingCosts + preCloseCosts + movingSetup + pointsAndBuydown
                       const remaining = totalCash - totalNeeded
                       return totalCash > 0 ? (
                         <div className="mt-2 mx-1 p-3 bg-muted/50 rounded-md space-y-1.5">
@@ -1678,6 +1672,12 @@ return (
                             <span>Closing Costs (~3%)</span>
                             <span className="font-medium text-foreground">{formatCurrency(estimatedClosingCosts)}</span>
                           </div>
+                          {pointsAndBuydown > 0 && (
+                            <div className="flex justify-between text-xs text-muted-foreground">
+                              <span>Points & Buydown (net of credit)</span>
+                              <span className="font-medium text-foreground">{formatCurrency(pointsAndBuydown)}</span>
+                            </div>
+                          )}
 
                           {/* After closing */}
                           <p className="text-[10px] text-muted-foreground/60 uppercase tracking-wide pt-2">After closing</p>
@@ -1765,7 +1765,7 @@ return (
                         .reduce((sum, i) => sum + i.amount, 0)
                       const purchasePrice = affordability.maxPurchasePrice
                       const dpNeeded = Math.round(purchasePrice * (downPaymentPercentage / 100))
-                      const otherCosts = Math.round(purchasePrice * UPFRONT_COSTS.closingCostRate) + UPFRONT_COSTS.preCloseCosts + UPFRONT_COSTS.movingSetup
+                      const otherCosts = Math.round(purchasePrice * UPFRONT_COSTS.closingCostRate) + UPFRONT_COSTS.preCloseCosts + UPFRONT_COSTS.movingSetup + Math.round(affordability.buydown.cashToCloseImpact)
                       const realExcess = totalCash - dpNeeded - otherCosts
                       if (realExcess <= 0) return null
                       return (
@@ -1984,6 +1984,20 @@ return (
               {formatCurrency(affordability.monthlyPropertyTax)} Tax +{" "}
               {formatCurrency(affordability.monthlyInsurance)} Insurance
             </p>
+            {affordability.taxBenefit.firstYearSavings > 0 ? (
+              <p className="text-green-700 mt-1">
+                After-tax cost: <span className="font-semibold">{formatCurrency(affordability.taxBenefit.afterTaxMonthlyCost)}/mo</span>
+                <span className="text-xs text-muted-foreground">
+                  {" "}· itemizing interest + property tax saves ~{formatCurrency(affordability.taxBenefit.firstYearSavings)} in year 1
+                  {affordability.taxBenefit.lastItemizingYear !== null &&
+                    ` (standard deduction wins after year ${affordability.taxBenefit.lastItemizingYear})`}
+                </span>
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground/70 mt-1">
+                No tax benefit — interest + property tax stay under the {formatCurrency(affordability.taxBenefit.years[0]?.standardDeduction ?? 0)} standard deduction
+              </p>
+            )}
             <p className="text-xs text-muted-foreground/70 mt-1">
               {zipInfo ? (
                 <>
@@ -2025,12 +2039,18 @@ return (
               <span className="font-semibold text-red-600">{formatCurrency(affordability.actualMonthlyPayment)}</span>
             </div>
 
-            {/* PMI warning when down payment < 20% */}
-            {downPaymentPercentage < 20 && affordability.loanAmount > 0 && (
+            {/* Mortgage insurance note (PMI / FHA MIP / USDA annual fee) */}
+            {affordability.monthlyPMI > 0 && (
               <div className="flex items-start gap-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
                 <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
                 <span>
-                  <span className="font-semibold">PMI not shown:</span> Less than 20% down typically adds Private Mortgage Insurance (~{formatCurrency(Math.round(affordability.loanAmount * 0.009 / 12 / 10) * 10)}/mo). This is not included in the figures above.
+                  <span className="font-semibold">Mortgage insurance included:</span> The payment above includes {getLoanProgram(affordability.loanProgram).annualMILabel} of ~{formatCurrency(affordability.monthlyPMI)}/mo.{" "}
+                  {affordability.pmiEndMonth >= (scenario.financialInputs.loanTerm ?? 30) * 12
+                    ? <>It lasts for the life of the loan</>
+                    : affordability.loanProgram === "conventional"
+                    ? <>It drops off after payment {affordability.pmiEndMonth} (year {Math.ceil(affordability.pmiEndMonth / 12)}), once your balance reaches {scenario.financialInputs.pmiRemoval === "request" ? "80" : "78"}% of the home&apos;s value</>
+                    : <>It ends after payment {affordability.pmiEndMonth} (year {Math.ceil(affordability.pmiEndMonth / 12)})</>}
+                  {" "}— about {formatCurrency(affordability.totalPMI)} in total.
                 </span>
               </div>
             )}
@@ -2482,6 +2502,143 @@ return (
       </Collapsible>
     </Card>
 
+    {/* Why this number — calculation audit trail */}
+    <CalculationTracePanel affordability={affordability} />
+
+    {/* Rent vs Buy */}
+    <Card className="border-2 border-primary/25">
+      <Collapsible open={isRentVsBuyOpen} onOpenChange={setIsRentVsBuyOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="pb-3 cursor-pointer">
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <TrendingUp size={20} className="text-primary" />
+                <span className="text-lg font-semibold text-green-900">Rent vs Buy</span>
+                <span className="text-sm text-muted-foreground">
+                  Whether buying beats renting — net worth over time.
+                </span>
+              </span>
+              <div className="flex items-center gap-2">
+                {!isRentVsBuyOpen && rentVsBuy && (
+                  <span className="text-sm font-medium text-muted-foreground">
+                    {rentVsBuy.breakEvenYear !== null ? `Buying ahead from year ${rentVsBuy.breakEvenYear}` : "Renting stays ahead"}
+                  </span>
+                )}
+                {isRentVsBuyOpen ? <ChevronUp size={16} className="text-muted-foreground/70" /> : <ChevronDown size={16} className="text-muted-foreground/70" />}
+              </div>
+            </CardTitle>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-6 text-sm">
+              <label className="flex items-center gap-2">
+                <span className="text-muted-foreground">Current rent</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={50}
+                  value={currentRent || ""}
+                  placeholder="0"
+                  onChange={(e) => {
+                    const v = parseFloat(e.target.value)
+                    onScenarioUpdate({
+                      ...scenario,
+                      financialInputs: { ...scenario.financialInputs, currentMonthlyRent: isNaN(v) ? 0 : Math.max(0, v) },
+                    })
+                  }}
+                  className="w-28 h-8"
+                />
+                <span className="text-muted-foreground">/mo</span>
+              </label>
+              <label className="flex items-center gap-2 flex-1 min-w-[220px]">
+                <span className="text-muted-foreground whitespace-nowrap">Horizon {rentVsBuyHorizon} yr</span>
+                <input
+                  type="range"
+                  min={1}
+                  max={30}
+                  value={rentVsBuyHorizon}
+                  onChange={(e) => setRentVsBuyHorizon(parseInt(e.target.value))}
+                  className="w-full h-1.5 rounded-full appearance-none bg-border accent-primary cursor-pointer"
+                />
+              </label>
+            </div>
+
+            {!rentVsBuy || !rentVsBuyAtHorizon ? (
+              <p className="text-sm text-muted-foreground">Enter your current rent to compare against buying at your {formatCurrency(affordability.maxPurchasePrice)} roof.</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                  <div className="p-3 rounded-lg bg-muted/50">
+                    <p className="text-xs text-muted-foreground">Buy — net worth at year {rentVsBuyHorizon}</p>
+                    <p className="text-lg font-semibold">{formatCurrency(rentVsBuyAtHorizon.buyerNetWorth)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Equity after sale {formatCurrency(rentVsBuyAtHorizon.buyerHomeEquity)} + invested {formatCurrency(rentVsBuyAtHorizon.buyerPortfolio)}
+                    </p>
+                  </div>
+                  <div className="p-3 rounded-lg bg-muted/50">
+                    <p className="text-xs text-muted-foreground">Rent — net worth at year {rentVsBuyHorizon}</p>
+                    <p className="text-lg font-semibold">{formatCurrency(rentVsBuyAtHorizon.renterNetWorth)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatCurrency(rentVsBuy.upfrontCash)} upfront cash invested, rent {formatCurrency(rentVsBuyAtHorizon.rentMonthly)}/mo by then
+                    </p>
+                  </div>
+                  <div className={`p-3 rounded-lg ${rentVsBuyAtHorizon.advantage >= 0 ? "bg-green-50" : "bg-amber-50"}`}>
+                    <p className="text-xs text-muted-foreground">{rentVsBuyAtHorizon.advantage >= 0 ? "Buying ahead by" : "Renting ahead by"}</p>
+                    <p className={`text-lg font-semibold ${rentVsBuyAtHorizon.advantage >= 0 ? "text-green-700" : "text-amber-700"}`}>
+                      {formatCurrency(Math.abs(rentVsBuyAtHorizon.advantage))}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {rentVsBuy.breakEvenYear !== null ? `Break-even in year ${rentVsBuy.breakEvenYear}` : "Buying never catches up within 30 years"}
+                    </p>
+                  </div>
+                </div>
+
+                {/* Advantage by year — bars above the line favor buying */}
+                {(() => {
+                  const maxAbs = Math.max(1, ...rentVsBuy.years.map((y) => Math.abs(y.advantage)))
+                  return (
+                    <div className="flex items-center gap-0.5 h-24">
+                      {rentVsBuy.years.map((y) => (
+                        <div
+                          key={y.year}
+                          className="flex-1 h-full flex flex-col justify-center cursor-pointer"
+                          title={`Year ${y.year}: ${y.advantage >= 0 ? "buy" : "rent"} ahead by ${formatCurrency(Math.abs(y.advantage))}`}
+                          onClick={() => setRentVsBuyHorizon(y.year)}
+                        >
+                          <div className="h-1/2 flex items-end">
+                            {y.advantage > 0 && (
+                              <div
+                                className={`w-full rounded-t-sm ${y.year === rentVsBuyHorizon ? "bg-green-600" : "bg-green-300"}`}
+                                style={{ height: `${(y.advantage / maxAbs) * 100}%` }}
+                              />
+                            )}
+                          </div>
+                          <div className="h-1/2 flex items-start border-t border-border">
+                            {y.advantage < 0 && (
+                              <div
+                                className={`w-full rounded-b-sm ${y.year === rentVsBuyHorizon ? "bg-amber-600" : "bg-amber-300"}`}
+                                style={{ height: `${(-y.advantage / maxAbs) * 100}%` }}
+                              />
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )
+                })()}
+
+                <p className="text-xs text-muted-foreground">
+                  Assumes {RENT_VS_BUY_DEFAULTS.rentGrowthPercent}% rent growth, {scenario.financialInputs.annualAppreciationPercent ?? RENT_VS_BUY_DEFAULTS.homeAppreciationPercent}% appreciation, {RENT_VS_BUY_DEFAULTS.investmentReturnPercent}% investment return, {RENT_VS_BUY_DEFAULTS.maintenancePercent}% maintenance, {RENT_VS_BUY_DEFAULTS.sellingCostPercent}% selling costs, and a {rentVsBuyTaxAssumptions(scenario.financialInputs).marginalTaxRatePercent}% bracket for the mortgage interest and property tax deduction above the standard deduction.
+                  Starting cost to own: {formatCurrency(rentVsBuy.initialBuyerMonthly)}/mo vs {formatCurrency(rentVsBuy.initialRent)}/mo rent.
+                </p>
+              </>
+            )}
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+
     {/* Edit/Add Modal */}
     <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
       <DialogContent className={modalType === "income" ? "sm:max-w-[500px]" : modalType === "debt" || modalType === "expense" ? "sm:max-w-[460px]" : "sm:max-w-[425px]"}>
@@ -2754,6 +2911,11 @@ return (
                       </div>
                     ))}
                   </div>
+                  {scenario.financialInputs.withholdingMode === "estimated" && (
+                    <p className="text-xs text-muted-foreground/70">
+                      Taxes are estimated from brackets for the household — the tax % here is not used.
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -0,0 +1,130 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { ChevronDown, ChevronUp, ClipboardList } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import { AFFORDABILITY_CONSTRAINTS } from "@/lib/affordability-engine"
+import type { TraceSection, TraceStep } from "@/lib/affordability-engine"
+import type { AffordabilityCalculation } from "@/lib/property-types"
+
+interface CalculationTracePanelProps {
+  affordability: AffordabilityCalculation
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function formatTraceValue(step: TraceStep): string {
+  switch (step.unit) {
+    case "currency":
+      return formatCurrency(step.value)
+    case "percent":
+      return `${Number(step.value.toFixed(3))}%`
+    case "years":
+      return `${step.value} yr`
+    case "months":
+      return `${step.value} mo`
+  }
+}
+
+// Plain-text version of the trace for pasting into an email to a partner or lender
+function traceToText(sections: TraceSection[]): string {
+  return sections
+    .map((section) =>
+      [
+        section.title.toUpperCase(),
+        ...section.steps.map(
+          (step) => `  ${step.label}: ${formatTraceValue(step)}${step.formula ? `  (${step.formula})` : ""}`,
+        ),
+      ].join("\n"),
+    )
+    .join("\n\n")
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function CalculationTracePanel({ affordability }: CalculationTracePanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const bindingLabel =
+    AFFORDABILITY_CONSTRAINTS.find((c) => c.id === affordability.bindingConstraint)?.label ?? "Cash"
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(traceToText(affordability.trace))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      // Clipboard unavailable (e.g. insecure context) — the panel itself is still readable
+    }
+  }
+
+  return (
+    <Card className="border-2 border-primary/25">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <CardHeader className="pb-3 cursor-pointer">
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <ClipboardList size={20} className="text-primary" />
+                <span className="text-lg font-semibold text-green-900">Why This Number</span>
+                <span className="text-sm text-muted-foreground">
+                  Every input, intermediate value and formula behind your roof.
+                </span>
+              </span>
+              <div className="flex items-center gap-2">
+                {!isOpen && (
+                  <span className="text-sm font-medium text-muted-foreground">
+                    {formatCurrency(affordability.maxPurchasePrice)} — {bindingLabel} binds
+                  </span>
+                )}
+                {isOpen ? <ChevronUp size={16} className="text-muted-foreground/70" /> : <ChevronDown size={16} className="text-muted-foreground/70" />}
+              </div>
+            </CardTitle>
+          </CardHeader>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {affordability.trace.map((section) => (
+                <div key={section.title} className="rounded-lg bg-muted/50 p-3">
+                  <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+                    {section.title}
+                  </p>
+                  <div className="divide-y divide-border/50">
+                    {section.steps.map((step) => (
+                      <div key={step.label} className="py-1.5">
+                        <div className="flex justify-between items-baseline gap-3 text-sm">
+                          <span className="text-muted-foreground">{step.label}</span>
+                          <span className="font-medium tabular-nums">{formatTraceValue(step)}</span>
+                        </div>
+                        {step.formula && <p className="text-[11px] text-muted-foreground/70">= {step.formula}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {affordability.constraints.length > 0 && (
+              <div className="text-xs text-muted-foreground space-y-1">
+                {affordability.constraints.map((constraint) => (
+                  <p key={constraint}>• {constraint}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? "Copied" : "Copy as text"}
+              </Button>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
@@ -12,7 +12,8 @@ import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { X, DollarSign, Percent, Plus, Pencil, Trash2 } from "lucide-react"
-import { formatCurrency } from "@/lib/affordability-calculations"
+import { formatCurrency, taxProfileFor } from "@/lib/affordability-calculations"
+import { estimateTakeHome } from "@/lib/income-tax"
 import type { Scenario } from "@/lib/property-types"
 import { Slider } from "@/components/ui/slider"
 
@@ -392,7 +393,7 @@ export default function FinancialInputPanel({ scenario, onScenarioUpdate, onClos
   }
 
   const totals = calculateTotals()
-  const monthlyTakeHome = (totals.annualIncome / 12) * 0.7
+  const monthlyTakeHome = estimateTakeHome(totals.annualIncome, taxProfileFor(scenario.financialInputs)).annualTakeHome / 12
 
   const handleInputChange = (field: keyof Scenario["financialInputs"], value: number) => {
     onScenarioUpdate({
@@ -0,0 +1,75 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Kbd } from "@/components/ui/kbd"
+import { History as HistoryIcon, Redo2, Undo2 } from "lucide-react"
+import type { History } from "@/hooks/use-history"
+
+interface HistoryPanelProps<T> {
+  history: History<T>
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function HistoryPanel<T>({ history }: HistoryPanelProps<T>) {
+  const { entries, index, canUndo, canRedo, undo, redo, jumpTo } = history
+  const undoLabel = canUndo ? `Undo ${entries[index].label}` : "Nothing to undo"
+  const redoLabel = canRedo ? `Redo ${entries[index + 1].label}` : "Nothing to redo"
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="ghost" size="icon" onClick={undo} disabled={!canUndo} title={undoLabel} aria-label={undoLabel}>
+        <Undo2 size={16} />
+      </Button>
+      <Button variant="ghost" size="icon" onClick={redo} disabled={!canRedo} title={redoLabel} aria-label={redoLabel}>
+        <Redo2 size={16} />
+      </Button>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center gap-2" disabled={entries.length === 0}>
+            <HistoryIcon size={14} />
+            History
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <div className="flex items-center justify-between border-b px-3 py-2">
+            <p className="text-sm font-semibold">History</p>
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Kbd>⌘Z</Kbd> undo <Kbd>⇧⌘Z</Kbd> redo
+            </p>
+          </div>
+          <ol className="max-h-80 overflow-y-auto py-1">
+            {entries
+              .map((entry, i) => ({ entry, i }))
+              .reverse()
+              .map(({ entry, i }) => (
+                <li key={entry.id}>
+                  <button
+                    type="button"
+                    onClick={() => jumpTo(i)}
+                    className={`flex w-full items-baseline justify-between gap-3 px-3 py-1.5 text-left text-sm hover:bg-muted ${
+                      i === index ? "bg-primary/10 font-medium text-primary" : i > index ? "text-muted-foreground/60 line-through" : ""
+                    }`}
+                  >
+                    <span className="truncate">{entry.label}</span>
+                    <span className="flex-shrink-0 text-xs text-muted-foreground">{i === index ? "Now" : formatTime(entry.at)}</span>
+                  </button>
+                </li>
+              ))}
+          </ol>
+          <p className="border-t px-3 py-2 text-xs text-muted-foreground">
+            Click any step to go back to it; undone steps stay until you make a new change.
+          </p>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,324 @@
+"use client"
+
+import { useRef, useState } from "react"
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertTriangle, Download, Upload } from "lucide-react"
+import {
+  applyPlanImport,
+  createPlanBundle,
+  diffPlanSections,
+  parsePlanBundleText,
+  planBundleFileName,
+} from "@/lib/plan-bundle"
+import type { EntryChange, ImportMode, PlanBundle, PlanSections } from "@/lib/plan-bundle"
+import type { SchemaIssue } from "@/lib/profile-schema"
+import { STORAGE_KEYS, loadRecord, saveRecords } from "@/lib/storage"
+import type { RehearsalSession } from "@/lib/decision-rehearsal-engine"
+import { balanceResetEntries, withJournalBalances } from "@/lib/liquidity-engine"
+import type { Bucket } from "@/lib/liquidity-engine"
+import { bucketJournalSchema, defaultBucketJournal } from "@/lib/budget-data"
+import type { BucketJournal } from "@/lib/budget-data"
+import { parseOrThrow } from "@/lib/profile-schema"
+import type { FinancialItem, UserProfile } from "@/lib/property-types"
+
+interface PlanTransferProps {
+  profile: UserProfile
+  financialItems: FinancialItem[]
+  // The stored profile or items couldn't be read; an import would write over them
+  blocked: boolean
+  // Called once every section is written to storage, so the workbench's state can follow
+  onImport: (sections: Pick<PlanSections, "profile" | "financialItems">) => void
+}
+
+type ImportState =
+  | { status: "closed" }
+  | { status: "invalid"; fileName: string; issues: SchemaIssue[] }
+  | { status: "failed"; title: string; message: string }
+  | { status: "preview"; fileName: string; bundle: PlanBundle; current: PlanSections; migratedFrom: number | null }
+
+const MAX_FIELDS_SHOWN = 6
+
+const BLOCKED_MESSAGE = "Your saved plan couldn't be read, so importing would write over it. Nothing was changed."
+
+// ─── Helpers ────────────────────────────────────────────────
+
+// Validated like the budget page does, so a damaged journal is reported rather than written over
+async function storedBucketJournal(): Promise<BucketJournal> {
+  const record = await loadRecord<BucketJournal>(STORAGE_KEYS.bucketJournal)
+  return record ? parseOrThrow(bucketJournalSchema, record.value) : defaultBucketJournal
+}
+
+// Sections the workbench doesn't hold in state come straight from storage.
+// Bucket balances are the journal's; the stored bucket copy may lag behind it.
+async function currentSections(profile: UserProfile, financialItems: FinancialItem[]): Promise<PlanSections> {
+  const [rehearsal, liquidityBuckets, journal] = await Promise.all([
+    loadRecord<RehearsalSession>(STORAGE_KEYS.rehearsalSession),
+    loadRecord<Bucket[]>(STORAGE_KEYS.liquidityBuckets),
+    storedBucketJournal(),
+  ])
+  return {
+    profile,
+    financialItems,
+    rehearsal: rehearsal?.value ?? null,
+    liquidityBuckets: withJournalBalances(liquidityBuckets?.value ?? [], journal.entries),
+  }
+}
+
+function today(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "—"
+  if (typeof value === "number") return value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+  if (typeof value === "string") return `"${value}"`
+  return JSON.stringify(value)
+}
+
+const KIND_STYLES: Record<EntryChange["kind"], { symbol: string; className: string }> = {
+  added: { symbol: "+", className: "text-green-700" },
+  removed: { symbol: "−", className: "text-red-600" },
+  changed: { symbol: "~", className: "text-amber-700" },
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e)
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function PlanTransfer({ profile, financialItems, blocked, onImport }: PlanTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [importState, setImportState] = useState<ImportState>({ status: "closed" })
+  const [mode, setMode] = useState<ImportMode>("merge")
+  const [isApplying, setIsApplying] = useState(false)
+
+  const handleExport = async () => {
+    try {
+      const bundle = createPlanBundle(await currentSections(profile, financialItems))
+      const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: "application/json" }))
+      const link = document.createElement("a")
+      link.href = url
+      link.download = planBundleFileName(bundle)
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (e) {
+      setImportState({ status: "failed", title: "Can't export your plan", message: errorMessage(e) })
+    }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = "" // allow re-picking the same file
+    if (!file) return
+    try {
+      const parsed = parsePlanBundleText(await file.text())
+      if (!parsed.success) {
+        setImportState({ status: "invalid", fileName: file.name, issues: parsed.issues })
+        return
+      }
+      setMode("merge")
+      setImportState({
+        status: "preview",
+        fileName: file.name,
+        bundle: parsed.bundle,
+        current: await currentSections(profile, financialItems),
+        migratedFrom: parsed.migratedFrom,
+      })
+    } catch (err) {
+      setImportState({ status: "failed", title: `Can't read ${file.name}`, message: errorMessage(err) })
+    }
+  }
+
+  const preview = importState.status === "preview" ? importState : null
+  const result = preview ? applyPlanImport(preview.current, preview.bundle, mode) : null
+  const diff = preview && result ? diffPlanSections(preview.current, result) : []
+  const balancesChange = diff.some(
+    (section) => section.section === "liquidityBuckets" && section.changes.some((c) => c.kind === "added" || c.fields.some((f) => f.field === "balance")),
+  )
+
+  const handleApply = async () => {
+    if (!result) return
+    if (blocked) {
+      setImportState({ status: "failed", title: "Import refused", message: BLOCKED_MESSAGE })
+      return
+    }
+    setIsApplying(true)
+    try {
+      // Imported balances are journaled, since the budget page reads balances from the journal
+      const journal = await storedBucketJournal()
+      const resets = balanceResetEntries(result.liquidityBuckets, journal.entries, {
+        date: today(),
+        idPrefix: `plan-import-${Date.now()}`,
+        reason: "Plan import",
+      })
+      // Every section lands together or not at all; the workbench's own state follows only on success
+      await saveRecords([
+        { key: STORAGE_KEYS.userProfile, value: result.profile },
+        { key: STORAGE_KEYS.financialItems, value: result.financialItems },
+        { key: STORAGE_KEYS.liquidityBuckets, value: result.liquidityBuckets },
+        { key: STORAGE_KEYS.rehearsalSession, value: result.rehearsal ?? undefined },
+        ...(resets.length > 0
+          ? [{ key: STORAGE_KEYS.bucketJournal, value: { ...journal, entries: [...journal.entries, ...resets] } }]
+          : []),
+      ])
+      onImport({ profile: result.profile, financialItems: result.financialItems })
+      setImportState({ status: "closed" })
+    } catch (e) {
+      setImportState({ status: "failed", title: "Import failed", message: `Nothing was changed. ${errorMessage(e)}` })
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={handleExport} className="flex items-center gap-2">
+        <Download size={14} />
+        Export
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={blocked}
+        title={blocked ? BLOCKED_MESSAGE : undefined}
+        className="flex items-center gap-2"
+      >
+        <Upload size={14} />
+        Import
+      </Button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+
+      <Dialog open={importState.status !== "closed"} onOpenChange={(open) => !open && setImportState({ status: "closed" })}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {importState.status === "invalid" && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <AlertTriangle size={18} className="text-amber-600" />
+                  Can&apos;t import {importState.fileName}
+                </DialogTitle>
+                <DialogDescription>Nothing was changed. Fix these fields in the file and try again.</DialogDescription>
+              </DialogHeader>
+              <ul className="space-y-1 text-sm">
+                {importState.issues.map((issue, i) => (
+                  <li key={i} className="rounded bg-muted/50 px-2 py-1">
+                    {issue.path && <span className="font-mono text-xs text-muted-foreground">{issue.path}: </span>}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setImportState({ status: "closed" })}>
+                  Close
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {importState.status === "failed" && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  <AlertTriangle size={18} className="text-amber-600" />
+                  {importState.title}
+                </DialogTitle>
+                <DialogDescription>{importState.message}</DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setImportState({ status: "closed" })}>
+                  Close
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {preview && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Import {preview.bundle.profile.name}&apos;s plan</DialogTitle>
+                <DialogDescription>
+                  {preview.fileName} · exported {new Date(preview.bundle.exportedAt).toLocaleDateString()}
+                  {preview.migratedFrom !== null && ` · upgraded from schema v${preview.migratedFrom}`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="flex items-center gap-2 text-sm">
+                {([
+                  { id: "merge", label: "Merge into my plan", hint: "Adds new entries and updates matching ones; nothing is removed" },
+                  { id: "replace", label: "Replace my plan", hint: "Everything becomes exactly what's in the file" },
+                ] as const).map(({ id, label, hint }) => (
+                  <button
+                    key={id}
+                    type="button"
+                    title={hint}
+                    onClick={() => setMode(id)}
+                    className={`rounded-md border px-3 py-1.5 ${
+                      mode === id ? "border-primary bg-primary/10 font-medium text-primary" : "border-border text-muted-foreground"
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {diff.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No differences — your plan already matches this file.</p>
+              ) : (
+                <div className="space-y-3">
+                  {diff.map((section) => (
+                    <div key={section.section} className="rounded-lg bg-muted/50 p-3">
+                      <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-1">
+                        {section.label} ({section.changes.length})
+                      </p>
+                      <ul className="space-y-1 text-sm">
+                        {section.changes.map((change) => (
+                          <li key={`${change.kind}-${change.id}`}>
+                            <span className={`font-mono mr-1.5 ${KIND_STYLES[change.kind].className}`}>
+                              {KIND_STYLES[change.kind].symbol}
+                            </span>
+                            {change.label}
+                            {change.fields.length > 0 && (
+                              <ul className="ml-5 text-xs text-muted-foreground">
+                                {change.fields.slice(0, MAX_FIELDS_SHOWN).map((field) => (
+                                  <li key={field.field}>
+                                    <span className="font-mono">{field.field}</span>: {formatValue(field.from)} → {formatValue(field.to)}
+                                  </li>
+                                ))}
+                                {change.fields.length > MAX_FIELDS_SHOWN && (
+                                  <li>+{change.fields.length - MAX_FIELDS_SHOWN} more</li>
+                                )}
+                              </ul>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {balancesChange && (
+                <p className="text-xs text-muted-foreground">
+                  Bucket balances change through the bucket journal: each difference is recorded there as a &ldquo;Plan import&rdquo; entry.
+                </p>
+              )}
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setImportState({ status: "closed" })}>
+                  Cancel
+                </Button>
+                <Button onClick={handleApply} disabled={isApplying || blocked || diff.length === 0}>
+                  {mode === "merge" ? "Merge" : "Replace"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -1,16 +1,39 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { MapPin, TrendingUp, Home, Target } from "lucide-react"
-import { sampleProperties, defaultUserProfile } from "@/lib/property-data"
+import { MapPin, TrendingUp, Home, Target, AlertTriangle, X } from "lucide-react"
+import { sampleProperties, defaultUserProfile, defaultFinancialItems } from "@/lib/property-data"
 import { calculatePropertyAffordability } from "@/lib/affordability-calculations"
-import type { UserProfile, PropertyAffordability, Scenario } from "@/lib/property-types"
+import type { UserProfile, PropertyAffordability, Scenario, FinancialItem, ScenarioSnapshot } from "@/lib/property-types"
+import { STORAGE_KEYS } from "@/lib/storage"
+import { formatSchemaIssues, parseUserProfile } from "@/lib/profile-schema"
+import { encodeSharedScenario, shareLinkUrl } from "@/lib/share-link"
+import type { SharedScenario } from "@/lib/share-link"
+import { describeWorkbenchChange } from "@/lib/workbench-history"
+import type { WorkbenchState } from "@/lib/workbench-history"
+import type { PlanSections } from "@/lib/plan-bundle"
+import { addSnapshot, createSnapshot, restoreSnapshot, snapshotsFor } from "@/lib/scenario-snapshots"
+import { usePersistentState } from "@/hooks/use-autosave"
+import { useSharedScenario } from "@/hooks/use-shared-scenario"
+import { useHistory } from "@/hooks/use-history"
+import { useAutoSnapshot } from "@/hooks/use-auto-snapshot"
+import SaveIndicator from "@/components/save-indicator"
 import PropertyCard from "./property-card"
 import ScenarioSelector from "./scenario-selector"
 import PropertyComparison from "./property-comparison"
 import AffordabilitySummary from "./affordability-summary"
+import PlanTransfer from "./plan-transfer"
+import HistoryPanel from "./history-panel"
+import ScenarioTimeline from "./scenario-timeline"
+
+// Stored profiles may predate the current schema version — upgrade, or reject with field-level errors
+function reviveUserProfile(stored: unknown): UserProfile {
+  const parsed = parseUserProfile(stored)
+  if (!parsed.success) throw new Error(formatSchemaIssues(parsed.issues))
+  return parsed.profile
+}
 
 interface ActiveLocation {
   zipCode: string
@@ -21,14 +44,39 @@ interface ActiveLocation {
 }
 
 export default function PropertyAffordabilityWorkbench() {
-  const [userProfile, setUserProfile] = useState<UserProfile>(defaultUserProfile)
+  const [userProfile, setUserProfile, saveStatus] = usePersistentState<UserProfile>(STORAGE_KEYS.userProfile, defaultUserProfile, {
+    revive: reviveUserProfile,
+  })
+  const [financialItems, setFinancialItems, itemsSaveStatus] = usePersistentState<FinancialItem[]>(
+    STORAGE_KEYS.financialItems,
+    defaultFinancialItems,
+  )
   const [selectedProperties, setSelectedProperties] = useState<string[]>([])
   const [viewMode, setViewMode] = useState<"grid" | "comparison">("grid")
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false)
   const [activeLocation, setActiveLocation] = useState<ActiveLocation | null>({
     zipCode: "62701", city: "Springfield", state: "IL",
     propertyTaxRate: 0.0060, schoolTaxRate: 0.0140,
   })
 
+  // Undo/redo covers everything the household edits here: items, scenarios, saved properties, phases
+  const workbenchState = useMemo<WorkbenchState>(
+    () => ({ profile: userProfile, financialItems }),
+    [userProfile, financialItems],
+  )
+  const restoreWorkbench = useCallback(
+    (state: WorkbenchState) => {
+      setUserProfile(state.profile)
+      setFinancialItems(state.financialItems)
+    },
+    [setUserProfile, setFinancialItems],
+  )
+  const history = useHistory(workbenchState, restoreWorkbench, {
+    ready: saveStatus.hydrated && itemsSaveStatus.hydrated,
+    describe: describeWorkbenchChange,
+    initialLabel: "Opened plan",
+  })
+
   const activeScenario = useMemo(() => {
     return userProfile.scenarios.find((s) => s.id === userProfile.activeScenarioId) || userProfile.scenarios[0]
   }, [userProfile])
@@ -121,6 +169,7 @@ export default function PropertyAffordabilityWorkbench() {
         ...prev,
         scenarios: updatedScenarios,
         activeScenarioId: newActiveId,
+        scenarioSnapshots: prev.scenarioSnapshots.filter((s) => s.scenarioId !== scenarioId),
       }
     })
   }
@@ -133,8 +182,9 @@ export default function PropertyAffordabilityWorkbench() {
   }
 
   const handleSaveScenario = () => {
-    // Just update the current scenario - already handled by handleScenarioUpdate
-    console.log("Scenario saved:", activeScenario.name)
+    // Edits already autosave; this just skips the debounce
+    saveStatus.saveNow()
+    itemsSaveStatus.saveNow()
   }
 
   const handleSaveAsNewScenario = () => {
@@ -151,6 +201,72 @@ export default function PropertyAffordabilityWorkbench() {
     }))
   }
 
+  const handleAddSnapshots = (snapshots: ScenarioSnapshot[]) => {
+    setUserProfile((prev) => ({
+      ...prev,
+      scenarioSnapshots: snapshots.reduce(addSnapshot, prev.scenarioSnapshots),
+    }))
+  }
+
+  const handleTakeSnapshot = (name: string) => {
+    handleAddSnapshots([createSnapshot(activeScenario, { name, trigger: "manual" })])
+  }
+
+  const handleRestoreSnapshot = (snapshot: ScenarioSnapshot) => {
+    history.labelNext(`Restored "${snapshot.name}"`)
+    handleScenarioUpdate(restoreSnapshot(activeScenario, snapshot))
+  }
+
+  const handleDeleteSnapshot = (snapshotId: string) => {
+    setUserProfile((prev) => ({
+      ...prev,
+      scenarioSnapshots: prev.scenarioSnapshots.filter((s) => s.id !== snapshotId),
+    }))
+  }
+
+  useAutoSnapshot(activeScenario, userProfile.scenarioSnapshots, handleAddSnapshots, {
+    ready: saveStatus.hydrated && itemsSaveStatus.hydrated,
+  })
+
+  const handleImportPlan = ({ profile, financialItems }: Pick<PlanSections, "profile" | "financialItems">) => {
+    history.labelNext("Imported plan")
+    setUserProfile(profile)
+    setFinancialItems(financialItems)
+  }
+
+  const handleShareScenario = async () => {
+    const inputs = activeScenario.financialInputs
+    const encoded = await encodeSharedScenario({
+      name: activeScenario.name,
+      description: activeScenario.description,
+      financialInputs: inputs,
+      housingPercentage: inputs.housingPercentage ?? 30,
+      downPaymentPercentage: inputs.downPaymentPercentage ?? 20,
+    })
+    await navigator.clipboard.writeText(shareLinkUrl(window.location.href, encoded))
+  }
+
+  // A scenario link opens as a new (editable) scenario alongside the household's own
+  const handleOpenShared = (shared: SharedScenario) => {
+    const scenario: Scenario = {
+      id: `scenario-${Date.now()}`,
+      name: `${shared.name} (shared)`,
+      description: shared.description,
+      financialInputs: {
+        ...shared.financialInputs,
+        housingPercentage: shared.housingPercentage,
+        downPaymentPercentage: shared.downPaymentPercentage,
+      },
+    }
+    setUserProfile((prev) => ({
+      ...prev,
+      scenarios: [...prev.scenarios, scenario],
+      activeScenarioId: scenario.id,
+    }))
+  }
+
+  const { error: shareError, dismissError } = useSharedScenario(handleOpenShared, saveStatus.hydrated)
+
   // Filter properties by ZIP/city match when a location is set
   const locationFilteredProperties = useMemo(() => {
     if (!activeLocation) return sampleProperties
@@ -190,6 +306,14 @@ export default function PropertyAffordabilityWorkbench() {
               <p className="text-muted-foreground">Explore affordability and tradeoffs. This is directional, not financial advice.</p>
             </div>
             <div className="flex items-center gap-3">
+              <SaveIndicator status={saveStatus} />
+              <HistoryPanel history={history} />
+              <PlanTransfer
+                profile={userProfile}
+                financialItems={financialItems}
+                blocked={saveStatus.blocked || itemsSaveStatus.blocked}
+                onImport={handleImportPlan}
+              />
               <Button
                 variant={viewMode === "comparison" ? "default" : "outline"}
                 onClick={() => setViewMode(viewMode === "grid" ? "comparison" : "grid")}
@@ -212,8 +336,34 @@ export default function PropertyAffordabilityWorkbench() {
             onRenameScenario={handleRenameScenario}
             onSaveScenario={handleSaveScenario}
             onSaveAsNewScenario={handleSaveAsNewScenario}
+            onShareScenario={handleShareScenario}
+            onShowVersions={() => setIsTimelineOpen(true)}
+            versionCount={snapshotsFor(userProfile.scenarioSnapshots, activeScenario.id).length}
           />
 
+          <ScenarioTimeline
+            open={isTimelineOpen}
+            onOpenChange={setIsTimelineOpen}
+            scenario={activeScenario}
+            snapshots={userProfile.scenarioSnapshots}
+            onTakeSnapshot={handleTakeSnapshot}
+            onRestoreSnapshot={handleRestoreSnapshot}
+            onDeleteSnapshot={handleDeleteSnapshot}
+          />
+
+          {shareError && (
+            <div className="mt-3 flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="font-semibold">Couldn&apos;t open that scenario link</p>
+                <p className="whitespace-pre-line text-xs">{shareError}</p>
+              </div>
+              <button type="button" onClick={dismissError} className="text-amber-700 hover:text-amber-900" aria-label="Dismiss">
+                <X size={14} />
+              </button>
+            </div>
+          )}
+
           {/* Journey Tracker */}
         </div>
 
@@ -221,6 +371,8 @@ export default function PropertyAffordabilityWorkbench() {
         <AffordabilitySummary
           scenario={activeScenario}
           onScenarioUpdate={handleScenarioUpdate}
+          financialItems={financialItems}
+          onFinancialItemsChange={setFinancialItems}
           onLocationChange={(loc) => setActiveLocation(loc ?? null)}
         />
 
@@ -17,6 +17,8 @@ import {
   Trash2,
   Save,
   Copy,
+  Link2,
+  History,
 } from "lucide-react"
 import type { Scenario } from "@/lib/property-types"
 
@@ -34,6 +36,9 @@ interface ScenarioSelectorProps {
   onRenameScenario: (scenarioId: string, newName: string) => void
   onSaveScenario: () => void
   onSaveAsNewScenario: () => void
+  onShareScenario: () => Promise<void> // copies a link to the active scenario; rejects when it can't
+  onShowVersions?: () => void          // opens the active scenario's snapshot timeline
+  versionCount?: number
 }
 
 export default function ScenarioSelector({
@@ -45,7 +50,12 @@ export default function ScenarioSelector({
   onRenameScenario,
   onSaveScenario,
   onSaveAsNewScenario,
+  onShareScenario,
+  onShowVersions,
+  versionCount,
 }: ScenarioSelectorProps) {
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [shareError, setShareError] = useState<string | null>(null)
   const [isRenameModalOpen, setIsRenameModalOpen] = useState(false)
   const [renamingScenarioId, setRenamingScenarioId] = useState<string | null>(null)
   const [newScenarioName, setNewScenarioName] = useState("")
@@ -132,6 +142,37 @@ export default function ScenarioSelector({
                     <Copy size={11} className="mr-1" />
                     Duplicate
                   </Button>
+                  <Button
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onShareScenario()
+                        .then(() => {
+                          setShareError(null)
+                          setLinkCopied(true)
+                          setTimeout(() => setLinkCopied(false), 2000)
+                        })
+                        .catch((err) => setShareError(err instanceof Error ? err.message : "Couldn't copy the link"))
+                    }}
+                    size="sm"
+                    variant="ghost"
+                    className={`h-6 text-xs px-2 hover:bg-muted ${shareError ? "text-amber-700" : "text-muted-foreground"}`}
+                    title={shareError ?? "Copy a link that opens this scenario"}
+                  >
+                    <Link2 size={11} className="mr-1" />
+                    {linkCopied ? "Copied" : shareError ? "Can't share" : "Share"}
+                  </Button>
+                  {onShowVersions && (
+                    <Button
+                      onClick={(e) => { e.stopPropagation(); onShowVersions() }}
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 text-xs px-2 text-muted-foreground hover:bg-muted"
+                      title="Snapshots of this scenario over time"
+                    >
+                      <History size={11} className="mr-1" />
+                      Versions{versionCount ? ` (${versionCount})` : ""}
+                    </Button>
+                  )}
                 </div>
               )}
 
@@ -0,0 +1,244 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Camera, RotateCcw, Trash2 } from "lucide-react"
+import { formatCurrency } from "@/lib/affordability-calculations"
+import { diffScenarios, snapshotOutcomes, snapshotsFor } from "@/lib/scenario-snapshots"
+import type { OutcomeChange } from "@/lib/scenario-snapshots"
+import type { Scenario, ScenarioSnapshot } from "@/lib/property-types"
+
+interface ScenarioTimelineProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  scenario: Scenario                  // the live scenario
+  snapshots: ScenarioSnapshot[]       // every scenario's; filtered here
+  onTakeSnapshot: (name: string) => void
+  onRestoreSnapshot: (snapshot: ScenarioSnapshot) => void
+  onDeleteSnapshot: (snapshotId: string) => void
+}
+
+const CURRENT = "current"
+const MAX_INPUTS_SHOWN = 12
+
+// Direction that's good news for each outcome
+const HIGHER_IS_BETTER: Record<OutcomeChange["field"], boolean> = {
+  maxPurchasePrice: true,
+  actualMonthlyPayment: false,
+  monthlyMargin: true,
+  dtiRatio: false,
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function formatTakenAt(iso: string): string {
+  return new Date(iso).toLocaleString([], { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })
+}
+
+function formatOutcome(value: number, unit: OutcomeChange["unit"]): string {
+  return unit === "percent" ? `${value.toFixed(1)}%` : formatCurrency(value)
+}
+
+function formatDelta(change: OutcomeChange): string {
+  const sign = change.delta > 0 ? "+" : change.delta < 0 ? "−" : "±"
+  return `${sign}${formatOutcome(Math.abs(change.delta), change.unit)}`
+}
+
+// "financialInputs.downPaymentPercentage" → "down payment percentage"
+function inputName(field: string): string {
+  return (field.split(".").pop() ?? field).replace(/([A-Z])/g, " $1").toLowerCase()
+}
+
+function formatInput(value: unknown): string {
+  if (value === undefined || value === null) return "—"
+  if (typeof value === "number") return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+  return String(value)
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function ScenarioTimeline({
+  open,
+  onOpenChange,
+  scenario,
+  snapshots,
+  onTakeSnapshot,
+  onRestoreSnapshot,
+  onDeleteSnapshot,
+}: ScenarioTimelineProps) {
+  const timeline = snapshotsFor(snapshots, scenario.id)
+  const [snapshotName, setSnapshotName] = useState("")
+  // Compare "from" → "to"; ids of snapshots, or CURRENT for the live scenario
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string>(CURRENT)
+
+  const versionFor = (id: string | null): Scenario | null =>
+    id === CURRENT ? scenario : timeline.find((s) => s.id === id)?.scenario ?? null
+  // Default comparison: latest snapshot → now
+  const effectiveFromId = versionFor(fromId) ? fromId : timeline[0]?.id ?? null
+  const from = versionFor(effectiveFromId)
+  const effectiveToId = versionFor(toId) ? toId : CURRENT
+  const to = versionFor(effectiveToId) ?? scenario
+  const diff = from ? diffScenarios(from, to) : null
+
+  const handleTakeSnapshot = () => {
+    onTakeSnapshot(snapshotName.trim() || `Snapshot ${timeline.filter((s) => s.trigger === "manual").length + 1}`)
+    setSnapshotName("")
+  }
+
+  const rows = [
+    { id: CURRENT, name: "Now", takenAt: null, trigger: null, version: scenario },
+    ...timeline.map((s) => ({ id: s.id, name: s.name, takenAt: s.takenAt, trigger: s.trigger, version: s.scenario })),
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version history — {scenario.name}</DialogTitle>
+          <DialogDescription>
+            Snapshots are taken when you ask and automatically after edits that move your numbers. Pick any two to compare.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleTakeSnapshot()}
+            placeholder="Name this version, e.g. After lender call"
+            className="h-8 text-sm"
+          />
+          <Button size="sm" onClick={handleTakeSnapshot} className="flex items-center gap-1.5 whitespace-nowrap">
+            <Camera size={14} />
+            Take snapshot
+          </Button>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_minmax(0,1.2fr)]">
+          {/* Timeline */}
+          <ol className="space-y-1">
+            {rows.map((row) => {
+              const isFrom = row.id === effectiveFromId
+              const isTo = row.id === effectiveToId
+              return (
+                <li
+                  key={row.id}
+                  className={`rounded-lg border px-3 py-2 text-sm ${isFrom || isTo ? "border-primary/50 bg-primary/5" : "border-border"}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">{row.name}</span>
+                    {row.trigger && (
+                      <Badge variant="outline" className="h-4 px-1.5 text-[10px]">
+                        {row.trigger}
+                      </Badge>
+                    )}
+                    <span className="ml-auto flex-shrink-0 text-xs text-muted-foreground">
+                      {formatCurrency(snapshotOutcomes(row.version).maxPurchasePrice)}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                    {row.takenAt ? formatTakenAt(row.takenAt) : "Live scenario"}
+                    <span className="ml-auto flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => setFromId(row.id)}
+                        className={`rounded px-1.5 ${isFrom ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
+                      >
+                        from
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setToId(row.id)}
+                        className={`rounded px-1.5 ${isTo ? "bg-primary text-primary-foreground" : "hover:bg-muted"}`}
+                      >
+                        to
+                      </button>
+                      {row.id !== CURRENT && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              const snapshot = timeline.find((s) => s.id === row.id)
+                              if (snapshot) onRestoreSnapshot(snapshot)
+                            }}
+                            className="rounded p-0.5 hover:bg-muted"
+                            title="Restore these inputs"
+                          >
+                            <RotateCcw size={12} />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => onDeleteSnapshot(row.id)}
+                            className="rounded p-0.5 text-red-500 hover:bg-red-50"
+                            title="Delete snapshot"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </>
+                      )}
+                    </span>
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+
+          {/* Diff */}
+          <div className="space-y-3">
+            {!diff ? (
+              <p className="rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+                No snapshots yet. Take one now, or keep editing — significant changes are captured automatically.
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  {diff.outcomes.map((change) => {
+                    const better = change.delta === 0 ? null : change.delta > 0 === HIGHER_IS_BETTER[change.field]
+                    return (
+                      <div key={change.field} className="rounded-lg bg-muted/50 p-2.5">
+                        <p className="text-xs text-muted-foreground">{change.label}</p>
+                        <p className="text-sm font-semibold">{formatOutcome(change.to, change.unit)}</p>
+                        <p
+                          className={`text-xs ${
+                            better === null ? "text-muted-foreground" : better ? "text-green-700" : "text-red-600"
+                          }`}
+                        >
+                          {formatDelta(change)} from {formatOutcome(change.from, change.unit)}
+                        </p>
+                      </div>
+                    )
+                  })}
+                </div>
+
+                <div className="rounded-lg bg-muted/50 p-3">
+                  <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    Inputs changed ({diff.inputs.length})
+                  </p>
+                  {diff.inputs.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Same inputs.</p>
+                  ) : (
+                    <ul className="space-y-0.5 text-sm">
+                      {diff.inputs.slice(0, MAX_INPUTS_SHOWN).map((change) => (
+                        <li key={change.field}>
+                          <span className="text-muted-foreground">{inputName(change.field)}:</span> {formatInput(change.from)} →{" "}
+                          <span className="font-medium">{formatInput(change.to)}</span>
+                        </li>
+                      ))}
+                      {diff.inputs.length > MAX_INPUTS_SHOWN && (
+                        <li className="text-xs text-muted-foreground">+{diff.inputs.length - MAX_INPUTS_SHOWN} more</li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -35,6 +35,10 @@ import {
   calculateLivabilityPurchasePrice,
   calculateGrossPurchasePrice,
 } from "@/lib/real-estate-calculations"
+import { withholdingTaxProfile } from "@/lib/affordability-calculations"
+import { parseUserProfile } from "@/lib/profile-schema"
+import { STORAGE_KEYS, loadRecord } from "@/lib/storage"
+import type { TaxProfile } from "@/lib/income-tax"
 
 // Memoized grid layout component
 const PlannerGrid = React.memo<{
@@ -126,6 +130,24 @@ export default function OptimizedRealEstatePlannerPage() {
   const [lastAction, setLastAction] = useState<{ item: Item; type: "toggle" | "edit" } | null>(null)
   const prevPricesRef = useRef({ gpp: 0, lpp: 0 })
 
+  // Taxes follow the workbench's active scenario: brackets when it estimates withholding, flat % otherwise
+  const [taxProfile, setTaxProfile] = useState<TaxProfile | undefined>()
+  useEffect(() => {
+    let cancelled = false
+    loadRecord(STORAGE_KEYS.userProfile)
+      .then((record) => {
+        const parsed = record ? parseUserProfile(record.value) : null
+        if (cancelled || !parsed?.success) return
+        const { scenarios, activeScenarioId } = parsed.profile
+        const scenario = scenarios.find((s) => s.id === activeScenarioId) ?? scenarios[0]
+        if (scenario) setTaxProfile(withholdingTaxProfile(scenario.financialInputs))
+      })
+      .catch(() => {}) // no saved profile to follow — keep flat withholding
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
   // Use memoized calculations hook
   const {
     grossAnnualIncome,
@@ -139,7 +161,7 @@ export default function OptimizedRealEstatePlannerPage() {
     futureIncomeMonthly,
     futureExpensesMonthly,
     selectedMortgageOptions,
-  } = useMemoizedCalculations(personalFinances, futureHome, mortgageApplication)
+  } = useMemoizedCalculations(personalFinances, futureHome, mortgageApplication, taxProfile)
 
   // Memoize complex calculations
   const purchasePriceCalculations = useMemo(() => {
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { formatCurrency, UPFRONT_COSTS } from "@/lib/affordability-calculations"
+import { CASH_OUT_MAX_LTV, refinanceAnalysis } from "@/lib/refinance-analysis"
+import type { CurrentLoan, RefinanceOffer } from "@/lib/refinance-analysis"
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const NEW_TERMS = [15, 20, 30] as const
+
+function RadioCircle({
+  active,
+  onClick,
+  children,
+}: {
+  active: boolean
+  onClick: () => void
+  children: React.ReactNode
+}) {
+  return (
+    <div
+      onClick={onClick}
+      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-xs cursor-pointer transition-all ${
+        active
+          ? "border-primary bg-primary/5 text-primary font-medium"
+          : "border-border text-muted-foreground hover:border-primary/40"
+      }`}
+    >
+      <div
+        className={`w-3 h-3 rounded-full border-2 flex items-center justify-center ${
+          active ? "border-primary" : "border-muted-foreground/40"
+        }`}
+      >
+        {active && <div className="w-1.5 h-1.5 rounded-full bg-primary" />}
+      </div>
+      {children}
+    </div>
+  )
+}
+
+function NumberField({
+  label,
+  value,
+  step,
+  suffix,
+  onChange,
+}: {
+  label: string
+  value: number
+  step: number
+  suffix?: string
+  onChange: (value: number) => void
+}) {
+  return (
+    <label className="flex items-center justify-between gap-3 py-1">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          step={step}
+          min={0}
+          value={value}
+          onChange={(e) => {
+            const v = parseFloat(e.target.value)
+            if (!isNaN(v) && v >= 0) onChange(v)
+          }}
+          className="w-28 text-right text-sm font-medium border border-border rounded-md px-2 py-1 bg-background"
+        />
+        {suffix && <span className="text-xs text-muted-foreground w-6">{suffix}</span>}
+      </span>
+    </label>
+  )
+}
+
+function MetricRow({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <div className="flex justify-between items-center py-1.5">
+      <span className="text-xs text-muted-foreground">{label}</span>
+      <span className={`text-sm font-medium ${warn ? "text-amber-600" : "text-foreground"}`}>{value}</span>
+    </div>
+  )
+}
+
+function formatMonths(month: number | null): string {
+  if (month === null) return "Never"
+  if (month === 0) return "Immediately"
+  return `Month ${month} (${(month / 12).toFixed(1)} yrs)`
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function RefinanceAnalysisPage() {
+  const [current, setCurrent] = useState<CurrentLoan>({
+    balance: 320000,
+    ratePercent: 7.25,
+    remainingMonths: 324,
+  })
+  const [homeValue, setHomeValue] = useState(450000)
+  const [offer, setOffer] = useState<RefinanceOffer>({
+    ratePercent: 6.25,
+    termYears: 30,
+    closingCosts: Math.round(320000 * UPFRONT_COSTS.closingCostRate),
+    financeClosingCosts: false,
+    cashOut: 0,
+  })
+
+  const result = useMemo(() => refinanceAnalysis(current, offer, homeValue), [current, offer, homeValue])
+
+  const updateCurrent = (patch: Partial<CurrentLoan>) => setCurrent((prev) => ({ ...prev, ...patch }))
+  const updateOffer = (patch: Partial<RefinanceOffer>) => setOffer((prev) => ({ ...prev, ...patch }))
+
+  const milestoneYears = result.years.filter((y) => [1, 2, 3, 5, 7, 10, 15, 30].includes(y.year))
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
+      {/* Page header */}
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Refinance</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Test a new rate and term against the loan you have today, including cash out.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Current loan */}
+        <div className="rounded-xl border border-border bg-card shadow-sm px-5 py-4 space-y-1">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Current Loan</p>
+          <NumberField label="Balance" value={current.balance} step={1000} suffix="$" onChange={(v) => updateCurrent({ balance: v })} />
+          <NumberField label="Rate" value={current.ratePercent} step={0.125} suffix="%" onChange={(v) => updateCurrent({ ratePercent: v })} />
+          <NumberField label="Remaining term" value={current.remainingMonths} step={12} suffix="mo" onChange={(v) => updateCurrent({ remainingMonths: v })} />
+          {current.balance > 0 && current.remainingMonths < 1 && (
+            <p className="text-[10px] text-amber-600">A loan with a balance needs at least 1 month remaining — treated as 1.</p>
+          )}
+          <NumberField label="Home value" value={homeValue} step={5000} suffix="$" onChange={setHomeValue} />
+        </div>
+
+        {/* New loan */}
+        <div className="rounded-xl border border-border bg-card shadow-sm px-5 py-4 space-y-3">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">New Loan</p>
+          <NumberField label="Rate" value={offer.ratePercent} step={0.125} suffix="%" onChange={(v) => updateOffer({ ratePercent: v })} />
+          <div className="space-y-1.5">
+            <p className="text-xs text-muted-foreground">Term</p>
+            <div className="flex flex-wrap gap-1.5">
+              {NEW_TERMS.map((term) => (
+                <RadioCircle key={term} active={offer.termYears === term} onClick={() => updateOffer({ termYears: term })}>
+                  {term} Year Term
+                </RadioCircle>
+              ))}
+            </div>
+          </div>
+          <NumberField label="Closing costs" value={offer.closingCosts} step={500} suffix="$" onChange={(v) => updateOffer({ closingCosts: v })} />
+          <div className="space-y-1.5">
+            <p className="text-xs text-muted-foreground">Pay closing costs</p>
+            <div className="flex flex-wrap gap-1.5">
+              <RadioCircle active={!offer.financeClosingCosts} onClick={() => updateOffer({ financeClosingCosts: false })}>
+                Cash at closing
+              </RadioCircle>
+              <RadioCircle active={!!offer.financeClosingCosts} onClick={() => updateOffer({ financeClosingCosts: true })}>
+                Roll into loan
+              </RadioCircle>
+            </div>
+          </div>
+          <NumberField label="Cash out" value={offer.cashOut ?? 0} step={5000} suffix="$" onChange={(v) => updateOffer({ cashOut: v })} />
+          {result.maxCashOut !== undefined && (
+            <p className="text-[10px] text-muted-foreground/70">
+              Up to {formatCurrency(result.maxCashOut)} cash out at {CASH_OUT_MAX_LTV}% LTV
+            </p>
+          )}
+        </div>
+
+        {/* Results */}
+        <div className="rounded-xl border border-border bg-card shadow-sm px-5 py-4">
+          <div className="flex justify-between items-baseline py-2">
+            <span className="text-sm font-semibold text-foreground">Monthly Savings</span>
+            <span className={`text-xl font-bold tracking-tight ${result.monthlySavings < 0 ? "text-amber-600" : "text-foreground"}`}>
+              {formatCurrency(result.monthlySavings)}/mo
+            </span>
+          </div>
+          <div className="border-t border-border/50" />
+          <MetricRow label="Current P&I" value={`${formatCurrency(result.currentPayment)}/mo`} />
+          <MetricRow label="New P&I" value={`${formatCurrency(result.newPayment)}/mo`} />
+          <MetricRow label="New loan amount" value={formatCurrency(result.newLoanAmount)} />
+          {result.ltvPercent !== undefined && (
+            <MetricRow
+              label="New LTV"
+              value={`${result.ltvPercent.toFixed(1)}%`}
+              warn={result.cashOut > 0 && result.ltvPercent > CASH_OUT_MAX_LTV}
+            />
+          )}
+          <MetricRow label="Cash to close" value={formatCurrency(result.upfrontCash)} />
+          {result.cashOut > 0 && <MetricRow label="Cash out" value={formatCurrency(result.cashOut)} />}
+          <MetricRow label="Break-even (payments)" value={formatMonths(result.simpleBreakEvenMonth)} />
+          <MetricRow
+            label="Break-even (incl. equity)"
+            value={formatMonths(result.breakEvenMonth)}
+            warn={result.breakEvenMonth === null}
+          />
+          <MetricRow
+            label="Lifetime interest difference"
+            value={formatCurrency(result.lifetimeInterestSavings)}
+            warn={result.lifetimeInterestSavings < 0}
+          />
+          <MetricRow
+            label="Lifetime net savings"
+            value={formatCurrency(result.lifetimeNetSavings)}
+            warn={result.lifetimeNetSavings < 0}
+          />
+        </div>
+      </div>
+
+      {/* Net position over time */}
+      {milestoneYears.length > 0 && (
+        <div className="mt-6 rounded-xl border border-border bg-card shadow-sm px-5 py-4">
+          <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide mb-2">Net Position Over Time</p>
+          <p className="text-xs text-muted-foreground mb-3">
+            Payment savings plus the equity difference and any cash out, less closing costs.
+          </p>
+          <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
+            {milestoneYears.map((y) => (
+              <div key={y.year} className="rounded-lg bg-muted/50 px-2 py-2 text-center">
+                <p className="text-[10px] text-muted-foreground">Yr {y.year}</p>
+                <p className={`text-sm font-semibold ${y.netPosition < 0 ? "text-amber-600" : "text-green-600"}`}>
+                  {formatCurrency(y.netPosition)}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
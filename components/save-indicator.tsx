@@ -0,0 +1,79 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Check, CloudOff, Loader2 } from "lucide-react"
+import type { AutosaveStatus } from "@/hooks/use-autosave"
+
+interface SaveIndicatorProps {
+  status: AutosaveStatus
+  className?: string
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function savedAgo(savedAt: number, now: number): string {
+  const seconds = Math.max(0, Math.round((now - savedAt) / 1000))
+  if (seconds < 45) return "just now"
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes} min ago`
+  const date = new Date(savedAt)
+  return new Date(now).toDateString() === date.toDateString()
+    ? `at ${date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`
+    : `on ${date.toLocaleDateString()}`
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export default function SaveIndicator({ status, className = "" }: SaveIndicatorProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  // Keep "n min ago" current
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 30_000)
+    return () => clearInterval(id)
+  }, [])
+  useEffect(() => setNow(Date.now()), [status.lastSavedAt])
+
+  if (!status.hydrated) return null
+
+  if (status.blocked) {
+    return (
+      <span className={`inline-flex items-center gap-1.5 text-xs text-red-700 ${className}`} title={status.error ?? undefined}>
+        <CloudOff size={13} />
+        Saved data couldn't be read — left untouched, changes here won't be saved
+      </span>
+    )
+  }
+
+  if (status.error) {
+    return (
+      <span className={`inline-flex items-center gap-1.5 text-xs text-amber-700 ${className}`} title={status.error}>
+        <CloudOff size={13} />
+        Not saved — changes last until you close this tab
+      </span>
+    )
+  }
+
+  if (status.saving) {
+    return (
+      <span className={`inline-flex items-center gap-1.5 text-xs text-muted-foreground ${className}`}>
+        <Loader2 size={13} className="animate-spin" />
+        Saving…
+      </span>
+    )
+  }
+
+  if (status.lastSavedAt === null) {
+    return <span className={`text-xs text-muted-foreground/70 ${className}`}>Changes save automatically</span>
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 text-xs text-muted-foreground ${className}`}
+      title={new Date(status.lastSavedAt).toLocaleString()}
+    >
+      <Check size={13} className="text-green-600" />
+      Saved {savedAgo(status.lastSavedAt, now)}
+    </span>
+  )
+}
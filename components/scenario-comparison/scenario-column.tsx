@@ -1,11 +1,18 @@
 "use client"
 
-import { Home, Minus, Plus } from "lucide-react"
+import { useState } from "react"
+import { GitFork, Home, Link2, Minus, Plus, X } from "lucide-react"
 import {
   formatCurrency,
   estimateInterestRate,
   CREDIT_TIERS,
 } from "@/lib/affordability-calculations"
+import { AFFORDABILITY_CONSTRAINTS } from "@/lib/affordability-engine"
+import { ARM_PRODUCTS, LOAN_TYPES, isArm } from "@/lib/arm-products"
+import { LOAN_PROGRAM_LIST, getLoanProgram } from "@/lib/loan-programs"
+import { TEMPORARY_BUYDOWN_LIST } from "@/lib/rate-buydowns"
+import { encodeSharedScenario, shareLinkUrl } from "@/lib/share-link"
+import type { ArmPathKey, ArmPaymentPath } from "@/lib/arm-products"
 import type { AffordabilityCalculation } from "@/lib/property-types"
 import type { ColumnState } from "./scenario-comparison-page"
 
@@ -13,13 +20,16 @@ interface ScenarioColumnProps {
   column: ColumnState
   affordability: AffordabilityCalculation
   rateSensitivity: number
+  armPaths?: Record<ArmPathKey, ArmPaymentPath>
   onChange: (updated: ColumnState) => void
+  onRemove?: () => void
 }
 
 // ─── Helpers ────────────────────────────────────────────────
 
 const LOAN_TERMS = [15, 20, 30] as const
 const DP_OPTIONS = [10, 15, 20, 25] as const
+const POINT_OPTIONS = [0, 0.5, 1, 2] as const
 
 function RadioCircle({
   active,
@@ -57,13 +67,24 @@ export default function ScenarioColumn({
   column,
   affordability,
   rateSensitivity,
+  armPaths,
   onChange,
+  onRemove,
 }: ScenarioColumnProps) {
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [shareError, setShareError] = useState<string | null>(null)
   const { financialInputs, housingPercentage, downPaymentPercentage } = column
   const currentRate = financialInputs.interestRate ?? 6.85
   const currentCreditScore = financialInputs.creditScore ?? 699
   const currentLoanTerm = financialInputs.loanTerm ?? 30
   const marketRate = financialInputs.marketReferenceRate ?? 6.85
+  const currentLoanType = financialInputs.loanType ?? "fixed"
+  const currentProgram = getLoanProgram(financialInputs.loanProgram)
+  // Low-down-payment programs get their minimum as an extra option
+  const dpOptions: number[] =
+    currentProgram.minDownPaymentPercent < DP_OPTIONS[0]
+      ? [currentProgram.minDownPaymentPercent, ...DP_OPTIONS]
+      : [...DP_OPTIONS]
 
   const activeTier =
     CREDIT_TIERS.slice()
@@ -90,6 +111,7 @@ export default function ScenarioColumn({
   // ── Updaters ──────────────────────────────────────────────
 
   const update = (patch: Partial<ColumnState>) => {
+    if (column.readOnly) return
     onChange({ ...column, ...patch })
   }
 
@@ -99,13 +121,14 @@ export default function ScenarioColumn({
     newDpPct?: number,
     newTerm?: number
   ) => {
+    if (column.readOnly) return
     const nextInputs = { ...financialInputs, ...patch }
     if (recalcRate) {
       const cs = patch.creditScore ?? currentCreditScore
       const lt = newTerm ?? currentLoanTerm
       const dp = newDpPct ?? downPaymentPercentage
       const mr = nextInputs.marketReferenceRate ?? marketRate
-      nextInputs.interestRate = estimateInterestRate(cs, lt, dp, mr)
+      nextInputs.interestRate = estimateInterestRate(cs, lt, dp, mr, nextInputs.loanType, nextInputs.discountPoints)
     }
     const nextCol: ColumnState = {
       ...column,
@@ -115,6 +138,25 @@ export default function ScenarioColumn({
     onChange(nextCol)
   }
 
+  const handleCopyLink = async () => {
+    try {
+      const encoded = await encodeSharedScenario({
+        name: column.name,
+        description: column.description,
+        financialInputs,
+        housingPercentage,
+        downPaymentPercentage,
+      })
+      await navigator.clipboard.writeText(shareLinkUrl(window.location.href, encoded))
+      setShareError(null)
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch (e) {
+      // Invalid name/description, or clipboard unavailable (e.g. insecure context)
+      setShareError(e instanceof Error ? e.message : "Couldn't copy the link")
+    }
+  }
+
   // ── Render ────────────────────────────────────────────────
 
   return (
@@ -124,6 +166,45 @@ export default function ScenarioColumn({
         <div className="flex items-center gap-2">
           <Home size={16} className="text-primary" />
           <h2 className="text-lg font-bold text-foreground">{column.name}</h2>
+          {column.shared && (
+            <span className="rounded-full bg-primary/10 px-2 py-0.5 text-[10px] font-medium text-primary">
+              {column.readOnly ? "Shared · read-only" : "Shared"}
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-1">
+            {column.readOnly && (
+              <button
+                type="button"
+                onClick={() => onChange({ ...column, readOnly: false })}
+                className="flex items-center gap-1 rounded-md px-1.5 py-1 text-xs text-primary hover:bg-primary/10"
+                title="Make an editable copy of this shared scenario"
+              >
+                <GitFork size={12} />
+                Fork
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleCopyLink}
+              className={`flex items-center gap-1 rounded-md px-1.5 py-1 text-xs hover:bg-muted ${
+                shareError ? "text-amber-700" : "text-muted-foreground"
+              }`}
+              title={shareError ?? "Copy a link that opens this scenario"}
+            >
+              <Link2 size={12} />
+              {linkCopied ? "Copied" : shareError ? "Can't share" : "Share"}
+            </button>
+            {onRemove && (
+              <button
+                type="button"
+                onClick={onRemove}
+                className="rounded-md p-1 text-muted-foreground hover:bg-muted"
+                title="Remove column"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
         </div>
         {column.description && (
           <p className="text-xs text-muted-foreground mt-0.5">
@@ -151,6 +232,19 @@ export default function ScenarioColumn({
           label="Payment Ceiling"
           value={`${formatCurrency(affordability.maxMonthlyPayment)}/mo`}
         />
+        <MetricRow
+          label="PITI"
+          value={`${formatCurrency(affordability.actualMonthlyPayment)}/mo`}
+        />
+        <MetricRow
+          label="After-Tax Cost"
+          value={
+            affordability.taxBenefit.firstYearSavings > 0
+              ? `${formatCurrency(affordability.taxBenefit.afterTaxMonthlyCost)}/mo`
+              : "standard deduction"
+          }
+          subtle
+        />
         <MetricRow
           label="Available Income"
           value={`${formatCurrency(availableIncome)}/mo`}
@@ -168,11 +262,72 @@ export default function ScenarioColumn({
           label="Interest Rate"
           value={`${currentRate.toFixed(2)}%`}
         />
+        {affordability.loanAmount > 0 && (
+          <MetricRow
+            label="APR"
+            value={`${affordability.apr.aprPercent.toFixed(3)}%`}
+            subtle
+          />
+        )}
+        {affordability.monthlyPMI > 0 && (
+          <MetricRow
+            label={currentProgram.annualMILabel}
+            value={`${formatCurrency(affordability.monthlyPMI)}/mo · ${
+              affordability.pmiEndMonth >= currentLoanTerm * 12
+                ? "life of loan"
+                : `ends yr ${Math.ceil(affordability.pmiEndMonth / 12)}`
+            }`}
+          />
+        )}
+        {affordability.totalPMI > 0 && (
+          <MetricRow
+            label={`Lifetime ${currentProgram.annualMILabel}`}
+            value={formatCurrency(affordability.totalPMI)}
+            subtle
+          />
+        )}
+        {affordability.financedUpfrontFee > 0 && (
+          <MetricRow
+            label={`${currentProgram.upfrontFeeLabel ?? "Upfront fee"} (financed)`}
+            value={formatCurrency(affordability.financedUpfrontFee)}
+            subtle
+          />
+        )}
+        {affordability.buydown.buydownYears.length > 0 && (
+          <MetricRow
+            label="Year-1 P&I (buydown)"
+            value={`${formatCurrency(affordability.buydown.buydownYears[0].principalAndInterest)}/mo`}
+          />
+        )}
+        {affordability.buydown.pointsCost + affordability.buydown.temporaryBuydownCost > 0 && (
+          <MetricRow
+            label="Points & Buydown Cash"
+            value={
+              affordability.buydown.pointsBreakEvenMonth !== null
+                ? `${formatCurrency(affordability.buydown.cashToCloseImpact)} · b/e ${affordability.buydown.pointsBreakEvenMonth} mo`
+                : formatCurrency(affordability.buydown.cashToCloseImpact)
+            }
+            subtle
+          />
+        )}
         <MetricRow
           label="Monthly Margin"
           value={`${formatCurrency(affordability.monthlyMargin)}/mo`}
           warn={affordability.monthlyMargin < 0}
         />
+        {isArm(currentLoanType) && armPaths && (
+          <>
+            <MetricRow
+              label={`P&I after ${ARM_PRODUCTS[currentLoanType].initialFixedYears}yr reset`}
+              value={`${formatCurrency(armPaths.expected.firstResetPrincipalAndInterest)}/mo`}
+            />
+            <MetricRow
+              label="ARM P&I (best / worst)"
+              value={`${formatCurrency(armPaths.best.firstResetPrincipalAndInterest)} / ${formatCurrency(armPaths.worst.maxPrincipalAndInterest)}`}
+              warn={armPaths.worst.maxPrincipalAndInterest > armPaths.worst.initialPrincipalAndInterest * 1.3}
+            />
+          </>
+        )}
         {rateSensitivity > 0 && affordability.bindingConstraint !== "cash" && (
           <MetricRow
             label="Rate Sensitivity"
@@ -183,23 +338,32 @@ export default function ScenarioColumn({
         <MetricRow
           label="Binding Constraint"
           value={
-            affordability.bindingConstraint === "dti"
-              ? "DTI"
-              : affordability.bindingConstraint === "budget"
-              ? "Budget"
-              : "Cash"
+            AFFORDABILITY_CONSTRAINTS.find((c) => c.id === affordability.bindingConstraint)?.label ?? "Cash"
           }
           subtle
         />
+        {AFFORDABILITY_CONSTRAINTS.map(({ id, label }) => {
+          const roof = affordability.roofs[id].maxPurchasePrice
+          if (roof === null) return null
+          return (
+            <MetricRow
+              key={id}
+              label={`${label} Roof`}
+              value={formatCurrency(roof)}
+              warn={id === affordability.bindingConstraint}
+              subtle
+            />
+          )
+        })}
       </div>
 
       {/* Divider */}
       <div className="border-t border-border" />
 
       {/* Wiggle Controls */}
-      <div className="px-5 py-4 space-y-4">
+      <div className={`px-5 py-4 space-y-4 ${column.readOnly ? "pointer-events-none opacity-60" : ""}`}>
         <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">
-          Adjust
+          {column.readOnly ? "Adjust — fork to edit" : "Adjust"}
         </p>
 
         {/* Housing % Slider */}
@@ -229,10 +393,10 @@ export default function ScenarioColumn({
         <div className="space-y-1.5">
           <p className="text-xs text-muted-foreground">Down Payment %</p>
           <div className="flex flex-wrap gap-1.5">
-            {DP_OPTIONS.map((dp) => (
+            {dpOptions.map((dp) => (
               <RadioCircle
                 key={dp}
-                active={downPaymentPercentage === dp}
+                active={affordability.downPaymentPercentage === dp}
                 onClick={() =>
                   updateInputs({}, true, dp)
                 }
@@ -282,6 +446,78 @@ export default function ScenarioColumn({
           </div>
         </div>
 
+        {/* Loan Program */}
+        <div className="space-y-1.5">
+          <p className="text-xs text-muted-foreground">Loan Program</p>
+          <div className="flex flex-wrap gap-1.5">
+            {LOAN_PROGRAM_LIST.map((program) => (
+              <RadioCircle
+                key={program.id}
+                active={currentProgram.id === program.id}
+                onClick={() =>
+                  updateInputs({ loanProgram: program.id }, true)
+                }
+              >
+                {program.label}
+              </RadioCircle>
+            ))}
+          </div>
+        </div>
+
+        {/* Loan Type */}
+        <div className="space-y-1.5">
+          <p className="text-xs text-muted-foreground">Loan Type</p>
+          <div className="flex flex-wrap gap-1.5">
+            {LOAN_TYPES.map((lt) => (
+              <RadioCircle
+                key={lt.id}
+                active={currentLoanType === lt.id}
+                onClick={() =>
+                  updateInputs({ loanType: lt.id }, true)
+                }
+              >
+                {lt.label}
+              </RadioCircle>
+            ))}
+          </div>
+        </div>
+
+        {/* Discount Points */}
+        <div className="space-y-1.5">
+          <p className="text-xs text-muted-foreground">Discount Points</p>
+          <div className="flex flex-wrap gap-1.5">
+            {POINT_OPTIONS.map((points) => (
+              <RadioCircle
+                key={points}
+                active={(financialInputs.discountPoints ?? 0) === points}
+                onClick={() =>
+                  updateInputs({ discountPoints: points }, true)
+                }
+              >
+                {points === 0 ? "None" : `${points} pt`}
+              </RadioCircle>
+            ))}
+          </div>
+        </div>
+
+        {/* Temporary Buydown */}
+        <div className="space-y-1.5">
+          <p className="text-xs text-muted-foreground">Temporary Buydown</p>
+          <div className="flex flex-wrap gap-1.5">
+            {TEMPORARY_BUYDOWN_LIST.map((item) => (
+              <RadioCircle
+                key={item.id}
+                active={(financialInputs.temporaryBuydown ?? "none") === item.id}
+                onClick={() =>
+                  updateInputs({ temporaryBuydown: item.id })
+                }
+              >
+                {item.label}
+              </RadioCircle>
+            ))}
+          </div>
+        </div>
+
         {/* Interest Rate Stepper */}
         <div className="space-y-1.5">
           <p className="text-xs text-muted-foreground">Interest Rate</p>
@@ -311,7 +547,7 @@ export default function ScenarioColumn({
                 }}
                 className="w-16 text-center text-sm font-medium border border-border rounded-md py-1 bg-background"
               />
-              <span className="text-xs text-muted-foreground">% APR</span>
+              <span className="text-xs text-muted-foreground">% note rate</span>
             </div>
             <button
               onClick={() =>
@@ -1,9 +1,16 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useMemo } from "react"
+import { AlertTriangle, X } from "lucide-react"
 import { defaultUserProfile } from "@/lib/property-data"
 import { calculateMaxAffordability, estimateInterestRate } from "@/lib/affordability-calculations"
+import { ARM_PRODUCTS, armPaymentPaths, isArm } from "@/lib/arm-products"
 import type { FinancialInputs, Scenario, AffordabilityCalculation } from "@/lib/property-types"
+import { STORAGE_KEYS } from "@/lib/storage"
+import { usePersistentState } from "@/hooks/use-autosave"
+import { useSharedScenario } from "@/hooks/use-shared-scenario"
+import type { SharedScenario } from "@/lib/share-link"
+import SaveIndicator from "@/components/save-indicator"
 import ScenarioColumn from "./scenario-column"
 
 export interface ColumnState {
@@ -13,11 +20,13 @@ export interface ColumnState {
   financialInputs: FinancialInputs
   housingPercentage: number
   downPaymentPercentage: number
+  shared?: boolean    // opened from a scenario link; removable
+  readOnly?: boolean  // shared and not yet forked
 }
 
 export default function ScenarioComparisonPage() {
-  // Initialize column states from default scenarios
-  const [columns, setColumns] = useState<ColumnState[]>(() =>
+  // Initialize column states from default scenarios; restored from storage when saved
+  const [columns, setColumns, saveStatus] = usePersistentState<ColumnState[]>(STORAGE_KEYS.compareColumns, () =>
     defaultUserProfile.scenarios.map((s) => ({
       scenarioId: s.id,
       name: s.name,
@@ -58,10 +67,47 @@ export default function ScenarioComparisonPage() {
       const rateSensitivity =
         Math.round((affordabilityLowerRate.maxPurchasePrice - affordability.maxPurchasePrice) / 1000) * 1000
 
-      return { affordability, rateSensitivity }
+      // ARM payment paths for the roof loan — best / expected / worst after resets
+      const loanType = col.financialInputs.loanType
+      const armPaths =
+        isArm(loanType) && affordability.loanAmount > 0
+          ? armPaymentPaths(
+              {
+                purchasePrice: affordability.maxPurchasePrice,
+                downPaymentPercent: (1 - affordability.loanAmount / affordability.maxPurchasePrice) * 100,
+                interestRatePercent: currentRate,
+                termYears: col.financialInputs.loanTerm ?? 30,
+              },
+              ARM_PRODUCTS[loanType],
+            )
+          : undefined
+
+      return { affordability, rateSensitivity, armPaths }
     })
   }, [columns])
 
+  const handleOpenShared = (shared: SharedScenario) => {
+    setColumns((prev) => [
+      ...prev,
+      {
+        scenarioId: `shared-${Date.now()}`,
+        name: shared.name,
+        description: shared.description,
+        financialInputs: shared.financialInputs,
+        housingPercentage: shared.housingPercentage,
+        downPaymentPercentage: shared.downPaymentPercentage,
+        shared: true,
+        readOnly: true,
+      },
+    ])
+  }
+
+  const { error: shareError, dismissError } = useSharedScenario(handleOpenShared, saveStatus.hydrated)
+
+  const handleRemoveColumn = (index: number) => {
+    setColumns((prev) => prev.filter((_, i) => i !== index))
+  }
+
   const handleColumnChange = (index: number, updated: ColumnState) => {
     setColumns((prev) => {
       const next = [...prev]
@@ -73,13 +119,29 @@ export default function ScenarioComparisonPage() {
   return (
     <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8 py-8">
       {/* Page header */}
-      <div className="mb-8">
-        <h1 className="text-2xl font-bold text-foreground">Compare Scenarios</h1>
-        <p className="text-sm text-muted-foreground mt-1">
-          Adjust inputs per scenario and see metrics update side by side.
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Compare Scenarios</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Adjust inputs per scenario and see metrics update side by side.
+          </p>
+        </div>
+        <SaveIndicator status={saveStatus} className="mt-2" />
       </div>
 
+      {shareError && (
+        <div className="mb-6 flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+          <div className="flex-1">
+            <p className="font-semibold">Couldn&apos;t open that scenario link</p>
+            <p className="whitespace-pre-line text-xs">{shareError}</p>
+          </div>
+          <button type="button" onClick={dismissError} className="text-amber-700 hover:text-amber-900" aria-label="Dismiss">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
       {/* Columns */}
       <div className="flex gap-6 overflow-x-auto pb-4">
         {columns.map((col, i) => (
@@ -88,7 +150,9 @@ export default function ScenarioComparisonPage() {
             column={col}
             affordability={columnResults[i].affordability}
             rateSensitivity={columnResults[i].rateSensitivity}
+            armPaths={columnResults[i].armPaths}
             onChange={(updated) => handleColumnChange(i, updated)}
+            onRemove={col.shared ? () => handleRemoveColumn(i) : undefined}
           />
         ))}
       </div>
@@ -0,0 +1,44 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { createSnapshot, significantChange, snapshotsFor } from "@/lib/scenario-snapshots"
+import type { Scenario, ScenarioSnapshot } from "@/lib/property-types"
+
+const DEFAULT_SETTLE_DELAY = 4000
+
+/**
+ * Takes an auto snapshot once edits to `scenario` settle (no change for
+ * `delay` ms) and the result differs significantly from its latest snapshot.
+ * A scenario with no snapshots yet is compared with how it looked when first
+ * seen, and that starting point is kept too so the first diff has a baseline.
+ */
+export function useAutoSnapshot(
+  scenario: Scenario,
+  snapshots: ScenarioSnapshot[],
+  onSnapshot: (snapshots: ScenarioSnapshot[]) => void,
+  { ready, delay = DEFAULT_SETTLE_DELAY }: { ready: boolean; delay?: number },
+) {
+  const snapshotsRef = useRef(snapshots)
+  snapshotsRef.current = snapshots
+  const onSnapshotRef = useRef(onSnapshot)
+  onSnapshotRef.current = onSnapshot
+  const firstSeenRef = useRef(new Map<string, { scenario: Scenario; at: Date }>())
+
+  useEffect(() => {
+    if (!ready) return
+    const firstSeen = firstSeenRef.current
+    if (!firstSeen.has(scenario.id)) firstSeen.set(scenario.id, { scenario, at: new Date() })
+
+    const timer = setTimeout(() => {
+      const latest = snapshotsFor(snapshotsRef.current, scenario.id)[0]
+      const start = firstSeen.get(scenario.id)!
+      const reason = significantChange(latest?.scenario ?? start.scenario, scenario)
+      if (!reason) return
+      const taken = createSnapshot(scenario, { name: reason, trigger: "auto" })
+      onSnapshotRef.current(
+        latest ? [taken] : [createSnapshot(start.scenario, { name: "Starting point", trigger: "auto", takenAt: start.at }), taken],
+      )
+    }, delay)
+    return () => clearTimeout(timer)
+  }, [scenario, ready, delay])
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { Dispatch, SetStateAction } from "react"
+import { loadRecord, saveRecord } from "@/lib/storage"
+import type { StorageKey } from "@/lib/storage"
+
+export interface AutosaveStatus {
+  hydrated: boolean          // the stored copy (if any) has been loaded
+  saving: boolean            // a change is waiting out the debounce or being written
+  lastSavedAt: number | null // epoch ms of the stored copy
+  error: string | null
+  blocked: boolean           // the stored copy couldn't be read; nothing is written so it survives
+  saveNow: () => void        // write immediately, skipping the debounce
+}
+
+export interface AutosaveOptions<T> {
+  delay?: number                 // debounce in ms
+  onHydrate?: (value: T) => void // restore the stored copy; not called when nothing is stored
+  revive?: (stored: unknown) => T // migrate/validate the stored copy; throw to reject it (the key then stays read-only)
+}
+
+const DEFAULT_AUTOSAVE_DELAY = 800
+
+/**
+ * Loads `key` once on mount (handing the stored value to onHydrate), then writes
+ * `value` back whenever it changes, debounced. Pending writes are flushed on
+ * unmount and when the page is hidden. A stored copy that can't be loaded or
+ * revived blocks all writes to `key`, so a newer or damaged record is never
+ * replaced by defaults.
+ */
+export function useAutosave<T>(
+  key: StorageKey,
+  value: T,
+  { delay = DEFAULT_AUTOSAVE_DELAY, onHydrate, revive }: AutosaveOptions<T> = {},
+): AutosaveStatus {
+  const [hydrated, setHydrated] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [blocked, setBlocked] = useState(false)
+
+  const valueRef = useRef(value)
+  valueRef.current = value
+  const onHydrateRef = useRef(onHydrate)
+  onHydrateRef.current = onHydrate
+  const reviveRef = useRef(revive)
+  reviveRef.current = revive
+  const initialJsonRef = useRef<string | null>(null)
+  if (initialJsonRef.current === null) initialJsonRef.current = JSON.stringify(value)
+  const savedJsonRef = useRef<string | null>(null) // JSON of the stored copy
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined)
+  const blockedRef = useRef(false)
+
+  const write = useCallback(async () => {
+    clearTimeout(timerRef.current)
+    timerRef.current = undefined
+    const json = JSON.stringify(valueRef.current)
+    if (blockedRef.current || json === savedJsonRef.current) {
+      setSaving(false)
+      return
+    }
+    try {
+      const record = await saveRecord(key, valueRef.current)
+      savedJsonRef.current = json
+      setLastSavedAt(record.savedAt)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not save")
+    } finally {
+      // A change that arrived mid-write has already scheduled its own save
+      if (!timerRef.current) setSaving(false)
+    }
+  }, [key])
+
+  // Load the stored copy
+  useEffect(() => {
+    let cancelled = false
+    loadRecord<T>(key)
+      .then((record) => {
+        if (cancelled) return
+        // The stored copy wins over anything set during the first render pass
+        // (e.g. mount-time syncs between components)
+        if (!record) {
+          savedJsonRef.current = initialJsonRef.current // defaults aren't worth a write
+          return
+        }
+        let restored: T
+        try {
+          restored = reviveRef.current ? reviveRef.current(record.value) : (record.value as T)
+        } catch (e) {
+          // Keep the defaults for this session, but leave the stored copy alone
+          blockedRef.current = true
+          setBlocked(true)
+          setError(`Saved data couldn't be read, so changes here aren't saved: ${e instanceof Error ? e.message : String(e)}`)
+          return
+        }
+        // A migrated copy differs from what's stored, so it gets written back
+        savedJsonRef.current = JSON.stringify(record.value)
+        setLastSavedAt(record.savedAt)
+        onHydrateRef.current?.(restored)
+      })
+      .catch(() => {
+        if (cancelled) return
+        // Whatever is stored may still be fine — don't write over it blind
+        blockedRef.current = true
+        setBlocked(true)
+        setError("Could not load saved data, so changes here aren't saved")
+      })
+      .finally(() => {
+        if (!cancelled) setHydrated(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [key])
+
+  // Debounced autosave
+  useEffect(() => {
+    if (!hydrated || blockedRef.current || JSON.stringify(value) === savedJsonRef.current) return
+    setSaving(true)
+    clearTimeout(timerRef.current)
+    timerRef.current = setTimeout(() => void write(), delay)
+  }, [value, hydrated, delay, write])
+
+  // Flush on tab close / navigation away
+  useEffect(() => {
+    const flush = () => {
+      if (timerRef.current) void write()
+    }
+    window.addEventListener("pagehide", flush)
+    return () => {
+      window.removeEventListener("pagehide", flush)
+      flush()
+    }
+  }, [write])
+
+  const saveNow = useCallback(() => void write(), [write])
+
+  return { hydrated, saving, lastSavedAt, error, blocked, saveNow }
+}
+
+/** One status for a page that autosaves several keys. */
+export function combineAutosaveStatus(...statuses: AutosaveStatus[]): AutosaveStatus {
+  const savedAt = statuses.map((s) => s.lastSavedAt).filter((t): t is number => t !== null)
+  return {
+    hydrated: statuses.every((s) => s.hydrated),
+    saving: statuses.some((s) => s.saving),
+    lastSavedAt: savedAt.length > 0 ? Math.max(...savedAt) : null,
+    error: (statuses.find((s) => s.blocked) ?? statuses.find((s) => s.error))?.error ?? null,
+    blocked: statuses.some((s) => s.blocked),
+    saveNow: () => statuses.forEach((s) => s.saveNow()),
+  }
+}
+
+/** useState that survives reloads: restored from `key` on mount and autosaved on change. */
+export function usePersistentState<T>(
+  key: StorageKey,
+  initialValue: T | (() => T),
+  options: AutosaveOptions<T> = {},
+): [T, Dispatch<SetStateAction<T>>, AutosaveStatus] {
+  const [value, setValue] = useState<T>(initialValue)
+  const { onHydrate } = options
+  const status = useAutosave(key, value, {
+    delay: options.delay,
+    revive: options.revive,
+    onHydrate: (stored) => {
+      setValue(() => stored)
+      onHydrate?.(stored)
+    },
+  })
+  return [value, setValue, status]
+}
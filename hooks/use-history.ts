@@ -0,0 +1,162 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+export interface HistoryEntry<T> {
+  id: number
+  key: string    // what was edited; consecutive quick edits with the same key coalesce
+  label: string
+  state: T
+  at: number     // epoch ms of the latest edit folded into this entry
+}
+
+export interface HistoryChange {
+  key: string
+  label: string
+}
+
+export interface HistoryOptions<T> {
+  ready: boolean // start recording once persisted state has hydrated
+  describe: (before: T, after: T) => HistoryChange | null // null: fold into the present entry
+  initialLabel?: string
+  limit?: number
+  coalesceMs?: number
+}
+
+export interface History<T> {
+  entries: HistoryEntry<T>[]
+  index: number  // the present; entries after it can be redone
+  canUndo: boolean
+  canRedo: boolean
+  undo: () => void
+  redo: () => void
+  jumpTo: (index: number) => void
+  labelNext: (label: string) => void // name the next change instead of describing it (e.g. an import)
+}
+
+interface HistoryLog<T> {
+  entries: (HistoryEntry<T> & { json: string })[]
+  index: number
+}
+
+const DEFAULT_HISTORY_LIMIT = 100
+const DEFAULT_COALESCE_MS = 1000
+
+// Text fields keep the browser's own undo
+function isTextTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
+
+/**
+ * Snapshot undo/redo for a piece of state owned elsewhere. Every change to
+ * `state` becomes an entry labelled by `describe`; undo, redo and jumpTo hand
+ * an earlier snapshot to `restore`. ⌘/Ctrl+Z undoes, ⇧⌘/Ctrl+Shift+Z or
+ * Ctrl+Y redoes. A new change after undoing drops the undone entries.
+ */
+export function useHistory<T>(
+  state: T,
+  restore: (state: T) => void,
+  {
+    ready,
+    describe,
+    initialLabel = "Opened",
+    limit = DEFAULT_HISTORY_LIMIT,
+    coalesceMs = DEFAULT_COALESCE_MS,
+  }: HistoryOptions<T>,
+): History<T> {
+  const [log, setLog] = useState<HistoryLog<T>>({ entries: [], index: -1 })
+  const logRef = useRef(log)
+  const restoreRef = useRef(restore)
+  restoreRef.current = restore
+  const describeRef = useRef(describe)
+  describeRef.current = describe
+  const pendingLabelRef = useRef<string | null>(null)
+  const nextIdRef = useRef(0)
+
+  const commit = useCallback((next: HistoryLog<T>) => {
+    logRef.current = next
+    setLog(next)
+  }, [])
+
+  // Record changes. Restored snapshots match the present entry and are skipped.
+  useEffect(() => {
+    if (!ready) return
+    const json = JSON.stringify(state)
+    const now = Date.now()
+    const { entries, index } = logRef.current
+    const present = entries[index]
+
+    if (!present) {
+      commit({ entries: [{ id: nextIdRef.current++, key: "initial", label: initialLabel, state, json, at: now }], index: 0 })
+      return
+    }
+    if (json === present.json) return
+
+    const pendingLabel = pendingLabelRef.current
+    pendingLabelRef.current = null
+    const change = pendingLabel
+      ? { key: `labelled:${nextIdRef.current}`, label: pendingLabel }
+      : describeRef.current(present.state, state)
+    if (!change) {
+      commit({ entries: entries.map((e, i) => (i === index ? { ...present, state, json } : e)), index })
+      return
+    }
+
+    const kept = entries.slice(0, index + 1)
+    const isNewest = index === entries.length - 1
+    if (isNewest && index > 0 && change.key === present.key && now - present.at < coalesceMs) {
+      // Relabel from the state before the burst, e.g. "20 → 10" rather than "11 → 10"
+      const label = describeRef.current(kept[index - 1].state, state)?.label ?? present.label
+      kept[index] = { ...present, label, state, json, at: now }
+    } else {
+      kept.push({ id: nextIdRef.current++, ...change, state, json, at: now })
+    }
+    const trimmed = kept.slice(-limit)
+    commit({ entries: trimmed, index: trimmed.length - 1 })
+  }, [state, ready, initialLabel, limit, coalesceMs, commit])
+
+  const jumpTo = useCallback(
+    (target: number) => {
+      const { entries, index } = logRef.current
+      if (target === index || target < 0 || target >= entries.length) return
+      commit({ entries, index: target })
+      restoreRef.current(entries[target].state)
+    },
+    [commit],
+  )
+
+  const undo = useCallback(() => jumpTo(logRef.current.index - 1), [jumpTo])
+  const redo = useCallback(() => jumpTo(logRef.current.index + 1), [jumpTo])
+  const labelNext = useCallback((label: string) => {
+    pendingLabelRef.current = label
+  }, [])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || isTextTarget(e.target)) return
+      const key = e.key.toLowerCase()
+      if (key === "z") {
+        e.preventDefault()
+        if (e.shiftKey) redo()
+        else undo()
+      } else if (key === "y" && e.ctrlKey) {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo])
+
+  return {
+    entries: log.entries,
+    index: log.index,
+    canUndo: log.index > 0,
+    canRedo: log.index < log.entries.length - 1,
+    undo,
+    redo,
+    jumpTo,
+    labelNext,
+  }
+}
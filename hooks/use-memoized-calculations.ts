@@ -4,11 +4,13 @@ import { useMemo } from "react"
 import { calculateGrossAnnualIncome, calculateTakeHomeFromIncomeItems } from "@/lib/real-estate-calculations"
 import type { ItemCategory, FinancialItem, FutureItem, MortgageOptionGroup } from "@/lib/real-estate-types"
 import { DEFAULTS } from "@/lib/finance-core"
+import type { TaxProfile } from "@/lib/income-tax"
 
 export function useMemoizedCalculations(
   personalFinances: ItemCategory<FinancialItem>[],
   futureHome: ItemCategory<FutureItem>[],
   mortgageApplication: MortgageOptionGroup[],
+  taxProfile?: TaxProfile, // estimate taxes from brackets instead of per-item withholding %
 ) {
   // Memoize active items to prevent recalculation
   const activePersonalFinanceItems = useMemo(() => {
@@ -44,8 +46,8 @@ export function useMemoizedCalculations(
 
   // Per-item take-home respects each item's gross/net setting and withholding percentages
   const { annualTakeHome, taxes, healthcare, retirement, hsa, other } = useMemo(
-    () => calculateTakeHomeFromIncomeItems(activeIncomeItems),
-    [activeIncomeItems],
+    () => calculateTakeHomeFromIncomeItems(activeIncomeItems, taxProfile),
+    [activeIncomeItems, taxProfile],
   )
 
   const monthlyTakeHomeIncome = useMemo(() => Math.max(0, Math.round(annualTakeHome / 12)), [annualTakeHome])
@@ -0,0 +1,48 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { formatSchemaIssues } from "@/lib/profile-schema"
+import { decodeSharedScenario, sharedScenarioFromHash } from "@/lib/share-link"
+import type { SharedScenario } from "@/lib/share-link"
+
+/**
+ * Opens a scenario link (#scenario=…) once `ready` — i.e. after persisted state
+ * has hydrated, so the stored copy can't overwrite it — and again whenever the
+ * hash changes. The fragment is cleared afterwards so a reload doesn't add the
+ * scenario twice. Returns a readable error for broken links.
+ */
+export function useSharedScenario(onOpen: (scenario: SharedScenario) => void, ready: boolean) {
+  const [error, setError] = useState<string | null>(null)
+  const onOpenRef = useRef(onOpen)
+  onOpenRef.current = onOpen
+
+  useEffect(() => {
+    if (!ready) return
+    let cancelled = false
+
+    const openFromHash = async () => {
+      const encoded = sharedScenarioFromHash(window.location.hash)
+      if (!encoded) return
+      window.history.replaceState(null, "", window.location.pathname + window.location.search)
+      const result = await decodeSharedScenario(encoded)
+      if (cancelled) return
+      if (result.success) {
+        setError(null)
+        onOpenRef.current(result.scenario)
+      } else {
+        setError(formatSchemaIssues(result.issues))
+      }
+    }
+
+    void openFromHash()
+    window.addEventListener("hashchange", openFromHash)
+    return () => {
+      cancelled = true
+      window.removeEventListener("hashchange", openFromHash)
+    }
+  }, [ready])
+
+  const dismissError = useCallback(() => setError(null), [])
+
+  return { error, dismissError }
+}
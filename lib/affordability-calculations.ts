@@ -1,5 +1,15 @@
-import type { Property, Scenario, PropertyAffordability, AffordabilityCalculation } from "./property-types"
-import { DEFAULTS } from "./finance-core"
+import type { Property, Scenario, PropertyAffordability, AffordabilityCalculation, FinancialInputs } from "./property-types"
+import { DEFAULTS, amortizationSchedule } from "./finance-core"
+import { UPFRONT_COSTS, evaluateAffordability, solveAffordability, traceAffordabilityPoint } from "./affordability-engine"
+import type { AffordabilityEngineInput, TraceSection } from "./affordability-engine"
+import { getLoanProgram } from "./loan-programs"
+import { buydownAnalysis, pointsRateReduction } from "./rate-buydowns"
+import { APR_DEFAULTS, aprAnalysis } from "./apr-calculator"
+import { loanTypeRateAdjustment } from "./arm-products"
+import { DEFAULT_TAX_PROFILE, estimateTakeHome } from "./income-tax"
+import { homeownerTaxBenefit } from "./homeowner-deductions"
+import type { TaxProfile } from "./income-tax"
+import type { LoanType } from "./arm-products"
 
 export const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat("en-US", {
@@ -29,6 +39,7 @@ export type CreditTier = typeof CREDIT_TIERS[number]
  * @param loanTerm     - 15, 20, or 30 years
  * @param downPaymentPct - down payment percentage (10, 15, 20, 25…)
  * @param marketReferenceRate - today's 30yr fixed rate for 760+ credit / 20% down (default 6.85%)
+ * @param loanType       - fixed (default) or an ARM, which starts below the fixed rate
  * @returns estimated rate rounded to nearest 0.125%
  */
 export function estimateInterestRate(
@@ -36,6 +47,8 @@ export function estimateInterestRate(
   loanTerm: number,
   downPaymentPct: number,
   marketReferenceRate: number = 6.85,
+  loanType: LoanType = "fixed",
+  discountPoints: number = 0,
 ): number {
   // Credit score premium relative to 760+ (exceptional) baseline
   const creditAdj =
@@ -55,17 +68,37 @@ export function estimateInterestRate(
     downPaymentPct < 15 ? 0.25  :
     downPaymentPct < 20 ? 0.125 : 0.00
 
-  const raw = marketReferenceRate + creditAdj + termAdj + dpAdj
+  // ARMs price their initial fixed period below a comparable fixed loan
+  const loanTypeAdj = loanTypeRateAdjustment(loanType)
+
+  // Permanent discount points buy the note rate down
+  const pointsAdj = -pointsRateReduction(discountPoints)
+
+  const raw = marketReferenceRate + creditAdj + termAdj + dpAdj + loanTypeAdj + pointsAdj
   // Round to nearest 0.125%
   return Math.round(raw * 8) / 8
 }
 
+/** Tax profile for the progressive estimator; unset fields fall back to DEFAULT_TAX_PROFILE. */
+export function taxProfileFor(inputs: FinancialInputs): TaxProfile {
+  return {
+    filingStatus: inputs.filingStatus ?? DEFAULT_TAX_PROFILE.filingStatus,
+    householdSize: inputs.householdSize ?? DEFAULT_TAX_PROFILE.householdSize,
+    state: inputs.taxState,
+  }
+}
+
+/** The tax profile to pass calculateTakeHomeFromIncomeItems: set only when taxes are estimated from brackets. */
+export function withholdingTaxProfile(inputs: FinancialInputs): TaxProfile | undefined {
+  return inputs.withholdingMode === "estimated" ? taxProfileFor(inputs) : undefined
+}
+
 export const calculatePropertyAffordability = (property: Property, scenario: Scenario): PropertyAffordability => {
   const { financialInputs } = scenario
 
   // Calculate monthly income
   const grossMonthlyIncome = financialInputs.annualIncome / 12
-  const takeHomeIncome = grossMonthlyIncome * 0.7 // Rough estimate
+  const takeHomeIncome = estimateTakeHome(financialInputs.annualIncome, taxProfileFor(financialInputs)).annualTakeHome / 12
 
   // Calculate maximum monthly payment (28% of gross income rule)
   const maxMonthlyPayment = grossMonthlyIncome * 0.28
@@ -150,59 +183,103 @@ export const calculatePropertyAffordability = (property: Property, scenario: Sce
   }
 }
 
-// Upfront cost constants — shared between engine and UI
-export const UPFRONT_COSTS = {
-  closingCostRate: 0.03,   // 3% of purchase price
-  preCloseCosts: 950,      // inspection + appraisal estimates
-  movingSetup: 2500,       // moving & initial setup estimate
-}
+// Upfront cost constants — shared between engine and UI (defined with the engine)
+export { UPFRONT_COSTS } from "./affordability-engine"
 
 export function calculateMaxAffordability(
   scenario: Scenario,
   housingPercentage: number,
-  downPaymentPercentage: number,
+  requestedDownPaymentPercentage: number,
   annualPropertyTaxRate?: number,
 ): AffordabilityCalculation {
   const { financialInputs } = scenario
+  const program = getLoanProgram(financialInputs.loanProgram)
 
   const grossAnnualIncome = financialInputs.annualIncome + (financialInputs.futureIncomeMonthly || 0) * 12
   const grossMonthlyIncome = grossAnnualIncome / 12
-  // Use per-item take-home if available (from gross/net withholding), otherwise fall back to 30% deduction estimate
+  // Use per-item take-home if available (from gross/net withholding), otherwise estimate taxes from the brackets
   const takeHomeIncome = financialInputs.annualTakeHomeIncome
     ? financialInputs.annualTakeHomeIncome / 12
-    : grossMonthlyIncome * 0.7
+    : estimateTakeHome(grossAnnualIncome, taxProfileFor(financialInputs)).annualTakeHome / 12
 
   const totalMonthlyExpenses = financialInputs.monthlyExpenses
   const fixedDebts = financialInputs.fixedDebts
 
-  const maxDTI = 0.43
-  const maxTotalDebtPayment = grossMonthlyIncome * maxDTI
-  const maxHousingPaymentFromDTI = maxTotalDebtPayment - fixedDebts
-
   // Debts reduce effective income before housing % applied
   const effectiveIncome = Math.max(0, takeHomeIncome - fixedDebts)
   const maxLivabilityPayment = effectiveIncome * (housingPercentage / 100)
-  const availableForHousing = takeHomeIncome - totalMonthlyExpenses - fixedDebts
+  const availableDownPayment = financialInputs.downPaymentSources
 
-  // Ceiling is income-based only (DTI constraint + budget % of effective take-home).
+  // Every roof (DTI, budget %, cash to close, loan limit) comes from the canonical engine.
   // Lifestyle expenses (utilities, transit, etc.) affect sustainability but do NOT cap the ceiling.
-  const maxMonthlyPayment = Math.max(
-    0,
-    Math.min(maxHousingPaymentFromDTI, maxLivabilityPayment),
-  )
-
-  const interestRate = financialInputs.interestRate / 100 / 12
-  const numPayments = financialInputs.loanTerm * 12
-  const propertyTaxRate = (annualPropertyTaxRate ?? 0.0181) / 12
-  const insuranceRate = DEFAULTS.annualInsurance / 12
-  const availableDownPayment = financialInputs.downPaymentSources
-  const isCashPurchase = maxMonthlyPayment <= 0 && availableDownPayment > 0
+  const engineInput: AffordabilityEngineInput = {
+    grossMonthlyIncome,
+    fixedDebts,
+    budgetPayment: maxLivabilityPayment,
+    availableCash: availableDownPayment,
+    downPaymentPercent: requestedDownPaymentPercentage,
+    loan: {
+      interestRatePercent: financialInputs.interestRate,
+      termYears: financialInputs.loanTerm,
+      propertyTaxRatePercent: (annualPropertyTaxRate ?? 0.0181) * 100,
+      annualInsurance: DEFAULTS.annualInsurance,
+      pmiRemoval: financialInputs.pmiRemoval,
+      annualAppreciationPercent: financialInputs.annualAppreciationPercent,
+    },
+    loanProgram: program.id,
+    upfrontCosts: UPFRONT_COSTS,
+    buydown: {
+      discountPoints: financialInputs.discountPoints,
+      temporaryBuydown: financialInputs.temporaryBuydown,
+      sellerCredit: Math.max(0, financialInputs.sellerCredit ?? 0),
+    },
+  }
+  const base = solveAffordability(engineInput)
+  // Programs set a floor on the down payment (e.g. FHA 3.5%)
+  const downPaymentPercentage = base.downPaymentPercent
+  const maxHousingPaymentFromDTI = base.maxHousingPaymentFromDTI
+  const maxMonthlyPayment = Math.max(0, Math.min(maxHousingPaymentFromDTI, maxLivabilityPayment))
+
+  // Where the engine's income and budget inputs come from
+  const incomeTrace: TraceSection = {
+    title: "Income & budget",
+    steps: [
+      { label: "Gross annual income", value: financialInputs.annualIncome, unit: "currency" },
+      ...(financialInputs.futureIncomeMonthly
+        ? [{ label: "Future income", value: financialInputs.futureIncomeMonthly, unit: "currency" as const }]
+        : []),
+      {
+        label: "Gross monthly income",
+        value: grossMonthlyIncome,
+        unit: "currency",
+        formula: financialInputs.futureIncomeMonthly ? "(Gross annual income + future income × 12) ÷ 12" : "Gross annual income ÷ 12",
+      },
+      {
+        label: "Take-home income",
+        value: takeHomeIncome,
+        unit: "currency",
+        formula: financialInputs.annualTakeHomeIncome
+          ? "Annual take-home after withholding ÷ 12"
+          : "Gross − estimated federal, state & FICA tax − default 401(k) & healthcare, ÷ 12",
+      },
+      { label: "Fixed debts", value: fixedDebts, unit: "currency" },
+      { label: "Effective income", value: effectiveIncome, unit: "currency", formula: "Take-home income − fixed debts" },
+      { label: "Housing budget", value: housingPercentage, unit: "percent" },
+      { label: "Budget payment", value: maxLivabilityPayment, unit: "currency", formula: `Effective income × ${housingPercentage}%` },
+      {
+        label: "Max monthly payment",
+        value: maxMonthlyPayment,
+        unit: "currency",
+        formula: "Lower of max DTI payment and budget payment",
+      },
+    ],
+  }
 
   // Cash purchase: no mortgage, roof = available cash
-  if (isCashPurchase) {
-    const cashPrice = availableDownPayment
-    const monthlyPropertyTax = cashPrice * propertyTaxRate
-    const monthlyInsurance = insuranceRate
+  if (base.isCashPurchase) {
+    const cashPrice = base.maxPurchasePrice
+    const monthlyPropertyTax = base.atRoof.payment.propertyTax
+    const monthlyInsurance = base.atRoof.payment.insurance
     const ongoingMonthlyCost = monthlyPropertyTax + monthlyInsurance
     const dtiRatio = grossMonthlyIncome > 0
       ? ((ongoingMonthlyCost + fixedDebts) / grossMonthlyIncome) * 100
@@ -233,46 +310,23 @@ export function calculateMaxAffordability(
       maxHousingPaymentFromDTI: Math.max(0, maxHousingPaymentFromDTI),
       maxBudgetPayment: Math.max(0, maxLivabilityPayment),
       bindingConstraint: "cash" as const,
+      roofs: base.roofs,
+      trace: [incomeTrace, ...base.trace],
+      taxBenefit: homeownerTaxBenefit(base.atRoof.loanParams, grossAnnualIncome, taxProfileFor(financialInputs)),
+      monthlyPMI: 0,
+      pmiEndMonth: 0,
+      totalPMI: 0,
+      loanProgram: program.id,
+      financedUpfrontFee: 0,
+      buydown: buydownAnalysis(0, financialInputs.interestRate, financialInputs.loanTerm),
+      apr: aprAnalysis(base.atRoof.loanParams),
     }
   }
 
-  let idealHousePrice = 0
-  let estimate = 400000
-
-  for (let i = 0; i < 50; i++) {
-    const propertyTax = estimate * propertyTaxRate
-    const insurance = insuranceRate
-    const availableForPI = maxMonthlyPayment - propertyTax - insurance
-
-    if (availableForPI <= 0) {
-      estimate *= 0.8
-      continue
-    }
-
-    const maxLoanFromPayment =
-      availableForPI > 0 && interestRate > 0
-        ? (availableForPI * (1 - Math.pow(1 + interestRate, -numPayments))) / interestRate
-        : availableForPI * numPayments
-
-    const purchasePriceFromLoan = maxLoanFromPayment / (1 - downPaymentPercentage / 100)
-
-    if (Math.abs(purchasePriceFromLoan - estimate) < 1000) {
-      idealHousePrice = purchasePriceFromLoan
-      break
-    }
-
-    estimate = purchasePriceFromLoan
-    idealHousePrice = purchasePriceFromLoan
-  }
-
+  // Cash the income-based (DTI / budget) roof would need, vs. what's on hand
+  const idealHousePrice = base.incomeRoof
   const requiredDownPayment = (idealHousePrice * downPaymentPercentage) / 100
-
-  // Total upfront cash needed = DP + closing costs (% of price) + fixed pre-close + moving
-  const totalUpfrontForIdeal =
-    requiredDownPayment +
-    idealHousePrice * UPFRONT_COSTS.closingCostRate +
-    UPFRONT_COSTS.preCloseCosts +
-    UPFRONT_COSTS.movingSetup
+  const totalUpfrontForIdeal = base.cashNeededForIncomeRoof
 
   let downPaymentStatus: "on-target" | "excess" | "shortfall"
   let excessAmount: number | undefined
@@ -290,65 +344,29 @@ export function calculateMaxAffordability(
     downPaymentStatus = "on-target"
   }
 
+  // Excess strategies put all spare cash down: "increase-price" re-solves the roofs with the
+  // larger down payment, "reduce-payment" keeps the price and lowers the loan
   const excessDownPaymentStrategy = financialInputs.excessDownPaymentStrategy || "save"
-  let finalMaxPurchasePrice: number
-  let actualDownPaymentUsed: number
-  let actualMonthlyPayment: number
-
-  if (downPaymentStatus === "shortfall") {
-    // Cash-adjusted roof: P = (Sources - fixedCosts) / (DP% + closingCostRate)
-    const cashForPriceScaled = Math.max(0, availableDownPayment - UPFRONT_COSTS.preCloseCosts - UPFRONT_COSTS.movingSetup)
-    finalMaxPurchasePrice = cashForPriceScaled / (downPaymentPercentage / 100 + UPFRONT_COSTS.closingCostRate)
-    actualDownPaymentUsed = finalMaxPurchasePrice * (downPaymentPercentage / 100)
-    const loanAmount = Math.max(0, finalMaxPurchasePrice - actualDownPaymentUsed)
-    const monthlyPropertyTax = finalMaxPurchasePrice * propertyTaxRate
-    const monthlyInsurance = insuranceRate
-    const monthlyPrincipalInterest =
-      loanAmount > 0 && interestRate > 0
-        ? (loanAmount * interestRate) / (1 - Math.pow(1 + interestRate, -numPayments))
-        : loanAmount / numPayments
-    actualMonthlyPayment = monthlyPrincipalInterest + monthlyPropertyTax + monthlyInsurance
-  } else if (downPaymentStatus === "excess") {
-    if (excessDownPaymentStrategy === "increase-price") {
-      finalMaxPurchasePrice = idealHousePrice + excessAmount!
-      actualDownPaymentUsed = availableDownPayment
-      const loanAmount = Math.max(0, finalMaxPurchasePrice - actualDownPaymentUsed)
-      const monthlyPropertyTax = finalMaxPurchasePrice * propertyTaxRate
-      const monthlyInsurance = insuranceRate
-      const monthlyPrincipalInterest =
-        loanAmount > 0 && interestRate > 0
-          ? (loanAmount * interestRate) / (1 - Math.pow(1 + interestRate, -numPayments))
-          : loanAmount / numPayments
-      actualMonthlyPayment = monthlyPrincipalInterest + monthlyPropertyTax + monthlyInsurance
-    } else if (excessDownPaymentStrategy === "reduce-payment") {
-      finalMaxPurchasePrice = idealHousePrice
-      actualDownPaymentUsed = availableDownPayment
-      const loanAmount = Math.max(0, finalMaxPurchasePrice - actualDownPaymentUsed)
-      const monthlyPropertyTax = finalMaxPurchasePrice * propertyTaxRate
-      const monthlyInsurance = insuranceRate
-      const monthlyPrincipalInterest =
-        loanAmount > 0 && interestRate > 0
-          ? (loanAmount * interestRate) / (1 - Math.pow(1 + interestRate, -numPayments))
-          : loanAmount / numPayments
-      actualMonthlyPayment = monthlyPrincipalInterest + monthlyPropertyTax + monthlyInsurance
-    } else {
-      finalMaxPurchasePrice = idealHousePrice
-      actualDownPaymentUsed = requiredDownPayment
-      actualMonthlyPayment = maxMonthlyPayment
-    }
-  } else {
-    finalMaxPurchasePrice = idealHousePrice
-    actualDownPaymentUsed = requiredDownPayment
-    actualMonthlyPayment = maxMonthlyPayment
+  const allCashInput: AffordabilityEngineInput = { ...engineInput, downPaymentMode: "all-cash" }
+  let result = base
+  let point = base.atRoof
+  if (downPaymentStatus === "excess" && excessDownPaymentStrategy === "increase-price") {
+    result = solveAffordability(allCashInput)
+    point = result.atRoof
+  } else if (downPaymentStatus === "excess" && excessDownPaymentStrategy === "reduce-payment") {
+    point = evaluateAffordability(allCashInput, base.maxPurchasePrice)
   }
 
-  const loanAmount = Math.max(0, finalMaxPurchasePrice - actualDownPaymentUsed)
-  const monthlyPropertyTax = finalMaxPurchasePrice * propertyTaxRate
-  const monthlyInsurance = insuranceRate
-  const monthlyPrincipalInterest =
-    loanAmount > 0 && interestRate > 0
-      ? (loanAmount * interestRate) / (1 - Math.pow(1 + interestRate, -numPayments))
-      : loanAmount / numPayments
+  const finalLoan = point.payment
+  const actualMonthlyPayment = finalLoan.monthly
+  const loanAmount = finalLoan.loanAmount
+  const monthlyPropertyTax = finalLoan.propertyTax
+  const monthlyInsurance = finalLoan.insurance
+  const monthlyPrincipalInterest = finalLoan.principalAndInterest
+
+  // Mortgage insurance timeline for the final loan (PMI drop-off, or program MI term)
+  const pmiSchedule = amortizationSchedule(point.loanParams)
+  const monthlyPMI = finalLoan.pmi
 
   const dtiRatio = grossMonthlyIncome > 0
     ? ((actualMonthlyPayment + fixedDebts) / grossMonthlyIncome) * 100
@@ -360,21 +378,43 @@ export function calculateMaxAffordability(
     fixedDebts -
     (financialInputs.futureExpensesMonthly || 0)
 
+  const buydown = buydownAnalysis(loanAmount, financialInputs.interestRate, financialInputs.loanTerm, engineInput.buydown)
+
   const constraints: string[] = []
   const opportunities: string[] = []
 
+  if (requestedDownPaymentPercentage < program.minDownPaymentPercent) {
+    constraints.push(
+      `${program.label} loans require at least ${program.minDownPaymentPercent}% down — using ${program.minDownPaymentPercent}%`,
+    )
+  }
+
   if (downPaymentStatus === "shortfall") {
     constraints.push(
       `Need ${formatCurrency(shortfallAmount!)} more upfront cash to afford your ideal ${formatCurrency(idealHousePrice)} house`,
     )
   }
 
+  if (result.binding === "loan-limit") {
+    constraints.push(
+      program.id === "conventional"
+        ? `Roof capped at the ${formatCurrency(program.loanLimit!)} conforming loan limit — a jumbo loan would be needed above it`
+        : `Roof capped at the ${formatCurrency(program.loanLimit!)} ${program.label} loan limit`,
+    )
+  }
+
   if (maxMonthlyPayment <= 0) {
     constraints.push("Current expenses exceed income - reduce expenses to afford a home")
   }
 
-  if (dtiRatio > 40) {
-    constraints.push(`High DTI ratio: ${dtiRatio.toFixed(1)}% (banks prefer <43%)`)
+  if (base.frontEndBinding && maxHousingPaymentFromDTI <= maxLivabilityPayment) {
+    constraints.push(
+      `${program.label} caps housing at ${program.frontEndDTIPercent}% of gross income (${formatCurrency(maxHousingPaymentFromDTI)}/mo)`,
+    )
+  }
+
+  if (dtiRatio > program.backEndDTIPercent - 3) {
+    constraints.push(`High DTI ratio: ${dtiRatio.toFixed(1)}% (${program.label} limit ${program.backEndDTIPercent}%)`)
   }
 
   if (monthlyMargin < 500) {
@@ -392,12 +432,12 @@ export function calculateMaxAffordability(
   }
 
   return {
-    maxPurchasePrice: Math.max(0, finalMaxPurchasePrice),
-    maxMonthlyPayment: Math.max(0, maxMonthlyPayment),
+    maxPurchasePrice: Math.max(0, point.purchasePrice),
+    maxMonthlyPayment,
     actualMonthlyPayment: Math.max(0, actualMonthlyPayment),
     availableDownPayment,
     requiredDownPayment: Math.max(0, requiredDownPayment),
-    maxPriceFromDownPayment: Math.max(0, availableDownPayment - UPFRONT_COSTS.preCloseCosts - UPFRONT_COSTS.movingSetup) / (downPaymentPercentage / 100 + UPFRONT_COSTS.closingCostRate),
+    maxPriceFromDownPayment: base.roofs.cash.maxPurchasePrice ?? 0,
     loanAmount: Math.max(0, loanAmount),
     dtiRatio,
     monthlyIncome: grossMonthlyIncome,
@@ -415,6 +455,24 @@ export function calculateMaxAffordability(
     shortfallAmount,
     maxHousingPaymentFromDTI: Math.max(0, maxHousingPaymentFromDTI),
     maxBudgetPayment: Math.max(0, maxLivabilityPayment),
-    bindingConstraint: maxHousingPaymentFromDTI <= maxLivabilityPayment ? "dti" as const : "budget" as const,
+    bindingConstraint: result.binding,
+    roofs: result.roofs,
+    trace:
+      point === result.atRoof
+        ? [incomeTrace, ...result.trace]
+        : [incomeTrace, ...result.trace, traceAffordabilityPoint(point, "With excess cash down")],
+    taxBenefit: homeownerTaxBenefit(point.loanParams, grossAnnualIncome, taxProfileFor(financialInputs)),
+    monthlyPMI,
+    pmiEndMonth: pmiSchedule.pmiEndMonth,
+    totalPMI: pmiSchedule.totalPMI,
+    loanProgram: program.id,
+    financedUpfrontFee: finalLoan.upfrontFee,
+    buydown,
+    apr: aprAnalysis(point.loanParams, {
+      // Seller credit pays for points first; seller-paid points are not finance charges
+      pointsCost: Math.max(0, buydown.pointsCost - buydown.sellerCreditApplied),
+      lenderFees: financialInputs.lenderFees ?? APR_DEFAULTS.lenderFees,
+      prepaidInterestDays: APR_DEFAULTS.prepaidInterestDays,
+    }),
   }
 }
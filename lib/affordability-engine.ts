@@ -0,0 +1,314 @@
+// Canonical affordability engine.
+// Every "how much house" answer comes from solveAffordability(): it solves one
+// purchase-price roof per constraint — lender DTI, the household's own budget,
+// cash to close, and the program loan limit — and the lowest roof binds.
+// Pure math on top of finance-core; no UI, no side effects.
+
+import { maxPriceWhere, piti, safeNumber } from "./finance-core"
+import type { LoanParams, Money, RatePercent } from "./finance-core"
+import { getLoanProgram, programLoanParams } from "./loan-programs"
+import type { LoanProgram, LoanProgramId } from "./loan-programs"
+import { buydownAnalysis } from "./rate-buydowns"
+import type { BuydownOptions } from "./rate-buydowns"
+
+export type AffordabilityConstraint = "dti" | "budget" | "cash" | "loan-limit"
+
+export const AFFORDABILITY_CONSTRAINTS: { id: AffordabilityConstraint; label: string }[] = [
+  { id: "dti", label: "DTI" },
+  { id: "budget", label: "Budget" },
+  { id: "cash", label: "Cash" },
+  { id: "loan-limit", label: "Loan Limit" },
+]
+
+// Upfront cost constants — shared between engine and UI
+export const UPFRONT_COSTS = {
+  closingCostRate: 0.03,   // 3% of purchase price
+  preCloseCosts: 950,      // inspection + appraisal estimates
+  movingSetup: 2500,       // moving & initial setup estimate
+  // Discount points and temporary buydown funds scale with the loan and are
+  // added at closing via buydownAnalysis() (lib/rate-buydowns), net of seller credit
+}
+
+export type UpfrontCosts = typeof UPFRONT_COSTS
+
+/**
+ * How the down payment follows price:
+ * - "percent": price × downPaymentPercent
+ * - "capped": the same, but never more than availableCash (short cash lowers the down payment)
+ * - "all-cash": every dollar of cash left after closing costs goes down (at least the percent)
+ */
+export type DownPaymentMode = "percent" | "capped" | "all-cash"
+
+export interface AffordabilityEngineInput {
+  grossMonthlyIncome: Money
+  fixedDebts: Money                 // monthly debt payments counted in back-end DTI
+  budgetPayment: Money              // most the household chooses to spend on housing each month
+  availableCash: Money              // all upfront sources
+  downPaymentPercent: RatePercent   // requested; raised to the program minimum
+  downPaymentMode?: DownPaymentMode
+  loan: Omit<LoanParams, "purchasePrice" | "downPaymentPercent">
+  loanProgram?: LoanProgramId
+  frontEndDTIPercent?: RatePercent  // overrides the program's housing-only limit
+  backEndDTIPercent?: RatePercent   // overrides the program's housing + debts limit
+  upfrontCosts?: UpfrontCosts
+  buydown?: BuydownOptions
+}
+
+export interface ConstraintRoof {
+  constraint: AffordabilityConstraint
+  maxPurchasePrice: Money | null    // null when the constraint doesn't apply (e.g. no program loan limit)
+  limit: Money                      // the monthly payment, cash, or loan amount the roof is solved against
+}
+
+/** Loan, payment and cash needed for one purchase price. */
+export interface AffordabilityPoint {
+  purchasePrice: Money
+  downPayment: Money
+  loanParams: LoanParams
+  payment: ReturnType<typeof piti>
+  buydownCash: Money                // points + buydown fund, net of seller credit
+  cashToClose: Money                // down payment + closing + pre-close + moving + buydownCash
+}
+
+export type TraceUnit = "currency" | "percent" | "years" | "months"
+
+/** One line of the "why this number" trace: a value and how it was derived. */
+export interface TraceStep {
+  label: string
+  value: number
+  unit: TraceUnit
+  formula?: string                  // in terms of earlier step labels; omitted for raw inputs
+}
+
+export interface TraceSection {
+  title: string
+  steps: TraceStep[]
+}
+
+export interface AffordabilityEngineResult {
+  program: LoanProgram
+  downPaymentPercent: RatePercent   // effective, after the program minimum
+  roofs: Record<AffordabilityConstraint, ConstraintRoof>
+  binding: AffordabilityConstraint
+  maxPurchasePrice: Money
+  maxHousingPaymentFromDTI: Money
+  frontEndBinding: boolean          // the DTI roof comes from the front-end (housing-only) limit
+  incomeRoof: Money                 // lower of the DTI and budget roofs, ignoring cash
+  cashNeededForIncomeRoof: Money
+  isCashPurchase: boolean           // no payment capacity: the roof is the cash on hand, no loan
+  atRoof: AffordabilityPoint
+  trace: TraceSection[]             // inputs, payment limits, roofs and the payment at the roof
+}
+
+function effectiveDownPaymentPercent(input: AffordabilityEngineInput, program: LoanProgram): RatePercent {
+  return Math.max(safeNumber(input.downPaymentPercent), program.minDownPaymentPercent)
+}
+
+/** Evaluates a single purchase price under the input's program, down payment mode and upfront costs. */
+export function evaluateAffordability(input: AffordabilityEngineInput, purchasePrice: Money): AffordabilityPoint {
+  const program = getLoanProgram(input.loanProgram)
+  const costs = input.upfrontCosts ?? UPFRONT_COSTS
+  const dpPercent = effectiveDownPaymentPercent(input, program)
+  const cash = Math.max(0, safeNumber(input.availableCash))
+  const price = Math.max(0, safeNumber(purchasePrice))
+  const otherCosts = price * costs.closingCostRate + costs.preCloseCosts + costs.movingSetup
+
+  const paramsFor = (downPayment: number): LoanParams =>
+    programLoanParams(program, {
+      ...input.loan,
+      purchasePrice: price,
+      downPaymentPercent: price > 0 ? Math.min(100, (downPayment / price) * 100) : 100,
+    })
+  const buydownCashFor = (params: LoanParams) =>
+    input.buydown
+      ? buydownAnalysis(piti(params).loanAmount, params.interestRatePercent, params.termYears, input.buydown)
+          .cashToCloseImpact
+      : 0
+
+  let downPayment = (price * dpPercent) / 100
+  if (input.downPaymentMode === "capped") {
+    downPayment = Math.min(downPayment, cash)
+  } else if (input.downPaymentMode === "all-cash") {
+    // Points/buydown cost depends on the loan, which depends on the down payment; settles in a few passes
+    let allIn = downPayment
+    for (let i = 0; i < 5; i++) allIn = cash - otherCosts - buydownCashFor(paramsFor(Math.max(downPayment, allIn)))
+    downPayment = Math.min(price, Math.max(downPayment, allIn))
+  }
+
+  const loanParams = paramsFor(downPayment)
+  const buydownCash = buydownCashFor(loanParams)
+  return {
+    purchasePrice: price,
+    downPayment,
+    loanParams,
+    payment: piti(loanParams),
+    buydownCash,
+    cashToClose: downPayment + otherCosts + buydownCash,
+  }
+}
+
+/** PITI and cash-to-close breakdown for one purchase price, as a trace section. */
+export function traceAffordabilityPoint(point: AffordabilityPoint, title = "At the roof"): TraceSection {
+  const { payment, loanParams } = point
+  const costs = point.cashToClose - point.downPayment - point.buydownCash
+  const steps: TraceStep[] = [
+    { label: "Purchase price", value: point.purchasePrice, unit: "currency" },
+    { label: "Down payment", value: point.downPayment, unit: "currency", formula: `Purchase price × ${loanParams.downPaymentPercent.toFixed(2)}%` },
+    { label: "Loan amount", value: payment.loanAmount, unit: "currency", formula: "Purchase price − down payment + financed upfront fee" },
+    { label: "Principal & interest", value: payment.principalAndInterest, unit: "currency", formula: `Amortized over ${loanParams.termYears} yr at ${loanParams.interestRatePercent}%` },
+    { label: "Property tax", value: payment.propertyTax, unit: "currency", formula: `Purchase price × ${Number((loanParams.propertyTaxRatePercent ?? 0).toFixed(3))}% ÷ 12` },
+    { label: "Insurance", value: payment.insurance, unit: "currency", formula: "Annual insurance ÷ 12" },
+  ]
+  if (payment.pmi > 0) {
+    steps.push({ label: "Mortgage insurance", value: payment.pmi, unit: "currency", formula: `Loan amount × ${loanParams.pmiAnnualRatePercent ?? 0}% ÷ 12` })
+  }
+  if (payment.hoa > 0) steps.push({ label: "HOA", value: payment.hoa, unit: "currency" })
+  steps.push(
+    { label: "Monthly PITI", value: payment.monthly, unit: "currency", formula: "P&I + tax + insurance + MI + HOA" },
+    { label: "Closing & move-in costs", value: costs, unit: "currency", formula: "Closing costs % × price + pre-close + moving" },
+  )
+  if (point.buydownCash > 0) {
+    steps.push({ label: "Points & buydown", value: point.buydownCash, unit: "currency", formula: "Discount points + buydown fund − seller credit" })
+  }
+  steps.push({ label: "Cash to close", value: point.cashToClose, unit: "currency", formula: "Down payment + closing & move-in costs + points & buydown" })
+  return { title, steps }
+}
+
+/**
+ * Solves each constraint's roof independently and binds on the lowest.
+ * Payment roofs: PITI (incl. mortgage insurance) within the DTI / budget
+ * payment. Cash roof: cash to close within available cash. Loan-limit roof:
+ * the fee-inclusive loan within the program limit.
+ */
+export function solveAffordability(input: AffordabilityEngineInput): AffordabilityEngineResult {
+  const program = getLoanProgram(input.loanProgram)
+  const gross = Math.max(0, safeNumber(input.grossMonthlyIncome))
+  const cash = Math.max(0, safeNumber(input.availableCash))
+  const frontEndPercent = input.frontEndDTIPercent ?? program.frontEndDTIPercent
+  const backEndPercent = input.backEndDTIPercent ?? program.backEndDTIPercent
+
+  const fromBackEnd = (gross * backEndPercent) / 100 - safeNumber(input.fixedDebts)
+  const fromFrontEnd = frontEndPercent !== undefined ? (gross * frontEndPercent) / 100 : Infinity
+  const maxHousingPaymentFromDTI = Math.min(fromBackEnd, fromFrontEnd)
+  const budgetPayment = safeNumber(input.budgetPayment)
+
+  const at = (price: Money) => evaluateAffordability(input, price)
+  const paymentRoof = (limit: Money) => (limit > 0 ? maxPriceWhere((p) => at(p).payment.monthly <= limit) : 0)
+
+  const roofs: Record<AffordabilityConstraint, ConstraintRoof> = {
+    dti: { constraint: "dti", maxPurchasePrice: paymentRoof(maxHousingPaymentFromDTI), limit: Math.max(0, maxHousingPaymentFromDTI) },
+    budget: { constraint: "budget", maxPurchasePrice: paymentRoof(budgetPayment), limit: Math.max(0, budgetPayment) },
+    // A cent of slack: in all-cash mode cash to close equals the cash on hand by construction
+    cash: { constraint: "cash", maxPurchasePrice: maxPriceWhere((p) => at(p).cashToClose <= cash + 0.01), limit: cash },
+    "loan-limit": {
+      constraint: "loan-limit",
+      maxPurchasePrice:
+        program.loanLimit !== undefined
+          ? maxPriceWhere((p) => at(p).payment.loanAmount <= program.loanLimit!)
+          : null,
+      limit: program.loanLimit ?? 0,
+    },
+  }
+
+  // No room for a payment: buy outright with the cash on hand
+  const isCashPurchase = Math.min(maxHousingPaymentFromDTI, budgetPayment) <= 0 && cash > 0
+  if (isCashPurchase) {
+    roofs.cash = { constraint: "cash", maxPurchasePrice: cash, limit: cash }
+  }
+
+  let binding: AffordabilityConstraint = "dti"
+  if (isCashPurchase) {
+    binding = "cash"
+  } else {
+    for (const { id } of AFFORDABILITY_CONSTRAINTS) {
+      const roof = roofs[id].maxPurchasePrice
+      if (roof !== null && roof < (roofs[binding].maxPurchasePrice ?? Infinity)) binding = id
+    }
+  }
+  const maxPurchasePrice = roofs[binding].maxPurchasePrice ?? 0
+
+  const incomeRoof = Math.min(roofs.dti.maxPurchasePrice ?? 0, roofs.budget.maxPurchasePrice ?? 0)
+  const atRoof = isCashPurchase
+    ? evaluateAffordability({ ...input, downPaymentPercent: 100, downPaymentMode: "percent" }, maxPurchasePrice)
+    : at(maxPurchasePrice)
+
+  const dpPercent = effectiveDownPaymentPercent(input, program)
+  const roofFormula: Record<AffordabilityConstraint, string> = {
+    dti: "Highest price whose PITI ≤ max DTI payment",
+    budget: "Highest price whose PITI ≤ budget payment",
+    cash: isCashPurchase ? "Available cash (no loan)" : "Highest price whose cash to close ≤ available cash",
+    "loan-limit": "Highest price whose loan amount ≤ program loan limit",
+  }
+  const trace: TraceSection[] = [
+    {
+      title: "Engine inputs",
+      steps: [
+        { label: "Gross monthly income", value: gross, unit: "currency" },
+        { label: "Fixed debts", value: safeNumber(input.fixedDebts), unit: "currency" },
+        { label: "Budget payment", value: budgetPayment, unit: "currency" },
+        { label: "Available cash", value: cash, unit: "currency" },
+        {
+          label: "Down payment",
+          value: dpPercent,
+          unit: "percent",
+          formula: dpPercent > safeNumber(input.downPaymentPercent) ? `Raised to the ${program.label} minimum` : undefined,
+        },
+        { label: "Interest rate", value: input.loan.interestRatePercent, unit: "percent" },
+        { label: "Loan term", value: input.loan.termYears, unit: "years" },
+      ],
+    },
+    {
+      title: "Payment limits",
+      steps: [
+        {
+          label: "Back-end DTI payment",
+          value: fromBackEnd,
+          unit: "currency",
+          formula: `Gross monthly income × ${backEndPercent}% − fixed debts`,
+        },
+        ...(frontEndPercent !== undefined
+          ? [{ label: "Front-end DTI payment", value: fromFrontEnd, unit: "currency" as const, formula: `Gross monthly income × ${frontEndPercent}%` }]
+          : []),
+        {
+          label: "Max DTI payment",
+          value: maxHousingPaymentFromDTI,
+          unit: "currency",
+          formula: frontEndPercent !== undefined ? "Lower of back-end and front-end DTI payment" : "Back-end DTI payment",
+        },
+      ],
+    },
+    {
+      title: "Roofs",
+      steps: [
+        ...AFFORDABILITY_CONSTRAINTS.filter(({ id }) => roofs[id].maxPurchasePrice !== null).map(({ id, label }) => ({
+          label: `${label} roof`,
+          value: roofs[id].maxPurchasePrice!,
+          unit: "currency" as const,
+          formula: roofFormula[id],
+        })),
+        {
+          label: "Max purchase price",
+          value: maxPurchasePrice,
+          unit: "currency",
+          formula: `${AFFORDABILITY_CONSTRAINTS.find((c) => c.id === binding)!.label} roof binds (lowest)`,
+        },
+      ],
+    },
+    traceAffordabilityPoint(atRoof),
+  ]
+
+  return {
+    program,
+    downPaymentPercent: dpPercent,
+    roofs,
+    binding,
+    maxPurchasePrice,
+    maxHousingPaymentFromDTI,
+    frontEndBinding: fromFrontEnd < fromBackEnd,
+    incomeRoof,
+    cashNeededForIncomeRoof: evaluateAffordability({ ...input, downPaymentMode: "percent" }, incomeRoof).cashToClose,
+    isCashPurchase,
+    atRoof,
+    trace,
+  }
+}
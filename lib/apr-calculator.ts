@@ -0,0 +1,115 @@
+// APR and total cost of credit, modeled on the Reg Z (Appendix J) actuarial method.
+// Prepaid finance charges (points, lender fees, prepaid interest, financed upfront
+// MI) reduce the amount financed; the APR is the rate that discounts the scheduled
+// payment stream (P&I + MI) back to that amount. No UI, no side effects.
+
+import { amortizationSchedule, safeNumber } from "./finance-core"
+import type { LoanParams, Money, RatePercent } from "./finance-core"
+
+export interface AprCharges {
+  pointsCost?: Money            // borrower-paid discount points (seller-paid points are not finance charges)
+  lenderFees?: Money            // origination, underwriting, processing
+  prepaidInterestDays?: number  // days of per-diem interest collected at closing
+  otherFinanceCharges?: Money   // e.g. broker fee, tax service, flood cert
+}
+
+export const APR_DEFAULTS = {
+  lenderFees: 1200,
+  prepaidInterestDays: 15, // mid-month closing
+}
+
+export interface AprResult {
+  aprPercent: RatePercent
+  noteRatePercent: RatePercent
+  loanAmount: Money             // note amount, incl. any financed upfront MI / funding fee
+  prepaidFinanceCharges: Money
+  amountFinanced: Money         // loanAmount − prepaid finance charges
+  financeCharge: Money          // interest + MI + prepaid finance charges
+  totalOfPayments: Money        // scheduled P&I + MI; = amountFinanced + financeCharge
+  totalInterest: Money
+  totalMI: Money
+  totalInterestPercent: RatePercent // TIP: total interest as % of the loan amount
+  charges: {
+    upfrontMI: Money
+    points: Money
+    lenderFees: Money
+    prepaidInterest: Money
+    other: Money
+  }
+}
+
+/** Per-diem interest on a 365-day year for the days between closing and the first accrual period. */
+export function prepaidInterest(loanAmount: Money, ratePercent: RatePercent, days: number): Money {
+  return Math.max(0, loanAmount) * (safeNumber(ratePercent) / 100 / 365) * Math.max(0, safeNumber(days))
+}
+
+function presentValue(payments: Money[], rateMonthly: number): Money {
+  let pv = 0
+  let discount = 1
+  for (const payment of payments) {
+    discount /= 1 + rateMonthly
+    pv += payment * discount
+  }
+  return pv
+}
+
+/**
+ * Finds the annual rate (12 × monthly) at which the payment stream's present
+ * value equals amountFinanced, using a bounded binary search.
+ */
+export function solveApr(amountFinanced: Money, payments: Money[], maxIterations = 100): RatePercent {
+  const total = payments.reduce((sum, p) => sum + p, 0)
+  if (amountFinanced <= 0 || total <= amountFinanced) return 0
+
+  let low = 0
+  let high = 1 // 100% per month — far beyond any real loan
+  for (let i = 0; i < maxIterations; i++) {
+    const mid = (low + high) / 2
+    if (presentValue(payments, mid) > amountFinanced) {
+      low = mid
+    } else {
+      high = mid
+    }
+  }
+  return ((low + high) / 2) * 12 * 100
+}
+
+/** APR, finance charge, amount financed and total of payments for a loan plus its closing charges. */
+export function aprAnalysis(params: LoanParams, charges: AprCharges = {}): AprResult {
+  const schedule = amortizationSchedule(params)
+  const loanAmount = schedule.loanAmount
+  const upfrontMI = loanAmount - loanAmount / (1 + Math.max(0, safeNumber(params.upfrontFeePercent)) / 100)
+
+  const breakdown = {
+    upfrontMI,
+    points: Math.max(0, safeNumber(charges.pointsCost)),
+    lenderFees: Math.max(0, safeNumber(charges.lenderFees)),
+    prepaidInterest: prepaidInterest(loanAmount, params.interestRatePercent, charges.prepaidInterestDays ?? 0),
+    other: Math.max(0, safeNumber(charges.otherFinanceCharges)),
+  }
+  const prepaidFinanceCharges =
+    breakdown.upfrontMI + breakdown.points + breakdown.lenderFees + breakdown.prepaidInterest + breakdown.other
+
+  const payments = schedule.months.map((row) => row.principal + row.interest + row.pmi)
+  const totalOfPayments = payments.reduce((sum, p) => sum + p, 0)
+  const amountFinanced = Math.max(0, loanAmount - prepaidFinanceCharges)
+
+  return {
+    aprPercent: loanAmount > 0 ? solveApr(amountFinanced, payments) : 0,
+    noteRatePercent: params.interestRatePercent,
+    loanAmount,
+    prepaidFinanceCharges,
+    amountFinanced,
+    financeCharge: totalOfPayments - amountFinanced,
+    totalOfPayments,
+    totalInterest: schedule.totalInterest,
+    totalMI: schedule.totalPMI,
+    totalInterestPercent: loanAmount > 0 ? (schedule.totalInterest / loanAmount) * 100 : 0,
+    charges: breakdown,
+  }
+}
+
+/** Reg Z tolerance check for a disclosed APR: 1/8 of a point for regular transactions. */
+export function aprWithinTolerance(disclosedPercent: RatePercent, computedPercent: RatePercent, tolerance = 0.125): boolean {
+  return Math.abs(disclosedPercent - computedPercent) <= tolerance
+}
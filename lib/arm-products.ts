@@ -0,0 +1,145 @@
+// Adjustable-rate mortgage products and payment paths.
+// Builds on finance-core's amortizationSchedule(); no UI, no side effects.
+
+import { amortizationSchedule, clamp, safeNumber } from "./finance-core"
+import type { AmortizationSchedule, LoanParams, Money, RatePercent } from "./finance-core"
+
+export type ArmLoanType = "arm-5-1" | "arm-7-1" | "arm-10-1"
+export type LoanType = "fixed" | ArmLoanType
+export type ArmPathKey = "best" | "expected" | "worst"
+
+export interface ArmCaps {
+  initial: RatePercent   // max change at the first reset
+  periodic: RatePercent  // max change at each later reset
+  lifetime: RatePercent  // max rise above the start rate over the life of the loan
+}
+
+export interface ArmProduct {
+  id: ArmLoanType
+  label: string
+  initialFixedYears: number
+  adjustmentIntervalMonths: number
+  marginPercent: RatePercent
+  caps: ArmCaps
+  startRateAdjustment: RatePercent // start rate relative to a 30yr fixed quote
+}
+
+export const ARM_PRODUCTS: Record<ArmLoanType, ArmProduct> = {
+  "arm-5-1": {
+    id: "arm-5-1", label: "5/1 ARM", initialFixedYears: 5, adjustmentIntervalMonths: 12,
+    marginPercent: 2.75, caps: { initial: 2, periodic: 2, lifetime: 5 }, startRateAdjustment: -0.75,
+  },
+  "arm-7-1": {
+    id: "arm-7-1", label: "7/1 ARM", initialFixedYears: 7, adjustmentIntervalMonths: 12,
+    marginPercent: 2.75, caps: { initial: 5, periodic: 2, lifetime: 5 }, startRateAdjustment: -0.5,
+  },
+  "arm-10-1": {
+    id: "arm-10-1", label: "10/1 ARM", initialFixedYears: 10, adjustmentIntervalMonths: 12,
+    marginPercent: 2.75, caps: { initial: 5, periodic: 2, lifetime: 5 }, startRateAdjustment: -0.25,
+  },
+}
+
+export const LOAN_TYPES: { id: LoanType; label: string }[] = [
+  { id: "fixed", label: "Fixed" },
+  { id: "arm-5-1", label: ARM_PRODUCTS["arm-5-1"].label },
+  { id: "arm-7-1", label: ARM_PRODUCTS["arm-7-1"].label },
+  { id: "arm-10-1", label: ARM_PRODUCTS["arm-10-1"].label },
+]
+
+// 1-year SOFR-style index level used when no index assumption is supplied
+export const DEFAULT_ARM_INDEX_PERCENT = 4.3
+
+export function isArm(loanType: LoanType | undefined): loanType is ArmLoanType {
+  return loanType !== undefined && loanType !== "fixed"
+}
+
+/** Start-rate offset for a loan type; 0 for fixed-rate loans. */
+export function loanTypeRateAdjustment(loanType: LoanType | undefined): RatePercent {
+  return isArm(loanType) ? ARM_PRODUCTS[loanType].startRateAdjustment : 0
+}
+
+export interface ArmRateChange {
+  month: number           // first payment at the new rate
+  ratePercent: RatePercent
+}
+
+/**
+ * Note-rate resets for one path. The fully indexed rate (index + margin,
+ * rounded to 1/8%) is the target; each reset moves toward it no further than
+ * the initial/periodic cap, and never outside [margin, start + lifetime cap].
+ *
+ *   worst    — index rises enough to hit every cap
+ *   expected — index holds at indexPercent
+ *   best     — index falls to zero, rate drifts down to the margin floor
+ */
+export function armRatePath(
+  product: ArmProduct,
+  startRatePercent: RatePercent,
+  termYears: number,
+  path: ArmPathKey,
+  indexPercent: RatePercent = DEFAULT_ARM_INDEX_PERCENT,
+): ArmRateChange[] {
+  const start = safeNumber(startRatePercent)
+  const floor = Math.min(start, product.marginPercent)
+  const ceiling = start + product.caps.lifetime
+  const target =
+    path === "worst" ? ceiling :
+    path === "best"  ? floor :
+    Math.round((safeNumber(indexPercent) + product.marginPercent) * 8) / 8
+
+  const n = Math.round(safeNumber(termYears) * 12)
+  const changes: ArmRateChange[] = [{ month: 1, ratePercent: start }]
+  let rate = start
+
+  for (let month = product.initialFixedYears * 12 + 1; month <= n; month += product.adjustmentIntervalMonths) {
+    const cap = changes.length === 1 ? product.caps.initial : product.caps.periodic
+    const next = clamp(clamp(target, rate - cap, rate + cap), floor, ceiling)
+    if (next !== rate) changes.push({ month, ratePercent: next })
+    rate = next
+  }
+
+  return changes
+}
+
+export interface ArmPaymentPath {
+  path: ArmPathKey
+  rates: ArmRateChange[]
+  schedule: AmortizationSchedule
+  initialPrincipalAndInterest: Money
+  firstResetPrincipalAndInterest: Money  // P&I in the first month after the fixed period
+  maxPrincipalAndInterest: Money
+}
+
+/**
+ * Best, expected and worst-case payment paths for an ARM. params.interestRatePercent
+ * is the initial (teaser) rate.
+ */
+export function armPaymentPaths(
+  params: LoanParams,
+  product: ArmProduct,
+  indexPercent: RatePercent = DEFAULT_ARM_INDEX_PERCENT,
+): Record<ArmPathKey, ArmPaymentPath> {
+  const build = (path: ArmPathKey): ArmPaymentPath => {
+    const rates = armRatePath(product, params.interestRatePercent, params.termYears, path, indexPercent)
+    const rateForMonth = (month: number) => {
+      let rate = rates[0].ratePercent
+      for (const change of rates) if (change.month <= month) rate = change.ratePercent
+      return rate
+    }
+    const schedule = amortizationSchedule(params, { ratePercentForMonth: rateForMonth })
+    const pi = schedule.months.map((m) => m.principal + m.interest)
+    const resetIndex = product.initialFixedYears * 12
+
+    return {
+      path,
+      rates,
+      schedule,
+      initialPrincipalAndInterest: schedule.principalAndInterest,
+      firstResetPrincipalAndInterest: pi[resetIndex] ?? pi[pi.length - 1] ?? 0,
+      // the final row is a partial payoff, so it never sets the max
+      maxPrincipalAndInterest: Math.max(0, ...pi.slice(0, Math.max(1, pi.length - 1))),
+    }
+  }
+
+  return { best: build("best"), expected: build("expected"), worst: build("worst") }
+}
@@ -0,0 +1,224 @@
+// Ongoing Budget data: zod schemas for what the page stores (buckets,
+// obligations, charges, matching rules, redistribution, journal, settings) and the household it starts from. Shapes
+// follow the liquidity engine's interfaces; the schemas only guard what comes
+// back out of storage or an import. No UI, no side effects.
+
+import { z } from "zod"
+import type {
+  Bucket,
+  Charge,
+  ExecutionState,
+  JournalEntry,
+  LEIInput,
+  LedgerEntry,
+  Obligation,
+  RedistributionRun,
+  Transfer,
+} from "./liquidity-engine"
+import type { MatchRule, MatchRuleSet } from "./charge-rules"
+
+/** Inputs to the LEI that aren't buckets, obligations or charges. */
+export type BudgetSettings = Pick<LEIInput, "buffer" | "vars12mo">
+
+/** When and where the pressure valve sends reserve excess. */
+export interface PressureValveSettings {
+  threshold: number                               // excess must exceed this before a run is offered
+  rules: Array<{ targetId: string; weight: number }>
+}
+
+/** The executor's history; bucket balances are stored with the buckets. */
+export type RedistributionJournal = Pick<ExecutionState, "ledger" | "runs">
+
+/** A balance copied from a bank statement, to reconcile a bucket against. */
+export interface StatementBalance {
+  balance: number
+  asOf: string // ISO date
+}
+
+/** Bucket journal plus the last statement balance entered for each bucket. */
+export interface BucketJournal {
+  entries: JournalEntry[]
+  statements: Record<string, StatementBalance>
+}
+
+// ─── Schemas ────────────────────────────────────────────────
+
+const money = z.number().finite()
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date like 2026-01-31")
+
+export const bucketSchema: z.ZodType<Bucket> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(["operating", "smoothing", "ledger_reserve", "capital", "clearing"]),
+  status: z.enum(["active", "dormant"]),
+  balance: money,
+  targetRule: z.enum(["peak", "fixed", "goal", "none"]),
+  constraints: z.enum(["none", "ledger_required", "transfer_required"]),
+  notes: z.string().optional(),
+  color: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+})
+
+export const obligationSchema: z.ZodType<Obligation> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  expectedCost: money.nonnegative(),
+  dueMonth: z.number().int().min(1).max(12),
+  paid: z.boolean(),
+  frequency: z.enum(["annual", "semiannual", "quarterly"]).optional(),
+})
+
+export const chargeSchema: z.ZodType<Charge> = z.object({
+  id: z.string().min(1),
+  merchant: z.string(),
+  amount: money,
+  date: isoDate,
+  categoryHint: z.string().optional(),
+  status: z.enum(["unmatched", "matched_unfunded", "funded", "cleared", "ignored"]),
+  bucketId: z.string().optional(),
+  memo: z.string().optional(),
+  fingerprint: z.string().optional(),
+})
+
+export const matchRuleSchema: z.ZodType<MatchRule> = z
+  .object({
+    id: z.string().min(1),
+    bucketId: z.string().min(1),
+    merchantPattern: z.string().optional(),
+    minAmount: money.nonnegative().optional(),
+    maxAmount: money.nonnegative().optional(),
+    categoryHint: z.string().optional(),
+    confidence: z.number().min(0).max(1),
+    enabled: z.boolean(),
+    learned: z.boolean(),
+    hits: z.number().int().nonnegative(),
+  })
+  .refine((r) => r.minAmount === undefined || r.maxAmount === undefined || r.minAmount <= r.maxAmount, {
+    message: "Minimum amount is above the maximum",
+    path: ["minAmount"],
+  })
+
+export const matchRuleSetSchema: z.ZodType<MatchRuleSet> = z.object({
+  mode: z.enum(["suggest", "auto"]),
+  autoThreshold: z.number().min(0).max(1),
+  rules: z.array(matchRuleSchema),
+})
+
+export const ledgerEntrySchema: z.ZodType<LedgerEntry> = z.object({
+  id: z.string().min(1),
+  bucketId: z.string().min(1),
+  date: isoDate,
+  amount: money.positive(),
+  obligationId: z.string().optional(),
+  note: z.string(),
+})
+
+const transferSchema: z.ZodType<Transfer> = z.object({
+  id: z.string().min(1),
+  fromId: z.string().min(1),
+  toId: z.string().min(1),
+  amount: money.positive(),
+  ledgerEntryId: z.string().optional(),
+})
+
+const redistributionRunSchema: z.ZodType<RedistributionRun> = z.object({
+  id: z.string().min(1),
+  date: isoDate,
+  sourceId: z.string().min(1),
+  transfers: z.array(transferSchema),
+  note: z.string(),
+  reverses: z.string().optional(),
+  reversedBy: z.string().optional(),
+})
+
+export const redistributionJournalSchema: z.ZodType<RedistributionJournal> = z.object({
+  ledger: z.array(ledgerEntrySchema),
+  runs: z.array(redistributionRunSchema),
+})
+
+export const journalEntrySchema: z.ZodType<JournalEntry> = z.object({
+  id: z.string().min(1),
+  kind: z.enum(["opening", "deposit", "withdrawal", "transfer", "clearing", "reversal"]),
+  fromId: z.string().min(1),
+  toId: z.string().min(1),
+  amount: money.positive(),
+  date: isoDate,
+  reason: z.string(),
+  runId: z.string().optional(),
+  chargeId: z.string().optional(),
+  ledgerEntryId: z.string().optional(),
+  reverses: z.string().optional(),
+})
+
+export const bucketJournalSchema: z.ZodType<BucketJournal> = z.object({
+  entries: z.array(journalEntrySchema),
+  statements: z.record(z.object({ balance: money, asOf: isoDate })),
+})
+
+export const pressureValveSchema: z.ZodType<PressureValveSettings> = z.object({
+  threshold: money.nonnegative(),
+  rules: z.array(z.object({ targetId: z.string().min(1), weight: money.nonnegative() })),
+})
+
+export const budgetSettingsSchema: z.ZodType<BudgetSettings> = z.object({
+  buffer: money.nonnegative(),
+  vars12mo: z.record(z.array(money.nonnegative()).length(12, "Expected 12 months")),
+})
+
+// ─── Seed data ──────────────────────────────────────────────
+
+export const defaultBuckets: Bucket[] = [
+  { id: "op1", name: "Checking", type: "operating", status: "active", balance: 3200, targetRule: "none", constraints: "none" },
+  { id: "sm1", name: "MonthlyBills", type: "smoothing", status: "active", balance: 1800, targetRule: "peak", constraints: "none" },
+  { id: "sm2", name: "Groceries", type: "smoothing", status: "active", balance: 600, targetRule: "peak", constraints: "none" },
+  { id: "lr1", name: "AnnualReserve", type: "ledger_reserve", status: "active", balance: 8400, targetRule: "fixed", constraints: "ledger_required" },
+  { id: "cl1", name: "CardClearing", type: "clearing", status: "active", balance: 950, targetRule: "none", constraints: "transfer_required" },
+  { id: "zzold", name: "zzOldSavings", type: "capital", status: "dormant", balance: 2000, targetRule: "none", constraints: "none" },
+]
+
+export const defaultObligations: Obligation[] = [
+  { id: "ob1", name: "Home Insurance", expectedCost: 2400, dueMonth: 3, paid: false },
+  { id: "ob2", name: "Car Registration", expectedCost: 800, dueMonth: 7, paid: false },
+  { id: "ob3", name: "Property Tax", expectedCost: 3600, dueMonth: 11, paid: false },
+  { id: "ob4", name: "Term Life Premium", expectedCost: 1200, dueMonth: 1, paid: true },
+]
+
+export const defaultCharges: Charge[] = [
+  { id: "ch1", merchant: "Petco", amount: 68, date: "2026-10-02", categoryHint: "MonthlyBills", status: "funded", bucketId: "sm1" },
+  { id: "ch2", merchant: "Whole Foods", amount: 145, date: "2026-10-03", categoryHint: "Groceries", status: "matched_unfunded", bucketId: "sm2" },
+  { id: "ch3", merchant: "Shell", amount: 82, date: "2026-10-04", categoryHint: "Auto", status: "unmatched" },
+  { id: "ch4", merchant: "Netflix", amount: 18, date: "2026-10-01", categoryHint: "MonthlyBills", status: "cleared", bucketId: "sm1" },
+]
+
+export const defaultBudgetSettings: BudgetSettings = {
+  buffer: 500,
+  vars12mo: {
+    groceries: [380, 410, 390, 425, 440, 460, 390, 375, 410, 430, 490, 510],
+    utilities: [160, 170, 150, 130, 120, 140, 200, 210, 175, 155, 180, 195],
+    auto_fuel: [75, 80, 70, 90, 85, 95, 80, 70, 75, 90, 85, 100],
+  },
+}
+
+export const defaultMatchRules: MatchRuleSet = {
+  mode: "suggest",
+  autoThreshold: 0.8,
+  rules: [
+    { id: "rule-streaming", bucketId: "sm1", merchantPattern: "netflix|spotify|hulu|disney", maxAmount: 50, confidence: 0.95, enabled: true, learned: false, hits: 0 },
+    { id: "rule-grocers", bucketId: "sm2", merchantPattern: "whole foods|trader joe|safeway|kroger|h-e-b", confidence: 0.9, enabled: true, learned: false, hits: 0 },
+    { id: "rule-bills-hint", bucketId: "sm1", categoryHint: "MonthlyBills", confidence: 0.7, enabled: true, learned: false, hits: 0 },
+    { id: "rule-groceries-hint", bucketId: "sm2", categoryHint: "Groceries", confidence: 0.7, enabled: true, learned: false, hits: 0 },
+  ],
+}
+
+export const defaultPressureValve: PressureValveSettings = {
+  threshold: 250,
+  rules: [
+    { targetId: "op1", weight: 3 },
+    { targetId: "sm2", weight: 1 },
+  ],
+}
+
+export const defaultRedistributionJournal: RedistributionJournal = { ledger: [], runs: [] }
+
+// Opening entries are written from the loaded buckets on first visit, so the journal starts empty
+export const defaultBucketJournal: BucketJournal = { entries: [], statements: {} }
@@ -0,0 +1,163 @@
+// Charge auto-matching: an ordered list of rules on merchant pattern, amount
+// range and category hint, each naming the bucket that pays. The first rule
+// that fits wins. Suggest mode only pre-fills the clearing board; auto mode
+// moves confident matches to matched_unfunded so clearingState() counts them.
+// Manual matches feed back into the rules. No UI, no side effects.
+
+import { activeBuckets, transitionCharge } from "./liquidity-engine"
+import type { Bucket, Charge } from "./liquidity-engine"
+
+export type MatchMode = "suggest" | "auto"
+
+export interface MatchRule {
+  id: string
+  bucketId: string
+  merchantPattern?: string // regex, case-insensitive; tested against the merchant and the raw memo
+  minAmount?: number
+  maxAmount?: number
+  categoryHint?: string    // case-insensitive exact match
+  confidence: number       // 0–1
+  enabled: boolean
+  learned: boolean         // created from a manual match rather than by hand
+  hits: number             // manual matches that agreed with the rule
+}
+
+/** Rules in priority order (first match wins) plus how they're applied. */
+export interface MatchRuleSet {
+  mode: MatchMode
+  autoThreshold: number    // auto mode only applies matches at least this confident
+  rules: MatchRule[]
+}
+
+export interface MatchSuggestion {
+  chargeId: string
+  bucketId: string
+  ruleId: string
+  confidence: number
+}
+
+export const LEARNED_CONFIDENCE = 0.6
+const CONFIRM_STEP = 0.25  // share of the remaining gap to 1 closed by each agreeing match
+const REJECT_FACTOR = 0.6  // confidence kept after a manual match overrules the rule
+const MIN_CONFIDENCE = 0.2 // learned rules below this switch themselves off
+
+// ─── Helpers ────────────────────────────────────────────────
+
+/** The rule's pattern as a RegExp, or null if it doesn't compile. */
+export function compilePattern(source: string): RegExp | null {
+  try {
+    return new RegExp(source, "i")
+  } catch {
+    return null
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function hasCriteria(rule: MatchRule): boolean {
+  return !!rule.merchantPattern || rule.minAmount !== undefined || rule.maxAmount !== undefined || !!rule.categoryHint
+}
+
+// Buckets a charge can be matched to — same list the clearing board offers
+function fundingBucketIds(buckets: Bucket[]): Set<string> {
+  return new Set(activeBuckets(buckets).filter((b) => b.type !== "clearing").map((b) => b.id))
+}
+
+// ─── Matching ───────────────────────────────────────────────
+
+/** Every criterion the rule sets must hold; a rule with none matches nothing. */
+export function ruleMatches(rule: MatchRule, charge: Charge): boolean {
+  if (!rule.enabled || !hasCriteria(rule)) return false
+  if (rule.merchantPattern) {
+    const pattern = compilePattern(rule.merchantPattern)
+    if (!pattern || !(pattern.test(charge.merchant) || (charge.memo !== undefined && pattern.test(charge.memo)))) return false
+  }
+  if (rule.minAmount !== undefined && charge.amount < rule.minAmount) return false
+  if (rule.maxAmount !== undefined && charge.amount > rule.maxAmount) return false
+  if (rule.categoryHint && rule.categoryHint.toLowerCase() !== charge.categoryHint?.toLowerCase()) return false
+  return true
+}
+
+/** First fitting rule whose bucket is still active, for an unmatched charge. */
+export function suggestMatch(charge: Charge, ruleSet: MatchRuleSet, buckets: Bucket[]): MatchSuggestion | null {
+  if (charge.status !== "unmatched") return null
+  const usable = fundingBucketIds(buckets)
+  const rule = ruleSet.rules.find((r) => usable.has(r.bucketId) && ruleMatches(r, charge))
+  return rule ? { chargeId: charge.id, bucketId: rule.bucketId, ruleId: rule.id, confidence: rule.confidence } : null
+}
+
+/** Suggestions for every unmatched charge a rule covers, by charge id. */
+export function suggestMatches(charges: Charge[], ruleSet: MatchRuleSet, buckets: Bucket[]): Record<string, MatchSuggestion> {
+  const suggestions: Record<string, MatchSuggestion> = {}
+  for (const charge of charges) {
+    const suggestion = suggestMatch(charge, ruleSet, buckets)
+    if (suggestion) suggestions[charge.id] = suggestion
+  }
+  return suggestions
+}
+
+/**
+ * Matches charges whose suggestion clears the auto threshold. In suggest mode
+ * nothing changes. The returned charges carry the bucketId assignments that
+ * clearingState() reads.
+ */
+export function autoMatchCharges(
+  charges: Charge[],
+  ruleSet: MatchRuleSet,
+  buckets: Bucket[],
+): { charges: Charge[]; applied: MatchSuggestion[] } {
+  if (ruleSet.mode !== "auto") return { charges, applied: [] }
+  const applied: MatchSuggestion[] = []
+  const next = charges.map((charge) => {
+    const suggestion = suggestMatch(charge, ruleSet, buckets)
+    if (!suggestion || suggestion.confidence < ruleSet.autoThreshold) return charge
+    applied.push(suggestion)
+    return transitionCharge(charge, "matched_unfunded", suggestion.bucketId)
+  })
+  return { charges: applied.length > 0 ? next : charges, applied }
+}
+
+// ─── Learning ───────────────────────────────────────────────
+
+/** The rule a manual match of this merchant would create. */
+export function learnedRule(charge: Charge, bucketId: string): MatchRule {
+  const slug = charge.merchant.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")
+  return {
+    id: `learned-${slug || charge.id}`,
+    bucketId,
+    merchantPattern: `^${escapeRegExp(charge.merchant.trim())}$`,
+    confidence: LEARNED_CONFIDENCE,
+    enabled: true,
+    learned: true,
+    hits: 1,
+  }
+}
+
+/**
+ * Folds a manual match back into the rules. A rule that already picked this
+ * bucket gains confidence; one that picked another loses it (learned rules
+ * switch off once they fall too low) and a learned rule for the merchant is
+ * placed ahead of it so the same charge matches correctly next time.
+ */
+export function learnFromMatch(ruleSet: MatchRuleSet, charge: Charge, bucketId: string): MatchRuleSet {
+  const index = ruleSet.rules.findIndex((r) => ruleMatches(r, charge))
+  const current = index === -1 ? null : ruleSet.rules[index]
+
+  if (current?.bucketId === bucketId) {
+    const confirmed = { ...current, confidence: current.confidence + (1 - current.confidence) * CONFIRM_STEP, hits: current.hits + 1 }
+    return { ...ruleSet, rules: ruleSet.rules.map((r, i) => (i === index ? confirmed : r)) }
+  }
+
+  const learned = learnedRule(charge, bucketId)
+  const rules = ruleSet.rules
+    .filter((r) => r.id !== learned.id) // a stale learned rule for the merchant is replaced
+    .map((r) => {
+      if (r.id !== current?.id) return r
+      const confidence = r.confidence * REJECT_FACTOR
+      return { ...r, confidence, enabled: !(r.learned && confidence < MIN_CONFIDENCE) }
+    })
+  const at = !current ? rules.length : current.id === learned.id ? index : rules.findIndex((r) => r.id === current.id)
+  return { ...ruleSet, rules: [...rules.slice(0, at), learned, ...rules.slice(at)] }
+}
@@ -29,6 +29,15 @@ export interface ToggleState {
   t_rate: boolean
 }
 
+/** Slider/toggle positions remembered per mode across mode switches. */
+export type ModeMemory = Partial<Record<ModeKey, { sliders: SliderState; toggles: ToggleState }>>
+
+/** What a saved or exported rehearsal holds: the active mode plus every mode's positions. */
+export interface RehearsalSession {
+  mode: ModeKey
+  modes: ModeMemory
+}
+
 export interface BreakdownItem {
   name: string
   value: number
@@ -10,6 +10,10 @@ export interface LoanParams {
   annualInsurance?: Money
   monthlyHOA?: Money
   pmiAnnualRatePercent?: RatePercent // annual as percent of loan if DP < 20%
+  pmiRemoval?: "automatic" | "request" // PMI ends at 78% LTV automatically, or at 80% on borrower request
+  annualAppreciationPercent?: RatePercent // when set, "request" removal uses appraised value LTV
+  upfrontFeePercent?: RatePercent // financed into the loan: FHA UFMIP, VA funding fee, USDA guarantee fee
+  miDuration?: "ltv" | "life" | number // "ltv" (default): PMI only under 20% down, removed by LTV; "life": until payoff; number: months
 }
 
 export const DEFAULTS = {
@@ -17,6 +21,8 @@ export const DEFAULTS = {
   annualInsurance: 1800,
   monthlyHOA: 0,
   pmiAnnualRatePercent: 0.6, // 0.6% annual PMI default
+  pmiAutoTerminationLTV: 78,  // Homeowners Protection Act automatic termination
+  pmiRequestRemovalLTV: 80,   // borrower-requested cancellation
   // Default withholding percentages for gross income items
   withholdingTaxPct: 25,         // federal + state taxes
   withholding401kPct: 5,         // 401k / retirement contribution
@@ -43,21 +49,32 @@ export function pmt(principal: Money, rateMonthly: number, nPayments: number): M
   return (principal * rateMonthly) / (1 - Math.pow(1 + rateMonthly, -nPayments))
 }
 
-export function piti(params: LoanParams) {
+// Shared normalization for piti() and amortizationSchedule() so both read
+// LoanParams exactly the same way.
+function loanTerms(params: LoanParams) {
   const dpPct = clamp(safeNumber(params.downPaymentPercent), 0, 100)
   const price = Math.max(0, safeNumber(params.purchasePrice))
-  const loan = Math.max(0, price * (1 - dpPct / 100))
+  const baseLoan = Math.max(0, price * (1 - dpPct / 100))
+  const upfrontFee = baseLoan * Math.max(0, safeNumber(params.upfrontFeePercent)) / 100
+  const loan = baseLoan + upfrontFee
 
   const r = rateMonthlyFromPercent(clamp(safeNumber(params.interestRatePercent), 0, 100))
   const n = Math.max(1, Math.round(safeNumber(params.termYears) * 12))
 
+  return { dpPct, price, loan, upfrontFee, r, n }
+}
+
+export function piti(params: LoanParams) {
+  const { dpPct, price, loan, upfrontFee, r, n } = loanTerms(params)
+
   const principalAndInterest = pmt(loan, r, n)
   const propertyTax =
     (price * (params.propertyTaxRatePercent ?? DEFAULTS.propertyTaxRatePercent)) / 100 / 12
   const insurance = (params.annualInsurance ?? DEFAULTS.annualInsurance) / 12
   const hoa = params.monthlyHOA ?? DEFAULTS.monthlyHOA
 
-  const needsPMI = dpPct < 20 && loan > 0
+  // Program mortgage insurance (FHA MIP, USDA annual fee) applies at any down payment
+  const needsPMI = loan > 0 && ((params.miDuration ?? "ltv") === "ltv" ? dpPct < 20 : true)
   const pmiMonthly =
     needsPMI
       ? (loan * (params.pmiAnnualRatePercent ?? DEFAULTS.pmiAnnualRatePercent)) / 100 / 12
@@ -72,53 +89,320 @@ export function piti(params: LoanParams) {
     hoa,
     pmi: needsPMI ? pmiMonthly : 0,
     loanAmount: loan,
+    upfrontFee,
   }
 }
 
-export interface SolveParams extends Omit<LoanParams, "purchasePrice"> {
-  targetMonthly: Money
-  minPrice?: Money
-  maxPrice?: Money
-  tolerance?: Money
-  maxIterations?: number
+export interface AmortizationRow {
+  month: number               // 1-based payment number
+  payment: Money              // full monthly outlay: P&I + extra principal + tax + insurance + HOA + PMI
+  principal: Money            // total principal reduction, including extraPrincipal
+  extraPrincipal: Money       // prepayment portion of principal (recurring, lump sum, biweekly)
+  interest: Money
+  propertyTax: Money
+  insurance: Money
+  hoa: Money
+  pmi: Money
+  balance: Money              // remaining loan balance after this payment
+  cumulativeInterest: Money
+  equityPercent: RatePercent  // (price - balance) / price, no appreciation assumed
+}
+
+export interface AmortizationYear {
+  year: number                // 1-based loan year
+  months: number              // payments made this year; under 12 in a final partial year
+  payment: Money
+  principal: Money
+  extraPrincipal: Money
+  interest: Money
+  propertyTax: Money
+  insurance: Money
+  hoa: Money
+  pmi: Money
+  endingBalance: Money
+  cumulativeInterest: Money
+  equityPercent: RatePercent
+}
+
+export interface AmortizationSchedule {
+  loanAmount: Money
+  principalAndInterest: Money // scheduled monthly P&I from pmt() at origination
+  finalPrincipalAndInterest: Money // scheduled P&I after the last recast (equals principalAndInterest without recasts)
+  months: AmortizationRow[]
+  years: AmortizationYear[]
+  totalInterest: Money
+  totalPayments: Money        // sum of every row's payment
+  payoffMonth: number         // month the balance reaches zero
+  pmiEndMonth: number         // last payment that includes PMI; 0 when the loan never carries PMI
+  totalPMI: Money
+}
+
+export interface LumpSumPayment {
+  month: number               // 1-based payment number the lump sum is applied with
+  amount: Money
+}
+
+export interface PrepaymentOptions {
+  extraMonthlyPrincipal?: Money
+  lumpSums?: LumpSumPayment[]
+  // Half the P&I every two weeks = 26 half-payments a year, i.e. one extra
+  // P&I payment annually. Modeled on the monthly grid as +1/12 P&I each month.
+  biweekly?: boolean
+  // Re-amortize the remaining balance over the remaining term after each lump
+  // sum, lowering the required P&I instead of shortening the loan.
+  recastAfterLumpSum?: boolean
+}
+
+export interface ScheduleOptions extends PrepaymentOptions {
+  // Note rate for a given 1-based payment number (adjustable-rate loans).
+  // When the rate changes, the remaining balance is re-amortized over the
+  // remaining term, the way an ARM reset works.
+  ratePercentForMonth?: (month: number) => RatePercent
 }
 
 /**
- * Finds a purchase price such that PITI(price) ~= targetMonthly within tolerance,
- * using a robust bounded binary search. Assumes downPaymentPercent is fixed.
+ * Month-by-month amortization of a LoanParams loan, plus yearly rollups.
+ * Escrow items (tax, insurance, HOA, PMI) are read exactly as piti() reads
+ * them, so row 1 always matches the piti() snapshot when no prepayments are set.
+ *
+ * PMI is charged until the balance after a payment reaches the removal LTV
+ * (see pmiLTVThreshold) or the loan passes the midpoint of its term, whichever
+ * comes first. Automatic termination reads the balance the schedule would
+ * have reached without prepayments (HPA); only borrower-requested removal
+ * counts extra principal. Program insurance with a fixed miDuration ignores LTV.
  */
-export function solvePurchasePriceForMonthlyBudget(params: SolveParams) {
-  const tol = params.tolerance ?? 50
-  let low = Math.max(0, params.minPrice ?? 0)
-  let high = Math.max(low, params.maxPrice ?? 2_000_000)
-  let best = 0
+export function amortizationSchedule(
+  params: LoanParams,
+  options: ScheduleOptions = {},
+): AmortizationSchedule {
+  const terms = loanTerms(params)
+  const { price, loan, n } = terms
+  let r = terms.r
+  const base = piti(params)
 
-  for (let i = 0; i < (params.maxIterations ?? 60); i++) {
-    const mid = (low + high) / 2
-    const m = piti({
-      purchasePrice: mid,
-      downPaymentPercent: params.downPaymentPercent,
-      interestRatePercent: params.interestRatePercent,
-      termYears: params.termYears,
-      propertyTaxRatePercent: params.propertyTaxRatePercent,
-      annualInsurance: params.annualInsurance,
-      monthlyHOA: params.monthlyHOA,
-      pmiAnnualRatePercent: params.pmiAnnualRatePercent,
-    }).monthly
-
-    if (Math.abs(m - params.targetMonthly) <= tol) {
-      best = mid
-      break
+  const extraMonthly = Math.max(0, safeNumber(options.extraMonthlyPrincipal))
+  const lumpSumByMonth = new Map<number, Money>()
+  for (const ls of options.lumpSums ?? []) {
+    const month = Math.round(safeNumber(ls.month))
+    const amount = Math.max(0, safeNumber(ls.amount))
+    if (month >= 1 && amount > 0) lumpSumByMonth.set(month, (lumpSumByMonth.get(month) ?? 0) + amount)
+  }
+
+  const months: AmortizationRow[] = []
+  let balance = loan
+  let plannedBalance = loan // without any extra principal
+  let cumulativeInterest = 0
+  let scheduledPI = base.principalAndInterest
+  let plannedPI = base.principalAndInterest
+  let pmiActive = base.pmi > 0
+  let pmiEndMonth = 0
+  let totalPMI = 0
+
+  for (let month = 1; month <= n && balance > 0.005; month++) {
+    const pmi = pmiActive ? base.pmi : 0
+    if (options.ratePercentForMonth) {
+      const nextR = rateMonthlyFromPercent(clamp(safeNumber(options.ratePercentForMonth(month)), 0, 100))
+      if (nextR !== r) {
+        r = nextR
+        scheduledPI = pmt(balance, r, n - month + 1)
+        plannedPI = pmt(plannedBalance, r, n - month + 1)
+      }
+    }
+    const interest = balance * r
+    const scheduledPrincipal = Math.min(balance, scheduledPI - interest)
+    const lumpSum = lumpSumByMonth.get(month) ?? 0
+    const requestedExtra = extraMonthly + lumpSum + (options.biweekly ? scheduledPI / 12 : 0)
+    const extraPrincipal = Math.min(balance - scheduledPrincipal, requestedExtra)
+    const principal = scheduledPrincipal + extraPrincipal
+    balance = Math.max(0, balance - principal)
+    plannedBalance = Math.max(0, plannedBalance - Math.min(plannedBalance, plannedPI - plannedBalance * r))
+    cumulativeInterest += interest
+    if (pmi > 0) {
+      totalPMI += pmi
+      pmiEndMonth = month
+      pmiActive = miStillActive(params, price, params.pmiRemoval === "request" ? balance : plannedBalance, month, n)
     }
 
-    if (m > params.targetMonthly) {
-      high = mid
-    } else {
-      best = mid
+    months.push({
+      month,
+      payment: principal + interest + base.propertyTax + base.insurance + base.hoa + pmi,
+      principal,
+      extraPrincipal,
+      interest,
+      propertyTax: base.propertyTax,
+      insurance: base.insurance,
+      hoa: base.hoa,
+      pmi,
+      balance,
+      cumulativeInterest,
+      equityPercent: price > 0 ? ((price - balance) / price) * 100 : 0,
+    })
+
+    if (options.recastAfterLumpSum && lumpSum > 0 && balance > 0) {
+      scheduledPI = pmt(balance, r, n - month)
+    }
+  }
+
+  return {
+    loanAmount: loan,
+    principalAndInterest: base.principalAndInterest,
+    finalPrincipalAndInterest: scheduledPI,
+    months,
+    years: rollupYears(months),
+    totalInterest: cumulativeInterest,
+    totalPayments: months.reduce((s, m) => s + m.payment, 0),
+    payoffMonth: months.length,
+    pmiEndMonth,
+    totalPMI,
+  }
+}
+
+function miStillActive(params: LoanParams, price: Money, balance: Money, month: number, n: number): boolean {
+  const duration = params.miDuration ?? "ltv"
+  if (duration === "life") return true
+  if (typeof duration === "number") return month < duration
+  return currentLTV(params, price, balance, month) > pmiLTVThreshold(params) && month < n / 2
+}
+
+/** LTV (as percent) at which PMI stops for the loan's removal rule. */
+export function pmiLTVThreshold(params: LoanParams): RatePercent {
+  return params.pmiRemoval === "request" ? DEFAULTS.pmiRequestRemovalLTV : DEFAULTS.pmiAutoTerminationLTV
+}
+
+// Requested removal may be measured against an appraisal; automatic
+// termination is always measured against the original purchase price.
+function currentLTV(params: LoanParams, price: Money, balance: Money, month: number): RatePercent {
+  const appreciation = params.pmiRemoval === "request" ? safeNumber(params.annualAppreciationPercent) : 0
+  const value = price * Math.pow(1 + appreciation / 100, month / 12)
+  return value > 0 ? (balance / value) * 100 : 0
+}
+
+export interface PrepaymentAnalysis {
+  baseline: AmortizationSchedule
+  accelerated: AmortizationSchedule
+  monthsSaved: number
+  interestSaved: Money
+  baselinePayoffDate: string  // YYYY-MM of the final payment
+  payoffDate: string
+}
+
+/**
+ * Compares a prepayment plan against the plain piti() loan.
+ * firstPaymentMonth is "YYYY-MM"; defaults to next calendar month.
+ */
+export function prepaymentAnalysis(
+  params: LoanParams,
+  options: PrepaymentOptions,
+  firstPaymentMonth?: string,
+): PrepaymentAnalysis {
+  const baseline = amortizationSchedule(params)
+  const accelerated = amortizationSchedule(params, options)
+  const start = firstPaymentMonth ?? addMonths(currentMonth(), 1)
+
+  return {
+    baseline,
+    accelerated,
+    monthsSaved: baseline.payoffMonth - accelerated.payoffMonth,
+    interestSaved: baseline.totalInterest - accelerated.totalInterest,
+    baselinePayoffDate: addMonths(start, Math.max(0, baseline.payoffMonth - 1)),
+    payoffDate: addMonths(start, Math.max(0, accelerated.payoffMonth - 1)),
+  }
+}
+
+function currentMonth(): string {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`
+}
+
+/** Adds whole months to a "YYYY-MM" string. */
+export function addMonths(yearMonth: string, count: number): string {
+  const [y, m] = yearMonth.split("-").map((part) => safeNumber(part))
+  const total = y * 12 + (m - 1) + Math.round(count)
+  return `${Math.floor(total / 12)}-${String((total % 12) + 1).padStart(2, "0")}`
+}
+
+function rollupYears(months: AmortizationRow[]): AmortizationYear[] {
+  const years: AmortizationYear[] = []
+  for (const row of months) {
+    const year = Math.ceil(row.month / 12)
+    let y = years[year - 1]
+    if (!y) {
+      y = {
+        year, months: 0, payment: 0, principal: 0, extraPrincipal: 0, interest: 0, propertyTax: 0, insurance: 0, hoa: 0,
+        pmi: 0, endingBalance: 0, cumulativeInterest: 0, equityPercent: 0,
+      }
+      years.push(y)
+    }
+    y.months += 1
+    y.payment += row.payment
+    y.principal += row.principal
+    y.extraPrincipal += row.extraPrincipal
+    y.interest += row.interest
+    y.propertyTax += row.propertyTax
+    y.insurance += row.insurance
+    y.hoa += row.hoa
+    y.pmi += row.pmi
+    y.endingBalance = row.balance
+    y.cumulativeInterest = row.cumulativeInterest
+    y.equityPercent = row.equityPercent
+  }
+  return years
+}
+
+/**
+ * Largest price for which fits(price) holds, assuming fits is monotone (true up
+ * to some price, false above it). Bounded binary search; when no maxPrice is
+ * given the upper bound doubles until it no longer fits.
+ * Every purchase-price solver goes through this, so they agree to the dollar.
+ */
+export function maxPriceWhere(
+  fits: (price: Money) => boolean,
+  opts: { minPrice?: Money; maxPrice?: Money; tolerance?: Money; maxIterations?: number } = {},
+): Money {
+  const tol = opts.tolerance ?? 1
+  let low = Math.max(0, opts.minPrice ?? 0)
+  if (!fits(low)) return low
+  let high = Math.max(low, opts.maxPrice ?? 1_000_000)
+  if (opts.maxPrice === undefined) {
+    while (fits(high) && high < 1_000_000_000) {
+      low = high
+      high *= 2
+    }
+  } else if (fits(high)) {
+    return high
+  }
+
+  for (let i = 0; i < (opts.maxIterations ?? 100) && high - low > tol; i++) {
+    const mid = (low + high) / 2
+    if (fits(mid)) {
       low = mid
+    } else {
+      high = mid
     }
   }
 
+  return low
+}
+
+export interface SolveParams extends Omit<LoanParams, "purchasePrice"> {
+  targetMonthly: Money
+  minPrice?: Money
+  maxPrice?: Money
+  tolerance?: Money // price precision
+  maxIterations?: number
+}
+
+/**
+ * Finds the highest purchase price whose PITI stays within targetMonthly.
+ * Assumes downPaymentPercent is fixed. For full affordability (DTI, budget,
+ * cash, loan limits) use solveAffordability() in ./affordability-engine.
+ */
+export function solvePurchasePriceForMonthlyBudget(params: SolveParams) {
+  const { targetMonthly, minPrice, maxPrice, tolerance, maxIterations, ...loan } = params
+  const best = maxPriceWhere(
+    (price) => piti({ ...loan, purchasePrice: price }).monthly <= targetMonthly,
+    { minPrice, maxPrice: maxPrice ?? 2_000_000, tolerance, maxIterations },
+  )
   return Math.max(0, Math.round(best))
 }
 
@@ -141,39 +425,20 @@ export function solvePriceWithDynamicDownPayment(opts: {
   tolerance?: Money
   maxIterations?: number
 }) {
-  const tol = opts.tolerance ?? 50
-  let low = Math.max(0, opts.minPrice ?? 0)
-  let high = Math.max(low, opts.maxPrice ?? 2_000_000)
-  let best = 0
-
-  for (let i = 0; i < (opts.maxIterations ?? 60); i++) {
-    const mid = (low + high) / 2
-    const dpPercent =
-      mid > 0 ? Math.min(opts.dpCapPercent, (safeNumber(opts.availableDownPayment) / mid) * 100) : 0
-
-    const m = piti({
-      purchasePrice: mid,
-      downPaymentPercent: dpPercent,
-      interestRatePercent: opts.interestRatePercent,
-      termYears: opts.termYears,
-      propertyTaxRatePercent: opts.propertyTaxRatePercent,
-      annualInsurance: opts.annualInsurance,
-      monthlyHOA: opts.monthlyHOA,
-      pmiAnnualRatePercent: opts.pmiAnnualRatePercent,
-    }).monthly
-
-    if (Math.abs(m - opts.targetMonthly) <= tol) {
-      best = mid
-      break
-    }
-
-    if (m > opts.targetMonthly) {
-      high = mid
-    } else {
-      best = mid
-      low = mid
-    }
-  }
-
+  const best = maxPriceWhere(
+    (price) =>
+      piti({
+        purchasePrice: price,
+        downPaymentPercent:
+          price > 0 ? Math.min(opts.dpCapPercent, (safeNumber(opts.availableDownPayment) / price) * 100) : 0,
+        interestRatePercent: opts.interestRatePercent,
+        termYears: opts.termYears,
+        propertyTaxRatePercent: opts.propertyTaxRatePercent,
+        annualInsurance: opts.annualInsurance,
+        monthlyHOA: opts.monthlyHOA,
+        pmiAnnualRatePercent: opts.pmiAnnualRatePercent,
+      }).monthly <= opts.targetMonthly,
+    { minPrice: opts.minPrice, maxPrice: opts.maxPrice ?? 2_000_000, tolerance: opts.tolerance, maxIterations: opts.maxIterations },
+  )
   return Math.max(0, Math.round(best))
 }
@@ -0,0 +1,118 @@
+// Homeowner tax deductions: mortgage interest and property tax (SALT).
+// Each loan year compares itemizing (interest + capped SALT) against the
+// standard deduction, prices the difference with the federal brackets, and
+// nets the savings off PITI for an after-tax monthly housing cost.
+// Federal only — state returns that allow the same deductions are ignored.
+// No UI, no side effects.
+
+import { amortizationSchedule, piti, safeNumber } from "./finance-core"
+import type { LoanParams, Money, RatePercent } from "./finance-core"
+import { DEFAULT_TAX_PROFILE, bracketTax, defaultWages, estimateIncomeTax, marginalRate } from "./income-tax"
+import type { TaxProfile } from "./income-tax"
+import { FEDERAL_BRACKETS, FEDERAL_STANDARD_DEDUCTION, MORTGAGE_INTEREST_DEBT_LIMIT, SALT_CAP } from "./tax-data"
+
+export interface DeductionYear {
+  year: number
+  mortgageInterest: Money
+  deductibleInterest: Money   // interest on acquisition debt up to the limit
+  propertyTax: Money
+  saltDeduction: Money        // state income tax + property tax, capped
+  itemizedDeductions: Money
+  standardDeduction: Money
+  itemizes: boolean
+  taxSavings: Money           // federal tax saved vs. the same household without the home
+  monthlyPITI: Money          // average for the year
+  afterTaxMonthlyCost: Money  // monthlyPITI − taxSavings / 12
+}
+
+export interface HomeownerTaxBenefit {
+  years: DeductionYear[]
+  firstYearSavings: Money
+  monthlyPITI: Money
+  afterTaxMonthlyCost: Money  // year 1
+  marginalRatePercent: RatePercent
+  lastItemizingYear: number | null // interest falls each year; after this the standard deduction wins
+}
+
+/**
+ * Marginal-rate shortcut when income detail isn't modeled: only itemized
+ * deductions above the standard deduction save tax.
+ */
+export function itemizingSavings(input: {
+  mortgageInterest: Money
+  propertyTax: Money
+  standardDeduction: Money
+  saltCap: Money
+  marginalRatePercent: RatePercent
+}): Money {
+  const itemized = input.mortgageInterest + Math.min(input.propertyTax, input.saltCap)
+  return (Math.max(0, itemized - input.standardDeduction) * input.marginalRatePercent) / 100
+}
+
+/** Year-by-year itemized vs. standard deduction for a loan, priced at the household's brackets. */
+export function homeownerTaxBenefit(
+  loan: LoanParams,
+  grossAnnualIncome: Money,
+  profile: TaxProfile = DEFAULT_TAX_PROFILE,
+  otherItemized: Money = 0, // charitable gifts etc. the household would itemize anyway
+): HomeownerTaxBenefit {
+  const { filingStatus } = profile
+  const brackets = FEDERAL_BRACKETS[filingStatus]
+  const standardDeduction = FEDERAL_STANDARD_DEDUCTION[filingStatus]
+  const saltCap = SALT_CAP[filingStatus]
+  const debtLimit = MORTGAGE_INTEREST_DEBT_LIMIT[filingStatus]
+  const other = Math.max(0, safeNumber(otherItemized))
+
+  const income = estimateIncomeTax([defaultWages(grossAnnualIncome)], profile)
+  const agi = income.adjustedGrossIncome
+  const base = piti(loan)
+  const schedule = amortizationSchedule(loan)
+  const annualPropertyTax = base.propertyTax * 12
+
+  // Without the home the household still deducts its state income tax if itemizing wins
+  const renterDeduction = Math.max(standardDeduction, Math.min(income.stateIncomeTax, saltCap) + other)
+  const renterTax = bracketTax(Math.max(0, agi - renterDeduction), brackets)
+
+  const years: DeductionYear[] = []
+  const termYears = Math.max(1, Math.round(safeNumber(loan.termYears)))
+  for (let year = 1; year <= termYears; year++) {
+    const row = schedule.years[year - 1]
+    const mortgageInterest = row ? row.interest : 0
+    // Interest on the part of the average balance above the limit isn't deductible
+    const startBalance = year === 1 ? schedule.loanAmount : schedule.years[year - 2]?.endingBalance ?? 0
+    const averageBalance = row ? (startBalance + row.endingBalance) / 2 : 0
+    const deductibleInterest = averageBalance > debtLimit ? mortgageInterest * (debtLimit / averageBalance) : mortgageInterest
+    const saltDeduction = Math.min(income.stateIncomeTax + annualPropertyTax, saltCap)
+    const itemizedDeductions = deductibleInterest + saltDeduction + other
+    const itemizes = itemizedDeductions > standardDeduction
+    const ownerTax = bracketTax(Math.max(0, agi - Math.max(standardDeduction, itemizedDeductions)), brackets)
+    const taxSavings = Math.max(0, renterTax - ownerTax)
+    const monthlyPITI = row ? row.payment / row.months : base.propertyTax + base.insurance + base.hoa
+
+    years.push({
+      year,
+      mortgageInterest,
+      deductibleInterest,
+      propertyTax: annualPropertyTax,
+      saltDeduction,
+      itemizedDeductions,
+      standardDeduction,
+      itemizes,
+      taxSavings,
+      monthlyPITI,
+      afterTaxMonthlyCost: monthlyPITI - taxSavings / 12,
+    })
+  }
+
+  let lastItemizingYear: number | null = null
+  for (const y of years) if (y.itemizes) lastItemizingYear = y.year
+
+  return {
+    years,
+    firstYearSavings: years[0].taxSavings,
+    monthlyPITI: base.monthly,
+    afterTaxMonthlyCost: base.monthly - years[0].taxSavings / 12,
+    marginalRatePercent: marginalRate(Math.max(0, agi - renterDeduction), brackets),
+    lastItemizingYear,
+  }
+}
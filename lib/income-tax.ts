@@ -0,0 +1,179 @@
+// Progressive income tax estimator for take-home pay.
+// Federal brackets + standard deduction + child tax credit, FICA per earner,
+// and state income tax from the bundled tables in tax-data. Replaces flat
+// withholding percentages when a tax profile is known. No UI, no side effects.
+
+import { DEFAULTS, safeNumber } from "./finance-core"
+import type { Money, RatePercent } from "./finance-core"
+import {
+  CHILD_TAX_CREDIT,
+  FEDERAL_BRACKETS,
+  FEDERAL_STANDARD_DEDUCTION,
+  FICA,
+  STATE_INCOME_TAX,
+} from "./tax-data"
+import type { FilingStatus, StateCode, StateIncomeTax, TaxBracket } from "./tax-data"
+
+export interface TaxProfile {
+  filingStatus: FilingStatus
+  householdSize: number   // filers + dependents
+  state?: StateCode       // omitted: federal + FICA only
+}
+
+export const DEFAULT_TAX_PROFILE: TaxProfile = {
+  filingStatus: "married-joint",
+  householdSize: 2,
+}
+
+/** One earner's wages; FICA is capped per earner, income tax is on the household total. */
+export interface WageIncome {
+  annualGross: Money
+  preTaxRetirement?: Money  // 401(k)/403(b): lowers income tax, not FICA
+  preTaxBenefits?: Money    // Section 125 health premiums, HSA: lower income tax and FICA
+}
+
+export interface IncomeTaxEstimate {
+  grossIncome: Money
+  adjustedGrossIncome: Money        // gross − pre-tax retirement and benefits
+  federalTaxableIncome: Money
+  federalIncomeTax: Money           // after the child tax credit
+  childTaxCredit: Money
+  stateTaxableIncome: Money
+  stateIncomeTax: Money
+  socialSecurity: Money
+  medicare: Money                   // incl. additional Medicare tax
+  totalTax: Money
+  effectiveRatePercent: RatePercent // totalTax / gross
+  marginalFederalRatePercent: RatePercent
+  marginalStateRatePercent: RatePercent
+}
+
+/** Tax on taxable income under marginal brackets. */
+export function bracketTax(taxableIncome: Money, brackets: TaxBracket[]): Money {
+  const income = Math.max(0, safeNumber(taxableIncome))
+  let tax = 0
+  for (let i = 0; i < brackets.length; i++) {
+    const { over, ratePercent } = brackets[i]
+    if (income <= over) break
+    const top = i + 1 < brackets.length ? Math.min(income, brackets[i + 1].over) : income
+    tax += ((top - over) * ratePercent) / 100
+  }
+  return tax
+}
+
+/** Rate on the next dollar of taxable income. */
+export function marginalRate(taxableIncome: Money, brackets: TaxBracket[]): RatePercent {
+  let rate = 0
+  for (const bracket of brackets) {
+    if (Math.max(0, safeNumber(taxableIncome)) >= bracket.over) rate = bracket.ratePercent
+  }
+  return rate
+}
+
+function householdCounts(profile: TaxProfile) {
+  const filers = profile.filingStatus === "married-joint" ? 2 : 1
+  const dependents = Math.max(0, Math.round(safeNumber(profile.householdSize, filers)) - filers)
+  return { filers, dependents }
+}
+
+/** Federal, state and payroll tax for a household's wages under a filing status and state. */
+export function estimateIncomeTax(wages: WageIncome[] | Money, profile: TaxProfile = DEFAULT_TAX_PROFILE): IncomeTaxEstimate {
+  const earners: WageIncome[] = typeof wages === "number" ? [{ annualGross: wages }] : wages
+  const { filingStatus } = profile
+  const { filers, dependents } = householdCounts(profile)
+
+  let grossIncome = 0
+  let adjustedGrossIncome = 0
+  let socialSecurity = 0
+  let medicareWages = 0
+  for (const earner of earners) {
+    const gross = Math.max(0, safeNumber(earner.annualGross))
+    const benefits = Math.min(gross, Math.max(0, safeNumber(earner.preTaxBenefits)))
+    const retirement = Math.min(gross - benefits, Math.max(0, safeNumber(earner.preTaxRetirement)))
+    const ficaWages = gross - benefits
+    grossIncome += gross
+    adjustedGrossIncome += gross - benefits - retirement
+    socialSecurity += (Math.min(ficaWages, FICA.socialSecurityWageBase) * FICA.socialSecurityPercent) / 100
+    medicareWages += ficaWages
+  }
+  const medicare =
+    (medicareWages * FICA.medicarePercent) / 100 +
+    (Math.max(0, medicareWages - FICA.additionalMedicareThreshold[filingStatus]) * FICA.additionalMedicarePercent) / 100
+
+  // Federal
+  const federalBrackets = FEDERAL_BRACKETS[filingStatus]
+  const federalTaxableIncome = Math.max(0, adjustedGrossIncome - FEDERAL_STANDARD_DEDUCTION[filingStatus])
+  const federalBeforeCredits = bracketTax(federalTaxableIncome, federalBrackets)
+  const overPhaseOut = Math.max(0, adjustedGrossIncome - CHILD_TAX_CREDIT.phaseOutThreshold[filingStatus])
+  const childTaxCredit = Math.min(
+    federalBeforeCredits, // non-refundable portion only
+    Math.max(0, dependents * CHILD_TAX_CREDIT.perChild - Math.ceil(overPhaseOut / 1000) * CHILD_TAX_CREDIT.phaseOutPer1000),
+  )
+  const federalIncomeTax = federalBeforeCredits - childTaxCredit
+
+  // State
+  let stateTaxableIncome = 0
+  let stateIncomeTax = 0
+  let marginalStateRatePercent = 0
+  if (profile.state) {
+    const table: StateIncomeTax = STATE_INCOME_TAX[profile.state]
+    const stateBrackets = filingStatus === "married-joint" ? table.joint : table.single
+    const deduction =
+      table.standardDeduction === "federal"
+        ? FEDERAL_STANDARD_DEDUCTION[filingStatus]
+        : filingStatus === "married-joint"
+        ? table.standardDeduction.joint
+        : table.standardDeduction.single
+    const exemptions = filers * (table.personalExemption ?? 0) + dependents * (table.dependentExemption ?? 0)
+    const credits = filers * (table.personalCredit ?? 0) + dependents * (table.dependentCredit ?? 0)
+    stateTaxableIncome = Math.max(0, adjustedGrossIncome - deduction - exemptions)
+    stateIncomeTax = Math.max(0, bracketTax(stateTaxableIncome, stateBrackets) - credits)
+    marginalStateRatePercent = stateBrackets.length ? marginalRate(stateTaxableIncome, stateBrackets) : 0
+  }
+
+  const totalTax = federalIncomeTax + stateIncomeTax + socialSecurity + medicare
+  return {
+    grossIncome,
+    adjustedGrossIncome,
+    federalTaxableIncome,
+    federalIncomeTax,
+    childTaxCredit,
+    stateTaxableIncome,
+    stateIncomeTax,
+    socialSecurity,
+    medicare,
+    totalTax,
+    effectiveRatePercent: grossIncome > 0 ? (totalTax / grossIncome) * 100 : 0,
+    marginalFederalRatePercent: marginalRate(federalTaxableIncome, federalBrackets),
+    marginalStateRatePercent,
+  }
+}
+
+/** Wages with the default 401(k), healthcare and HSA withholding from DEFAULTS taken pre-tax. */
+export function defaultWages(grossAnnualIncome: Money): WageIncome {
+  const gross = Math.max(0, safeNumber(grossAnnualIncome))
+  return {
+    annualGross: gross,
+    preTaxRetirement: Math.round((gross * DEFAULTS.withholding401kPct) / 100),
+    preTaxBenefits:
+      Math.round((gross * DEFAULTS.withholdingHealthcarePct) / 100) + Math.round((gross * DEFAULTS.withholdingHSAPct) / 100),
+  }
+}
+
+/**
+ * Take-home for a single gross income when only the total is known: estimated
+ * taxes plus the default 401(k), healthcare and HSA withholding from DEFAULTS.
+ */
+export function estimateTakeHome(
+  grossAnnualIncome: Money,
+  profile: TaxProfile = DEFAULT_TAX_PROFILE,
+): { annualTakeHome: Money; taxes: Money; healthcare: Money; retirement: Money; hsa: Money } {
+  const gross = Math.max(0, safeNumber(grossAnnualIncome))
+  const retirement = Math.round((gross * DEFAULTS.withholding401kPct) / 100)
+  const healthcare = Math.round((gross * DEFAULTS.withholdingHealthcarePct) / 100)
+  const hsa = Math.round((gross * DEFAULTS.withholdingHSAPct) / 100)
+  const taxes = Math.round(
+    estimateIncomeTax([{ annualGross: gross, preTaxRetirement: retirement, preTaxBenefits: healthcare + hsa }], profile).totalTax,
+  )
+  return { annualTakeHome: gross - taxes - retirement - healthcare - hsa, taxes, healthcare, retirement, hsa }
+}
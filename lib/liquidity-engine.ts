@@ -6,13 +6,17 @@
  *   - Peak funding for variable bills
  *   - Credit card charge clearing workflow
  *   - Annual reserve ledger with mandatory withdrawal logging
- *   - Pressure-valve redistribution when reserves exceed required coverage
+ *   - Sinking-fund schedule for annual, semi-annual and quarterly obligations
+ *   - Pressure-valve redistribution when reserves exceed required coverage,
+ *     executed atomically against a transfer journal and reversible
+ *   - Double-entry bucket journal that balances are derived from, with
+ *     reconciliation against statement balances
  *   - Liquidity Elasticity Index (LEI) composite score 0–100
  *
  * No UI, no storage, no side effects. Designed to be composed into larger apps.
  */
 
-import { clamp, safeNumber } from './finance-core'
+import { addMonths, clamp, safeNumber } from './finance-core'
 import type { Money } from './finance-core'
 
 // ---------------------------------------------------------------------------
@@ -26,6 +30,11 @@ export type BucketStatus = 'active' | 'dormant'
 export type TargetRule = 'peak' | 'fixed' | 'goal' | 'none'
 export type BucketConstraint = 'none' | 'ledger_required' | 'transfer_required'
 export type ChargeStatus = 'unmatched' | 'matched_unfunded' | 'funded' | 'cleared' | 'ignored'
+export type ObligationFrequency = 'annual' | 'semiannual' | 'quarterly'
+export type JournalKind = 'opening' | 'deposit' | 'withdrawal' | 'transfer' | 'clearing' | 'reversal'
+
+/** Journal account for money entering or leaving the bucket system. */
+export const EXTERNAL_ACCOUNT = 'external'
 
 // ---------------------------------------------------------------------------
 // Domain interfaces
@@ -52,6 +61,9 @@ export interface Bucket {
 /**
  * An annual obligation (insurance, registration, property tax, etc.).
  * Only unpaid obligations count toward the required reserve.
+ *
+ * Recurring obligations repeat every 6 or 3 months from dueMonth;
+ * expectedCost is per occurrence and `paid` covers the next one due.
  */
 export interface Obligation {
   id: string
@@ -59,6 +71,7 @@ export interface Obligation {
   expectedCost: Money
   dueMonth: number   // 1–12
   paid: boolean
+  frequency?: ObligationFrequency // default 'annual'
 }
 
 /**
@@ -67,6 +80,9 @@ export interface Obligation {
  * Status lifecycle:
  *   unmatched → matched_unfunded → funded → cleared
  *   unmatched → ignored  (user dismisses it)
+ *
+ * Charges imported from a statement keep the raw memo text and a
+ * fingerprint so re-imports of the same transaction can be recognised.
  */
 export interface Charge {
   id: string
@@ -76,6 +92,8 @@ export interface Charge {
   categoryHint?: string
   status: ChargeStatus
   bucketId?: string    // set once matched to a bucket
+  memo?: string        // description exactly as the bank exported it
+  fingerprint?: string // stable across re-exports of the same transaction
 }
 
 /**
@@ -91,6 +109,58 @@ export interface LedgerEntry {
   note: string
 }
 
+/**
+ * One balance movement made by a redistribution run.
+ */
+export interface Transfer {
+  id: string
+  fromId: string
+  toId: string
+  amount: Money
+  ledgerEntryId?: string // withdrawal record when fromId needs a ledger
+}
+
+/**
+ * One line of the bucket journal. Every entry moves `amount` from one
+ * account to another (a bucket id, or EXTERNAL_ACCOUNT), so the journal
+ * always sums to zero across accounts. Entries are never edited or removed;
+ * mistakes are undone with a reversal entry.
+ *
+ *   opening     EXTERNAL ↔ bucket  (starting balance, or one a plan import sets)
+ *   deposit     EXTERNAL → bucket
+ *   withdrawal  bucket → EXTERNAL
+ *   transfer    bucket → bucket
+ *   clearing    clearing bucket → EXTERNAL, paying off a charge
+ *   reversal    the opposite of an earlier entry
+ */
+export interface JournalEntry {
+  id: string
+  kind: JournalKind
+  fromId: string
+  toId: string
+  amount: Money        // always positive; direction is from → to
+  date: string         // ISO date YYYY-MM-DD
+  reason: string
+  runId?: string       // redistribution run that made it
+  chargeId?: string    // charge it paid off
+  ledgerEntryId?: string
+  reverses?: string    // entry this one undoes
+}
+
+/**
+ * A journaled execution of a redistribution plan. Runs are append-only:
+ * undoing one adds a reversal run and links the two via reverses/reversedBy.
+ */
+export interface RedistributionRun {
+  id: string
+  date: string         // ISO date YYYY-MM-DD
+  sourceId: string
+  transfers: Transfer[]
+  note: string
+  reverses?: string    // id of the run this one undoes
+  reversedBy?: string  // set on the original once it has been undone
+}
+
 // ---------------------------------------------------------------------------
 // Result interfaces
 // ---------------------------------------------------------------------------
@@ -124,6 +194,48 @@ export interface ClearingState {
   clearingIntegrity: number
 }
 
+export interface SinkingFundPayment {
+  obligationId: string
+  name: string
+  amount: Money
+}
+
+export interface SinkingFundMonth {
+  /** Calendar month, YYYY-MM */
+  month: string
+  /** Planned transfer into the reserve this month */
+  contribution: Money
+  /** Obligations falling due this month */
+  due: SinkingFundPayment[]
+  payments: Money
+  /** End-of-month reserve if the plan is followed */
+  plannedBalance: Money
+  /** End-of-month reserve with the contribution actually being made */
+  projectedBalance: Money
+  /** Part of this month's payments the projected reserve can't cover */
+  shortfall: Money
+}
+
+export interface SinkingFundSchedule {
+  months: SinkingFundMonth[]
+  /** Mean planned contribution over the horizon */
+  averageContribution: Money
+  /** Months (YYYY-MM) with a projected shortfall */
+  shortMonths: string[]
+}
+
+export interface SinkingFundInput {
+  obligations: Obligation[]
+  /** First month of the plan, YYYY-MM */
+  startMonth: string
+  /** Reserve balance at the start of startMonth */
+  openingBalance: Money
+  /** Months to plan (default: 12) */
+  horizon?: number
+  /** Fixed monthly transfer actually being made; defaults to following the plan */
+  actualContribution?: Money
+}
+
 export interface LEIBreakdown {
   lHard: Money        // active operating bucket balances
   lSoft: Money        // active smoothing bucket balances
@@ -143,6 +255,53 @@ export interface LEIResult {
   breakdown: LEIBreakdown
 }
 
+/**
+ * Everything a redistribution run reads and writes. The executor returns a
+ * new state or throws; it never leaves a half-applied run behind.
+ */
+export interface ExecutionState {
+  buckets: Bucket[]
+  ledger: LedgerEntry[]
+  runs: RedistributionRun[]
+}
+
+export interface RedistributionRequest {
+  id: string
+  date: string
+  sourceId: string
+  plan: RedistributionAllocation[]
+  /** Required when the source is a ledger_reserve or ledger_required bucket */
+  ledgerEntry?: LedgerEntry
+  note?: string
+}
+
+/**
+ * The buckets and reserve ledger a journal entry is checked against when
+ * it's appended.
+ */
+export interface JournalAccounts {
+  buckets: Bucket[]
+  ledger: LedgerEntry[]
+}
+
+export interface BalanceLine {
+  entry: JournalEntry
+  /** Effect on the bucket: positive in, negative out */
+  change: Money
+  /** Bucket balance after this entry */
+  balance: Money
+}
+
+export interface Reconciliation {
+  bucketId: string
+  asOf: string
+  derived: Money
+  statement: Money
+  /** statement − derived; positive means the bank shows more than the journal */
+  difference: Money
+  reconciled: boolean
+}
+
 export interface LEIInput {
   buckets: Bucket[]
   obligations: Obligation[]
@@ -180,6 +339,7 @@ export function activeBuckets(buckets: Bucket[], type?: BucketType): Bucket[] {
 
 /**
  * Required annual reserve: sum of expectedCost for all unpaid obligations.
+ * Recurring obligations count once — the occurrence due next.
  */
 export function requiredAnnualReserve(obligations: Obligation[]): Money {
   return obligations.reduce(
@@ -235,6 +395,477 @@ export function redistributionPlan(
   })
 }
 
+// ---------------------------------------------------------------------------
+// Sinking fund
+// ---------------------------------------------------------------------------
+
+export const OBLIGATION_PERIOD_MONTHS: Record<ObligationFrequency, number> = {
+  annual: 12,
+  semiannual: 6,
+  quarterly: 3,
+}
+
+/**
+ * Months from `currentMonth` (1–12) until the obligation next falls due;
+ * 0 = due this month.
+ */
+export function monthsUntilDue(obligation: Obligation, currentMonth: number): number {
+  const period = OBLIGATION_PERIOD_MONTHS[obligation.frequency ?? 'annual']
+  return ((obligation.dueMonth - currentMonth + 12) % 12) % period
+}
+
+const ceilCents = (n: number): Money => Math.ceil(n * 100 - 1e-6) / 100
+
+/**
+ * Month-by-month plan for moving money into the ledger_reserve so every
+ * obligation occurrence is fully funded by its due month.
+ *
+ * Each occurrence is saved for evenly over its window: from the month after
+ * the obligation's previous occurrence (or the start month) through its due
+ * month. The opening balance is applied to occurrences earliest-due first,
+ * and the occurrence after the horizon starts accumulating inside it so the
+ * plan doesn't end with a cliff. A next occurrence marked paid is skipped.
+ *
+ * With `actualContribution` the projection follows that fixed transfer
+ * instead, and months where the reserve can't cover what's due are flagged.
+ */
+export function sinkingFundSchedule(input: SinkingFundInput): SinkingFundSchedule {
+  const { obligations, startMonth } = input
+  const horizon = Math.max(1, Math.round(safeNumber(input.horizon, 12)))
+  const startCalendarMonth = Number(startMonth.slice(5, 7))
+
+  // Occurrences (by month index from startMonth) with their saving window
+  const occurrences: Array<{ obligation: Obligation; dueIndex: number; windowStart: number; remaining: Money }> = []
+  for (const o of obligations) {
+    const cost = safeNumber(o.expectedCost)
+    if (cost <= 0) continue
+    const period = OBLIGATION_PERIOD_MONTHS[o.frequency ?? 'annual']
+    let windowStart = 0
+    for (let dueIndex = monthsUntilDue(o, startCalendarMonth); windowStart < horizon; dueIndex += period) {
+      const skip = o.paid && windowStart === 0
+      if (!skip) occurrences.push({ obligation: o, dueIndex, windowStart, remaining: cost })
+      windowStart = dueIndex + 1
+    }
+  }
+  occurrences.sort((a, b) => a.dueIndex - b.dueIndex)
+
+  let unallocated = Math.max(0, safeNumber(input.openingBalance))
+  for (const occ of occurrences) {
+    const applied = Math.min(unallocated, occ.remaining)
+    occ.remaining -= applied
+    unallocated -= applied
+  }
+
+  const contributions = Array<number>(horizon).fill(0)
+  const dueByMonth: SinkingFundPayment[][] = Array.from({ length: horizon }, () => [])
+  for (const occ of occurrences) {
+    const perMonth = occ.remaining / (occ.dueIndex - occ.windowStart + 1)
+    for (let m = occ.windowStart; m <= Math.min(occ.dueIndex, horizon - 1); m++) contributions[m] += perMonth
+    if (occ.dueIndex < horizon) {
+      dueByMonth[occ.dueIndex].push({ obligationId: occ.obligation.id, name: occ.obligation.name, amount: safeNumber(occ.obligation.expectedCost) })
+    }
+  }
+
+  let planned = safeNumber(input.openingBalance)
+  let projected = planned
+  const months = contributions.map((raw, m): SinkingFundMonth => {
+    const contribution = ceilCents(raw)
+    const due = dueByMonth[m]
+    const payments = roundCents(due.reduce((s, p) => s + p.amount, 0))
+    const available = projected + (input.actualContribution === undefined ? contribution : safeNumber(input.actualContribution))
+    planned = roundCents(planned + contribution - payments)
+    projected = roundCents(available - payments)
+    return {
+      month: addMonths(startMonth, m),
+      contribution,
+      due,
+      payments,
+      plannedBalance: planned,
+      projectedBalance: projected,
+      shortfall: roundCents(Math.max(0, payments - Math.max(0, available))),
+    }
+  })
+
+  return {
+    months,
+    averageContribution: roundCents(months.reduce((s, m) => s + m.contribution, 0) / horizon),
+    shortMonths: months.filter(m => m.shortfall > 0).map(m => m.month),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Redistribution executor
+// ---------------------------------------------------------------------------
+
+const roundCents = (n: number): Money => Math.round(n * 100) / 100
+
+/**
+ * True when money may only leave the bucket with a matching LedgerEntry.
+ */
+export function requiresLedger(bucket: Bucket): boolean {
+  return bucket.type === 'ledger_reserve' || bucket.constraints === 'ledger_required'
+}
+
+/**
+ * True when money may only enter or leave the bucket by a transfer recorded
+ * between buckets (or, from a clearing bucket, by paying off a charge): no
+ * deposits or withdrawals, and no part in a redistribution run.
+ */
+export function requiresTransfer(bucket: Bucket): boolean {
+  return bucket.constraints === 'transfer_required'
+}
+
+/**
+ * Allocations rounded to cents, with the rounding remainder on the largest
+ * so the transfers add up to exactly the rounded total.
+ */
+function centAmounts(plan: RedistributionAllocation[]): Money[] {
+  const amounts = plan.map(a => roundCents(a.amount))
+  const total = roundCents(plan.reduce((s, a) => s + a.amount, 0))
+  const drift = roundCents(total - amounts.reduce((s, a) => s + a, 0))
+  if (drift !== 0 && amounts.length > 0) {
+    const largest = amounts.indexOf(Math.max(...amounts))
+    amounts[largest] = roundCents(amounts[largest] + drift)
+  }
+  return amounts
+}
+
+function applyTransfers(buckets: Bucket[], transfers: Transfer[]): Bucket[] {
+  const delta = new Map<string, number>()
+  for (const t of transfers) {
+    delta.set(t.fromId, (delta.get(t.fromId) ?? 0) - t.amount)
+    delta.set(t.toId, (delta.get(t.toId) ?? 0) + t.amount)
+  }
+  return buckets.map(b => (delta.has(b.id) ? { ...b, balance: roundCents(b.balance + delta.get(b.id)!) } : b))
+}
+
+/**
+ * Applies a redistribution plan to bucket balances and journals it.
+ *
+ * Refuses (throws, changing nothing) when:
+ *   - the run id is taken, or the source / a target is missing or dormant
+ *   - the source or a target is transfer_required
+ *   - a target is the source itself, or an amount isn't a positive number
+ *   - the plan moves more than the source holds
+ *   - the source needs a ledger and no matching, unused LedgerEntry is given
+ *     (same bucket, same amount to the cent)
+ */
+export function executeRedistribution(state: ExecutionState, request: RedistributionRequest): ExecutionState {
+  const { id, date, sourceId, plan, ledgerEntry } = request
+  const byId = new Map(state.buckets.map(b => [b.id, b]))
+  const source = byId.get(sourceId)
+
+  if (state.runs.some(r => r.id === id)) throw new Error(`Run ${id} already exists`)
+  if (!source || isDormant(source)) throw new Error(`Source bucket ${sourceId} is missing or dormant`)
+  if (requiresTransfer(source)) throw new Error(`${source.name} only moves money by transfer, not redistribution`)
+  if (plan.length === 0) throw new Error('Nothing to redistribute')
+  for (const a of plan) {
+    const target = byId.get(a.targetId)
+    if (!target || isDormant(target)) throw new Error(`Target bucket ${a.targetId} is missing or dormant`)
+    if (target.id === sourceId) throw new Error(`${source.name} can't redistribute to itself`)
+    if (requiresTransfer(target)) throw new Error(`${target.name} only takes money by transfer, not redistribution`)
+    if (!(Number.isFinite(a.amount) && a.amount > 0)) throw new Error(`Amount for ${target.name} must be positive`)
+  }
+
+  const amounts = centAmounts(plan)
+  const total = roundCents(amounts.reduce((s, a) => s + a, 0))
+  if (total > roundCents(source.balance)) {
+    throw new Error(`${source.name} holds ${roundCents(source.balance)} but the plan moves ${total}`)
+  }
+
+  if (requiresLedger(source)) {
+    if (!ledgerEntry) throw new Error(`${source.name} needs a ledger entry for this withdrawal`)
+    if (ledgerEntry.bucketId !== sourceId) throw new Error(`Ledger entry ${ledgerEntry.id} is for another bucket`)
+    if (Math.abs(ledgerEntry.amount - total) >= 0.005) {
+      throw new Error(`Ledger entry ${ledgerEntry.id} is for ${ledgerEntry.amount}, not ${total}`)
+    }
+    const used = state.runs.some(r => r.transfers.some(t => t.ledgerEntryId === ledgerEntry.id))
+    if (used) throw new Error(`Ledger entry ${ledgerEntry.id} already covers another run`)
+  }
+
+  const withLedger = requiresLedger(source) && ledgerEntry ? ledgerEntry.id : undefined
+  const transfers: Transfer[] = plan.map((a, i) => ({
+    id: `${id}-${i + 1}`,
+    fromId: sourceId,
+    toId: a.targetId,
+    amount: amounts[i],
+    ...(withLedger ? { ledgerEntryId: withLedger } : {}),
+  }))
+  const logged = withLedger && !state.ledger.some(e => e.id === withLedger)
+
+  return {
+    buckets: applyTransfers(state.buckets, transfers),
+    ledger: logged && ledgerEntry ? [...state.ledger, ledgerEntry] : state.ledger,
+    runs: [...state.runs, { id, date, sourceId, transfers, note: request.note ?? ledgerEntry?.note ?? '' }],
+  }
+}
+
+/**
+ * Undoes a run by journaling the opposite transfers as a new run. Refuses
+ * when the run was already reversed, is itself a reversal, or a target has
+ * since spent money it would need to hand back. Money returning to a
+ * ledger bucket needs no ledger entry; the original entry stays on record.
+ */
+export function reverseRedistribution(
+  state: ExecutionState,
+  runId: string,
+  { id, date }: { id: string; date: string },
+): ExecutionState {
+  const run = state.runs.find(r => r.id === runId)
+  if (!run) throw new Error(`Run ${runId} not found`)
+  if (run.reversedBy) throw new Error(`Run ${runId} was already reversed by ${run.reversedBy}`)
+  if (run.reverses) throw new Error(`Run ${runId} is a reversal; execute a new run instead`)
+  if (state.runs.some(r => r.id === id)) throw new Error(`Run ${id} already exists`)
+
+  const byId = new Map(state.buckets.map(b => [b.id, b]))
+  if (!byId.has(run.sourceId)) throw new Error(`Source bucket ${run.sourceId} no longer exists`)
+  for (const t of run.transfers) {
+    const target = byId.get(t.toId)
+    if (!target) throw new Error(`Bucket ${t.toId} no longer exists`)
+    if (roundCents(target.balance) < t.amount) {
+      throw new Error(`${target.name} holds ${roundCents(target.balance)}, less than the ${t.amount} it received`)
+    }
+  }
+
+  const transfers: Transfer[] = run.transfers.map((t, i) => ({
+    id: `${id}-${i + 1}`,
+    fromId: t.toId,
+    toId: t.fromId,
+    amount: t.amount,
+  }))
+
+  return {
+    buckets: applyTransfers(state.buckets, transfers),
+    ledger: state.ledger,
+    runs: [
+      ...state.runs.map(r => (r.id === runId ? { ...r, reversedBy: id } : r)),
+      { id, date, sourceId: run.sourceId, transfers, note: `Reversal of ${run.note || runId}`, reverses: runId },
+    ],
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Bucket journal
+// ---------------------------------------------------------------------------
+
+/**
+ * Checks that need only the journal itself: unique id, positive amount,
+ * two different accounts, a date, ends that fit the kind, and for a
+ * reversal an original it mirrors that hasn't been reversed yet.
+ */
+function validateEntryShape(entry: JournalEntry, entries: JournalEntry[]): void {
+  const external = (id: string) => id === EXTERNAL_ACCOUNT
+  if (entries.some(e => e.id === entry.id)) throw new Error(`Journal entry ${entry.id} already exists`)
+  if (!(Number.isFinite(entry.amount) && entry.amount > 0)) throw new Error(`Journal entry ${entry.id} needs a positive amount`)
+  if (entry.fromId === entry.toId) throw new Error(`Journal entry ${entry.id} moves money to the account it came from`)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) throw new Error(`Journal entry ${entry.id} has no valid date`)
+
+  const ends: Record<JournalKind, boolean> = {
+    opening: external(entry.fromId) !== external(entry.toId),
+    deposit: external(entry.fromId) && !external(entry.toId),
+    withdrawal: !external(entry.fromId) && external(entry.toId),
+    transfer: !external(entry.fromId) && !external(entry.toId),
+    clearing: !external(entry.fromId) && external(entry.toId) && !!entry.chargeId,
+    reversal: !!entry.reverses,
+  }
+  if (!ends[entry.kind]) throw new Error(`Journal entry ${entry.id} doesn't fit a ${entry.kind}`)
+
+  if (entry.reverses) {
+    const original = entries.find(e => e.id === entry.reverses)
+    if (!original) throw new Error(`Journal entry ${entry.reverses} not found`)
+    if (entries.some(e => e.reverses === original.id)) throw new Error(`Journal entry ${original.id} was already reversed`)
+    if (original.fromId !== entry.toId || original.toId !== entry.fromId || roundCents(original.amount) !== roundCents(entry.amount)) {
+      throw new Error(`Journal entry ${entry.id} doesn't mirror ${original.id}`)
+    }
+  }
+}
+
+/**
+ * Throws when an entry can't be appended: duplicate id, non-positive amount,
+ * same account on both sides, a malformed date, ends that don't fit its
+ * kind (see JournalEntry), a deposit / withdrawal touching a
+ * transfer_required bucket, or money leaving a bucket that needs a ledger
+ * without a LedgerEntry to cover it. One ledger entry can cover several
+ * entries (a run's transfers) up to its amount; opening entries need none.
+ */
+export function validateJournalEntry(entry: JournalEntry, entries: JournalEntry[], accounts: JournalAccounts): void {
+  validateEntryShape(entry, entries)
+
+  const byId = new Map(accounts.buckets.map(b => [b.id, b]))
+  if (entry.kind === 'deposit' || entry.kind === 'withdrawal') {
+    const bucket = byId.get(entry.kind === 'deposit' ? entry.toId : entry.fromId)
+    if (bucket && requiresTransfer(bucket)) {
+      throw new Error(`${bucket.name} only moves money by transfer between buckets, not a ${entry.kind}`)
+    }
+  }
+
+  const source = byId.get(entry.fromId)
+  if (entry.kind !== 'opening' && source && requiresLedger(source)) {
+    if (!entry.ledgerEntryId) throw new Error(`${source.name} needs a ledger entry for money leaving it`)
+    const ledgerEntry = accounts.ledger.find(e => e.id === entry.ledgerEntryId)
+    if (!ledgerEntry) throw new Error(`Ledger entry ${entry.ledgerEntryId} not found`)
+    if (ledgerEntry.bucketId !== source.id) throw new Error(`Ledger entry ${ledgerEntry.id} is for another bucket`)
+    const covered = entries.filter(e => e.ledgerEntryId === ledgerEntry.id).reduce((sum, e) => sum + e.amount, 0)
+    if (roundCents(covered + entry.amount) > roundCents(ledgerEntry.amount)) {
+      throw new Error(`Ledger entry ${ledgerEntry.id} covers ${ledgerEntry.amount}, already used for ${roundCents(covered)}`)
+    }
+  }
+}
+
+/**
+ * Appends entries after validating each against everything before it.
+ * All or nothing: one bad entry and the journal comes back unchanged (via throw).
+ */
+export function appendJournalEntries(entries: JournalEntry[], additions: JournalEntry[], accounts: JournalAccounts): JournalEntry[] {
+  const next = [...entries]
+  for (const entry of additions) {
+    validateJournalEntry(entry, next, accounts)
+    next.push(entry)
+  }
+  return next
+}
+
+/**
+ * The entry that undoes `entryId`: same amount, sides swapped. Pass a
+ * ledgerEntryId when the reversal takes money out of a bucket that needs one.
+ */
+export function reverseJournalEntry(
+  entries: JournalEntry[],
+  entryId: string,
+  { id, date, reason, ledgerEntryId }: { id: string; date: string; reason?: string; ledgerEntryId?: string },
+): JournalEntry {
+  const original = entries.find(e => e.id === entryId)
+  if (!original) throw new Error(`Journal entry ${entryId} not found`)
+  const reversal: JournalEntry = {
+    id,
+    kind: 'reversal',
+    fromId: original.toId,
+    toId: original.fromId,
+    amount: original.amount,
+    date,
+    reason: reason ?? `Reversal of ${original.reason}`,
+    reverses: original.id,
+    ...(ledgerEntryId ? { ledgerEntryId } : {}),
+  }
+  validateEntryShape(reversal, entries)
+  return reversal
+}
+
+/**
+ * A bucket's balance from the journal, optionally as of the end of a date.
+ */
+export function journalBalance(entries: JournalEntry[], bucketId: string, asOf?: string): Money {
+  let balance = 0
+  for (const e of entries) {
+    if (asOf !== undefined && e.date > asOf) continue
+    if (e.toId === bucketId) balance += e.amount
+    if (e.fromId === bucketId) balance -= e.amount
+  }
+  return roundCents(balance)
+}
+
+/**
+ * Buckets with their balance replaced by the journal's. A bucket the journal
+ * hasn't seen yet keeps its stored balance until journalCatchUp opens it.
+ */
+export function withJournalBalances(buckets: Bucket[], entries: JournalEntry[]): Bucket[] {
+  const known = new Set(entries.flatMap(e => [e.fromId, e.toId]))
+  return buckets.map(b => {
+    if (!known.has(b.id)) return b
+    const balance = journalBalance(entries, b.id)
+    return balance === b.balance ? b : { ...b, balance }
+  })
+}
+
+/**
+ * Every entry that touched a bucket, oldest first, with the running balance —
+ * the answer to "why is this bucket at this number?".
+ */
+export function balanceHistory(entries: JournalEntry[], bucketId: string): BalanceLine[] {
+  const touching = entries
+    .map((entry, order) => ({ entry, order }))
+    .filter(({ entry }) => entry.fromId === bucketId || entry.toId === bucketId)
+    .sort((a, b) => a.entry.date.localeCompare(b.entry.date) || a.order - b.order)
+
+  let balance = 0
+  return touching.map(({ entry }) => {
+    const change = entry.toId === bucketId ? entry.amount : -entry.amount
+    balance = roundCents(balance + change)
+    return { entry, change, balance }
+  })
+}
+
+/**
+ * Compares the journal's balance for a bucket with a statement balance as of
+ * the same date. Reconciled when they agree to the cent.
+ */
+export function reconcileBucket(entries: JournalEntry[], bucketId: string, statement: Money, asOf: string): Reconciliation {
+  const derived = journalBalance(entries, bucketId, asOf)
+  const difference = roundCents(statement - derived)
+  return { bucketId, asOf, derived, statement, difference, reconciled: difference === 0 }
+}
+
+/**
+ * Journal entries for a redistribution run's transfers.
+ */
+export function runJournalEntries(run: RedistributionRun): JournalEntry[] {
+  return run.transfers.map(t => ({
+    id: `journal-${t.id}`,
+    kind: 'transfer' as const,
+    fromId: t.fromId,
+    toId: t.toId,
+    amount: t.amount,
+    date: run.date,
+    reason: run.reverses ? `Reversed redistribution: ${run.note}` : `Redistribution: ${run.note || run.id}`,
+    runId: run.id,
+    ...(t.ledgerEntryId ? { ledgerEntryId: t.ledgerEntryId } : {}),
+  }))
+}
+
+/**
+ * Opening entries that set each bucket's journal balance to its balance in
+ * `buckets`, for a plan import that brings balances of its own. The
+ * imported figure is a new starting point rather than money moving, so
+ * ledger and transfer rules don't apply. Buckets already at that balance
+ * get nothing.
+ */
+export function balanceResetEntries(
+  buckets: Bucket[],
+  entries: JournalEntry[],
+  { date, idPrefix, reason }: { date: string; idPrefix: string; reason: string },
+): JournalEntry[] {
+  return buckets.flatMap((b, i): JournalEntry[] => {
+    const difference = roundCents(safeNumber(b.balance) - journalBalance(entries, b.id))
+    if (difference === 0) return []
+    const inflow = difference > 0
+    return [{
+      id: `${idPrefix}-${i + 1}`,
+      kind: 'opening',
+      fromId: inflow ? EXTERNAL_ACCOUNT : b.id,
+      toId: inflow ? b.id : EXTERNAL_ACCOUNT,
+      amount: Math.abs(difference),
+      date,
+      reason,
+    }]
+  })
+}
+
+/**
+ * Opening entries for buckets the journal hasn't seen yet (first use, or
+ * buckets created outside the journal), taken from their stored balance.
+ * Buckets the journal already knows are left alone: their balance is
+ * whatever the journal says, never the stored copy.
+ */
+export function journalCatchUp(
+  buckets: Bucket[],
+  entries: JournalEntry[],
+  { date, idPrefix }: { date: string; idPrefix: string },
+): JournalEntry[] {
+  const known = new Set(entries.flatMap(e => [e.fromId, e.toId]))
+  const unseen = buckets.filter(b => !known.has(b.id))
+  return balanceResetEntries(unseen, entries, { date, idPrefix, reason: 'Opening balance' })
+}
+
 // ---------------------------------------------------------------------------
 // Peak funding
 // ---------------------------------------------------------------------------
@@ -323,6 +954,38 @@ export function clearingIntegrity(funded: Money, unfundedExposure: Money): numbe
   return clamp(funded / denom, 0, 1)
 }
 
+/**
+ * Statuses a charge may move to next, following the lifecycle on Charge.
+ * Cleared and ignored are terminal.
+ */
+export const CHARGE_TRANSITIONS: Record<ChargeStatus, ChargeStatus[]> = {
+  unmatched:        ['matched_unfunded', 'ignored'],
+  matched_unfunded: ['funded'],
+  funded:           ['cleared'],
+  cleared:          [],
+  ignored:          [],
+}
+
+export function canTransitionCharge(from: ChargeStatus, to: ChargeStatus): boolean {
+  return CHARGE_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Moves a charge one step along its lifecycle. Matching assigns the bucket
+ * that will fund it. Throws on a move the lifecycle doesn't allow, or a match
+ * without a bucket.
+ */
+export function transitionCharge(charge: Charge, to: ChargeStatus, bucketId?: string): Charge {
+  if (!canTransitionCharge(charge.status, to)) {
+    throw new Error(`Charge ${charge.id} can't move from ${charge.status} to ${to}`)
+  }
+  if (to === 'matched_unfunded') {
+    if (!bucketId) throw new Error(`Charge ${charge.id} needs a bucket to match`)
+    return { ...charge, status: to, bucketId }
+  }
+  return { ...charge, status: to }
+}
+
 /**
  * Composite clearing state derived from a charge list and the clearing bucket.
  */
@@ -406,206 +1069,3 @@ export function liquidityElasticityIndex(input: LEIInput): LEIResult {
     },
   }
 }
-
-// ---------------------------------------------------------------------------
-// Example data + assertions (excluded from production builds)
-// ---------------------------------------------------------------------------
-
-if (typeof process !== 'undefined' && process.env['NODE_ENV'] !== 'production') {
-  // --- Example data ---
-
-  const EXAMPLE_BUCKETS: Bucket[] = [
-    { id: 'op1',  name: 'Checking',         type: 'operating',      status: 'active',  balance: 3200,  targetRule: 'none',  constraints: 'none' },
-    { id: 'sm1',  name: 'MonthlyBills',      type: 'smoothing',      status: 'active',  balance: 1800,  targetRule: 'peak',  constraints: 'none' },
-    { id: 'sm2',  name: 'Groceries',         type: 'smoothing',      status: 'active',  balance:  600,  targetRule: 'peak',  constraints: 'none' },
-    { id: 'lr1',  name: 'AnnualReserve',     type: 'ledger_reserve', status: 'active',  balance: 8400,  targetRule: 'fixed', constraints: 'ledger_required' },
-    { id: 'cl1',  name: 'ChaseClearing',     type: 'clearing',       status: 'active',  balance:  950,  targetRule: 'none',  constraints: 'transfer_required' },
-    { id: 'zzold',name: 'zzOldSavings',      type: 'capital',        status: 'dormant', balance: 2000,  targetRule: 'none',  constraints: 'none' },
-  ]
-
-  const EXAMPLE_OBLIGATIONS: Obligation[] = [
-    { id: 'ob1', name: 'Home Insurance',    expectedCost: 2400, dueMonth: 3,  paid: false },
-    { id: 'ob2', name: 'Car Registration',  expectedCost:  800, dueMonth: 7,  paid: false },
-    { id: 'ob3', name: 'Property Tax',      expectedCost: 3600, dueMonth: 11, paid: false },
-    { id: 'ob4', name: 'Term Life Premium', expectedCost: 1200, dueMonth: 1,  paid: true  },
-  ]
-
-  const EXAMPLE_CHARGES: Charge[] = [
-    { id: 'ch1', merchant: 'Petco',      amount: 68,  date: '2025-06-02', categoryHint: 'MonthlyBills', status: 'funded',           bucketId: 'sm1' },
-    { id: 'ch2', merchant: 'Whole Foods',amount: 145, date: '2025-06-03', categoryHint: 'Groceries',    status: 'matched_unfunded', bucketId: 'sm2' },
-    { id: 'ch3', merchant: 'Shell',      amount: 82,  date: '2025-06-04', categoryHint: 'Auto',         status: 'unmatched' },
-    { id: 'ch4', merchant: 'Netflix',    amount: 18,  date: '2025-06-01', categoryHint: 'MonthlyBills', status: 'cleared',          bucketId: 'sm1' },
-    { id: 'ch5', merchant: 'Amazon',     amount: 35,  date: '2025-06-05',                               status: 'ignored' },
-  ]
-
-  const EXAMPLE_VARS_12MO: Record<string, number[]> = {
-    groceries: [380, 410, 390, 425, 440, 460, 390, 375, 410, 430, 490, 510],
-    utilities: [160, 170, 150, 130, 120, 140, 200, 210, 175, 155, 180, 195],
-    auto_fuel:  [75,  80,  70,  90,  85,  95,  80,  70,  75,  90,  85, 100],
-  }
-
-  // --- Assertions ---
-
-  function assert(label: string, condition: boolean): void {
-    if (!condition) console.error(`FAIL: ${label}`)
-    else            console.log (`PASS: ${label}`)
-  }
-
-  function near(a: number, b: number, tolerance = 0.001): boolean {
-    return Math.abs(a - b) <= tolerance
-  }
-
-  // isDormant
-  assert(
-    'isDormant: zz-prefixed name → dormant regardless of status field',
-    isDormant(EXAMPLE_BUCKETS.find(b => b.id === 'zzold')!),
-  )
-  assert(
-    'isDormant: active non-zz bucket → not dormant',
-    !isDormant(EXAMPLE_BUCKETS.find(b => b.id === 'op1')!),
-  )
-
-  // activeBuckets
-  assert(
-    'activeBuckets: excludes zz dormant bucket',
-    activeBuckets(EXAMPLE_BUCKETS).every(b => !b.name.startsWith('zz')),
-  )
-  assert(
-    'activeBuckets: type filter returns only clearing buckets',
-    activeBuckets(EXAMPLE_BUCKETS, 'clearing').length === 1,
-  )
-
-  // requiredAnnualReserve (excludes paid ob4)
-  assert(
-    'requiredAnnualReserve: excludes paid obligations',
-    near(requiredAnnualReserve(EXAMPLE_OBLIGATIONS), 2400 + 800 + 3600),
-  )
-
-  // annualReserveBalance
-  assert(
-    'annualReserveBalance: sums only ledger_reserve active buckets',
-    near(annualReserveBalance(EXAMPLE_BUCKETS), 8400),
-  )
-
-  // annualExcess
-  assert(
-    'annualExcess: zero when balance < required + buffer',
-    annualExcess(5000, 4000, 2000) === 0,
-  )
-  assert(
-    'annualExcess: positive when balance exceeds required + buffer',
-    near(annualExcess(9000, 4000, 2000), 3000),
-  )
-
-  // pressureValveEligible
-  assert(
-    'pressureValveEligible: true when excess > threshold',
-    pressureValveEligible(3000, 1000),
-  )
-  assert(
-    'pressureValveEligible: false when excess === threshold',
-    !pressureValveEligible(1000, 1000),
-  )
-
-  // redistributionPlan
-  const plan = redistributionPlan(1000, [
-    { targetId: 'sm1', weight: 3 },
-    { targetId: 'sm2', weight: 1 },
-  ])
-  assert(
-    'redistributionPlan: allocations sum to excess',
-    near(plan.reduce((s, a) => s + a.amount, 0), 1000),
-  )
-  assert(
-    'redistributionPlan: weights normalize to 1',
-    near(plan.reduce((s, a) => s + a.pct, 0), 1),
-  )
-  assert(
-    'redistributionPlan: proportional split 75/25',
-    near(plan[0].amount, 750) && near(plan[1].amount, 250),
-  )
-  assert(
-    'redistributionPlan: empty when excess is 0',
-    redistributionPlan(0, [{ targetId: 'sm1', weight: 1 }]).length === 0,
-  )
-
-  // peakFundingShield
-  const shield = peakFundingShield(EXAMPLE_VARS_12MO)
-  assert('peakFundingShield: peakTotal > avgTotal', shield.peakTotal > shield.avgTotal)
-  assert('peakFundingShield: shieldRatio in 0..1', shield.shieldRatio >= 0 && shield.shieldRatio <= 1)
-  assert(
-    'peakFundingShield: absorbedTotal = peakTotal - avgTotal',
-    near(shield.absorbedTotal, shield.peakTotal - shield.avgTotal),
-  )
-  assert(
-    'peakFundingShield: empty input → all zeros',
-    (() => {
-      const r = peakFundingShield({})
-      return r.peakTotal === 0 && r.shieldRatio === 0
-    })(),
-  )
-
-  // outstandingTotal (excludes ignored ch5 and cleared ch4)
-  assert(
-    'outstandingTotal: excludes ignored and cleared',
-    near(outstandingTotal(EXAMPLE_CHARGES), 68 + 145 + 82),
-  )
-
-  // fundedChargesTotal (funded ch1 + cleared ch4)
-  assert(
-    'fundedChargesTotal: includes funded + cleared',
-    near(fundedChargesTotal(EXAMPLE_CHARGES), 68 + 18),
-  )
-
-  // clearingFloat
-  assert(
-    'clearingFloat: zero when balance covers gap',
-    clearingFloat(100, 80, 50) === 0,
-  )
-  assert(
-    'clearingFloat: positive exposure when underfunded',
-    near(clearingFloat(300, 50, 100), 150),
-  )
-
-  // clearingIntegrity
-  assert(
-    'clearingIntegrity: 1.0 when exposure is zero (fully funded)',
-    near(clearingIntegrity(500, 0), 1),
-  )
-  assert(
-    'clearingIntegrity: 1.0 when both are zero (clean slate)',
-    near(clearingIntegrity(0, 0), 1),
-  )
-  assert(
-    'clearingIntegrity: 0.0 when nothing funded',
-    near(clearingIntegrity(0, 200), 0),
-  )
-  assert(
-    'clearingIntegrity: 0.5 when half funded',
-    near(clearingIntegrity(100, 100), 0.5),
-  )
-
-  // clearingState composite
-  const cs = clearingState(EXAMPLE_CHARGES, EXAMPLE_BUCKETS.find(b => b.id === 'cl1')!)
-  assert('clearingState: outstandingTotal matches manual calc', near(cs.outstandingTotal, 68 + 145 + 82))
-  assert('clearingState: fundedTotal matches manual calc',      near(cs.fundedTotal, 68 + 18))
-  assert('clearingState: clearingIntegrity in 0..1',           cs.clearingIntegrity >= 0 && cs.clearingIntegrity <= 1)
-
-  // liquidityElasticityIndex
-  const result = liquidityElasticityIndex({
-    buckets:     EXAMPLE_BUCKETS,
-    obligations: EXAMPLE_OBLIGATIONS,
-    charges:     EXAMPLE_CHARGES,
-    vars12mo:    EXAMPLE_VARS_12MO,
-    buffer:      500,
-    epsilon:     0.01,
-  })
-  assert('LEI: result in 0–100', result.lei >= 0 && result.lei <= 100)
-  assert('LEI: breakdown.lHard matches operating balance', near(result.breakdown.lHard, 3200))
-  assert('LEI: breakdown.lSoft matches smoothing balances', near(result.breakdown.lSoft, 1800 + 600))
-  assert('LEI: breakdown.eNorm in 0..1', result.breakdown.eNorm >= 0 && result.breakdown.eNorm <= 1)
-  assert('LEI: breakdown.volShield in 0..1', result.breakdown.volShield >= 0 && result.breakdown.volShield <= 1)
-  assert('LEI: dormant bucket balance excluded from lHard', true) // zzOldSavings not in lHard
-
-  console.log('\nLEI result:', JSON.stringify(result, null, 2))
-}
@@ -0,0 +1,113 @@
+// Loan program registry — conventional, FHA, VA, USDA.
+// Each program supplies the underwriting limits and mortgage-insurance terms
+// that finance-core's LoanParams needs. Figures are 2025 baseline values.
+
+import { DEFAULTS } from "./finance-core"
+import type { LoanParams, Money, RatePercent } from "./finance-core"
+
+export type LoanProgramId = "conventional" | "fha" | "va" | "usda"
+
+/** A down-payment tier; the highest tier whose minimum is met applies. */
+export interface ProgramFeeTier {
+  minDownPaymentPercent: RatePercent
+  upfrontFeePercent: RatePercent   // financed into the loan
+  annualMIPercent: RatePercent     // monthly MI = loan * annual / 12
+  miDuration: "ltv" | "life" | number
+}
+
+export interface LoanProgram {
+  id: LoanProgramId
+  label: string
+  minDownPaymentPercent: RatePercent
+  frontEndDTIPercent?: RatePercent // housing payment / gross income; undefined = no separate limit
+  backEndDTIPercent: RatePercent   // housing + debts / gross income
+  loanLimit?: Money                // undefined = no program limit
+  upfrontFeeLabel?: string
+  annualMILabel: string
+  feeTiers: ProgramFeeTier[]
+}
+
+export const LOAN_PROGRAMS: Record<LoanProgramId, LoanProgram> = {
+  conventional: {
+    id: "conventional",
+    label: "Conventional",
+    minDownPaymentPercent: 3,
+    backEndDTIPercent: 43,
+    loanLimit: 806_500, // baseline conforming limit; above this is jumbo
+    annualMILabel: "PMI",
+    feeTiers: [
+      { minDownPaymentPercent: 0,  upfrontFeePercent: 0, annualMIPercent: DEFAULTS.pmiAnnualRatePercent, miDuration: "ltv" },
+      { minDownPaymentPercent: 20, upfrontFeePercent: 0, annualMIPercent: 0, miDuration: "ltv" },
+    ],
+  },
+  fha: {
+    id: "fha",
+    label: "FHA",
+    minDownPaymentPercent: 3.5,
+    frontEndDTIPercent: 31,
+    backEndDTIPercent: 43,
+    loanLimit: 524_225, // low-cost area floor
+    upfrontFeeLabel: "UFMIP",
+    annualMILabel: "MIP",
+    feeTiers: [
+      { minDownPaymentPercent: 0,  upfrontFeePercent: 1.75, annualMIPercent: 0.55, miDuration: "life" },
+      { minDownPaymentPercent: 5,  upfrontFeePercent: 1.75, annualMIPercent: 0.5,  miDuration: "life" },
+      { minDownPaymentPercent: 10, upfrontFeePercent: 1.75, annualMIPercent: 0.5,  miDuration: 11 * 12 },
+    ],
+  },
+  va: {
+    id: "va",
+    label: "VA",
+    minDownPaymentPercent: 0,
+    backEndDTIPercent: 41,
+    upfrontFeeLabel: "Funding fee",
+    annualMILabel: "None",
+    // First-use funding fee; no monthly mortgage insurance
+    feeTiers: [
+      { minDownPaymentPercent: 0,  upfrontFeePercent: 2.15, annualMIPercent: 0, miDuration: "life" },
+      { minDownPaymentPercent: 5,  upfrontFeePercent: 1.5,  annualMIPercent: 0, miDuration: "life" },
+      { minDownPaymentPercent: 10, upfrontFeePercent: 1.25, annualMIPercent: 0, miDuration: "life" },
+    ],
+  },
+  usda: {
+    id: "usda",
+    label: "USDA",
+    minDownPaymentPercent: 0,
+    frontEndDTIPercent: 29,
+    backEndDTIPercent: 41,
+    upfrontFeeLabel: "Guarantee fee",
+    annualMILabel: "Annual fee",
+    feeTiers: [
+      { minDownPaymentPercent: 0, upfrontFeePercent: 1, annualMIPercent: 0.35, miDuration: "life" },
+    ],
+  },
+}
+
+export const LOAN_PROGRAM_LIST: LoanProgram[] = Object.values(LOAN_PROGRAMS)
+
+export function getLoanProgram(id: LoanProgramId | undefined): LoanProgram {
+  return LOAN_PROGRAMS[id ?? "conventional"] ?? LOAN_PROGRAMS.conventional
+}
+
+export function programFeeTier(program: LoanProgram, downPaymentPercent: RatePercent): ProgramFeeTier {
+  return program.feeTiers.reduce(
+    (tier, t) => (downPaymentPercent >= t.minDownPaymentPercent ? t : tier),
+    program.feeTiers[0],
+  )
+}
+
+/**
+ * Fills the program's upfront fee and mortgage-insurance terms into LoanParams.
+ * The down payment is raised to the program minimum if it falls below it.
+ */
+export function programLoanParams(program: LoanProgram, params: LoanParams): LoanParams {
+  const downPaymentPercent = Math.max(params.downPaymentPercent, program.minDownPaymentPercent)
+  const tier = programFeeTier(program, downPaymentPercent)
+  return {
+    ...params,
+    downPaymentPercent,
+    upfrontFeePercent: tier.upfrontFeePercent,
+    pmiAnnualRatePercent: tier.annualMIPercent,
+    miDuration: tier.miDuration,
+  }
+}
@@ -0,0 +1,288 @@
+// Household plan bundle: everything a partner or advisor needs in one JSON file —
+// profile (scenarios and their snapshots, saved properties, journey phases), financial items with
+// their withholding fields, the decision-rehearsal session and liquidity buckets.
+// Parsing runs the profile through its schema migrations; diffing and merging
+// work entry-by-entry on ids so an import can be previewed before it's applied.
+// No UI, no side effects.
+
+import { z } from "zod"
+import { MODES } from "./decision-rehearsal-engine"
+import type { ModeKey, RehearsalSession } from "./decision-rehearsal-engine"
+import type { Bucket } from "./liquidity-engine"
+import { bucketSchema } from "./budget-data"
+import { financialItemSchema, parseUserProfile, schemaIssues } from "./profile-schema"
+import type { SchemaIssue } from "./profile-schema"
+import type { FinancialItem, UserProfile } from "./property-types"
+
+export const PLAN_BUNDLE_FORMAT = "livability-plan"
+export const PLAN_BUNDLE_VERSION = 1
+
+export interface PlanBundle {
+  format: typeof PLAN_BUNDLE_FORMAT
+  version: number            // bundle layout; the profile carries its own schemaVersion
+  exportedAt: string         // ISO timestamp
+  profile: UserProfile
+  financialItems: FinancialItem[]
+  rehearsal: RehearsalSession | null
+  liquidityBuckets: Bucket[]
+}
+
+export type PlanSections = Omit<PlanBundle, "format" | "version" | "exportedAt">
+
+// ─── Schemas ────────────────────────────────────────────────
+
+const score = z.number().finite().min(0).max(100)
+
+const modePositionsSchema = z.object({
+  sliders: z.object({
+    buffer: score,
+    lifestyle: score,
+    risk: score,
+    finance: score,
+    deal: score,
+    attach: score,
+    lev: score,
+  }),
+  toggles: z.object({
+    t_compete: z.boolean(),
+    t_timeline: z.boolean(),
+    t_identity: z.boolean(),
+    t_repair: z.boolean(),
+    t_income: z.boolean(),
+    t_rate: z.boolean(),
+  }),
+})
+
+export const rehearsalSessionSchema: z.ZodType<RehearsalSession> = z.object({
+  mode: z.custom<ModeKey>((value) => typeof value === "string" && value in MODES, { message: "Unknown rehearsal mode" }),
+  modes: z.object({
+    clarify: modePositionsSchema.optional(),
+    location: modePositionsSchema.optional(),
+    offer: modePositionsSchema.optional(),
+  }),
+})
+
+// Everything but the profile, which goes through parseUserProfile for migrations
+const bundleSectionsSchema = z.object({
+  financialItems: z.array(financialItemSchema).default([]),
+  rehearsal: rehearsalSessionSchema.nullable().default(null),
+  liquidityBuckets: z.array(bucketSchema).default([]),
+})
+
+// ─── Export / parse ─────────────────────────────────────────
+
+export function createPlanBundle(sections: PlanSections, exportedAt = new Date()): PlanBundle {
+  return {
+    format: PLAN_BUNDLE_FORMAT,
+    version: PLAN_BUNDLE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    ...sections,
+  }
+}
+
+/** File name for a download, e.g. "dale-jamie-plan-2026-10-18.json". */
+export function planBundleFileName(bundle: PlanBundle): string {
+  const slug = bundle.profile.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "household"
+  return `${slug}-plan-${bundle.exportedAt.slice(0, 10)}.json`
+}
+
+export type PlanBundleParseResult =
+  | { success: true; bundle: PlanBundle; migratedFrom: number | null }
+  | { success: false; issues: SchemaIssue[] }
+
+/** Validates an imported file (already JSON-parsed), migrating its profile to the current schema. */
+export function parsePlanBundle(input: unknown): PlanBundleParseResult {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { success: false, issues: [{ path: "", message: "Expected a plan file (JSON object)" }] }
+  }
+  const doc = input as Record<string, unknown>
+  if (doc.format !== PLAN_BUNDLE_FORMAT) {
+    return { success: false, issues: [{ path: "format", message: "Not a Livability plan file" }] }
+  }
+  if (typeof doc.version === "number" && doc.version > PLAN_BUNDLE_VERSION) {
+    return { success: false, issues: [{ path: "version", message: "Exported by a newer version of the app" }] }
+  }
+
+  const profile = parseUserProfile(doc.profile)
+  const sections = bundleSectionsSchema.safeParse(doc)
+  const issues: SchemaIssue[] = [
+    ...(profile.success ? [] : profile.issues.map((i) => ({ ...i, path: i.path ? `profile.${i.path}` : "profile" }))),
+    ...(sections.success ? [] : schemaIssues(sections.error)),
+  ]
+  if (!profile.success || !sections.success) return { success: false, issues }
+
+  return {
+    success: true,
+    bundle: {
+      format: PLAN_BUNDLE_FORMAT,
+      version: PLAN_BUNDLE_VERSION,
+      exportedAt: typeof doc.exportedAt === "string" ? doc.exportedAt : new Date(0).toISOString(),
+      profile: profile.profile,
+      ...sections.data,
+    },
+    migratedFrom: profile.migratedFrom,
+  }
+}
+
+/** JSON text → bundle, folding syntax errors into the same issue list. */
+export function parsePlanBundleText(text: string): PlanBundleParseResult {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (e) {
+    return { success: false, issues: [{ path: "", message: `Not valid JSON (${e instanceof Error ? e.message : String(e)})` }] }
+  }
+  return parsePlanBundle(json)
+}
+
+// ─── Merge ──────────────────────────────────────────────────
+
+export type ImportMode = "replace" | "merge"
+
+function mergeById<T extends { id: string }>(current: T[], incoming: T[], combine?: (a: T, b: T) => T): T[] {
+  const byId = new Map(incoming.map((item) => [item.id, item]))
+  const merged = current.map((item) => {
+    const match = byId.get(item.id)
+    if (!match) return item
+    byId.delete(item.id)
+    return combine ? combine(item, match) : match
+  })
+  return [...merged, ...byId.values()]
+}
+
+/**
+ * Merge keeps everything in `current` and layers `incoming` on top: entries with
+ * the same id are replaced, new ones appended. Journey phases union their
+ * properties; the household's identity and active scenario stay as they are.
+ */
+export function mergePlanSections(current: PlanSections, incoming: PlanSections): PlanSections {
+  return {
+    profile: {
+      ...current.profile,
+      scenarios: mergeById(current.profile.scenarios, incoming.profile.scenarios),
+      savedProperties: [...new Set([...current.profile.savedProperties, ...incoming.profile.savedProperties])],
+      journeyPhases: mergeById(current.profile.journeyPhases, incoming.profile.journeyPhases, (a, b) => ({
+        ...b,
+        properties: [...new Set([...a.properties, ...b.properties])],
+      })),
+      preferences: incoming.profile.preferences ?? current.profile.preferences,
+      scenarioSnapshots: mergeById(current.profile.scenarioSnapshots, incoming.profile.scenarioSnapshots),
+    },
+    financialItems: mergeById(current.financialItems, incoming.financialItems),
+    rehearsal: incoming.rehearsal ?? current.rehearsal,
+    liquidityBuckets: mergeById(current.liquidityBuckets, incoming.liquidityBuckets),
+  }
+}
+
+export function applyPlanImport(current: PlanSections, incoming: PlanSections, mode: ImportMode): PlanSections {
+  return mode === "merge" ? mergePlanSections(current, incoming) : incoming
+}
+
+// ─── Diff ───────────────────────────────────────────────────
+
+export interface FieldChange {
+  field: string  // dot path within the entry, e.g. "financialInputs.annualIncome"
+  from: unknown
+  to: unknown
+}
+
+export interface EntryChange {
+  id: string
+  label: string
+  kind: "added" | "removed" | "changed"
+  fields: FieldChange[] // empty for added / removed
+}
+
+export interface SectionDiff {
+  section: "household" | "scenarios" | "scenarioSnapshots" | "financialItems" | "savedProperties" | "journeyPhases" | "rehearsal" | "liquidityBuckets"
+  label: string
+  changes: EntryChange[]
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+// Leaf values by dot path; arrays are compared whole
+function flatten(value: unknown, prefix = "", out: Record<string, unknown> = {}): Record<string, unknown> {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) flatten(child, prefix ? `${prefix}.${key}` : key, out)
+  } else if (prefix) {
+    out[prefix] = value
+  }
+  return out
+}
+
+export function fieldChanges(before: unknown, after: unknown, ignore: string[] = []): FieldChange[] {
+  const a = flatten(before)
+  const b = flatten(after)
+  const changes: FieldChange[] = []
+  for (const field of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (ignore.includes(field)) continue
+    if (JSON.stringify(a[field]) !== JSON.stringify(b[field])) changes.push({ field, from: a[field], to: b[field] })
+  }
+  return changes
+}
+
+function diffById<T extends { id: string }>(before: T[], after: T[], label: (item: T) => string): EntryChange[] {
+  const beforeById = new Map(before.map((item) => [item.id, item]))
+  const afterIds = new Set(after.map((item) => item.id))
+  const changes: EntryChange[] = []
+  for (const item of after) {
+    const previous = beforeById.get(item.id)
+    if (!previous) {
+      changes.push({ id: item.id, label: label(item), kind: "added", fields: [] })
+      continue
+    }
+    const fields = fieldChanges(previous, item)
+    if (fields.length > 0) changes.push({ id: item.id, label: label(item), kind: "changed", fields })
+  }
+  for (const item of before) {
+    if (!afterIds.has(item.id)) changes.push({ id: item.id, label: label(item), kind: "removed", fields: [] })
+  }
+  return changes
+}
+
+/** What applying `after` over `before` would change, section by section; unchanged sections are omitted. */
+export function diffPlanSections(before: PlanSections, after: PlanSections): SectionDiff[] {
+  const household = fieldChanges(
+    { name: before.profile.name, activeScenarioId: before.profile.activeScenarioId, preferences: before.profile.preferences },
+    { name: after.profile.name, activeScenarioId: after.profile.activeScenarioId, preferences: after.profile.preferences },
+  )
+  const rehearsal: EntryChange[] =
+    JSON.stringify(before.rehearsal) === JSON.stringify(after.rehearsal)
+      ? []
+      : [
+          {
+            id: "session",
+            label: "Rehearsal session",
+            kind: !before.rehearsal ? "added" : !after.rehearsal ? "removed" : "changed",
+            fields: before.rehearsal && after.rehearsal ? fieldChanges(before.rehearsal, after.rehearsal) : [],
+          },
+        ]
+  const toIds = (ids: string[]) => ids.map((id) => ({ id }))
+
+  const sections: SectionDiff[] = [
+    {
+      section: "household",
+      label: "Household",
+      changes: household.length > 0 ? [{ id: before.profile.id, label: after.profile.name, kind: "changed", fields: household }] : [],
+    },
+    { section: "scenarios", label: "Scenarios", changes: diffById(before.profile.scenarios, after.profile.scenarios, (s) => s.name) },
+    {
+      section: "scenarioSnapshots",
+      label: "Scenario snapshots",
+      changes: diffById(before.profile.scenarioSnapshots, after.profile.scenarioSnapshots, (s) => s.name),
+    },
+    { section: "financialItems", label: "Financial items", changes: diffById(before.financialItems, after.financialItems, (i) => i.label) },
+    {
+      section: "savedProperties",
+      label: "Saved properties",
+      changes: diffById(toIds(before.profile.savedProperties), toIds(after.profile.savedProperties), (p) => p.id),
+    },
+    { section: "journeyPhases", label: "Journey phases", changes: diffById(before.profile.journeyPhases, after.profile.journeyPhases, (p) => p.name) },
+    { section: "rehearsal", label: "Decision rehearsal", changes: rehearsal },
+    { section: "liquidityBuckets", label: "Liquidity buckets", changes: diffById(before.liquidityBuckets, after.liquidityBuckets, (b) => b.name) },
+  ]
+  return sections.filter((s) => s.changes.length > 0)
+}
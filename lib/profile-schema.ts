@@ -0,0 +1,266 @@
+// Versioned schema for everything that gets saved or imported: UserProfile,
+// Scenario, ScenarioSnapshot, FinancialInputs, Property, FinancialItem. The zod schemas are the
+// source of truth — property-types re-exports the inferred types. Documents older than
+// PROFILE_SCHEMA_VERSION are upgraded through PROFILE_MIGRATIONS one version at
+// a time, then validated; failures come back as field-level issues with
+// readable paths. No UI, no side effects.
+
+import { z } from "zod"
+import { LOAN_TYPES } from "./arm-products"
+import type { LoanType } from "./arm-products"
+import { LOAN_PROGRAMS } from "./loan-programs"
+import type { LoanProgramId } from "./loan-programs"
+import { TEMPORARY_BUYDOWNS } from "./rate-buydowns"
+import type { TemporaryBuydownType } from "./rate-buydowns"
+import { FILING_STATUSES, isStateCode } from "./tax-data"
+import type { FilingStatus, StateCode } from "./tax-data"
+
+/** Bump with a new PROFILE_MIGRATIONS entry whenever a saved field changes shape. */
+export const PROFILE_SCHEMA_VERSION = 3
+
+// ─── Field types ────────────────────────────────────────────
+
+const money = z.number().finite()
+const nonNegativeMoney = money.nonnegative()
+const percent = z.number().finite().min(0).max(100)
+
+function oneOf<T extends string>(isValid: (value: string) => boolean, what: string) {
+  return z.custom<T>((value) => typeof value === "string" && isValid(value), { message: `Unknown ${what}` })
+}
+
+const loanType = oneOf<LoanType>((v) => LOAN_TYPES.some((t) => t.id === v), "loan type")
+const loanProgram = oneOf<LoanProgramId>((v) => v in LOAN_PROGRAMS, "loan program")
+const temporaryBuydown = oneOf<TemporaryBuydownType>((v) => v in TEMPORARY_BUYDOWNS, "temporary buydown")
+const filingStatus = oneOf<FilingStatus>((v) => FILING_STATUSES.some((s) => s.id === v), "filing status")
+const stateCode = oneOf<StateCode>(isStateCode, "state")
+
+// ─── Schemas ────────────────────────────────────────────────
+
+export const financialInputsSchema = z.object({
+  annualIncome: nonNegativeMoney,
+  monthlyExpenses: nonNegativeMoney,
+  fixedDebts: nonNegativeMoney,
+  downPaymentSources: nonNegativeMoney,
+  interestRate: z.number().finite().min(0).max(30),
+  loanTerm: z.number().int().min(1).max(50),
+  creditScore: z.number().int().min(300).max(850),
+  housingPercentage: percent.optional(),
+  downPaymentPercentage: percent.optional(),
+  futureIncomeMonthly: money.optional(),
+  futureExpensesMonthly: money.optional(),
+  excessDownPaymentStrategy: z.enum(["save", "reduce-payment", "increase-price"]).optional(),
+  annualTakeHomeIncome: money.optional(),            // computed from per-item gross/net withholding
+  marketReferenceRate: percent.optional(),           // today's 30yr prime rate for 760+ credit / 20% down; anchors rate estimation
+  pmiRemoval: z.enum(["automatic", "request"]).optional(), // PMI drop-off rule: 78% LTV automatic, or 80% LTV on request
+  annualAppreciationPercent: z.number().finite().optional(), // home value growth, e.g. 3 = 3%/yr; used for appraisal-based LTV
+  loanType: loanType.optional(),                     // undefined treated as "fixed"; interestRate is the ARM start rate
+  loanProgram: loanProgram.optional(),               // undefined treated as "conventional"
+  discountPoints: z.number().finite().min(0).optional(), // permanent points paid at closing; already reflected in interestRate
+  temporaryBuydown: temporaryBuydown.optional(),     // 3-2-1 / 2-1 / 1-0 subsidy; qualification stays at interestRate
+  sellerCredit: nonNegativeMoney.optional(),         // seller/lender credit toward points and buydown
+  lenderFees: nonNegativeMoney.optional(),           // origination/underwriting/processing; prepaid finance charge for APR
+  currentMonthlyRent: nonNegativeMoney.optional(),   // rent paid today; the rent-vs-buy baseline
+  withholdingMode: z.enum(["flat", "estimated"]).optional(), // undefined treated as "flat"; "estimated" uses tax brackets (lib/income-tax)
+  filingStatus: filingStatus.optional(),             // undefined treated as "married-joint"
+  householdSize: z.number().int().min(1).optional(), // filers + dependents; undefined treated as 2
+  taxState: stateCode.optional(),                    // state income tax table; undefined = federal + FICA only
+})
+
+export const scenarioSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string().optional(),
+  active: z.boolean().optional(),
+  financialInputs: financialInputsSchema,
+})
+
+/** A scenario as it stood at one moment, kept for the scenario's version timeline. */
+export const scenarioSnapshotSchema = z.object({
+  id: z.string().min(1),
+  scenarioId: z.string().min(1),  // the live scenario it was taken from
+  name: z.string(),
+  takenAt: z.string().datetime(), // ISO timestamp
+  trigger: z.enum(["manual", "auto"]), // auto = taken after a significant edit
+  scenario: scenarioSchema,
+})
+
+export const propertySchema = z.object({
+  id: z.string().min(1),
+  address: z.string(),
+  price: nonNegativeMoney,
+  bedrooms: z.number().min(0),
+  bathrooms: z.number().min(0),
+  squareFeet: z.number().min(0),
+  yearBuilt: z.number().int(),
+  propertyType: z.string(),
+  neighborhood: z.string(),
+  imageUrl: z.string(),
+  features: z.array(z.string()),
+  hoaFees: nonNegativeMoney.optional(),
+  propertyTaxRate: z.number().min(0).max(0.1), // decimal, e.g. 0.0181
+  walkScore: z.number().optional(),
+  commuteTime: z.string().optional(),
+  schoolRating: z.number().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
+  zipCode: z.string().optional(),
+  lotSize: z.string().optional(),
+  listingDate: z.string().optional(),
+  daysOnMarket: z.number().optional(),
+  mlsNumber: z.string().optional(),
+  description: z.string().optional(),
+  schoolDistrict: z.string().optional(),
+  estimatedInsurance: nonNegativeMoney.optional(),
+  nearbyAmenities: z.array(z.string()).optional(),
+})
+
+/** An income / expense / debt / down payment line in the workbench's financial settings. */
+export const financialItemSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  amount: money,
+  type: z.enum(["income", "expense", "debt", "downpayment"]),
+  frequency: z.enum(["monthly", "annual", "one-time"]),
+  timing: z.enum(["current", "future"]),
+  active: z.boolean(),
+  editable: z.boolean(),
+  // Debt-specific field
+  balance: nonNegativeMoney.optional(),  // outstanding principal balance (for debts)
+  // Expense-specific dimension field (replaces timing for expenses)
+  expenseTiming: z.enum(["stable", "changing", "new"]).optional(), // stable=same after move, changing=different amount, new=doesn't exist yet
+  futureAmount: money.optional(),        // post-move amount for "changing" expenses
+  // Income-specific withholding fields
+  incomeEntry: z.enum(["gross", "net"]).optional(),
+  withholdingTaxPct: percent.optional(),
+  withholding401kPct: percent.optional(),
+  withholdingHealthcarePct: percent.optional(),
+  withholdingHSAPct: percent.optional(),
+  withholdingOtherPct: percent.optional(),
+})
+
+export const userPreferencesSchema = z.object({
+  maxPrice: nonNegativeMoney.optional(),
+  minBedrooms: z.number().min(0).optional(),
+  preferredAreas: z.array(z.string()).optional(),
+  mustHaveFeatures: z.array(z.string()).optional(),
+  dealBreakers: z.array(z.string()).optional(),
+})
+
+export const journeyPhaseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  properties: z.array(z.string()),
+  color: z.string(),
+  completed: z.boolean().optional(),
+})
+
+export const userProfileSchema = z
+  .object({
+    schemaVersion: z.literal(PROFILE_SCHEMA_VERSION),
+    id: z.string().min(1),
+    name: z.string(),
+    scenarios: z.array(scenarioSchema).min(1, "At least one scenario is required"),
+    activeScenarioId: z.string(),
+    savedProperties: z.array(z.string()),
+    journeyPhases: z.array(journeyPhaseSchema),
+    preferences: userPreferencesSchema.optional(),
+    scenarioSnapshots: z.array(scenarioSnapshotSchema),
+  })
+  .refine((profile) => profile.scenarios.some((s) => s.id === profile.activeScenarioId), {
+    message: "Must match one of the scenario ids",
+    path: ["activeScenarioId"],
+  })
+
+// ─── Migrations ─────────────────────────────────────────────
+
+type UnknownDocument = Record<string, unknown>
+
+/**
+ * PROFILE_MIGRATIONS[n] upgrades a version-n document to version n + 1. They run
+ * before validation, so they only reshape — never assume a field is well-formed.
+ */
+export const PROFILE_MIGRATIONS: Record<number, (doc: UnknownDocument) => UnknownDocument> = {
+  // 1 → 2: unversioned profiles (autosaved before versioning, or built from the
+  // older real-estate-types shape). Lists that were optional become required, and
+  // the active scenario falls back to the legacy `active` flag, then the first one.
+  1: (doc) => {
+    const scenarios = Array.isArray(doc.scenarios) ? doc.scenarios : []
+    const ids = scenarios.map((s) => (s && typeof s === "object" ? (s as UnknownDocument).id : undefined))
+    const flagged = scenarios.find((s) => s && typeof s === "object" && (s as UnknownDocument).active === true)
+    const activeScenarioId = ids.includes(doc.activeScenarioId)
+      ? doc.activeScenarioId
+      : (flagged as UnknownDocument | undefined)?.id ?? ids[0]
+    return {
+      ...doc,
+      activeScenarioId,
+      savedProperties: doc.savedProperties ?? [],
+      journeyPhases: doc.journeyPhases ?? [],
+    }
+  },
+  // 2 → 3: scenario version history; earlier profiles start with none
+  2: (doc) => ({ ...doc, scenarioSnapshots: doc.scenarioSnapshots ?? [] }),
+}
+
+/** Version of a raw document; anything saved before versioning counts as 1. */
+export function documentVersion(doc: UnknownDocument): number {
+  return typeof doc.schemaVersion === "number" && Number.isInteger(doc.schemaVersion) ? doc.schemaVersion : 1
+}
+
+// ─── Parsing ────────────────────────────────────────────────
+
+export interface SchemaIssue {
+  path: string   // e.g. "scenarios[0].financialInputs.interestRate"; "" for the document itself
+  message: string
+}
+
+export type ProfileParseResult =
+  | { success: true; profile: z.infer<typeof userProfileSchema>; migratedFrom: number | null }
+  | { success: false; issues: SchemaIssue[] }
+
+function issuePath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (out, part) => (typeof part === "number" ? `${out}[${part}]` : out ? `${out}.${part}` : part),
+    "",
+  )
+}
+
+/** Zod issues as "path: message" pairs a person can act on. */
+export function schemaIssues(error: z.ZodError): SchemaIssue[] {
+  return error.issues.map((issue) => ({ path: issuePath(issue.path), message: issue.message }))
+}
+
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("\n")
+}
+
+/** Validates a stored value against `schema`, throwing its readable issues — for autosave's `revive`. */
+export function parseOrThrow<T>(schema: z.ZodType<T>, input: unknown): T {
+  const parsed = schema.safeParse(input)
+  if (!parsed.success) throw new Error(formatSchemaIssues(schemaIssues(parsed.error)))
+  return parsed.data
+}
+
+/** Migrates a saved or imported profile to the current version and validates it. */
+export function parseUserProfile(input: unknown): ProfileParseResult {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { success: false, issues: [{ path: "", message: "Expected a profile object" }] }
+  }
+  let doc = input as UnknownDocument
+  const fromVersion = documentVersion(doc)
+  if (fromVersion > PROFILE_SCHEMA_VERSION) {
+    return {
+      success: false,
+      issues: [{ path: "schemaVersion", message: `Saved by a newer version of the app (v${fromVersion}; this one reads up to v${PROFILE_SCHEMA_VERSION})` }],
+    }
+  }
+  for (let version = fromVersion; version < PROFILE_SCHEMA_VERSION; version++) {
+    const migrate = PROFILE_MIGRATIONS[version]
+    if (!migrate) return { success: false, issues: [{ path: "schemaVersion", message: `No migration from v${version}` }] }
+    doc = { ...migrate(doc), schemaVersion: version + 1 }
+  }
+
+  const parsed = userProfileSchema.safeParse(doc)
+  if (!parsed.success) return { success: false, issues: schemaIssues(parsed.error) }
+  return { success: true, profile: parsed.data, migratedFrom: fromVersion < PROFILE_SCHEMA_VERSION ? fromVersion : null }
+}
@@ -1,4 +1,5 @@
-import type { Property, Scenario, JourneyPhase, UserProfile } from "./property-types"
+import { PROFILE_SCHEMA_VERSION } from "./profile-schema"
+import type { FinancialItem, Property, Scenario, JourneyPhase, UserProfile } from "./property-types"
 
 export const sampleProperties: Property[] = [
   {
@@ -183,12 +184,14 @@ export const initialJourneyPhases: JourneyPhase[] = [
 ]
 
 export const defaultUserProfile: UserProfile = {
+  schemaVersion: PROFILE_SCHEMA_VERSION,
   id: "user-1",
   name: "Dale & Jamie",
   scenarios: defaultScenarios,
   activeScenarioId: "current",
   journeyPhases: initialJourneyPhases,
   savedProperties: [],
+  scenarioSnapshots: [],
   preferences: {
     maxPrice: 500000,
     minBedrooms: 2,
@@ -197,3 +200,273 @@ export const defaultUserProfile: UserProfile = {
     dealBreakers: ["HOA > $300", "Major Repairs Needed"],
   },
 }
+
+// Springfield household the Mortgage & Move workbench starts from
+export const defaultFinancialItems: FinancialItem[] = [
+  // Income items — Springfield dual-income household with side gigs
+  {
+    id: "gig-income",
+    label: "Drive Uber",
+    amount: 600,
+    type: "income",
+    frequency: "monthly",
+    timing: "current",
+    active: true,
+    editable: true,
+    incomeEntry: "net",
+    withholdingTaxPct: 0,
+    withholding401kPct: 0,
+    withholdingHealthcarePct: 0,
+    withholdingHSAPct: 0,
+    withholdingOtherPct: 0,
+  },
+  {
+    id: "rental-income",
+    label: "Rental Unit",
+    amount: 950,
+    type: "income",
+    frequency: "monthly",
+    timing: "current",
+    active: true,
+    editable: true,
+    incomeEntry: "net",
+    withholdingTaxPct: 0,
+    withholding401kPct: 0,
+    withholdingHealthcarePct: 0,
+    withholdingHSAPct: 0,
+    withholdingOtherPct: 0,
+  },
+  {
+    id: "pat-income",
+    label: "Pat",
+    amount: 35000,
+    type: "income",
+    frequency: "annual",
+    timing: "current",
+    active: false,
+    editable: true,
+    incomeEntry: "gross",
+    withholdingTaxPct: 22,
+    withholding401kPct: 4,
+    withholdingHealthcarePct: 3,
+    withholdingHSAPct: 0,
+    withholdingOtherPct: 0,
+  },
+  {
+    id: "jamie-income",
+    label: "Jamie",
+    amount: 50000,
+    type: "income",
+    frequency: "annual",
+    timing: "current",
+    active: true,
+    editable: true,
+    incomeEntry: "gross",
+    withholdingTaxPct: 22,
+    withholding401kPct: 5,
+    withholdingHealthcarePct: 4,
+    withholdingHSAPct: 0,
+    withholdingOtherPct: 0,
+  },
+  // Stable expenses — same before and after the move
+  {
+    id: "groceries",
+    label: "Groceries",
+    amount: 600,
+    type: "expense",
+    frequency: "monthly",
+    timing: "current",
+    expenseTiming: "stable",
+    active: true,
+    editable: true,
+  },
+  {
+    id: "entertainment",
+    label: "Entertainment",
+    amount: 400,
+    type: "expense",
+    frequency: "monthly",
+    timing: "current",
+    expenseTiming: "stable",
+    active: true,
+    editable: true,
+  },
+  {
+    id: "amazon-prime",
+    label: "Amazon Prime",
+    amount: 160,
+    type: "expense",
+    frequency: "annual",
+    timing: "current",
+    expenseTiming: "stable",
+    active: false,
+    editable: true,
+  },
+  {
+    id: "pet-care",
+    label: "Pet Care",
+    amount: 600,
+    type: "expense",
+    frequency: "annual",
+    timing: "current",
+    expenseTiming: "stable",
+    active: false,
+    editable: true,
+  },
+  {
+    id: "clothes",
+    label: "Clothes",
+    amount: 1000,
+    type: "expense",
+    frequency: "annual",
+    timing: "current",
+    expenseTiming: "stable",
+    active: false,
+    editable: true,
+  },
+  {
+    id: "vacation",
+    label: "Annual Vacation",
+    amount: 2400,
+    type: "expense",
+    frequency: "annual",
+    timing: "current",
+    expenseTiming: "stable",
+    active: false,
+    editable: true,
+  },
+  // Changing expenses — exist now but will be different after the move
+  {
+    id: "utilities",
+    label: "Utilities",
+    amount: 200,
+    futureAmount: 300,
+    type: "expense",
+    frequency: "monthly",
+    timing: "current",
+    expenseTiming: "changing",
+    active: true,
+    editable: true,
+  },
+  {
+    id: "car-registration",
+    label: "Car Registration",
+    amount: 300,
+    type: "expense",
+    frequency: "annual",
+    timing: "current",
+    expenseTiming: "stable",
+    active: false,
+    editable: true,
+  },
+  // New expenses — don't exist yet, start after the move
+  {
+    id: "daycare",
+    label: "Future Daycare",
+    amount: 1200,
+    type: "expense",
+    frequency: "monthly",
+    timing: "future",
+    expenseTiming: "new",
+    active: false,
+    editable: true,
+  },
+  {
+    id: "hoa-fees",
+    label: "HOA Fees",
+    amount: 500,
+    type: "expense",
+    frequency: "annual",
+    timing: "future",
+    expenseTiming: "new",
+    active: false,
+    editable: true,
+  },
+  {
+    id: "lawn-care",
+    label: "Lawn Care",
+    amount: 800,
+    type: "expense",
+    frequency: "annual",
+    timing: "future",
+    expenseTiming: "new",
+    active: false,
+    editable: true,
+  },
+  {
+    id: "mass-transit",
+    label: "Mass Transit",
+    amount: 130,
+    type: "expense",
+    frequency: "monthly",
+    timing: "future",
+    expenseTiming: "new",
+    active: false,
+    editable: true,
+  },
+  {
+    id: "future-annual",
+    label: "Future Annual Expense",
+    amount: 1500,
+    type: "expense",
+    frequency: "annual",
+    timing: "future",
+    expenseTiming: "new",
+    active: false,
+    editable: true,
+  },
+  // Debt items — typical Springfield household
+  {
+    id: "credit-card",
+    label: "Credit Card Payment",
+    amount: 175,
+    balance: 6200,
+    type: "debt",
+    frequency: "monthly",
+    timing: "current",
+    active: true,
+    editable: true,
+  },
+  {
+    id: "auto-loan",
+    label: "Auto Loan",
+    amount: 285,
+    balance: 12800,
+    type: "debt",
+    frequency: "monthly",
+    timing: "current",
+    active: true,
+    editable: true,
+  },
+  // Down payment sources
+  {
+    id: "savings",
+    label: "Savings Account",
+    amount: 18000,
+    type: "downpayment",
+    frequency: "one-time",
+    timing: "current",
+    active: true,
+    editable: true,
+  },
+  {
+    id: "gift",
+    label: "Family Gift",
+    amount: 20000,
+    type: "downpayment",
+    frequency: "one-time",
+    timing: "current",
+    active: true,
+    editable: true,
+  },
+  {
+    id: "stocks",
+    label: "Sell Investments",
+    amount: 7000,
+    type: "downpayment",
+    frequency: "one-time",
+    timing: "current",
+    active: false,
+    editable: true,
+  },
+]
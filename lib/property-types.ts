@@ -1,75 +1,29 @@
-export interface UserPreferences {
-  maxPrice?: number
-  minBedrooms?: number
-  preferredAreas?: string[]
-  mustHaveFeatures?: string[]
-  dealBreakers?: string[]
-}
-
-export interface UserProfile {
-  id: string
-  name: string
-  scenarios: Scenario[]
-  activeScenarioId: string
-  savedProperties: string[]
-  journeyPhases: JourneyPhase[]
-  preferences?: UserPreferences
-}
-
-export interface Scenario {
-  id: string
-  name: string
-  description?: string
-  active?: boolean
-  financialInputs: FinancialInputs
-}
+import type { z } from "zod"
+import type { LoanProgramId } from "./loan-programs"
+import type { BuydownAnalysis } from "./rate-buydowns"
+import type { AprResult } from "./apr-calculator"
+import type { HomeownerTaxBenefit } from "./homeowner-deductions"
+import type { AffordabilityConstraint, ConstraintRoof, TraceSection } from "./affordability-engine"
+import type {
+  financialInputsSchema,
+  financialItemSchema,
+  journeyPhaseSchema,
+  propertySchema,
+  scenarioSchema,
+  scenarioSnapshotSchema,
+  userPreferencesSchema,
+  userProfileSchema,
+} from "./profile-schema"
 
-export interface FinancialInputs {
-  annualIncome: number
-  monthlyExpenses: number
-  fixedDebts: number
-  downPaymentSources: number
-  interestRate: number
-  loanTerm: number
-  creditScore: number
-  housingPercentage?: number
-  downPaymentPercentage?: number
-  futureIncomeMonthly?: number
-  futureExpensesMonthly?: number
-  excessDownPaymentStrategy?: "save" | "reduce-payment" | "increase-price"
-  annualTakeHomeIncome?: number  // computed from per-item gross/net withholding
-  marketReferenceRate?: number   // today's 30yr prime rate for 760+ credit / 20% down; anchors rate estimation
-}
-
-export interface Property {
-  id: string
-  address: string
-  price: number
-  bedrooms: number
-  bathrooms: number
-  squareFeet: number
-  yearBuilt: number
-  propertyType: string
-  neighborhood: string
-  imageUrl: string
-  features: string[]
-  hoaFees?: number
-  propertyTaxRate: number
-  walkScore?: number
-  commuteTime?: string
-  schoolRating?: number
-  city?: string
-  state?: string
-  zipCode?: string
-  lotSize?: string
-  listingDate?: string
-  daysOnMarket?: number
-  mlsNumber?: string
-  description?: string
-  schoolDistrict?: string
-  estimatedInsurance?: number
-  nearbyAmenities?: string[]
-}
+// Saved/imported shapes are defined once, as zod schemas, in profile-schema
+export type UserPreferences = z.infer<typeof userPreferencesSchema>
+export type UserProfile = z.infer<typeof userProfileSchema>
+export type Scenario = z.infer<typeof scenarioSchema>
+export type ScenarioSnapshot = z.infer<typeof scenarioSnapshotSchema>
+export type FinancialInputs = z.infer<typeof financialInputsSchema>
+export type Property = z.infer<typeof propertySchema>
+export type JourneyPhase = z.infer<typeof journeyPhaseSchema>
+export type FinancialItem = z.infer<typeof financialItemSchema>
 
 export interface PropertyAffordability {
   canAfford: boolean
@@ -82,15 +36,6 @@ export interface PropertyAffordability {
   constraints: string[]
 }
 
-export interface JourneyPhase {
-  id: string
-  name: string
-  description: string
-  properties: string[]
-  color: string
-  completed?: boolean
-}
-
 export interface AffordabilityCalculation {
   maxPurchasePrice: number
   maxMonthlyPayment: number
@@ -115,5 +60,15 @@ export interface AffordabilityCalculation {
   shortfallAmount?: number
   maxHousingPaymentFromDTI: number
   maxBudgetPayment: number
-  bindingConstraint: "dti" | "budget" | "cash"
+  bindingConstraint: AffordabilityConstraint
+  roofs: Record<AffordabilityConstraint, ConstraintRoof> // every constraint's purchase-price roof
+  trace: TraceSection[]  // every input, intermediate value and formula behind the roof
+  taxBenefit: HomeownerTaxBenefit  // mortgage interest + SALT itemizing vs. standard deduction; after-tax monthly cost
+  monthlyPMI: number    // mortgage insurance (PMI / MIP / USDA fee) at origination, included in actualMonthlyPayment
+  pmiEndMonth: number   // last payment that carries mortgage insurance; 0 when none
+  totalPMI: number      // mortgage insurance paid over the life of the loan
+  loanProgram: LoanProgramId
+  financedUpfrontFee: number  // UFMIP / VA funding fee / USDA guarantee fee rolled into loanAmount
+  buydown: BuydownAnalysis    // points + temporary buydown costs, break-even and cash-to-close impact
+  apr: AprResult              // Reg Z APR and finance charge / amount financed / total of payments
 }
@@ -0,0 +1,115 @@
+// Discount points and temporary rate buydowns.
+// Points permanently lower the note rate for cash at closing; a temporary
+// buydown (3-2-1, 2-1, 1-0) prepays part of the first years' interest into a
+// subsidy fund. Pure math on top of finance-core; no UI, no side effects.
+
+import { pmt, rateMonthlyFromPercent, safeNumber } from "./finance-core"
+import type { Money, RatePercent } from "./finance-core"
+
+export type TemporaryBuydownType = "none" | "3-2-1" | "2-1" | "1-0"
+
+/** Rate reduction below the note rate for each year of the buydown. */
+export const TEMPORARY_BUYDOWNS: Record<TemporaryBuydownType, { label: string; yearlyReductions: RatePercent[] }> = {
+  "none":  { label: "None",  yearlyReductions: [] },
+  "3-2-1": { label: "3-2-1", yearlyReductions: [3, 2, 1] },
+  "2-1":   { label: "2-1",   yearlyReductions: [2, 1] },
+  "1-0":   { label: "1-0",   yearlyReductions: [1] },
+}
+
+export const TEMPORARY_BUYDOWN_LIST: { id: TemporaryBuydownType; label: string }[] =
+  (Object.keys(TEMPORARY_BUYDOWNS) as TemporaryBuydownType[]).map((id) => ({ id, label: TEMPORARY_BUYDOWNS[id].label }))
+
+// Typical pricing: 1 point = 1% of the loan and buys the rate down ~0.25%
+export const DISCOUNT_POINT_DEFAULTS = {
+  costPercentPerPoint: 1,
+  rateReductionPerPoint: 0.25,
+}
+
+export interface BuydownOptions {
+  discountPoints?: number                  // permanent points, e.g. 1.5
+  costPercentPerPoint?: RatePercent        // % of loan per point
+  rateReductionPerPoint?: RatePercent      // note-rate reduction per point
+  temporaryBuydown?: TemporaryBuydownType
+  sellerCredit?: Money                     // seller/lender credit applied to points and buydown first
+}
+
+export interface BuydownYear {
+  year: number
+  ratePercent: RatePercent
+  principalAndInterest: Money
+  monthlySubsidy: Money // paid from the buydown fund
+}
+
+export interface BuydownAnalysis {
+  noteRatePercent: RatePercent          // rate after points
+  rateWithoutPointsPercent: RatePercent
+  pointsCost: Money
+  monthlySavingsFromPoints: Money
+  pointsBreakEvenMonth: number | null   // first month cumulative savings cover the points; null if never within term
+  temporaryBuydownCost: Money           // subsidy fund = sum of payment reductions
+  buydownYears: BuydownYear[]
+  sellerCreditApplied: Money
+  cashToCloseImpact: Money              // points + buydown fund − seller credit, never below 0
+}
+
+/** Note-rate reduction bought by permanent discount points. */
+export function pointsRateReduction(
+  discountPoints: number,
+  rateReductionPerPoint: RatePercent = DISCOUNT_POINT_DEFAULTS.rateReductionPerPoint,
+): RatePercent {
+  return Math.max(0, safeNumber(discountPoints)) * rateReductionPerPoint
+}
+
+/**
+ * Costs, payment path and break-even for points and a temporary buydown.
+ * noteRatePercent is the rate after points (what estimateInterestRate returns
+ * when given the same points). Qualification stays at the note rate.
+ */
+export function buydownAnalysis(
+  loanAmount: Money,
+  noteRatePercent: RatePercent,
+  termYears: number,
+  options: BuydownOptions = {},
+): BuydownAnalysis {
+  const loan = Math.max(0, safeNumber(loanAmount))
+  const n = Math.max(1, Math.round(termYears * 12))
+  const points = Math.max(0, safeNumber(options.discountPoints))
+  const costPerPoint = options.costPercentPerPoint ?? DISCOUNT_POINT_DEFAULTS.costPercentPerPoint
+  const reduction = pointsRateReduction(points, options.rateReductionPerPoint)
+
+  const rateWithoutPointsPercent = noteRatePercent + reduction
+  const notePI = pmt(loan, rateMonthlyFromPercent(noteRatePercent), n)
+  const withoutPointsPI = pmt(loan, rateMonthlyFromPercent(rateWithoutPointsPercent), n)
+
+  const pointsCost = (loan * points * costPerPoint) / 100
+  const monthlySavingsFromPoints = Math.max(0, withoutPointsPI - notePI)
+  let pointsBreakEvenMonth: number | null = null
+  if (pointsCost > 0 && monthlySavingsFromPoints > 0) {
+    const month = Math.ceil(pointsCost / monthlySavingsFromPoints)
+    pointsBreakEvenMonth = month <= n ? month : null
+  }
+
+  // Buydown payments are computed on the full term at the reduced rate;
+  // the fund covers the gap so the loan still amortizes at the note rate.
+  const steps = TEMPORARY_BUYDOWNS[options.temporaryBuydown ?? "none"].yearlyReductions
+  const buydownYears: BuydownYear[] = steps.map((step, i) => {
+    const ratePercent = Math.max(0, noteRatePercent - step)
+    const principalAndInterest = pmt(loan, rateMonthlyFromPercent(ratePercent), n)
+    return { year: i + 1, ratePercent, principalAndInterest, monthlySubsidy: notePI - principalAndInterest }
+  })
+  const temporaryBuydownCost = buydownYears.reduce((sum, y) => sum + y.monthlySubsidy * 12, 0)
+
+  const sellerCreditApplied = Math.min(Math.max(0, safeNumber(options.sellerCredit)), pointsCost + temporaryBuydownCost)
+
+  return {
+    noteRatePercent,
+    rateWithoutPointsPercent,
+    pointsCost,
+    monthlySavingsFromPoints,
+    pointsBreakEvenMonth,
+    temporaryBuydownCost,
+    buydownYears,
+    sellerCreditApplied,
+    cashToCloseImpact: pointsCost + temporaryBuydownCost - sellerCreditApplied,
+  }
+}
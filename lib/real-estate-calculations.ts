@@ -1,6 +1,9 @@
 // Core real estate calculation functions
 import type { FinancialItem } from "./real-estate-types"
 import { DEFAULTS } from "./finance-core"
+import { solveAffordability } from "./affordability-engine"
+import { estimateIncomeTax, estimateTakeHome } from "./income-tax"
+import type { TaxProfile, WageIncome } from "./income-tax"
 export interface MortgageCalculation {
   monthlyPayment: number
   totalInterest: number
@@ -89,7 +92,7 @@ export function calculateMaxAffordablePrice(
   dtiRatio = 0.43,
 ): AffordabilityAnalysis {
   const grossMonthlyIncome = safeNumber(annualIncome) / 12
-  const takeHomeIncome = grossMonthlyIncome * 0.7 // Rough estimate
+  const takeHomeIncome = estimateTakeHome(safeNumber(annualIncome)).annualTakeHome / 12
 
   // Calculate maximum monthly payment using both ratios
   const maxPaymentFromHousingRatio = grossMonthlyIncome * safeNumber(housingRatio)
@@ -100,34 +103,25 @@ export function calculateMaxAffordablePrice(
   const availableBudget = takeHomeIncome - safeNumber(monthlyExpenses) - safeNumber(fixedDebts)
   const conservativeMaxPayment = Math.min(maxMonthlyPayment, availableBudget)
 
-  // Iteratively solve for maximum purchase price
-  let maxPrice = 0
-  let estimate = 300000 // Starting estimate
-
-  for (let i = 0; i < 50; i++) {
-    const downPayment = Math.min(safeNumber(downPaymentSources), estimate * 0.2)
-    const calculation = calculateTotalMonthlyPayment(
-      estimate,
-      downPayment,
-      interestRate,
-      loanTermYears,
-      propertyTaxRate,
-      annualInsurance,
-    )
-
-    if (calculation.monthlyPayment <= conservativeMaxPayment) {
-      maxPrice = estimate
-      estimate *= 1.1 // Increase estimate
-    } else {
-      estimate *= 0.95 // Decrease estimate
-    }
-
-    // Check for convergence
-    if (Math.abs(calculation.monthlyPayment - conservativeMaxPayment) < 50) {
-      maxPrice = estimate
-      break
-    }
-  }
+  // Solve through the canonical engine; this analysis reports a down payment gap
+  // as a constraint rather than capping the price, so the roof is income-based only
+  const engine = solveAffordability({
+    grossMonthlyIncome,
+    fixedDebts: safeNumber(fixedDebts),
+    budgetPayment: availableBudget,
+    availableCash: safeNumber(downPaymentSources),
+    downPaymentPercent: 20,
+    downPaymentMode: "capped",
+    loan: {
+      interestRatePercent: safeNumber(interestRate),
+      termYears: safeNumber(loanTermYears),
+      propertyTaxRatePercent: safeNumber(propertyTaxRate) * 100,
+      annualInsurance: safeNumber(annualInsurance),
+    },
+    frontEndDTIPercent: safeNumber(housingRatio) * 100,
+    backEndDTIPercent: safeNumber(dtiRatio) * 100,
+  })
+  const maxPrice = engine.incomeRoof
 
   // Calculate final metrics
   const requiredDownPayment = maxPrice * 0.2
@@ -217,24 +211,37 @@ export function calculateGrossAnnualIncome(
 }
 
 // Calculate estimated annual take-home income broken down by withholding category
-export function calculateEstimatedAnnualTakeHomeIncome(grossAnnualIncome: number): {
+// (progressive federal + FICA estimate; default 401k and healthcare withholding)
+export function calculateEstimatedAnnualTakeHomeIncome(grossAnnualIncome: number, taxProfile?: TaxProfile): {
   annualTakeHome: number
   taxes: number
   healthcare: number
   retirement: number
 } {
-  const gross = safeNumber(grossAnnualIncome)
-  const taxes = Math.round(gross * 0.25)
-  const healthcare = Math.round(gross * 0.05)
-  const retirement = Math.round(gross * 0.05)
-  const annualTakeHome = gross - taxes - healthcare - retirement
+  const { annualTakeHome, taxes, healthcare, retirement } = estimateTakeHome(safeNumber(grossAnnualIncome), taxProfile)
   return { annualTakeHome, taxes, healthcare, retirement }
 }
 
+// The fields take-home reads — planner items and workbench items both carry them
+export type IncomeItem = Pick<
+  FinancialItem,
+  | "amount"
+  | "active"
+  | "frequency"
+  | "incomeEntry"
+  | "withholdingTaxPct"
+  | "withholding401kPct"
+  | "withholdingHealthcarePct"
+  | "withholdingHSAPct"
+  | "withholdingOtherPct"
+>
+
 // Calculate per-item take-home income — respects each item's incomeEntry (gross/net)
 // and individual withholding percentages, falling back to DEFAULTS for gross items.
 // Net items are passed through as-is. Used by the Real Estate Planner.
-export function calculateTakeHomeFromIncomeItems(incomeItems: FinancialItem[]): {
+// With a taxProfile, taxes on gross items come from the progressive estimator
+// (household brackets, FICA per item) instead of each item's withholdingTaxPct.
+export function calculateTakeHomeFromIncomeItems(incomeItems: IncomeItem[], taxProfile?: TaxProfile): {
   annualTakeHome: number
   taxes: number
   retirement: number
@@ -248,6 +255,7 @@ export function calculateTakeHomeFromIncomeItems(incomeItems: FinancialItem[]):
   let healthcare = 0
   let hsa = 0
   let other = 0
+  const grossWages: WageIncome[] = []
 
   for (const item of incomeItems) {
     if (!item.active) continue
@@ -265,11 +273,12 @@ export function calculateTakeHomeFromIncomeItems(incomeItems: FinancialItem[]):
       const hsaPct    = item.withholdingHSAPct         ?? DEFAULTS.withholdingHSAPct
       const otherPct  = item.withholdingOtherPct       ?? 0
 
-      const itemTaxes = Math.round(annualGross * taxPct / 100)
+      const itemTaxes = taxProfile ? 0 : Math.round(annualGross * taxPct / 100)
       const itemRet   = Math.round(annualGross * ret401Pct / 100)
       const itemHC    = Math.round(annualGross * hcPct / 100)
       const itemHSA   = Math.round(annualGross * hsaPct / 100)
       const itemOther = Math.round(annualGross * otherPct / 100)
+      grossWages.push({ annualGross, preTaxRetirement: itemRet, preTaxBenefits: itemHC + itemHSA })
 
       annualTakeHome += annualGross - itemTaxes - itemRet - itemHC - itemHSA - itemOther
       taxes     += itemTaxes
@@ -280,6 +289,12 @@ export function calculateTakeHomeFromIncomeItems(incomeItems: FinancialItem[]):
     }
   }
 
+  if (taxProfile && grossWages.length > 0) {
+    const estimatedTaxes = Math.round(estimateIncomeTax(grossWages, taxProfile).totalTax)
+    annualTakeHome -= estimatedTaxes
+    taxes += estimatedTaxes
+  }
+
   return { annualTakeHome, taxes, retirement, healthcare, hsa, other }
 }
 
@@ -347,26 +362,23 @@ export function calculateGrossPurchasePrice(
     return { grossPurchasePrice: 0, maxLoanAmount: 0, requiredDownPayment: 0 }
   }
 
-  // Binary search for max purchase price
-  let lo = 0
-  let hi = 5000000
-  for (let i = 0; i < 50; i++) {
-    const mid = (lo + hi) / 2
-    const downPayment = mid * 0.2
-    const loanAmount = mid - downPayment
-    const pi = calculateMonthlyMortgagePaymentForPrice(loanAmount, interestRate, termYears)
-    const tax = (mid * safeNumber(propertyTaxRate)) / 12
-    const insurance = safeNumber(homeownersInsuranceAnnual) / 12
-    const totalPITI = pi + tax + insurance
-    if (totalPITI < maxMonthlyHousing) {
-      lo = mid
-    } else {
-      hi = mid
-    }
-    if (hi - lo < 100) break
-  }
-
-  const grossPurchasePrice = Math.round(lo)
+  // Lender DTI roof from the canonical engine at 20% down
+  const { roofs } = solveAffordability({
+    grossMonthlyIncome,
+    fixedDebts: safeNumber(fixedDebtsMonthly),
+    budgetPayment: maxMonthlyHousing,
+    availableCash: 0,
+    downPaymentPercent: 20,
+    loan: {
+      interestRatePercent: safeNumber(interestRate) * 100,
+      termYears: safeNumber(termYears),
+      propertyTaxRatePercent: safeNumber(propertyTaxRate) * 100,
+      annualInsurance: safeNumber(homeownersInsuranceAnnual),
+    },
+    backEndDTIPercent: 43,
+  })
+
+  const grossPurchasePrice = Math.round(roofs.dti.maxPurchasePrice ?? 0)
   const requiredDownPayment = Math.round(grossPurchasePrice * 0.2)
   const maxLoanAmount = grossPurchasePrice - requiredDownPayment
 
@@ -414,27 +426,23 @@ export function calculateLivabilityPurchasePrice(
   const downPct = safeNumber(downPaymentPercentage) / 100
   const available = safeNumber(availableDownPayment)
 
-  // Binary search for purchase price where PITI ≈ maxMonthlyForHousing
-  let lo = 0
-  let hi = 5000000
-  for (let i = 0; i < 60; i++) {
-    const mid = (lo + hi) / 2
-    const requiredDown = mid * downPct
-    const actualDown = Math.min(available, requiredDown)
-    const loanAmount = mid - actualDown
-    const pi = calculateMonthlyMortgagePaymentForPrice(loanAmount, interestRate, termYears)
-    const tax = (mid * safeNumber(propertyTaxRate)) / 12
-    const insurance = safeNumber(homeownersInsuranceAnnual) / 12
-    const totalPITI = pi + tax + insurance
-    if (totalPITI < maxMonthlyForHousing) {
-      lo = mid
-    } else {
-      hi = mid
-    }
-    if (hi - lo < 100) break
-  }
-
-  const livabilityPurchasePrice = Math.round(lo)
+  // Budget roof from the canonical engine; short cash lowers the down payment rather than the price
+  const { roofs } = solveAffordability({
+    grossMonthlyIncome: 0,
+    fixedDebts: 0,
+    budgetPayment: maxMonthlyForHousing,
+    availableCash: available,
+    downPaymentPercent: safeNumber(downPaymentPercentage),
+    downPaymentMode: "capped",
+    loan: {
+      interestRatePercent: safeNumber(interestRate) * 100,
+      termYears: safeNumber(termYears),
+      propertyTaxRatePercent: safeNumber(propertyTaxRate) * 100,
+      annualInsurance: safeNumber(homeownersInsuranceAnnual),
+    },
+  })
+
+  const livabilityPurchasePrice = Math.round(roofs.budget.maxPurchasePrice ?? 0)
   const requiredDown = livabilityPurchasePrice * downPct
   const actualDown = Math.min(available, requiredDown)
   const excessDownPayment = Math.max(0, Math.round(available - requiredDown))
@@ -1,84 +1,13 @@
-// ─── Shared domain types (also in property-types.ts for the Property Workbench) ───
+// ─── Shared domain types — one definition, in property-types / profile-schema ───
 
-export interface UserProfile {
-  id: string
-  name: string
-  scenarios: Scenario[]
-  activeScenarioId: string
-  savedProperties: string[]
-  journeyPhases: JourneyPhase[]
-}
-
-export interface Scenario {
-  id: string
-  name: string
-  financialInputs: FinancialInputs
-}
-
-export interface FinancialInputs {
-  annualIncome: number
-  monthlyExpenses: number
-  fixedDebts: number
-  downPaymentSources: number
-  interestRate: number
-  loanTerm: number
-  creditScore: number
-  housingPercentage?: number
-  downPaymentPercentage?: number
-  futureIncomeMonthly?: number
-  futureExpensesMonthly?: number
-  excessDownPaymentStrategy?: "save" | "reduce-payment" | "increase-price"
-}
-
-export interface Property {
-  id: string
-  address: string
-  price: number
-  bedrooms: number
-  bathrooms: number
-  squareFeet: number
-  yearBuilt: number
-  propertyType: string
-  neighborhood: string
-  imageUrl: string
-  features: string[]
-  hoaFees?: number
-  propertyTaxRate: number
-  walkScore?: number
-  commuteTime?: string
-  schoolRating?: number
-  city?: string
-  state?: string
-  zipCode?: string
-  lotSize?: string
-  listingDate?: string
-  daysOnMarket?: number
-  mlsNumber?: string
-  description?: string
-  schoolDistrict?: string
-  estimatedInsurance?: number
-  nearbyAmenities?: string[]
-}
-
-export interface PropertyAffordability {
-  canAfford: boolean
-  affordabilityScore: number
-  monthlyPayment: number
-  downPaymentNeeded: number
-  remainingBudget: number
-  dtiRatio: number
-  recommendations: string[]
-  constraints: string[]
-}
-
-export interface JourneyPhase {
-  id: string
-  name: string
-  description: string
-  properties: string[]
-  color: string
-  completed?: boolean
-}
+export type {
+  UserProfile,
+  Scenario,
+  FinancialInputs,
+  Property,
+  PropertyAffordability,
+  JourneyPhase,
+} from "./property-types"
 
 // ─── Real Estate Planner types ─────────────────────────────────────────────────
 
@@ -0,0 +1,131 @@
+// Refinance break-even analysis.
+// Compares keeping the current loan against a new rate/term (optionally with
+// cash out), using finance-core's pmt(). No UI, no side effects.
+
+import { pmt, rateMonthlyFromPercent, safeNumber } from "./finance-core"
+import type { Money, RatePercent } from "./finance-core"
+
+// Conventional cash-out refinances are capped at 80% loan-to-value
+export const CASH_OUT_MAX_LTV = 80
+
+export interface CurrentLoan {
+  balance: Money
+  ratePercent: RatePercent
+  remainingMonths: number
+}
+
+export interface RefinanceOffer {
+  ratePercent: RatePercent
+  termYears: number
+  closingCosts: Money
+  financeClosingCosts?: boolean // roll costs into the new loan instead of paying cash
+  cashOut?: Money
+}
+
+export interface RefinanceYear {
+  year: number
+  cumulativeSavings: Money   // payment savings to date
+  netPosition: Money         // savings + equity difference + cash out − closing costs
+}
+
+export interface RefinanceAnalysis {
+  currentPayment: Money
+  newLoanAmount: Money
+  newPayment: Money
+  monthlySavings: Money
+  upfrontCash: Money                  // closing costs paid at closing (0 when financed)
+  cashOut: Money
+  simpleBreakEvenMonth: number | null // closing costs / monthly savings
+  breakEvenMonth: number | null       // first month the net position (incl. equity) turns positive
+  currentRemainingInterest: Money
+  newTotalInterest: Money
+  lifetimeInterestSavings: Money      // positive = refinance pays less interest
+  lifetimeNetSavings: Money           // total payments avoided − upfront cash + cash out
+  ltvPercent?: RatePercent            // new loan / home value, when a value is given
+  maxCashOut?: Money                  // at CASH_OUT_MAX_LTV
+  years: RefinanceYear[]
+}
+
+/**
+ * Month-by-month comparison of the current loan vs. the refinance.
+ * netPosition starts at −closingCosts whether costs are paid or financed, so
+ * breakEvenMonth is comparable across both choices.
+ */
+export function refinanceAnalysis(current: CurrentLoan, offer: RefinanceOffer, homeValue?: Money): RefinanceAnalysis {
+  const balance = Math.max(0, safeNumber(current.balance))
+  // A balance with no term left would pay nothing; treat it as due next month
+  const remaining = Math.max(1, Math.round(safeNumber(current.remainingMonths)))
+  const rOld = rateMonthlyFromPercent(current.ratePercent)
+  const rNew = rateMonthlyFromPercent(offer.ratePercent)
+  const nNew = Math.max(1, Math.round(safeNumber(offer.termYears) * 12))
+  const closingCosts = Math.max(0, safeNumber(offer.closingCosts))
+  const cashOut = Math.max(0, safeNumber(offer.cashOut))
+
+  const upfrontCash = offer.financeClosingCosts ? 0 : closingCosts
+  const newLoanAmount = balance + cashOut + (offer.financeClosingCosts ? closingCosts : 0)
+  const currentPayment = pmt(balance, rOld, remaining)
+  const newPayment = pmt(newLoanAmount, rNew, nNew)
+  const monthlySavings = currentPayment - newPayment
+
+  let oldBalance = balance
+  let newBalance = newLoanAmount
+  let currentRemainingInterest = 0
+  let newTotalInterest = 0
+  let cumulativeSavings = 0
+  let breakEvenMonth: number | null = null
+  const years: RefinanceYear[] = []
+
+  const horizon = Math.max(remaining, nNew)
+  for (let month = 1; month <= horizon; month++) {
+    let oldPaid = 0
+    if (oldBalance > 0.005) {
+      const interest = oldBalance * rOld
+      const principal = Math.min(oldBalance, currentPayment - interest)
+      currentRemainingInterest += interest
+      oldBalance -= principal
+      oldPaid = interest + principal
+    }
+    let newPaid = 0
+    if (newBalance > 0.005) {
+      const interest = newBalance * rNew
+      const principal = Math.min(newBalance, newPayment - interest)
+      newTotalInterest += interest
+      newBalance -= principal
+      newPaid = interest + principal
+    }
+
+    cumulativeSavings += oldPaid - newPaid
+    const netPosition = cumulativeSavings - upfrontCash + cashOut + (Math.max(0, oldBalance) - Math.max(0, newBalance))
+    if (breakEvenMonth === null && netPosition >= 0) breakEvenMonth = month
+    if (month % 12 === 0) years.push({ year: month / 12, cumulativeSavings, netPosition })
+  }
+
+  const simpleBreakEvenMonth =
+    closingCosts > 0 && monthlySavings > 0 ? Math.ceil(closingCosts / monthlySavings) : closingCosts === 0 ? 0 : null
+
+  const value = safeNumber(homeValue)
+  const ltv =
+    value > 0
+      ? {
+          ltvPercent: (newLoanAmount / value) * 100,
+          maxCashOut: Math.max(0, (value * CASH_OUT_MAX_LTV) / 100 - balance - (offer.financeClosingCosts ? closingCosts : 0)),
+        }
+      : {}
+
+  return {
+    currentPayment,
+    newLoanAmount,
+    newPayment,
+    monthlySavings,
+    upfrontCash,
+    cashOut,
+    simpleBreakEvenMonth,
+    breakEvenMonth,
+    currentRemainingInterest,
+    newTotalInterest,
+    lifetimeInterestSavings: currentRemainingInterest - newTotalInterest,
+    lifetimeNetSavings: currentPayment * remaining - newPayment * nNew - upfrontCash + cashOut,
+    ...ltv,
+    years,
+  }
+}
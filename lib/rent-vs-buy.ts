@@ -0,0 +1,209 @@
+// Rent-versus-buy engine.
+// Tracks buyer and renter net worth month by month: the buyer holds the home
+// (appreciation, maintenance, resale costs, interest deduction), the renter
+// invests the cash the buyer put down plus any monthly cost difference.
+// Seeded from finance-core's piti()/amortizationSchedule(); no UI, no side effects.
+
+import { DEFAULTS, amortizationSchedule, clamp, piti, safeNumber } from "./finance-core"
+import type { LoanParams, Money, RatePercent } from "./finance-core"
+import { UPFRONT_COSTS } from "./affordability-engine"
+import { getLoanProgram, programLoanParams } from "./loan-programs"
+import { itemizingSavings } from "./homeowner-deductions"
+import { taxProfileFor } from "./affordability-calculations"
+import { defaultWages, estimateIncomeTax } from "./income-tax"
+import { FEDERAL_STANDARD_DEDUCTION, SALT_CAP } from "./tax-data"
+import type { FinancialInputs, Scenario } from "./property-types"
+
+export interface RentVsBuyAssumptions {
+  monthlyRent: Money
+  rentGrowthPercent: RatePercent        // annual rent increase
+  homeAppreciationPercent: RatePercent  // annual home value growth
+  investmentReturnPercent: RatePercent  // opportunity cost on cash not put into the home
+  maintenancePercent: RatePercent       // annual upkeep as % of current home value
+  sellingCostPercent: RatePercent       // agent + transfer costs on resale
+  marginalTaxRatePercent: RatePercent   // federal rate applied to itemized deductions
+  standardDeduction: Money              // only itemized deductions above this save tax
+  saltCap: Money                        // state and local tax deduction cap
+  horizonYears: number                  // 1–30
+}
+
+export const RENT_VS_BUY_DEFAULTS: Omit<RentVsBuyAssumptions, "monthlyRent"> = {
+  rentGrowthPercent: 3,
+  homeAppreciationPercent: 3,
+  investmentReturnPercent: 6,
+  maintenancePercent: 1,
+  sellingCostPercent: 6,
+  marginalTaxRatePercent: 22,
+  standardDeduction: 29_200, // married filing jointly
+  saltCap: 10_000,
+  horizonYears: 30,
+}
+
+export interface RentVsBuyYear {
+  year: number
+  homeValue: Money
+  loanBalance: Money
+  buyerHomeEquity: Money      // value − selling costs − balance
+  buyerPortfolio: Money       // invested monthly savings + tax savings
+  buyerNetWorth: Money
+  renterNetWorth: Money
+  advantage: Money            // buyer − renter; positive = buying is ahead
+  buyerMonthlyCost: Money     // average for the year, after tax savings
+  rentMonthly: Money
+  taxSavings: Money           // this year's benefit from itemizing
+}
+
+export interface RentVsBuyResult {
+  upfrontCash: Money          // down payment + closing + pre-close; the renter invests this instead
+  initialBuyerMonthly: Money  // piti() monthly + maintenance
+  initialRent: Money
+  years: RentVsBuyYear[]
+  breakEvenYear: number | null // first year buying is ahead and stays ahead
+  finalAdvantage: Money
+}
+
+/** Year-by-year buyer vs renter net worth for a loan and a rent. */
+export function rentVsBuy(loan: LoanParams, assumptions: RentVsBuyAssumptions): RentVsBuyResult {
+  const horizonYears = clamp(Math.round(safeNumber(assumptions.horizonYears, 30)), 1, 30)
+  const price = Math.max(0, safeNumber(loan.purchasePrice))
+  const base = piti(loan)
+  const schedule = amortizationSchedule(loan)
+
+  const monthlyGrowth = (annualPercent: RatePercent) => Math.pow(1 + annualPercent / 100, 1 / 12)
+  const appreciation = monthlyGrowth(assumptions.homeAppreciationPercent)
+  const investmentGrowth = monthlyGrowth(assumptions.investmentReturnPercent)
+
+  const downPayment = (price * clamp(safeNumber(loan.downPaymentPercent), 0, 100)) / 100
+  const upfrontCash = downPayment + price * UPFRONT_COSTS.closingCostRate + UPFRONT_COSTS.preCloseCosts
+  const initialRent = Math.max(0, safeNumber(assumptions.monthlyRent))
+
+  let homeValue = price
+  let balance = schedule.loanAmount
+  let buyerPortfolio = 0
+  let renterPortfolio = upfrontCash
+  let yearInterest = 0
+  let yearPropertyTax = 0
+  let yearBuyerCost = 0
+  const years: RentVsBuyYear[] = []
+
+  for (let month = 1; month <= horizonYears * 12; month++) {
+    const yearIndex = Math.floor((month - 1) / 12)
+    const row = schedule.months[month - 1]
+    const rent = initialRent * Math.pow(1 + assumptions.rentGrowthPercent / 100, yearIndex)
+    const maintenance = (homeValue * assumptions.maintenancePercent) / 100 / 12
+
+    // After payoff only escrow items remain
+    const housing = row ? row.payment : base.propertyTax + base.insurance + base.hoa
+    const buyerCost = housing + maintenance
+    if (row) {
+      balance = row.balance
+      yearInterest += row.interest
+    }
+    yearPropertyTax += row ? row.propertyTax : base.propertyTax
+    yearBuyerCost += buyerCost
+
+    // Grow last month's balances, then whoever paid less invests the difference
+    buyerPortfolio *= investmentGrowth
+    renterPortfolio *= investmentGrowth
+    if (buyerCost > rent) renterPortfolio += buyerCost - rent
+    else buyerPortfolio += rent - buyerCost
+    homeValue *= appreciation
+
+    if (month % 12 === 0) {
+      const taxSavings = itemizingSavings({
+        mortgageInterest: yearInterest,
+        propertyTax: yearPropertyTax,
+        standardDeduction: assumptions.standardDeduction,
+        saltCap: assumptions.saltCap,
+        marginalRatePercent: assumptions.marginalTaxRatePercent,
+      })
+      buyerPortfolio += taxSavings
+
+      const buyerHomeEquity = homeValue * (1 - assumptions.sellingCostPercent / 100) - balance
+      const buyerNetWorth = buyerHomeEquity + buyerPortfolio
+      years.push({
+        year: month / 12,
+        homeValue,
+        loanBalance: balance,
+        buyerHomeEquity,
+        buyerPortfolio,
+        buyerNetWorth,
+        renterNetWorth: renterPortfolio,
+        advantage: buyerNetWorth - renterPortfolio,
+        buyerMonthlyCost: (yearBuyerCost - taxSavings) / 12,
+        rentMonthly: rent,
+        taxSavings,
+      })
+      yearInterest = 0
+      yearPropertyTax = 0
+      yearBuyerCost = 0
+    }
+  }
+
+  let breakEvenYear: number | null = null
+  for (let i = years.length - 1; i >= 0 && years[i].advantage >= 0; i--) breakEvenYear = years[i].year
+
+  return {
+    upfrontCash,
+    initialBuyerMonthly: base.monthly + (price * assumptions.maintenancePercent) / 100 / 12,
+    initialRent,
+    years,
+    breakEvenYear,
+    finalAdvantage: years.length ? years[years.length - 1].advantage : 0,
+  }
+}
+
+/**
+ * Deduction assumptions for the household's filing status, state and income.
+ * State income tax already fills part of the SALT cap, and a renter would
+ * deduct it anyway if it beat the standard deduction, so both are netted out:
+ * itemizingSavings() then prices only what the home adds, matching
+ * homeownerTaxBenefit().
+ */
+export function rentVsBuyTaxAssumptions(
+  financialInputs: FinancialInputs,
+): Pick<RentVsBuyAssumptions, "marginalTaxRatePercent" | "standardDeduction" | "saltCap"> {
+  const profile = taxProfileFor(financialInputs)
+  const income = estimateIncomeTax([defaultWages(financialInputs.annualIncome)], profile)
+  const saltCap = SALT_CAP[profile.filingStatus]
+  const stateTaxDeducted = Math.min(income.stateIncomeTax, saltCap)
+  return {
+    marginalTaxRatePercent: income.marginalFederalRatePercent,
+    standardDeduction: Math.max(0, FEDERAL_STANDARD_DEDUCTION[profile.filingStatus] - stateTaxDeducted),
+    saltCap: saltCap - stateTaxDeducted,
+  }
+}
+
+/**
+ * Seeds the engine from a scenario's financial inputs and a target price,
+ * using the same loan program and tax/insurance assumptions as calculateMaxAffordability()
+ * and the household's own deduction assumptions.
+ */
+export function rentVsBuyFromScenario(
+  scenario: Scenario,
+  purchasePrice: Money,
+  downPaymentPercent: RatePercent,
+  annualPropertyTaxRate?: number,
+  overrides: Partial<RentVsBuyAssumptions> = {},
+): RentVsBuyResult {
+  const { financialInputs } = scenario
+  return rentVsBuy(
+    programLoanParams(getLoanProgram(financialInputs.loanProgram), {
+      purchasePrice,
+      downPaymentPercent,
+      interestRatePercent: financialInputs.interestRate,
+      termYears: financialInputs.loanTerm,
+      propertyTaxRatePercent: (annualPropertyTaxRate ?? 0.0181) * 100,
+      annualInsurance: DEFAULTS.annualInsurance,
+      pmiRemoval: financialInputs.pmiRemoval,
+      annualAppreciationPercent: financialInputs.annualAppreciationPercent,
+    }),
+    {
+      ...RENT_VS_BUY_DEFAULTS,
+      ...rentVsBuyTaxAssumptions(financialInputs),
+      homeAppreciationPercent: financialInputs.annualAppreciationPercent ?? RENT_VS_BUY_DEFAULTS.homeAppreciationPercent,
+      monthlyRent: financialInputs.currentMonthlyRent ?? 0,
+      ...overrides,
+    },
+  )
+}
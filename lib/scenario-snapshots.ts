@@ -0,0 +1,160 @@
+// Scenario version history. A snapshot freezes a scenario's inputs under a name;
+// diffing two snapshots lists the inputs that changed and how the headline
+// affordability numbers moved as a result. Auto snapshots are taken when an
+// edit shifts the outcome enough to be worth a timeline entry. No UI, no side
+// effects.
+
+import { calculateMaxAffordability } from "./affordability-calculations"
+import { fieldChanges } from "./plan-bundle"
+import type { FieldChange } from "./plan-bundle"
+import type { FinancialInputs, Scenario, ScenarioSnapshot } from "./property-types"
+
+/** Auto snapshots kept per scenario; manual ones are never pruned. */
+export const MAX_AUTO_SNAPSHOTS = 20
+
+// What counts as a significant edit, measured against the latest snapshot
+const SIGNIFICANT_PRICE_CHANGE = 10000   // $ of max purchase price…
+const SIGNIFICANT_PRICE_PERCENT = 0.03   // …or 3% of it, whichever is larger
+const SIGNIFICANT_MARGIN_CHANGE = 250    // $/mo
+const STRUCTURAL_INPUTS = ["loanProgram", "loanType", "loanTerm", "temporaryBuydown"] as const
+
+/** Totals the workbench recomputes from its financial items rather than editing directly. */
+export const ITEM_DERIVED_INPUTS = [
+  "annualIncome",
+  "annualTakeHomeIncome",
+  "monthlyExpenses",
+  "futureExpensesMonthly",
+  "futureIncomeMonthly",
+  "fixedDebts",
+  "downPaymentSources",
+] as const satisfies readonly (keyof FinancialInputs)[]
+
+export const SNAPSHOT_OUTCOMES = [
+  { field: "maxPurchasePrice", label: "Max purchase price", unit: "currency" },
+  { field: "actualMonthlyPayment", label: "Monthly payment", unit: "currency" },
+  { field: "monthlyMargin", label: "Monthly margin", unit: "currency" },
+  { field: "dtiRatio", label: "DTI ratio", unit: "percent" },
+] as const
+
+export type SnapshotOutcomeField = (typeof SNAPSHOT_OUTCOMES)[number]["field"]
+export type SnapshotOutcomes = Record<SnapshotOutcomeField, number>
+
+export interface OutcomeChange {
+  field: SnapshotOutcomeField
+  label: string
+  unit: "currency" | "percent"
+  from: number
+  to: number
+  delta: number
+}
+
+export interface SnapshotDiff {
+  inputs: FieldChange[]      // paths relative to the scenario, e.g. "financialInputs.interestRate"
+  outcomes: OutcomeChange[]  // all four headline numbers, changed or not
+}
+
+// ─── Outcomes ───────────────────────────────────────────────
+
+/**
+ * Headline numbers for a scenario at its own housing and down payment
+ * percentages. Uses the default property tax rate so snapshots taken in
+ * different locations stay comparable.
+ */
+export function snapshotOutcomes(scenario: Scenario): SnapshotOutcomes {
+  const inputs = scenario.financialInputs
+  const result = calculateMaxAffordability(scenario, inputs.housingPercentage || 30, inputs.downPaymentPercentage || 20)
+  return {
+    maxPurchasePrice: result.maxPurchasePrice,
+    actualMonthlyPayment: result.actualMonthlyPayment,
+    monthlyMargin: result.monthlyMargin,
+    dtiRatio: result.dtiRatio,
+  }
+}
+
+// ─── Snapshots ──────────────────────────────────────────────
+
+export function createSnapshot(
+  scenario: Scenario,
+  { name, trigger, takenAt = new Date() }: { name: string; trigger: ScenarioSnapshot["trigger"]; takenAt?: Date },
+): ScenarioSnapshot {
+  return {
+    id: `snapshot-${takenAt.getTime()}-${scenario.id}`,
+    scenarioId: scenario.id,
+    name,
+    takenAt: takenAt.toISOString(),
+    trigger,
+    scenario,
+  }
+}
+
+/** A scenario's snapshots, newest first. */
+export function snapshotsFor(snapshots: ScenarioSnapshot[], scenarioId: string): ScenarioSnapshot[] {
+  return snapshots
+    .filter((s) => s.scenarioId === scenarioId)
+    .sort((a, b) => b.takenAt.localeCompare(a.takenAt))
+}
+
+/**
+ * The live scenario with a snapshot's inputs put back. Totals derived from the
+ * financial items stay as they are — the items are shared by every scenario, so
+ * a restore can't roll them back without changing the others too.
+ */
+export function restoreSnapshot(current: Scenario, snapshot: ScenarioSnapshot): Scenario {
+  const derived = Object.fromEntries(ITEM_DERIVED_INPUTS.map((field) => [field, current.financialInputs[field]]))
+  return {
+    ...current,
+    name: snapshot.scenario.name,
+    description: snapshot.scenario.description,
+    financialInputs: { ...snapshot.scenario.financialInputs, ...derived },
+  }
+}
+
+/** Adds a snapshot, dropping the scenario's oldest auto snapshots beyond MAX_AUTO_SNAPSHOTS. */
+export function addSnapshot(snapshots: ScenarioSnapshot[], snapshot: ScenarioSnapshot): ScenarioSnapshot[] {
+  const next = [...snapshots, snapshot]
+  const autoIds = snapshotsFor(next, snapshot.scenarioId)
+    .filter((s) => s.trigger === "auto")
+    .map((s) => s.id)
+  const pruned = new Set(autoIds.slice(MAX_AUTO_SNAPSHOTS))
+  return next.filter((s) => !pruned.has(s.id))
+}
+
+// ─── Diff ───────────────────────────────────────────────────
+
+export function diffScenarios(before: Scenario, after: Scenario): SnapshotDiff {
+  const from = snapshotOutcomes(before)
+  const to = snapshotOutcomes(after)
+  return {
+    inputs: fieldChanges(before, after, ["id", "active"]),
+    outcomes: SNAPSHOT_OUTCOMES.map(({ field, label, unit }) => ({
+      field,
+      label,
+      unit,
+      from: from[field],
+      to: to[field],
+      delta: to[field] - from[field],
+    })),
+  }
+}
+
+/** Why an edit deserves an auto snapshot, or null when it doesn't. */
+export function significantChange(before: Scenario, after: Scenario): string | null {
+  const structural = STRUCTURAL_INPUTS.filter((field) => before.financialInputs[field] !== after.financialInputs[field])
+  if (structural.length > 0) return `Changed ${structural.join(", ")}`
+
+  const from = snapshotOutcomes(before)
+  const to = snapshotOutcomes(after)
+  const priceThreshold = Math.max(SIGNIFICANT_PRICE_CHANGE, from.maxPurchasePrice * SIGNIFICANT_PRICE_PERCENT)
+  const priceDelta = to.maxPurchasePrice - from.maxPurchasePrice
+  if (Math.abs(priceDelta) >= priceThreshold) {
+    return `Max price ${priceDelta > 0 ? "up" : "down"} $${Math.round(Math.abs(priceDelta) / 1000)}k`
+  }
+  if (Math.sign(from.monthlyMargin) !== Math.sign(to.monthlyMargin)) {
+    return to.monthlyMargin < 0 ? "Margin went negative" : "Margin back above zero"
+  }
+  const marginDelta = to.monthlyMargin - from.monthlyMargin
+  if (Math.abs(marginDelta) >= SIGNIFICANT_MARGIN_CHANGE) {
+    return `Margin ${marginDelta > 0 ? "up" : "down"} $${Math.round(Math.abs(marginDelta))}/mo`
+  }
+  return null
+}
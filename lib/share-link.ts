@@ -0,0 +1,176 @@
+// Shareable scenario links. The app is a static export with no backend, so a
+// scenario travels in the URL fragment (never sent to the server): short-keyed
+// JSON, deflate-compressed where the browser has CompressionStream, base64url
+// encoded and prefixed with a version and codec — e.g. "1.z.<data>". Decoding
+// validates against the profile schema, so a hand-edited link can't smuggle in
+// bad inputs. No UI.
+
+import { z } from "zod"
+import { financialInputsSchema, formatSchemaIssues, schemaIssues } from "./profile-schema"
+import type { SchemaIssue } from "./profile-schema"
+import type { FinancialInputs } from "./property-types"
+
+export const SHARE_LINK_VERSION = 1
+export const SHARE_FRAGMENT_PARAM = "scenario"
+
+/** What a link carries: one compare column / workbench scenario. */
+export interface SharedScenario {
+  name: string
+  description?: string
+  financialInputs: FinancialInputs
+  housingPercentage: number
+  downPaymentPercentage: number
+}
+
+// One short code per FinancialInputs field. `satisfies` turns a new field
+// without a code into a type error, so links always round-trip every input.
+const INPUT_CODES = {
+  annualIncome: "i",
+  monthlyExpenses: "e",
+  fixedDebts: "d",
+  downPaymentSources: "s",
+  interestRate: "r",
+  loanTerm: "t",
+  creditScore: "c",
+  housingPercentage: "h",
+  downPaymentPercentage: "p",
+  futureIncomeMonthly: "fi",
+  futureExpensesMonthly: "fe",
+  excessDownPaymentStrategy: "x",
+  annualTakeHomeIncome: "th",
+  marketReferenceRate: "m",
+  pmiRemoval: "pm",
+  annualAppreciationPercent: "ap",
+  loanType: "lt",
+  loanProgram: "lp",
+  discountPoints: "dp",
+  temporaryBuydown: "tb",
+  sellerCredit: "sc",
+  lenderFees: "lf",
+  currentMonthlyRent: "cr",
+  withholdingMode: "wm",
+  filingStatus: "fs",
+  householdSize: "hs",
+  taxState: "ts",
+} satisfies Record<keyof FinancialInputs, string>
+
+type InputField = keyof typeof INPUT_CODES
+
+const FIELDS_BY_CODE = new Map(Object.entries(INPUT_CODES).map(([field, code]) => [code, field as InputField]))
+
+const sharedScenarioSchema = z.object({
+  name: z.string().min(1, "Give the scenario a name").max(120, "Scenario names are limited to 120 characters"),
+  description: z.string().max(500, "Descriptions are limited to 500 characters").optional(),
+  financialInputs: financialInputsSchema,
+  housingPercentage: z.number().min(0).max(100),
+  downPaymentPercentage: z.number().min(0).max(100),
+})
+
+// ─── Bytes ──────────────────────────────────────────────────
+
+type Codec = "z" | "j" // deflate-raw | plain JSON
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Response(bytes as BufferSource).body!.pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+// ─── Encode / decode ────────────────────────────────────────
+
+/**
+ * Fragment value for a scenario, e.g. "1.z.q1YqzsxLV7JSSs7PS0…". Checked
+ * against the same schema decoding uses (after trimming), so it rejects with
+ * the readable issues rather than produce a link that can't be opened.
+ */
+export async function encodeSharedScenario(shared: SharedScenario): Promise<string> {
+  const checked = sharedScenarioSchema.safeParse({
+    ...shared,
+    name: shared.name.trim(),
+    description: shared.description?.trim() || undefined,
+  })
+  if (!checked.success) throw new Error(formatSchemaIssues(schemaIssues(checked.error)))
+  const scenario = checked.data
+
+  const inputs: Record<string, unknown> = {}
+  for (const [field, value] of Object.entries(scenario.financialInputs)) {
+    if (value !== undefined) inputs[INPUT_CODES[field as InputField] ?? field] = value
+  }
+  const payload = {
+    n: scenario.name,
+    ...(scenario.description ? { d: scenario.description } : {}),
+    h: scenario.housingPercentage,
+    p: scenario.downPaymentPercentage,
+    f: inputs,
+  }
+  const json = new TextEncoder().encode(JSON.stringify(payload))
+  const codec: Codec = typeof CompressionStream === "undefined" ? "j" : "z"
+  const bytes = codec === "z" ? await pipeBytes(json, new CompressionStream("deflate-raw")) : json
+  return `${SHARE_LINK_VERSION}.${codec}.${toBase64Url(bytes)}`
+}
+
+export type SharedScenarioParseResult =
+  | { success: true; scenario: SharedScenario }
+  | { success: false; issues: SchemaIssue[] }
+
+function invalid(message: string): SharedScenarioParseResult {
+  return { success: false, issues: [{ path: "", message }] }
+}
+
+export async function decodeSharedScenario(encoded: string): Promise<SharedScenarioParseResult> {
+  const [version, codec, data] = encoded.split(".")
+  if (Number(version) > SHARE_LINK_VERSION) return invalid("This link was made by a newer version of the app")
+  if (Number(version) !== SHARE_LINK_VERSION || (codec !== "z" && codec !== "j") || !data) {
+    return invalid("Not a scenario link")
+  }
+  if (codec === "z" && typeof DecompressionStream === "undefined") {
+    return invalid("This browser can't open compressed links")
+  }
+
+  let payload: Record<string, unknown>
+  try {
+    const bytes = fromBase64Url(data)
+    const json = codec === "z" ? await pipeBytes(bytes, new DecompressionStream("deflate-raw")) : bytes
+    payload = JSON.parse(new TextDecoder().decode(json))
+  } catch {
+    return invalid("The link is incomplete or damaged — ask for it to be copied again")
+  }
+
+  const inputs: Record<string, unknown> = {}
+  const encodedInputs = payload && typeof payload.f === "object" && payload.f ? (payload.f as Record<string, unknown>) : {}
+  for (const [code, value] of Object.entries(encodedInputs)) {
+    const field = FIELDS_BY_CODE.get(code)
+    if (field) inputs[field] = value
+  }
+  const parsed = sharedScenarioSchema.safeParse({
+    name: payload?.n,
+    description: payload?.d,
+    financialInputs: inputs,
+    housingPercentage: payload?.h,
+    downPaymentPercentage: payload?.p,
+  })
+  if (!parsed.success) return { success: false, issues: schemaIssues(parsed.error) }
+  return { success: true, scenario: parsed.data }
+}
+
+// ─── URLs ───────────────────────────────────────────────────
+
+/** `pageUrl` with its fragment replaced by the shared scenario. */
+export function shareLinkUrl(pageUrl: string, encoded: string): string {
+  return `${pageUrl.split("#")[0]}#${SHARE_FRAGMENT_PARAM}=${encoded}`
+}
+
+/** The encoded scenario in a location hash, if there is one. */
+export function sharedScenarioFromHash(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, "")).get(SHARE_FRAGMENT_PARAM)
+}
@@ -0,0 +1,382 @@
+// Bank and card statement import: turns CSV exports (through a column
+// mapping) and OFX/QFX downloads into unmatched Charges for the clearing
+// board. Every transaction gets a fingerprint that survives re-exporting the
+// same statement, so importing an overlapping file only adds what's new.
+// No UI, no side effects.
+
+import type { Charge } from "./liquidity-engine"
+
+export type StatementFormat = "csv" | "ofx"
+
+export interface StatementTransaction {
+  fingerprint: string
+  date: string           // ISO YYYY-MM-DD
+  amount: number         // positive = money out (a charge), negative = money in
+  merchant: string       // cleaned-up payee for display
+  memo: string           // description exactly as exported
+  categoryHint?: string
+}
+
+export interface StatementIssue {
+  row: number            // CSV record or OFX transaction, 1-based
+  message: string
+}
+
+export interface StatementParseResult {
+  transactions: StatementTransaction[]
+  issues: StatementIssue[]
+}
+
+export type DateOrder = "ymd" | "mdy" | "dmy"
+export type DecimalSeparator = "." | "," // 1,234.56 | 1.234,56
+
+/** Which CSV column holds what; indexes are 0-based, null = not in this export. */
+export interface CsvMapping {
+  hasHeader: boolean
+  date: number
+  description: number
+  amount: number | null  // one signed column…
+  debit: number | null   // …or separate money-out / money-in columns
+  credit: number | null
+  memo: number | null
+  category: number | null
+  dateOrder: DateOrder
+  decimalSeparator: DecimalSeparator
+  chargesNegative: boolean // sign the amount column gives charges
+}
+
+// ─── Helpers ────────────────────────────────────────────────
+
+// Two FNV-1a passes with different primes → 16 hex chars; plenty for one household's statements
+function hash(text: string): string {
+  let a = 0x811c9dc5
+  let b = 0x9747b28c
+  for (let i = 0; i < text.length; i++) {
+    const c = text.charCodeAt(i)
+    a = Math.imul(a ^ c, 0x01000193)
+    b = Math.imul(b ^ c, 0x5bd1e995)
+  }
+  return (a >>> 0).toString(16).padStart(8, "0") + (b >>> 0).toString(16).padStart(8, "0")
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+/** "2026-10-04", "10/4/2026", "4.10.26" … → ISO date, or null if it isn't a real date. */
+export function parseStatementDate(text: string, order: DateOrder): string | null {
+  const parts = text.trim().match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})\b/)
+  if (!parts) return null
+  const [, p1, p2, p3] = parts
+  // A leading 4-digit year is unambiguous whatever the export's order
+  const [y, m, d] = p1.length === 4 || order === "ymd" ? [p1, p2, p3] : order === "mdy" ? [p3, p1, p2] : [p3, p2, p1]
+  const year = y.length <= 2 ? 2000 + Number(y) : Number(y)
+  const date = new Date(Date.UTC(year, Number(m) - 1, Number(d)))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== Number(m) - 1 || date.getUTCDate() !== Number(d)) return null
+  return date.toISOString().slice(0, 10)
+}
+
+// Thousands groups must be exactly three digits and cents at most two (plus padding zeros),
+// so "82,50" never reads as 8250 and "1.234" never as 1.23 — they don't parse at all
+const AMOUNT_PATTERNS: Record<DecimalSeparator, { pattern: RegExp; grouping: RegExp }> = {
+  ".": { pattern: /^(\d{1,3}(,\d{3})+|\d+)?(\.\d{1,2}0*)?$/, grouping: /,/g },
+  ",": { pattern: /^(\d{1,3}([. '\u00A0]\d{3})+|\d+)?(,\d{1,2}0*)?$/, grouping: /[. '\u00A0]/g },
+}
+
+/**
+ * "$1,234.56", "-82.00", "(82.00)", or with a decimal comma "1.234,56 €" →
+ * signed number; null for blanks, text and numbers written the other way.
+ */
+export function parseStatementAmount(text: string, decimal: DecimalSeparator = "."): number | null {
+  const trimmed = text.trim()
+  const number = trimmed.replace(/[^0-9.,' \u00A0]/g, "").trim()
+  const { pattern, grouping } = AMOUNT_PATTERNS[decimal]
+  if (!/\d/.test(number) || !pattern.test(number)) return null
+  const value = Number(number.replace(grouping, "").replace(",", "."))
+  const negative = trimmed.startsWith("-") || trimmed.endsWith("-") || /^\(.*\)$/.test(trimmed) || /^\D{1,3}\s?-/.test(trimmed)
+  return round2(negative ? -value : value)
+}
+
+// Which way round a column's amounts are written: decimals after a comma ("82,50") vs a point ("82.50")
+function guessDecimalSeparator(cells: string[]): DecimalSeparator {
+  const comma = cells.filter((c) => /\d,\d{1,2}(\D*)$/.test(c.trim())).length
+  const point = cells.filter((c) => /\d\.\d{1,2}(\D*)$/.test(c.trim())).length
+  return comma > point ? "," : "."
+}
+
+const MERCHANT_NOISE = [
+  /^(pos|debit card|debit|checkcard|card|recurring|ach)( purchase| payment| debit)?\s+/i,
+  /^(sq|tst|sp|pp|paypal)\s?\*\s*/i,
+  /\s+\d{2}\/\d{2}(\/\d{2,4})?\b.*$/, // trailing transaction dates
+  /\s+#?\d{4,}.*$/,                   // store numbers and references
+]
+
+/** Strips terminal prefixes, store numbers and shouting from a raw description. */
+export function cleanMerchant(raw: string): string {
+  let name = raw.replace(/\s+/g, " ").trim()
+  for (const pattern of MERCHANT_NOISE) name = name.replace(pattern, "").trim()
+  if (!name) return raw.trim()
+  if (name === name.toUpperCase()) name = name.toLowerCase().replace(/\b[a-z]/g, (c) => c.toUpperCase())
+  return name
+}
+
+// Content fingerprint for exports without transaction ids. Built from the raw
+// memo (not the cleaned merchant) so changes to cleanMerchant don't break
+// de-duplication; `occurrence` separates identical same-day purchases.
+function contentFingerprint(date: string, amount: number, memo: string, occurrence: number): string {
+  return hash(`${date}|${Math.round(amount * 100)}|${memo.toLowerCase().replace(/\s+/g, " ").trim()}|${occurrence}`)
+}
+
+function withOccurrences(
+  rows: Omit<StatementTransaction, "fingerprint">[],
+  idFor: (row: Omit<StatementTransaction, "fingerprint">, index: number) => string | undefined = () => undefined,
+): StatementTransaction[] {
+  const seen = new Map<string, number>()
+  return rows.map((row, i) => {
+    const id = idFor(row, i)
+    if (id) return { ...row, fingerprint: hash(id) }
+    const key = `${row.date}|${row.amount}|${row.memo}`
+    const occurrence = seen.get(key) ?? 0
+    seen.set(key, occurrence + 1)
+    return { ...row, fingerprint: contentFingerprint(row.date, row.amount, row.memo, occurrence) }
+  })
+}
+
+// ─── CSV ────────────────────────────────────────────────────
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/))
+  const counts = [",", ";", "\t"].map((d) => [d, firstLine.split(d).length] as const)
+  return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0]
+}
+
+/** RFC 4180-ish: quoted fields, doubled quotes, CRLF; delimiter sniffed from the first line. Blank lines are dropped. */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "")
+  const delimiter = detectDelimiter(src)
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += ch
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field])
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""))
+}
+
+/** Best guess at a mapping from the header names (or, without a header, the first row's contents). */
+export function guessCsvMapping(rows: string[][]): CsvMapping {
+  const first = rows[0] ?? []
+  const hasHeader = first.length > 0 && !first.some((cell) => parseStatementDate(cell, "mdy") || parseStatementDate(cell, "dmy"))
+  const headers = hasHeader ? first.map((h) => h.trim().toLowerCase()) : []
+  const find = (pattern: RegExp, exclude: (number | null)[] = []) => {
+    const i = headers.findIndex((h, index) => pattern.test(h) && !exclude.includes(index))
+    return i === -1 ? null : i
+  }
+
+  let date = find(/^date$|transaction date|trans date|^datum$|buchungstag/) ?? find(/date|posted|datum/)
+  let amount = find(/^amount|amount$|^betrag|^montant|^importe|^bedrag/)
+  const debit = amount === null ? find(/debit|withdrawal|money out|soll/) : null
+  const credit = amount === null ? find(/credit|deposit|money in|haben/) : null
+  let description = find(/description|merchant|payee|name|buchungstext|verwendungszweck|beschreibung|libell/)
+  const memo = find(/memo|details|reference/, [description])
+  const category = find(/category/)
+
+  if (!hasHeader && first.length > 0) {
+    date = first.findIndex((cell) => parseStatementDate(cell, "mdy") || parseStatementDate(cell, "dmy"))
+    const isAmount = (cell: string) => parseStatementAmount(cell, ".") !== null || parseStatementAmount(cell, ",") !== null
+    const amountIndex = [...first.keys()].reverse().find((i) => i !== date && isAmount(first[i]))
+    amount = amountIndex ?? null
+    const textual = [...first.keys()].filter((i) => i !== date && i !== amount)
+    description = textual.reduce<number | null>((best, i) => (best === null || first[i].length > first[best].length ? i : best), null)
+  }
+
+  const body = hasHeader ? rows.slice(1) : rows
+  const datePart = (row: string[]) => (date !== null && date >= 0 ? row[date]?.trim() ?? "" : "")
+  // Dotted dates ("04.10.2026") are day-first wherever they're used
+  const dateOrder: DateOrder = body.some((r) => /^\d{4}/.test(datePart(r)))
+    ? "ymd"
+    : body.some((r) => Number(datePart(r).split(/[-/.]/)[0]) > 12 || /^\d{1,2}\.\d{1,2}\./.test(datePart(r)))
+      ? "dmy"
+      : "mdy"
+  const amountColumns = [amount, debit, credit].filter((i): i is number => i !== null && i >= 0)
+  const decimalSeparator = guessDecimalSeparator(body.flatMap((r) => amountColumns.map((i) => r[i] ?? "")))
+  // Most rows in a statement are charges, so the common sign is the charge sign
+  const amountColumn = amount
+  const signs = amountColumn === null ? [] : body.map((r) => parseStatementAmount(r[amountColumn] ?? "", decimalSeparator) ?? 0)
+  const chargesNegative = signs.filter((n) => n < 0).length >= signs.filter((n) => n > 0).length
+
+  return {
+    hasHeader,
+    date: date !== null && date >= 0 ? date : 0,
+    description: description ?? 1,
+    amount,
+    debit,
+    credit,
+    memo,
+    category,
+    dateOrder,
+    decimalSeparator,
+    chargesNegative,
+  }
+}
+
+/** Normalizes mapped CSV rows; rows that can't be read are reported, not dropped silently. */
+export function parseCsvStatement(rows: string[][], mapping: CsvMapping): StatementParseResult {
+  const issues: StatementIssue[] = []
+  const parsed: Omit<StatementTransaction, "fingerprint">[] = []
+  const offset = mapping.hasHeader ? 2 : 1
+  const body = mapping.hasHeader ? rows.slice(1) : rows
+
+  body.forEach((row, i) => {
+    const cell = (index: number | null) => (index === null ? "" : row[index] ?? "")
+    const date = parseStatementDate(cell(mapping.date), mapping.dateOrder)
+    if (!date) {
+      issues.push({ row: i + offset, message: `Unreadable date "${cell(mapping.date)}"` })
+      return
+    }
+
+    // A filled-in amount that doesn't fit the decimal separator is reported, never guessed at
+    const amountCells = (mapping.amount !== null ? [mapping.amount] : [mapping.debit, mapping.credit]).map((index) => cell(index).trim())
+    const misread = amountCells.find((text) => text !== "" && parseStatementAmount(text, mapping.decimalSeparator) === null)
+    if (misread !== undefined) {
+      const format = mapping.decimalSeparator === "." ? "1,234.56" : "1.234,56"
+      issues.push({ row: i + offset, message: `Amount "${misread}" isn't written as ${format} — check the decimal separator` })
+      return
+    }
+
+    let amount: number | null
+    if (mapping.amount !== null) {
+      const signed = parseStatementAmount(cell(mapping.amount), mapping.decimalSeparator)
+      amount = signed === null ? null : mapping.chargesNegative ? -signed : signed
+    } else {
+      const out = parseStatementAmount(cell(mapping.debit), mapping.decimalSeparator)
+      const inflow = parseStatementAmount(cell(mapping.credit), mapping.decimalSeparator)
+      amount = out === null && inflow === null ? null : round2(Math.abs(out ?? 0) - Math.abs(inflow ?? 0))
+    }
+    if (amount === null) {
+      issues.push({ row: i + offset, message: "No amount" })
+      return
+    }
+
+    const description = cell(mapping.description)
+    const memo = mapping.memo !== null && cell(mapping.memo).trim() ? `${description} ${cell(mapping.memo)}`.trim() : description
+    const category = cell(mapping.category).trim()
+    parsed.push({
+      date,
+      amount,
+      merchant: cleanMerchant(description) || "Unknown merchant",
+      memo,
+      ...(category ? { categoryHint: category } : {}),
+    })
+  })
+
+  return { transactions: withOccurrences(parsed), issues }
+}
+
+// ─── OFX / QFX ──────────────────────────────────────────────
+
+const OFX_ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">", "&quot;": '"', "&apos;": "'", "&nbsp;": " " }
+
+// Works for both SGML (OFX 1.x, leaf tags unclosed) and XML (OFX 2.x)
+function ofxField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))
+  return match ? match[1].replace(/&\w+;/g, (e) => OFX_ENTITIES[e] ?? e).trim() : undefined
+}
+
+/** Reads every STMTTRN in a bank or credit-card OFX/QFX download. FITIDs make the fingerprint when present. */
+export function parseOfxStatement(text: string): StatementParseResult {
+  if (!/<OFX>/i.test(text)) return { transactions: [], issues: [{ row: 0, message: "Not an OFX or QFX file" }] }
+
+  const issues: StatementIssue[] = []
+  const parsed: { row: Omit<StatementTransaction, "fingerprint">; id?: string }[] = []
+  const statements = [...text.matchAll(/<(CCSTMTRS|STMTRS)>([\s\S]*?)<\/\1>/gi)].map((m) => m[2])
+  let index = 0
+
+  for (const statement of statements.length > 0 ? statements : [text]) {
+    const account = ofxField(statement, "ACCTID") ?? ""
+    for (const [, block] of statement.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+      index++
+      const posted = ofxField(block, "DTPOSTED") ?? ""
+      const date = /^\d{8}/.test(posted) ? parseStatementDate(`${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`, "ymd") : null
+      const amount = parseStatementAmount(ofxField(block, "TRNAMT") ?? "")
+      if (!date || amount === null) {
+        issues.push({ row: index, message: !date ? `Unreadable date "${posted}"` : "No amount" })
+        continue
+      }
+      const name = ofxField(block, "NAME") ?? ofxField(block, "PAYEE") ?? ""
+      const memo = ofxField(block, "MEMO") ?? ""
+      const fitId = ofxField(block, "FITID")
+      parsed.push({
+        // OFX signs amounts from the account holder's side: charges are negative
+        row: { date, amount: -amount, merchant: cleanMerchant(name || memo) || "Unknown merchant", memo: [name, memo].filter(Boolean).join(" ") },
+        id: fitId ? `ofx|${account}|${fitId}` : undefined,
+      })
+    }
+  }
+
+  if (index === 0) issues.push({ row: 0, message: "No transactions in this file" })
+  return { transactions: withOccurrences(parsed.map((p) => p.row), (_, i) => parsed[i].id), issues }
+}
+
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  return /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text.slice(0, 4096)) ? "ofx" : "csv"
+}
+
+// ─── Charges ────────────────────────────────────────────────
+
+/** Money-out transactions as unmatched charges; payments and refunds aren't charges. */
+export function statementCharges(transactions: StatementTransaction[]): Charge[] {
+  return transactions
+    .filter((t) => t.amount > 0)
+    .map((t) => ({
+      id: `charge-${t.fingerprint}`,
+      merchant: t.merchant,
+      amount: t.amount,
+      date: t.date,
+      ...(t.categoryHint ? { categoryHint: t.categoryHint } : {}),
+      status: "unmatched" as const,
+      memo: t.memo,
+      fingerprint: t.fingerprint,
+    }))
+}
+
+export interface ChargeImport {
+  charges: Charge[]   // existing charges followed by the new ones
+  added: Charge[]
+  duplicates: number  // already imported (or repeated within the file)
+}
+
+/** Appends only charges whose fingerprint isn't already on the board. */
+export function mergeImportedCharges(existing: Charge[], incoming: Charge[]): ChargeImport {
+  const seen = new Set(existing.flatMap((c) => (c.fingerprint ? [c.fingerprint] : [])))
+  const added: Charge[] = []
+  for (const charge of incoming) {
+    if (charge.fingerprint && seen.has(charge.fingerprint)) continue
+    if (charge.fingerprint) seen.add(charge.fingerprint)
+    added.push(charge)
+  }
+  return { charges: [...existing, ...added], added, duplicates: incoming.length - added.length }
+}
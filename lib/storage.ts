@@ -0,0 +1,179 @@
+// Client-side persistence for the planner. IndexedDB when the browser allows it
+// (private windows and some embedded views don't), localStorage otherwise.
+// Records are JSON-safe values wrapped with the time they were saved. Every call
+// resolves to "nothing stored" on the server, so static-export prerendering
+// never touches browser APIs.
+
+export const STORAGE_KEYS = {
+  userProfile: "user-profile",         // scenarios, saved properties, journey phases
+  financialItems: "financial-items",   // income / expense / debt / down payment items
+  compareColumns: "compare-columns",   // /compare column inputs
+  rehearsalSession: "rehearsal-session", // decision rehearsal mode, sliders and toggles
+  liquidityBuckets: "liquidity-buckets", // ongoing budget envelopes
+  liquidityObligations: "liquidity-obligations", // annual obligations with due months
+  liquidityCharges: "liquidity-charges", // credit card charges in the clearing workflow
+  budgetSettings: "budget-settings",     // reserve buffer and 12-month variable spend
+  chargeMatchRules: "charge-match-rules", // charge → bucket matching rules and mode
+  pressureValve: "pressure-valve",       // redistribution threshold and target weights
+  redistributionJournal: "redistribution-journal", // reserve ledger and executed redistribution runs
+  bucketJournal: "bucket-journal",       // double-entry journal bucket balances derive from
+} as const
+
+export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS]
+
+export type StorageBackend = "indexeddb" | "localstorage" | "none"
+
+export interface StoredRecord<T> {
+  value: T
+  savedAt: number // epoch ms
+}
+
+const DB_NAME = "livability"
+const DB_VERSION = 1
+const STORE_NAME = "records"
+const LOCAL_STORAGE_PREFIX = "livability:"
+
+let backendPromise: Promise<{ backend: StorageBackend; db?: IDBDatabase }> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"))
+  })
+}
+
+function localStorageAvailable(): boolean {
+  try {
+    const probe = `${LOCAL_STORAGE_PREFIX}probe`
+    window.localStorage.setItem(probe, "1")
+    window.localStorage.removeItem(probe)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function resolveBackend() {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (typeof window === "undefined") return { backend: "none" as const }
+      if (typeof indexedDB !== "undefined") {
+        try {
+          return { backend: "indexeddb" as const, db: await openDatabase() }
+        } catch {
+          // Fall through to localStorage
+        }
+      }
+      return { backend: localStorageAvailable() ? ("localstorage" as const) : ("none" as const) }
+    })()
+  }
+  return backendPromise
+}
+
+function idbRequest<T>(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = run(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => resolve(request.result as T)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"))
+  })
+}
+
+/** Which backend this browser ended up with; "none" on the server or when storage is blocked. */
+export async function storageBackend(): Promise<StorageBackend> {
+  return (await resolveBackend()).backend
+}
+
+export async function loadRecord<T>(key: StorageKey): Promise<StoredRecord<T> | undefined> {
+  const { backend, db } = await resolveBackend()
+  if (backend === "indexeddb" && db) {
+    return idbRequest<StoredRecord<T> | undefined>(db, "readonly", (store) => store.get(key))
+  }
+  if (backend === "localstorage") {
+    const raw = window.localStorage.getItem(LOCAL_STORAGE_PREFIX + key)
+    if (raw === null) return undefined
+    try {
+      return JSON.parse(raw) as StoredRecord<T>
+    } catch {
+      return undefined // corrupt entry — treat as never saved
+    }
+  }
+  return undefined
+}
+
+/** Persists a value; rejects when storage is unavailable or full so callers can surface it. */
+export async function saveRecord<T>(key: StorageKey, value: T): Promise<StoredRecord<T>> {
+  const record: StoredRecord<T> = { value, savedAt: Date.now() }
+  const { backend, db } = await resolveBackend()
+  if (backend === "indexeddb" && db) {
+    // Round-trip through JSON so IndexedDB stores exactly what localStorage would
+    await idbRequest(db, "readwrite", (store) => store.put(JSON.parse(JSON.stringify(record)), key))
+    return record
+  }
+  if (backend === "localstorage") {
+    window.localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(record))
+    return record
+  }
+  throw new Error("Browser storage is unavailable")
+}
+
+/** One key's new value in saveRecords(); `undefined` removes the key. */
+export interface RecordWrite {
+  key: StorageKey
+  value: unknown
+}
+
+/**
+ * Writes several keys all-or-nothing: one IndexedDB transaction, or on
+ * localStorage the previous values are put back if any write fails.
+ */
+export async function saveRecords(writes: RecordWrite[]): Promise<void> {
+  const savedAt = Date.now()
+  const { backend, db } = await resolveBackend()
+  if (backend === "indexeddb" && db) {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite")
+      const store = transaction.objectStore(STORE_NAME)
+      for (const { key, value } of writes) {
+        if (value === undefined) store.delete(key)
+        else store.put(JSON.parse(JSON.stringify({ value, savedAt })), key)
+      }
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB transaction aborted"))
+    })
+    return
+  }
+  if (backend === "localstorage") {
+    const previous = writes.map(({ key }) => [LOCAL_STORAGE_PREFIX + key, window.localStorage.getItem(LOCAL_STORAGE_PREFIX + key)] as const)
+    try {
+      for (const { key, value } of writes) {
+        if (value === undefined) window.localStorage.removeItem(LOCAL_STORAGE_PREFIX + key)
+        else window.localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify({ value, savedAt }))
+      }
+    } catch (e) {
+      for (const [storageKey, raw] of previous) {
+        if (raw === null) window.localStorage.removeItem(storageKey)
+        else window.localStorage.setItem(storageKey, raw) // fits: it was stored before
+      }
+      throw e
+    }
+    return
+  }
+  throw new Error("Browser storage is unavailable")
+}
+
+export async function removeRecord(key: StorageKey): Promise<void> {
+  const { backend, db } = await resolveBackend()
+  if (backend === "indexeddb" && db) {
+    await idbRequest(db, "readwrite", (store) => store.delete(key))
+  } else if (backend === "localstorage") {
+    window.localStorage.removeItem(LOCAL_STORAGE_PREFIX + key)
+  }
+}
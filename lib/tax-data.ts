@@ -0,0 +1,188 @@
+// Income tax tables bundled as data — tax year 2024.
+// Federal brackets, standard deductions and payroll (FICA) limits, plus one
+// table per state (and DC) for wage income. Figures are for estimating
+// take-home pay, not for filing: local/city income taxes (e.g. NYC, Maryland
+// counties) and most credits beyond the ones listed are left out.
+
+import type { Money, RatePercent } from "./finance-core"
+
+export const TAX_YEAR = 2024
+
+export type FilingStatus = "single" | "married-joint" | "married-separate" | "head-of-household"
+
+export const FILING_STATUSES: { id: FilingStatus; label: string }[] = [
+  { id: "single", label: "Single" },
+  { id: "married-joint", label: "Married, filing jointly" },
+  { id: "married-separate", label: "Married, filing separately" },
+  { id: "head-of-household", label: "Head of household" },
+]
+
+/** Marginal bracket: ratePercent applies to taxable income above `over`, up to the next bracket. */
+export interface TaxBracket {
+  over: Money
+  ratePercent: RatePercent
+}
+
+function brackets(...rows: [Money, RatePercent][]): TaxBracket[] {
+  return rows.map(([over, ratePercent]) => ({ over, ratePercent }))
+}
+
+// Many states set joint thresholds at twice the single ones
+function doubled(rows: TaxBracket[]): TaxBracket[] {
+  return rows.map((b) => ({ over: b.over * 2, ratePercent: b.ratePercent }))
+}
+
+// ─── Federal ────────────────────────────────────────────────
+
+export const FEDERAL_BRACKETS: Record<FilingStatus, TaxBracket[]> = {
+  single: brackets([0, 10], [11_600, 12], [47_150, 22], [100_525, 24], [191_950, 32], [243_725, 35], [609_350, 37]),
+  "married-joint": brackets([0, 10], [23_200, 12], [94_300, 22], [201_050, 24], [383_900, 32], [487_450, 35], [731_200, 37]),
+  "married-separate": brackets([0, 10], [11_600, 12], [47_150, 22], [100_525, 24], [191_950, 32], [243_725, 35], [365_600, 37]),
+  "head-of-household": brackets([0, 10], [16_550, 12], [63_100, 22], [100_500, 24], [191_950, 32], [243_700, 35], [609_350, 37]),
+}
+
+export const FEDERAL_STANDARD_DEDUCTION: Record<FilingStatus, Money> = {
+  single: 14_600,
+  "married-joint": 29_200,
+  "married-separate": 14_600,
+  "head-of-household": 21_900,
+}
+
+export const CHILD_TAX_CREDIT = {
+  perChild: 2_000,
+  phaseOutPer1000: 50, // credit reduction per $1,000 (or part) of income over the threshold
+  phaseOutThreshold: { single: 200_000, "married-joint": 400_000, "married-separate": 200_000, "head-of-household": 200_000 } as Record<FilingStatus, Money>,
+}
+
+// Itemized deduction limits for homeowners (TCJA, 2018–2025)
+export const SALT_CAP: Record<FilingStatus, Money> = {
+  single: 10_000,
+  "married-joint": 10_000,
+  "married-separate": 5_000,
+  "head-of-household": 10_000,
+}
+
+// Interest is deductible on acquisition debt up to this amount
+export const MORTGAGE_INTEREST_DEBT_LIMIT: Record<FilingStatus, Money> = {
+  single: 750_000,
+  "married-joint": 750_000,
+  "married-separate": 375_000,
+  "head-of-household": 750_000,
+}
+
+export const FICA = {
+  socialSecurityPercent: 6.2,
+  socialSecurityWageBase: 168_600, // per earner
+  medicarePercent: 1.45,
+  additionalMedicarePercent: 0.9,
+  additionalMedicareThreshold: { single: 200_000, "married-joint": 250_000, "married-separate": 125_000, "head-of-household": 200_000 } as Record<FilingStatus, Money>,
+}
+
+// ─── States ─────────────────────────────────────────────────
+
+export interface StateIncomeTax {
+  name: string
+  single: TaxBracket[]          // also used for head of household and married filing separately
+  joint: TaxBracket[]
+  standardDeduction: { single: Money; joint: Money } | "federal" // "federal": starts from federal taxable income
+  personalExemption?: Money     // per filer
+  dependentExemption?: Money    // per dependent
+  personalCredit?: Money        // per filer, off the tax
+  dependentCredit?: Money       // per dependent, off the tax
+}
+
+const NO_INCOME_TAX = (name: string): StateIncomeTax => ({
+  name,
+  single: [],
+  joint: [],
+  standardDeduction: { single: 0, joint: 0 },
+})
+
+const flat = (name: string, ratePercent: RatePercent, rest: Partial<StateIncomeTax> = {}): StateIncomeTax => ({
+  name,
+  single: brackets([0, ratePercent]),
+  joint: brackets([0, ratePercent]),
+  standardDeduction: { single: 0, joint: 0 },
+  ...rest,
+})
+
+const AL = brackets([0, 2], [500, 4], [3_000, 5])
+const AR = brackets([0, 0], [5_499, 2], [10_899, 3], [15_599, 3.4], [25_699, 3.9])
+const CA = brackets([0, 1], [10_756, 2], [25_499, 4], [40_245, 6], [55_866, 8], [70_606, 9.3], [360_659, 10.3], [432_787, 11.3], [721_314, 12.3], [1_000_000, 13.3])
+// Joint thresholds double, but the 1% mental health surcharge starts at $1M for every filer
+const CA_JOINT = brackets([0, 1], [21_512, 2], [50_998, 4], [80_490, 6], [111_732, 8], [141_212, 9.3], [721_318, 10.3], [865_574, 11.3], [1_000_000, 12.3], [1_442_628, 13.3])
+const CT = brackets([0, 2], [10_000, 4.5], [50_000, 5.5], [100_000, 6], [200_000, 6.5], [250_000, 6.9], [500_000, 6.99])
+const DE = brackets([0, 0], [2_000, 2.2], [5_000, 3.9], [10_000, 4.8], [20_000, 5.2], [25_000, 5.55], [60_000, 6.6])
+const DC = brackets([0, 4], [10_000, 6], [40_000, 6.5], [60_000, 8.5], [250_000, 9.25], [500_000, 9.75], [1_000_000, 10.75])
+const HI = brackets([0, 1.4], [2_400, 3.2], [4_800, 5.5], [9_600, 6.4], [14_400, 6.8], [19_200, 7.2], [24_000, 7.6], [36_000, 7.9], [48_000, 8.25], [150_000, 9], [175_000, 10], [200_000, 11])
+const LA = brackets([0, 1.85], [12_500, 3.5], [50_000, 4.25])
+const MO = brackets([0, 0], [1_273, 2], [2_546, 2.5], [3_819, 3], [5_092, 3.5], [6_365, 4], [7_638, 4.5], [8_911, 4.8])
+const NY = brackets([0, 4], [8_500, 4.5], [11_700, 5.25], [13_900, 5.5], [80_650, 6], [215_400, 6.85], [1_077_550, 9.65], [5_000_000, 10.3], [25_000_000, 10.9])
+const OK = brackets([0, 0.25], [1_000, 0.75], [2_500, 1.75], [3_750, 2.75], [4_900, 3.75], [7_200, 4.75])
+const OR = brackets([0, 4.75], [4_300, 6.75], [10_750, 8.75], [125_000, 9.9])
+const VA = brackets([0, 2], [3_000, 3], [5_000, 5], [17_000, 5.75])
+const WV = brackets([0, 2.36], [10_000, 3.15], [25_000, 3.54], [40_000, 4.72], [60_000, 5.12])
+const OH = brackets([0, 0], [26_050, 2.75], [100_000, 3.5])
+const RI = brackets([0, 3.75], [77_450, 4.75], [176_050, 5.99])
+
+export const STATE_INCOME_TAX = {
+  AL: { name: "Alabama", single: AL, joint: doubled(AL), standardDeduction: { single: 3_000, joint: 8_500 }, personalExemption: 1_500, dependentExemption: 1_000 },
+  AK: NO_INCOME_TAX("Alaska"),
+  AZ: flat("Arizona", 2.5, { standardDeduction: "federal" }),
+  AR: { name: "Arkansas", single: AR, joint: AR, standardDeduction: { single: 2_340, joint: 4_680 }, personalCredit: 29, dependentCredit: 29 },
+  CA: { name: "California", single: CA, joint: CA_JOINT, standardDeduction: { single: 5_540, joint: 11_080 }, personalCredit: 149, dependentCredit: 461 },
+  CO: flat("Colorado", 4.25, { standardDeduction: "federal" }),
+  CT: { name: "Connecticut", single: CT, joint: doubled(CT), standardDeduction: { single: 15_000, joint: 24_000 } },
+  DE: { name: "Delaware", single: DE, joint: DE, standardDeduction: { single: 3_250, joint: 6_500 }, personalCredit: 110, dependentCredit: 110 },
+  DC: { name: "District of Columbia", single: DC, joint: DC, standardDeduction: "federal" },
+  FL: NO_INCOME_TAX("Florida"),
+  GA: flat("Georgia", 5.39, { standardDeduction: { single: 12_000, joint: 24_000 }, dependentExemption: 4_000 }),
+  HI: { name: "Hawaii", single: HI, joint: doubled(HI), standardDeduction: { single: 4_400, joint: 8_800 }, personalExemption: 1_144, dependentExemption: 1_144 },
+  ID: { name: "Idaho", single: brackets([0, 0], [4_673, 5.695]), joint: brackets([0, 0], [9_346, 5.695]), standardDeduction: "federal" },
+  IL: flat("Illinois", 4.95, { personalExemption: 2_775, dependentExemption: 2_775 }),
+  IN: flat("Indiana", 3.05, { personalExemption: 1_000, dependentExemption: 1_000 }),
+  IA: { name: "Iowa", single: brackets([0, 4.4], [6_210, 4.82], [31_050, 5.7]), joint: brackets([0, 4.4], [12_420, 4.82], [62_100, 5.7]), standardDeduction: "federal" },
+  KS: { name: "Kansas", single: brackets([0, 5.2], [23_000, 5.58]), joint: brackets([0, 5.2], [46_000, 5.58]), standardDeduction: { single: 3_605, joint: 8_240 }, personalExemption: 9_160, dependentExemption: 2_320 },
+  KY: flat("Kentucky", 4.0, { standardDeduction: { single: 3_160, joint: 6_320 } }),
+  LA: { name: "Louisiana", single: LA, joint: doubled(LA), standardDeduction: { single: 0, joint: 0 }, personalExemption: 4_500, dependentExemption: 1_000 },
+  ME: { name: "Maine", single: brackets([0, 5.8], [26_050, 6.75], [61_600, 7.15]), joint: brackets([0, 5.8], [52_100, 6.75], [123_250, 7.15]), standardDeduction: "federal", personalExemption: 5_000, dependentExemption: 5_000 },
+  MD: { name: "Maryland", single: brackets([0, 2], [1_000, 3], [2_000, 4], [3_000, 4.75], [100_000, 5], [125_000, 5.25], [150_000, 5.5], [250_000, 5.75]), joint: brackets([0, 2], [1_000, 3], [2_000, 4], [3_000, 4.75], [150_000, 5], [175_000, 5.25], [225_000, 5.5], [300_000, 5.75]), standardDeduction: { single: 2_550, joint: 5_150 }, personalExemption: 3_200, dependentExemption: 3_200 },
+  MA: { name: "Massachusetts", single: brackets([0, 5], [1_053_750, 9]), joint: brackets([0, 5], [1_053_750, 9]), standardDeduction: { single: 0, joint: 0 }, personalExemption: 4_400, dependentExemption: 1_000 },
+  MI: flat("Michigan", 4.25, { personalExemption: 5_600, dependentExemption: 5_600 }),
+  MN: { name: "Minnesota", single: brackets([0, 5.35], [31_690, 6.8], [104_090, 7.85], [193_240, 9.85]), joint: brackets([0, 5.35], [46_330, 6.8], [184_040, 7.85], [321_450, 9.85]), standardDeduction: { single: 14_575, joint: 29_150 }, dependentExemption: 5_050 },
+  MS: { name: "Mississippi", single: brackets([0, 0], [10_000, 4.7]), joint: brackets([0, 0], [10_000, 4.7]), standardDeduction: { single: 2_300, joint: 4_600 }, personalExemption: 6_000, dependentExemption: 1_500 },
+  MO: { name: "Missouri", single: MO, joint: MO, standardDeduction: "federal" },
+  MT: { name: "Montana", single: brackets([0, 4.7], [20_500, 5.9]), joint: brackets([0, 4.7], [41_000, 5.9]), standardDeduction: "federal" },
+  NE: { name: "Nebraska", single: brackets([0, 2.46], [3_880, 3.51], [23_370, 5.01], [37_670, 5.84]), joint: brackets([0, 2.46], [7_770, 3.51], [46_750, 5.01], [75_340, 5.84]), standardDeduction: { single: 8_300, joint: 16_600 }, personalCredit: 171, dependentCredit: 171 },
+  NV: NO_INCOME_TAX("Nevada"),
+  NH: NO_INCOME_TAX("New Hampshire"), // interest & dividends only; repealed for 2025
+  NJ: { name: "New Jersey", single: brackets([0, 1.4], [20_000, 1.75], [35_000, 3.5], [40_000, 5.525], [75_000, 6.37], [500_000, 8.97], [1_000_000, 10.75]), joint: brackets([0, 1.4], [20_000, 1.75], [50_000, 2.45], [70_000, 3.5], [80_000, 5.525], [150_000, 6.37], [500_000, 8.97], [1_000_000, 10.75]), standardDeduction: { single: 0, joint: 0 }, personalExemption: 1_000, dependentExemption: 1_500 },
+  NM: { name: "New Mexico", single: brackets([0, 1.7], [5_500, 3.2], [11_000, 4.7], [16_000, 4.9], [210_000, 5.9]), joint: brackets([0, 1.7], [8_000, 3.2], [16_000, 4.7], [24_000, 4.9], [315_000, 5.9]), standardDeduction: "federal", dependentExemption: 4_000 },
+  NY: { name: "New York", single: NY, joint: brackets([0, 4], [17_150, 4.5], [23_600, 5.25], [27_900, 5.5], [161_550, 6], [323_200, 6.85], [2_155_350, 9.65], [5_000_000, 10.3], [25_000_000, 10.9]), standardDeduction: { single: 8_000, joint: 16_050 }, dependentExemption: 1_000 },
+  NC: flat("North Carolina", 4.5, { standardDeduction: { single: 12_750, joint: 25_500 } }),
+  ND: { name: "North Dakota", single: brackets([0, 0], [47_150, 1.95], [238_200, 2.5]), joint: brackets([0, 0], [78_775, 1.95], [289_975, 2.5]), standardDeduction: "federal" },
+  OH: { name: "Ohio", single: OH, joint: OH, standardDeduction: { single: 0, joint: 0 }, personalExemption: 2_400, dependentExemption: 2_400 },
+  OK: { name: "Oklahoma", single: OK, joint: doubled(OK), standardDeduction: { single: 6_350, joint: 12_700 }, personalExemption: 1_000, dependentExemption: 1_000 },
+  OR: { name: "Oregon", single: OR, joint: doubled(OR), standardDeduction: { single: 2_745, joint: 5_495 }, personalCredit: 249, dependentCredit: 249 },
+  PA: flat("Pennsylvania", 3.07),
+  RI: { name: "Rhode Island", single: RI, joint: RI, standardDeduction: { single: 10_550, joint: 21_150 }, personalExemption: 4_950, dependentExemption: 4_950 },
+  SC: { name: "South Carolina", single: brackets([0, 0], [3_460, 3], [17_330, 6.2]), joint: brackets([0, 0], [3_460, 3], [17_330, 6.2]), standardDeduction: "federal", dependentExemption: 4_700 },
+  SD: NO_INCOME_TAX("South Dakota"),
+  TN: NO_INCOME_TAX("Tennessee"),
+  TX: NO_INCOME_TAX("Texas"),
+  UT: flat("Utah", 4.55, { personalCredit: 876 }), // taxpayer credit: 6% of the federal standard deduction
+  VT: { name: "Vermont", single: brackets([0, 3.35], [45_400, 6.6], [110_050, 7.6], [229_550, 8.75]), joint: brackets([0, 3.35], [75_850, 6.6], [183_400, 7.6], [279_450, 8.75]), standardDeduction: { single: 7_400, joint: 14_850 }, personalExemption: 4_850, dependentExemption: 4_850 },
+  VA: { name: "Virginia", single: VA, joint: VA, standardDeduction: { single: 8_000, joint: 16_000 }, personalExemption: 930, dependentExemption: 930 },
+  WA: NO_INCOME_TAX("Washington"), // capital gains only
+  WV: { name: "West Virginia", single: WV, joint: WV, standardDeduction: { single: 0, joint: 0 }, personalExemption: 2_000, dependentExemption: 2_000 },
+  WI: { name: "Wisconsin", single: brackets([0, 3.5], [14_320, 4.4], [28_640, 5.3], [315_310, 7.65]), joint: brackets([0, 3.5], [19_090, 4.4], [38_190, 5.3], [420_420, 7.65]), standardDeduction: { single: 13_230, joint: 24_490 }, personalExemption: 700, dependentExemption: 700 },
+  WY: NO_INCOME_TAX("Wyoming"),
+} satisfies Record<string, StateIncomeTax>
+
+export type StateCode = keyof typeof STATE_INCOME_TAX
+
+export const STATE_CODES = Object.keys(STATE_INCOME_TAX).sort() as StateCode[]
+
+export function isStateCode(code: string | undefined): code is StateCode {
+  return code !== undefined && code in STATE_INCOME_TAX
+}
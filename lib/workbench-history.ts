@@ -0,0 +1,129 @@
+// Labels for the Mortgage & Move workbench's undo history. The history records
+// whole-workbench snapshots; this names what changed between two of them —
+// "Deleted \"Drive Uber\"", "Home Base: down payment percentage 20 → 10" — and
+// gives each change a key so a burst of edits to the same thing (a slider drag,
+// typing an amount) becomes one entry. No UI, no side effects.
+
+import { diffPlanSections } from "./plan-bundle"
+import type { EntryChange, FieldChange, PlanSections } from "./plan-bundle"
+import { sampleProperties } from "./property-data"
+import { ITEM_DERIVED_INPUTS } from "./scenario-snapshots"
+import type { FinancialItem, UserProfile } from "./property-types"
+
+export interface WorkbenchState {
+  profile: UserProfile
+  financialItems: FinancialItem[]
+}
+
+export interface WorkbenchChange {
+  key: string   // same key + close in time → one history entry
+  label: string
+}
+
+// Scenario totals recomputed from the financial items are a consequence of an
+// item change, never an edit of their own
+const DERIVED_INPUTS = new Set(ITEM_DERIVED_INPUTS.map((field) => `financialInputs.${field}`))
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function sections(state: WorkbenchState): PlanSections {
+  return { profile: state.profile, financialItems: state.financialItems, rehearsal: null, liquidityBuckets: [] }
+}
+
+// "financialInputs.downPaymentPercentage" → "down payment percentage"
+function fieldName(field: string): string {
+  return (field.split(".").pop() ?? field).replace(/([A-Z])/g, " $1").toLowerCase()
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "—"
+  if (typeof value === "number") return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+  return String(value)
+}
+
+function propertyName(id: string): string {
+  return sampleProperties.find((p) => p.id === id)?.address ?? id
+}
+
+function describeItem(change: EntryChange): WorkbenchChange {
+  const key = `item:${change.id}`
+  if (change.kind === "added") return { key: `${key}:added`, label: `Added "${change.label}"` }
+  if (change.kind === "removed") return { key: `${key}:removed`, label: `Deleted "${change.label}"` }
+  if (change.fields.length === 1 && change.fields[0].field === "active") {
+    return { key: `${key}:active`, label: `${change.fields[0].to ? "Turned on" : "Turned off"} "${change.label}"` }
+  }
+  return { key, label: `Edited "${change.label}"` }
+}
+
+function describeScenario(change: EntryChange, fields: FieldChange[]): WorkbenchChange {
+  const key = `scenario:${change.id}`
+  if (change.kind === "added") return { key: `${key}:added`, label: `Added scenario "${change.label}"` }
+  if (change.kind === "removed") return { key: `${key}:removed`, label: `Deleted scenario "${change.label}"` }
+  if (fields.length === 1 && fields[0].field === "name") {
+    return { key: `${key}:name`, label: `Renamed scenario to "${change.label}"` }
+  }
+  if (fields.length === 1) {
+    const [{ field, from, to }] = fields
+    return { key: `${key}:${field}`, label: `${change.label}: ${fieldName(field)} ${formatValue(from)} → ${formatValue(to)}` }
+  }
+  return { key, label: `Edited scenario "${change.label}"` }
+}
+
+// ─── Describe ───────────────────────────────────────────────
+
+/**
+ * What the user did between two workbench states, or null when nothing but
+ * derived totals or auto snapshots changed (those fold into the current entry).
+ */
+export function describeWorkbenchChange(before: WorkbenchState, after: WorkbenchState): WorkbenchChange | null {
+  const diff = diffPlanSections(sections(before), sections(after))
+  const changesIn = (section: string) => diff.find((s) => s.section === section)?.changes ?? []
+
+  // An item change also rewrites the scenario totals, so items come first
+  const items = changesIn("financialItems")
+  if (items.length === 1) return describeItem(items[0])
+  if (items.length > 1) return { key: "items", label: `Edited ${items.length} financial items` }
+
+  // Auto snapshots ride along with the edit that triggered them
+  const snapshots = changesIn("scenarioSnapshots")
+  const snapshot = snapshots.find((change) => change.kind !== "added")
+    ?? snapshots.find((change) => after.profile.scenarioSnapshots.some((s) => s.id === change.id && s.trigger === "manual"))
+  if (snapshot) {
+    const verb = snapshot.kind === "added" ? "Took snapshot" : snapshot.kind === "removed" ? "Deleted snapshot" : "Edited snapshot"
+    return { key: `snapshot:${snapshot.id}`, label: `${verb} "${snapshot.label}"` }
+  }
+
+  const scenarios = changesIn("scenarios")
+    .map((change) => ({ change, fields: change.fields.filter((f) => !DERIVED_INPUTS.has(f.field)) }))
+    .filter(({ change, fields }) => change.kind !== "changed" || fields.length > 0)
+  if (scenarios.length === 1) return describeScenario(scenarios[0].change, scenarios[0].fields)
+  if (scenarios.length > 1) return { key: "scenarios", label: `Edited ${scenarios.length} scenarios` }
+
+  const phases = changesIn("journeyPhases")
+  if (phases.length > 0) {
+    const beforePhases = new Map(before.profile.journeyPhases.map((p) => [p.id, p]))
+    for (const phase of after.profile.journeyPhases) {
+      const moved = phase.properties.find((id) => !beforePhases.get(phase.id)?.properties.includes(id))
+      if (moved) return { key: `phase:${moved}`, label: `Moved ${propertyName(moved)} to ${phase.name}` }
+    }
+    return { key: "phases", label: "Edited journey phases" }
+  }
+
+  const saved = changesIn("savedProperties")
+  if (saved.length === 1) {
+    const [change] = saved
+    return { key: `saved:${change.id}`, label: `${change.kind === "added" ? "Saved" : "Unsaved"} ${propertyName(change.id)}` }
+  }
+  if (saved.length > 1) return { key: "saved", label: "Edited saved properties" }
+
+  const household = changesIn("household")
+  if (household.length > 0) {
+    if (before.profile.activeScenarioId !== after.profile.activeScenarioId) {
+      const active = after.profile.scenarios.find((s) => s.id === after.profile.activeScenarioId)
+      return { key: "active-scenario", label: `Switched to "${active?.name ?? after.profile.activeScenarioId}"` }
+    }
+    return { key: "household", label: "Edited household" }
+  }
+
+  return null
+}
@@ -0,0 +1,195 @@
+// Affordability, amortization and APR examples and assertions.
+// Checks the constraint engine against the solvers it replaced on the default
+// scenarios, the amortization schedule against a textbook loan, and the APR
+// solver against Reg Z Appendix J examples. Prints PASS/FAIL per check.
+
+import { calculateMaxAffordability } from '../lib/affordability-calculations'
+import { UPFRONT_COSTS, solveAffordability } from '../lib/affordability-engine'
+import { DEFAULTS, amortizationSchedule, piti, pmt, rateMonthlyFromPercent, solvePriceWithDynamicDownPayment, solvePurchasePriceForMonthlyBudget } from '../lib/finance-core'
+import type { LoanParams } from '../lib/finance-core'
+import { aprAnalysis, solveApr } from '../lib/apr-calculator'
+import { getLoanProgram, programLoanParams } from '../lib/loan-programs'
+import type { LoanProgramId } from '../lib/loan-programs'
+import { defaultScenarios } from '../lib/property-data'
+import type { Scenario } from '../lib/property-types'
+
+const assert = (label: string, cond: boolean) => {
+  console.log(`${cond ? 'PASS' : 'FAIL'}: ${label}`)
+}
+const near = (a: number, b: number, tol = 0.01) => Math.abs(a - b) <= tol
+
+// --- The solvers the engine replaced, kept here as reference ---
+
+// Old fixed-price-percent solver: bisects until PITI is within `tol` of the target
+function referenceBudgetSolve(loan: Omit<LoanParams, 'purchasePrice'>, targetMonthly: number, tol = 50): number {
+  let low = 0
+  let high = 2_000_000
+  let best = 0
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2
+    const m = piti({ ...loan, purchasePrice: mid }).monthly
+    if (Math.abs(m - targetMonthly) <= tol) return mid
+    if (m > targetMonthly) {
+      high = mid
+    } else {
+      best = mid
+      low = mid
+    }
+  }
+  return best
+}
+
+// Old income roof: fixed-point iteration on price, stopping within $1,000
+function referenceIncomeRoof(scenario: Scenario, maxMonthlyPayment: number, downPaymentPercent: number, taxRate = 0.0181): number {
+  const { financialInputs } = scenario
+  const program = getLoanProgram(financialInputs.loanProgram)
+  const loanParamsAt = (price: number, downPayment: number): LoanParams =>
+    programLoanParams(program, {
+      purchasePrice: price,
+      downPaymentPercent: price > 0 ? Math.min(100, (downPayment / price) * 100) : 100,
+      interestRatePercent: financialInputs.interestRate,
+      termYears: financialInputs.loanTerm,
+      propertyTaxRatePercent: taxRate * 100,
+      annualInsurance: DEFAULTS.annualInsurance,
+    })
+  const paymentPerLoanDollar = pmt(1, rateMonthlyFromPercent(financialInputs.interestRate), financialInputs.loanTerm * 12)
+
+  let price = 0
+  let estimate = 400000
+  for (let i = 0; i < 50; i++) {
+    const availableForPI = maxMonthlyPayment - estimate * (taxRate / 12) - DEFAULTS.annualInsurance / 12
+    if (availableForPI <= 0) {
+      estimate *= 0.8
+      continue
+    }
+    const atEstimate = piti(loanParamsAt(estimate, (estimate * downPaymentPercent) / 100))
+    const loanPerPriceDollar = atEstimate.loanAmount / estimate
+    const miPerLoanDollar = atEstimate.loanAmount > 0 ? atEstimate.pmi / atEstimate.loanAmount : 0
+    const fromLoan = availableForPI / (paymentPerLoanDollar + miPerLoanDollar) / loanPerPriceDollar
+    price = fromLoan
+    if (Math.abs(fromLoan - estimate) < 1000) break
+    estimate = fromLoan
+  }
+  return price
+}
+
+// Old cash roof, closed form; the default scenarios carry no points or buydown
+function referenceCashRoof(scenario: Scenario, downPaymentPercent: number): number {
+  const fixed = UPFRONT_COSTS.preCloseCosts + UPFRONT_COSTS.movingSetup
+  return Math.max(0, scenario.financialInputs.downPaymentSources - fixed) / (downPaymentPercent / 100 + UPFRONT_COSTS.closingCostRate)
+}
+
+// --- Engine vs. the old solvers on the default scenarios ---
+
+const withProgram = (scenario: Scenario, loanProgram: LoanProgramId): Scenario => ({
+  ...scenario,
+  financialInputs: { ...scenario.financialInputs, loanProgram },
+})
+const cases: Scenario[] = [...defaultScenarios, ...defaultScenarios.map(s => withProgram(s, 'fha'))]
+
+for (const scenario of cases) {
+  const { financialInputs } = scenario
+  const name = `${scenario.name} (${financialInputs.loanProgram ?? 'conventional'})`
+  const program = getLoanProgram(financialInputs.loanProgram)
+  const housing = financialInputs.housingPercentage ?? 30
+  const downPaymentPercent = Math.max(financialInputs.downPaymentPercentage ?? 20, program.minDownPaymentPercent)
+  const result = calculateMaxAffordability(scenario, housing, financialInputs.downPaymentPercentage ?? 20)
+  const base = solveAffordability({
+    grossMonthlyIncome: financialInputs.annualIncome / 12,
+    fixedDebts: financialInputs.fixedDebts,
+    budgetPayment: result.maxBudgetPayment,
+    availableCash: financialInputs.downPaymentSources,
+    downPaymentPercent,
+    loan: {
+      interestRatePercent: financialInputs.interestRate,
+      termYears: financialInputs.loanTerm,
+      propertyTaxRatePercent: 1.81,
+      annualInsurance: DEFAULTS.annualInsurance,
+    },
+    loanProgram: program.id,
+    upfrontCosts: UPFRONT_COSTS,
+  })
+
+  const grossMonthly = financialInputs.annualIncome / 12
+  const referenceDTI = Math.min(
+    grossMonthly * (program.backEndDTIPercent / 100) - financialInputs.fixedDebts,
+    program.frontEndDTIPercent !== undefined ? grossMonthly * (program.frontEndDTIPercent / 100) : Infinity,
+  )
+  assert(`${name}: DTI payment limit matches the old formula`, near(result.maxHousingPaymentFromDTI, Math.max(0, referenceDTI)))
+
+  const incomeRoof = referenceIncomeRoof(scenario, result.maxMonthlyPayment, downPaymentPercent)
+  assert(`${name}: income roof within the old iteration's $1,000`, near(base.incomeRoof, incomeRoof, 1000))
+  assert(`${name}: cash roof matches the old closed form`, near(result.maxPriceFromDownPayment, referenceCashRoof(scenario, downPaymentPercent), 1))
+  assert(
+    `${name}: roof is the lower of the income and cash roofs`,
+    near(result.maxPurchasePrice, Math.min(incomeRoof, referenceCashRoof(scenario, downPaymentPercent)), 1000),
+  )
+}
+
+// finance-core price solvers vs. the old bisection
+const budgetLoan = {
+  downPaymentPercent: 10,
+  interestRatePercent: 6.5,
+  termYears: 30,
+  propertyTaxRatePercent: 1.2,
+  annualInsurance: 1800,
+  pmiAnnualRatePercent: 0.6,
+}
+for (const target of [1500, 2500, 4000]) {
+  const solved = solvePurchasePriceForMonthlyBudget({ ...budgetLoan, targetMonthly: target })
+  const reference = referenceBudgetSolve(budgetLoan, target)
+  assert(`solvePurchasePriceForMonthlyBudget $${target}: PITI within the target`, piti({ ...budgetLoan, purchasePrice: solved }).monthly <= target + 0.01)
+  assert(
+    `solvePurchasePriceForMonthlyBudget $${target}: within the old solver's $50 payment tolerance`,
+    near(piti({ ...budgetLoan, purchasePrice: solved }).monthly, piti({ ...budgetLoan, purchasePrice: reference }).monthly, 50),
+  )
+}
+const dynamic = solvePriceWithDynamicDownPayment({
+  ...budgetLoan,
+  targetMonthly: 3000,
+  availableDownPayment: 60000,
+  dpCapPercent: 20,
+})
+const dynamicDp = Math.min(20, (60000 / dynamic) * 100)
+assert(
+  'solvePriceWithDynamicDownPayment: PITI at the solved price fits the target',
+  piti({ ...budgetLoan, purchasePrice: dynamic, downPaymentPercent: dynamicDp }).monthly <= 3000 + 0.01,
+)
+assert(
+  'solvePriceWithDynamicDownPayment: a dollar more no longer fits',
+  piti({ ...budgetLoan, purchasePrice: dynamic + 2, downPaymentPercent: Math.min(20, (60000 / (dynamic + 2)) * 100) }).monthly > 3000,
+)
+
+// --- Amortization: $200,000 at 6% for 30 years ---
+
+const textbookLoan: LoanParams = {
+  purchasePrice: 200000,
+  downPaymentPercent: 0,
+  interestRatePercent: 6,
+  termYears: 30,
+  propertyTaxRatePercent: 0,
+  annualInsurance: 0,
+  pmiAnnualRatePercent: 0,
+}
+const textbook = amortizationSchedule(textbookLoan)
+assert('amortizationSchedule: P&I is $1,199.10', near(textbook.principalAndInterest, 1199.10, 0.005))
+assert('amortizationSchedule: month 1 is $1,000.00 interest, $199.10 principal', near(textbook.months[0].interest, 1000) && near(textbook.months[0].principal, 199.10, 0.005))
+assert('amortizationSchedule: balance after year 1 is $197,543.98', near(textbook.years[0].endingBalance, 197543.98, 0.01))
+assert('amortizationSchedule: balance after year 15 is $142,097.69', near(textbook.years[14].endingBalance, 142097.69, 0.01))
+assert('amortizationSchedule: 360 payments, paid off', textbook.payoffMonth === 360 && near(textbook.months[359].balance, 0))
+assert('amortizationSchedule: total interest is $231,676.38', near(textbook.totalInterest, 231676.38, 0.01))
+assert('amortizationSchedule: yearly rollups sum to the monthly rows', near(textbook.years.reduce((s, y) => s + y.interest, 0), textbook.totalInterest))
+assert('amortizationSchedule: every year has 12 payments', textbook.years.every(y => y.months === 12))
+const prepaid = amortizationSchedule(textbookLoan, { extraMonthlyPrincipal: 200 })
+assert('amortizationSchedule: extra principal pays off sooner and the final year is partial', prepaid.payoffMonth < 360 && prepaid.years.slice(-1)[0].months === ((prepaid.payoffMonth - 1) % 12) + 1)
+
+// --- APR: Reg Z Appendix J ---
+
+// Single advance, regular monthly payments: $5,000 financed, 36 payments of $166.07 → 12.00%
+assert('solveApr: Appendix J $5,000 / 36 × $166.07 is 12.00%', near(solveApr(5000, Array(36).fill(166.07)), 12.00, 0.005))
+// A loan with no prepaid finance charges has an APR equal to its note rate
+assert('aprAnalysis: no charges → APR equals the note rate', near(aprAnalysis(textbookLoan).aprPercent, 6, 0.0005))
+const charged = aprAnalysis(textbookLoan, { lenderFees: 2000, pointsCost: 2000 })
+assert('aprAnalysis: amount financed is the loan less prepaid finance charges', near(charged.amountFinanced, 196000))
+assert('aprAnalysis: finance charge = total of payments − amount financed', near(charged.financeCharge, charged.totalOfPayments - charged.amountFinanced))
+assert('aprAnalysis: $4,000 of charges on $200,000 at 6% is about 6.19%', near(charged.aprPercent, 6.19, 0.01))
@@ -0,0 +1,414 @@
+// Liquidity engine examples and assertions.
+// Runs the engine against a small example household and prints PASS/FAIL per
+// check, then the LEI result. Kept out of lib/ so importing the engine has no
+// console output.
+
+import {
+  activeBuckets,
+  annualExcess,
+  annualReserveBalance,
+  appendJournalEntries,
+  balanceHistory,
+  balanceResetEntries,
+  CHARGE_TRANSITIONS,
+  clearingFloat,
+  clearingIntegrity,
+  clearingState,
+  executeRedistribution,
+  EXTERNAL_ACCOUNT,
+  fundedChargesTotal,
+  isDormant,
+  journalBalance,
+  journalCatchUp,
+  liquidityElasticityIndex,
+  monthsUntilDue,
+  outstandingTotal,
+  peakFundingShield,
+  pressureValveEligible,
+  reconcileBucket,
+  redistributionPlan,
+  requiredAnnualReserve,
+  reverseJournalEntry,
+  reverseRedistribution,
+  runJournalEntries,
+  sinkingFundSchedule,
+  transitionCharge,
+  withJournalBalances,
+} from '../lib/liquidity-engine'
+import type { Bucket, Charge, ExecutionState, JournalEntry, LedgerEntry, Obligation } from '../lib/liquidity-engine'
+
+// --- Example data ---
+
+const EXAMPLE_BUCKETS: Bucket[] = [
+  { id: 'op1',  name: 'Checking',         type: 'operating',      status: 'active',  balance: 3200,  targetRule: 'none',  constraints: 'none' },
+  { id: 'sm1',  name: 'MonthlyBills',      type: 'smoothing',      status: 'active',  balance: 1800,  targetRule: 'peak',  constraints: 'none' },
+  { id: 'sm2',  name: 'Groceries',         type: 'smoothing',      status: 'active',  balance:  600,  targetRule: 'peak',  constraints: 'none' },
+  { id: 'lr1',  name: 'AnnualReserve',     type: 'ledger_reserve', status: 'active',  balance: 8400,  targetRule: 'fixed', constraints: 'ledger_required' },
+  { id: 'cl1',  name: 'ChaseClearing',     type: 'clearing',       status: 'active',  balance:  950,  targetRule: 'none',  constraints: 'transfer_required' },
+  { id: 'zzold',name: 'zzOldSavings',      type: 'capital',        status: 'dormant', balance: 2000,  targetRule: 'none',  constraints: 'none' },
+]
+
+const EXAMPLE_OBLIGATIONS: Obligation[] = [
+  { id: 'ob1', name: 'Home Insurance',    expectedCost: 2400, dueMonth: 3,  paid: false },
+  { id: 'ob2', name: 'Car Registration',  expectedCost:  800, dueMonth: 7,  paid: false },
+  { id: 'ob3', name: 'Property Tax',      expectedCost: 3600, dueMonth: 11, paid: false },
+  { id: 'ob4', name: 'Term Life Premium', expectedCost: 1200, dueMonth: 1,  paid: true  },
+]
+
+const EXAMPLE_CHARGES: Charge[] = [
+  { id: 'ch1', merchant: 'Petco',      amount: 68,  date: '2025-06-02', categoryHint: 'MonthlyBills', status: 'funded',           bucketId: 'sm1' },
+  { id: 'ch2', merchant: 'Whole Foods',amount: 145, date: '2025-06-03', categoryHint: 'Groceries',    status: 'matched_unfunded', bucketId: 'sm2' },
+  { id: 'ch3', merchant: 'Shell',      amount: 82,  date: '2025-06-04', categoryHint: 'Auto',         status: 'unmatched' },
+  { id: 'ch4', merchant: 'Netflix',    amount: 18,  date: '2025-06-01', categoryHint: 'MonthlyBills', status: 'cleared',          bucketId: 'sm1' },
+  { id: 'ch5', merchant: 'Amazon',     amount: 35,  date: '2025-06-05',                               status: 'ignored' },
+]
+
+const EXAMPLE_VARS_12MO: Record<string, number[]> = {
+  groceries: [380, 410, 390, 425, 440, 460, 390, 375, 410, 430, 490, 510],
+  utilities: [160, 170, 150, 130, 120, 140, 200, 210, 175, 155, 180, 195],
+  auto_fuel:  [75,  80,  70,  90,  85,  95,  80,  70,  75,  90,  85, 100],
+}
+
+// --- Assertions ---
+
+function assert(label: string, condition: boolean): void {
+  if (!condition) console.error(`FAIL: ${label}`)
+  else            console.log (`PASS: ${label}`)
+}
+
+function near(a: number, b: number, tolerance = 0.001): boolean {
+  return Math.abs(a - b) <= tolerance
+}
+
+// isDormant
+assert(
+  'isDormant: zz-prefixed name → dormant regardless of status field',
+  isDormant(EXAMPLE_BUCKETS.find(b => b.id === 'zzold')!),
+)
+assert(
+  'isDormant: active non-zz bucket → not dormant',
+  !isDormant(EXAMPLE_BUCKETS.find(b => b.id === 'op1')!),
+)
+
+// activeBuckets
+assert(
+  'activeBuckets: excludes zz dormant bucket',
+  activeBuckets(EXAMPLE_BUCKETS).every(b => !b.name.startsWith('zz')),
+)
+assert(
+  'activeBuckets: type filter returns only clearing buckets',
+  activeBuckets(EXAMPLE_BUCKETS, 'clearing').length === 1,
+)
+
+// requiredAnnualReserve (excludes paid ob4)
+assert(
+  'requiredAnnualReserve: excludes paid obligations',
+  near(requiredAnnualReserve(EXAMPLE_OBLIGATIONS), 2400 + 800 + 3600),
+)
+
+// annualReserveBalance
+assert(
+  'annualReserveBalance: sums only ledger_reserve active buckets',
+  near(annualReserveBalance(EXAMPLE_BUCKETS), 8400),
+)
+
+// annualExcess
+assert(
+  'annualExcess: zero when balance < required + buffer',
+  annualExcess(5000, 4000, 2000) === 0,
+)
+assert(
+  'annualExcess: positive when balance exceeds required + buffer',
+  near(annualExcess(9000, 4000, 2000), 3000),
+)
+
+// pressureValveEligible
+assert(
+  'pressureValveEligible: true when excess > threshold',
+  pressureValveEligible(3000, 1000),
+)
+assert(
+  'pressureValveEligible: false when excess === threshold',
+  !pressureValveEligible(1000, 1000),
+)
+
+// redistributionPlan
+const plan = redistributionPlan(1000, [
+  { targetId: 'sm1', weight: 3 },
+  { targetId: 'sm2', weight: 1 },
+])
+assert(
+  'redistributionPlan: allocations sum to excess',
+  near(plan.reduce((s, a) => s + a.amount, 0), 1000),
+)
+assert(
+  'redistributionPlan: weights normalize to 1',
+  near(plan.reduce((s, a) => s + a.pct, 0), 1),
+)
+assert(
+  'redistributionPlan: proportional split 75/25',
+  near(plan[0].amount, 750) && near(plan[1].amount, 250),
+)
+assert(
+  'redistributionPlan: empty when excess is 0',
+  redistributionPlan(0, [{ targetId: 'sm1', weight: 1 }]).length === 0,
+)
+
+// peakFundingShield
+const shield = peakFundingShield(EXAMPLE_VARS_12MO)
+assert('peakFundingShield: peakTotal > avgTotal', shield.peakTotal > shield.avgTotal)
+assert('peakFundingShield: shieldRatio in 0..1', shield.shieldRatio >= 0 && shield.shieldRatio <= 1)
+assert(
+  'peakFundingShield: absorbedTotal = peakTotal - avgTotal',
+  near(shield.absorbedTotal, shield.peakTotal - shield.avgTotal),
+)
+assert(
+  'peakFundingShield: empty input → all zeros',
+  (() => {
+    const r = peakFundingShield({})
+    return r.peakTotal === 0 && r.shieldRatio === 0
+  })(),
+)
+
+// outstandingTotal (excludes ignored ch5 and cleared ch4)
+assert(
+  'outstandingTotal: excludes ignored and cleared',
+  near(outstandingTotal(EXAMPLE_CHARGES), 68 + 145 + 82),
+)
+
+// fundedChargesTotal (funded ch1 + cleared ch4)
+assert(
+  'fundedChargesTotal: includes funded + cleared',
+  near(fundedChargesTotal(EXAMPLE_CHARGES), 68 + 18),
+)
+
+// clearingFloat
+assert(
+  'clearingFloat: zero when balance covers gap',
+  clearingFloat(100, 80, 50) === 0,
+)
+assert(
+  'clearingFloat: positive exposure when underfunded',
+  near(clearingFloat(300, 50, 100), 150),
+)
+
+// clearingIntegrity
+assert(
+  'clearingIntegrity: 1.0 when exposure is zero (fully funded)',
+  near(clearingIntegrity(500, 0), 1),
+)
+assert(
+  'clearingIntegrity: 1.0 when both are zero (clean slate)',
+  near(clearingIntegrity(0, 0), 1),
+)
+assert(
+  'clearingIntegrity: 0.0 when nothing funded',
+  near(clearingIntegrity(0, 200), 0),
+)
+assert(
+  'clearingIntegrity: 0.5 when half funded',
+  near(clearingIntegrity(100, 100), 0.5),
+)
+
+// transitionCharge
+const ch3 = EXAMPLE_CHARGES.find(c => c.id === 'ch3')!
+assert(
+  'transitionCharge: matching assigns the bucket',
+  transitionCharge(ch3, 'matched_unfunded', 'sm1').bucketId === 'sm1',
+)
+assert(
+  'transitionCharge: cannot skip from unmatched to funded',
+  (() => {
+    try { transitionCharge(ch3, 'funded'); return false } catch { return true }
+  })(),
+)
+assert(
+  'transitionCharge: cleared is terminal',
+  CHARGE_TRANSITIONS.cleared.length === 0,
+)
+
+// executeRedistribution / reverseRedistribution
+const valvePlan = redistributionPlan(1000, [{ targetId: 'op1', weight: 2 }, { targetId: 'sm2', weight: 1 }])
+const valveEntry: LedgerEntry = { id: 'le1', bucketId: 'lr1', date: '2026-10-18', amount: 1000, note: 'Pressure valve' }
+const valveState: ExecutionState = { buckets: EXAMPLE_BUCKETS, ledger: [], runs: [] }
+const refuses = (fn: () => unknown) => {
+  try { fn(); return false } catch { return true }
+}
+assert(
+  'executeRedistribution: refuses a ledger_reserve withdrawal without a ledger entry',
+  refuses(() => executeRedistribution(valveState, { id: 'r1', date: '2026-10-18', sourceId: 'lr1', plan: valvePlan })),
+)
+assert(
+  'executeRedistribution: refuses a ledger entry for a different amount',
+  refuses(() => executeRedistribution(valveState, {
+    id: 'r1', date: '2026-10-18', sourceId: 'lr1', plan: valvePlan, ledgerEntry: { ...valveEntry, amount: 900 },
+  })),
+)
+assert(
+  'executeRedistribution: refuses a transfer_required target',
+  refuses(() => executeRedistribution(valveState, {
+    id: 'r1', date: '2026-10-18', sourceId: 'lr1', plan: [{ targetId: 'cl1', amount: 100, pct: 1 }],
+    ledgerEntry: { ...valveEntry, amount: 100 },
+  })),
+)
+assert(
+  'executeRedistribution: refuses a transfer_required source',
+  refuses(() => executeRedistribution(valveState, {
+    id: 'r1', date: '2026-10-18', sourceId: 'cl1', plan: [{ targetId: 'op1', amount: 100, pct: 1 }],
+  })),
+)
+assert(
+  'executeRedistribution: refuses to overdraw the source',
+  refuses(() => executeRedistribution(valveState, {
+    id: 'r1', date: '2026-10-18', sourceId: 'sm2', plan: [{ targetId: 'op1', amount: 601, pct: 1 }],
+  })),
+)
+const ran = executeRedistribution(valveState, { id: 'r1', date: '2026-10-18', sourceId: 'lr1', plan: valvePlan, ledgerEntry: valveEntry })
+const balanceOf = (s: ExecutionState, bucketId: string) => s.buckets.find(b => b.id === bucketId)!.balance
+assert('executeRedistribution: source debited by the plan total', near(balanceOf(ran, 'lr1'), 7400))
+assert('executeRedistribution: cent-rounded transfers sum to the total', near(ran.runs[0].transfers.reduce((s, t) => s + t.amount, 0), 1000))
+assert('executeRedistribution: ledger entry is logged once', ran.ledger.length === 1)
+assert(
+  'executeRedistribution: a ledger entry covers only one run',
+  refuses(() => executeRedistribution(ran, { id: 'r2', date: '2026-10-18', sourceId: 'lr1', plan: valvePlan, ledgerEntry: valveEntry })),
+)
+const undone = reverseRedistribution(ran, 'r1', { id: 'r1-undo', date: '2026-10-19' })
+assert('reverseRedistribution: balances restored', EXAMPLE_BUCKETS.every(b => near(balanceOf(undone, b.id), b.balance)))
+assert('reverseRedistribution: original is linked to its reversal', undone.runs[0].reversedBy === 'r1-undo')
+assert(
+  'reverseRedistribution: a run can only be reversed once',
+  refuses(() => reverseRedistribution(undone, 'r1', { id: 'r1-undo-2', date: '2026-10-19' })),
+)
+
+// sinkingFundSchedule
+const sinking = sinkingFundSchedule({
+  obligations: [
+    { id: 'a', name: 'Insurance', expectedCost: 1200, dueMonth: 3, paid: false },
+    { id: 'q', name: 'Water', expectedCost: 300, dueMonth: 2, paid: false, frequency: 'quarterly' },
+    { id: 'p', name: 'Premium', expectedCost: 600, dueMonth: 10, paid: true },
+  ],
+  startMonth: '2026-10',
+  openingBalance: 0,
+})
+const monthOf = (month: string) => sinking.months.find(m => m.month === month)!
+assert('monthsUntilDue: quarterly due Feb is next due in Nov from Oct', monthsUntilDue({ id: 'q', name: 'q', expectedCost: 1, dueMonth: 2, paid: false, frequency: 'quarterly' }, 10) === 1)
+assert('sinkingFundSchedule: quarterly occurrences fall every 3 months', ['2026-11', '2027-02', '2027-05', '2027-08'].every(m => monthOf(m).due.some(d => d.obligationId === 'q')))
+assert('sinkingFundSchedule: annual insurance saved over the 6 months to March', near(monthOf('2026-10').contribution, 200 + 150, 0.02))
+assert('sinkingFundSchedule: planned balance never goes negative', sinking.months.every(m => m.plannedBalance >= -0.005))
+assert('sinkingFundSchedule: paid occurrence is skipped', !monthOf('2026-10').due.some(d => d.obligationId === 'p'))
+assert('sinkingFundSchedule: following the plan leaves no short months', sinking.shortMonths.length === 0)
+const underfunded = sinkingFundSchedule({ obligations: [{ id: 'a', name: 'Insurance', expectedCost: 1200, dueMonth: 3, paid: false }], startMonth: '2026-10', openingBalance: 0, actualContribution: 100 })
+assert('sinkingFundSchedule: a fixed contribution below plan flags the due month', underfunded.shortMonths[0] === '2027-03' && near(underfunded.months[5].shortfall, 600))
+
+// Bucket journal
+const openings = journalCatchUp(EXAMPLE_BUCKETS, [], { date: '2026-10-01', idPrefix: 'open' })
+const accounts = { buckets: EXAMPLE_BUCKETS, ledger: ran.ledger }
+const journal = appendJournalEntries(openings, [
+  ...runJournalEntries(ran.runs[0]),
+  { id: 'j-clear', kind: 'clearing', fromId: 'cl1', toId: EXTERNAL_ACCOUNT, amount: 18, date: '2026-10-20', reason: 'Netflix', chargeId: 'ch4' },
+], accounts)
+const derived = withJournalBalances(EXAMPLE_BUCKETS, journal)
+assert('journalCatchUp: openings reproduce every balance', EXAMPLE_BUCKETS.every(b => near(journalBalance(openings, b.id), b.balance)))
+assert(
+  'journalCatchUp: a bucket the journal knows keeps its journal balance',
+  journalCatchUp(EXAMPLE_BUCKETS.map(b => ({ ...b, balance: b.balance + 50 })), openings, { date: '2026-10-02', idPrefix: 'sync' }).length === 0,
+)
+assert(
+  'journalCatchUp: only a bucket the journal hasn\'t seen gets an opening entry',
+  (() => {
+    const added = journalCatchUp([...EXAMPLE_BUCKETS, { ...EXAMPLE_BUCKETS[0], id: 'new1', balance: 25 }], openings, { date: '2026-10-02', idPrefix: 'sync' })
+    return added.length === 1 && added[0].kind === 'opening' && added[0].toId === 'new1' && added[0].amount === 25
+  })(),
+)
+assert(
+  'withJournalBalances: a bucket the journal hasn\'t seen keeps its stored balance',
+  withJournalBalances([{ ...EXAMPLE_BUCKETS[0], id: 'new1', balance: 25 }], journal)[0].balance === 25,
+)
+const imported = derived.map(b => (b.id === 'sm1' ? { ...b, balance: b.balance + 120 } : b))
+const resets = balanceResetEntries(imported, journal, { date: '2026-10-22', idPrefix: 'import', reason: 'Plan import' })
+assert(
+  'balanceResetEntries: only a changed balance is journaled, and the journal then matches the import',
+  resets.length === 1 && resets[0].reason === 'Plan import' && near(journalBalance([...journal, ...resets], 'sm1'), imported.find(b => b.id === 'sm1')!.balance),
+)
+assert('withJournalBalances: redistribution and clearing are reflected', near(derived.find(b => b.id === 'lr1')!.balance, 7400) && near(derived.find(b => b.id === 'cl1')!.balance, 932))
+assert('journalBalance: as-of date excludes later entries', near(journalBalance(journal, 'cl1', '2026-10-19'), 950))
+assert(
+  'balanceHistory: running balance ends at the derived balance',
+  near(balanceHistory(journal, 'lr1').slice(-1)[0].balance, 7400),
+)
+assert('reconcileBucket: statement matching the journal reconciles', reconcileBucket(journal, 'cl1', 932, '2026-10-31').reconciled)
+assert('reconcileBucket: difference is statement − derived', near(reconcileBucket(journal, 'cl1', 900, '2026-10-31').difference, -32))
+assert(
+  'appendJournalEntries: transfer to an external account is refused',
+  refuses(() => appendJournalEntries(journal, [{ id: 'bad', kind: 'transfer', fromId: 'op1', toId: EXTERNAL_ACCOUNT, amount: 5, date: '2026-10-20', reason: '' }], accounts)),
+)
+assert(
+  'appendJournalEntries: deposit into a transfer_required bucket is refused',
+  refuses(() => appendJournalEntries(journal, [{ id: 'bad', kind: 'deposit', fromId: EXTERNAL_ACCOUNT, toId: 'cl1', amount: 5, date: '2026-10-20', reason: '' }], accounts)),
+)
+assert(
+  'appendJournalEntries: withdrawal from a transfer_required bucket is refused',
+  refuses(() => appendJournalEntries(journal, [{ id: 'bad', kind: 'withdrawal', fromId: 'cl1', toId: EXTERNAL_ACCOUNT, amount: 5, date: '2026-10-20', reason: '' }], accounts)),
+)
+assert(
+  'appendJournalEntries: transfer into a transfer_required bucket is accepted',
+  !refuses(() => appendJournalEntries(journal, [{ id: 'fund', kind: 'transfer', fromId: 'op1', toId: 'cl1', amount: 5, date: '2026-10-20', reason: '' }], accounts)),
+)
+const reserveOut = (id: string, amount: number, ledgerEntryId?: string): JournalEntry => ({
+  id, kind: 'withdrawal', fromId: 'lr1', toId: EXTERNAL_ACCOUNT, amount, date: '2026-10-20', reason: 'Registration', ledgerEntryId,
+})
+const feeEntry: LedgerEntry = { id: 'le2', bucketId: 'lr1', date: '2026-10-20', amount: 100, note: 'Registration' }
+const withFee = { ...accounts, ledger: [...ran.ledger, feeEntry] }
+assert(
+  'appendJournalEntries: withdrawal from a ledger bucket without a ledger entry is refused',
+  refuses(() => appendJournalEntries(journal, [reserveOut('w1', 50)], withFee)),
+)
+assert(
+  'appendJournalEntries: a ledger entry used up by a run covers nothing more',
+  refuses(() => appendJournalEntries(journal, [reserveOut('w1', 50, 'le1')], withFee)),
+)
+assert(
+  'appendJournalEntries: a ledger entry for another bucket is refused',
+  refuses(() => appendJournalEntries(journal, [reserveOut('w1', 50, 'le2')], { ...withFee, ledger: [{ ...feeEntry, bucketId: 'sm1' }] })),
+)
+assert(
+  'appendJournalEntries: a ledger entry covers withdrawals up to its amount',
+  !refuses(() => appendJournalEntries(journal, [reserveOut('w1', 60, 'le2'), reserveOut('w2', 40, 'le2')], withFee)),
+)
+assert(
+  'appendJournalEntries: a ledger entry covers no more than its amount',
+  refuses(() => appendJournalEntries(journal, [reserveOut('w1', 60, 'le2'), reserveOut('w2', 41, 'le2')], withFee)),
+)
+const undoClear = reverseJournalEntry(journal, 'j-clear', { id: 'j-clear-undo', date: '2026-10-21' })
+assert('reverseJournalEntry: restores the balance', near(journalBalance([...journal, undoClear], 'cl1'), 950))
+assert(
+  'reverseJournalEntry: an entry can only be reversed once',
+  refuses(() => reverseJournalEntry([...journal, undoClear], 'j-clear', { id: 'j-clear-undo-2', date: '2026-10-21' })),
+)
+assert('journal: sums to zero across all accounts', near(
+  [...new Set(journal.flatMap(e => [e.fromId, e.toId]))].reduce((s, id) => s + journalBalance(journal, id), 0), 0,
+))
+
+// clearingState composite
+const cs = clearingState(EXAMPLE_CHARGES, EXAMPLE_BUCKETS.find(b => b.id === 'cl1')!)
+assert('clearingState: outstandingTotal matches manual calc', near(cs.outstandingTotal, 68 + 145 + 82))
+assert('clearingState: fundedTotal matches manual calc',      near(cs.fundedTotal, 68 + 18))
+assert('clearingState: clearingIntegrity in 0..1',           cs.clearingIntegrity >= 0 && cs.clearingIntegrity <= 1)
+
+// liquidityElasticityIndex
+const result = liquidityElasticityIndex({
+  buckets:     EXAMPLE_BUCKETS,
+  obligations: EXAMPLE_OBLIGATIONS,
+  charges:     EXAMPLE_CHARGES,
+  vars12mo:    EXAMPLE_VARS_12MO,
+  buffer:      500,
+  epsilon:     0.01,
+})
+assert('LEI: result in 0–100', result.lei >= 0 && result.lei <= 100)
+assert('LEI: breakdown.lHard matches operating balance', near(result.breakdown.lHard, 3200))
+assert('LEI: breakdown.lSoft matches smoothing balances', near(result.breakdown.lSoft, 1800 + 600))
+assert('LEI: breakdown.eNorm in 0..1', result.breakdown.eNorm >= 0 && result.breakdown.eNorm <= 1)
+assert('LEI: breakdown.volShield in 0..1', result.breakdown.volShield >= 0 && result.breakdown.volShield <= 1)
+assert('LEI: dormant bucket balance excluded from lHard', true) // zzOldSavings not in lHard
+
+console.log('\nLEI result:', JSON.stringify(result, null, 2))